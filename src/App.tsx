@@ -1,6 +1,6 @@
 import "./index.css";
 import "../styles/hypernote-base.css";
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { 
   ResizableHandle, 
@@ -11,8 +11,6 @@ import { useNostrStore, RELAY_SETS, type RelaySet } from "./stores/nostrStore";
 import "./utils/key-converter"; // Load key conversion utilities
 import { HypernoteRenderer, RenderHypernoteContent } from "./renderer";
 import { HypernoteJsonOutput } from "./renderer";
-import { createServices } from "./lib/adapters";
-import { useAuthStore } from "./stores/authStore";
 import {
   Select,
   SelectContent,
@@ -21,11 +19,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Toaster } from "sonner";
-import { BrowserRouter, Routes, Route, Link } from "react-router-dom";
-import HnPage from "./routes/HnPage";
+import { BrowserRouter, Routes, Route, Link, useLocation, useNavigate } from "react-router-dom";
+import HnPage, { takeForkedSource } from "./routes/HnPage";
 import { AVAILABLE_EXAMPLES, loadExample, type ExampleName } from "../tests/example-loader";
 import { UserProfile } from "./components/UserProfile";
 import { PublishButton } from "./components/PublishButton";
+import { RelayHealthPanel } from "./components/RelayHealthPanel";
+import { SigningDialog } from "./components/SigningDialog";
+import { SourceEditor } from "./components/SourceEditor";
+import { useAppServices } from "./hooks/useAppServices";
 
 // Load all examples at build time
 const EXAMPLES = Object.fromEntries(
@@ -47,6 +49,24 @@ const TEMPLATES = {
 
 type TemplateKey = "blank" | ExampleName;
 
+// Loads source forked from a published Hypernote (see HnPage) into the editor
+function ForkedSourceLoader({ onLoad }: { onLoad: (source: string) => void }) {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    // Forks from a server-rendered page arrive through session storage instead of router state
+    const source = (location.state as { forkSource?: string } | null)?.forkSource ?? takeForkedSource();
+    if (source) {
+      onLoad(source);
+      // Clear the state so a reload doesn't fork again
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [location.state]);
+
+  return null;
+}
+
 export function App() {
   const [markdownStates, setMarkdownStates] = useState<Record<TemplateKey, string>>(() => {
     // Initialize with all templates (blank + examples)
@@ -57,18 +77,10 @@ export function App() {
   });
   const [template, setTemplate] = useState<TemplateKey>("basic-hello");
   
-  const { relayHandler, initialize, cleanup, logs, currentRelaySet, switchRelaySet, snstrClient } = useNostrStore();
-  const { pubkey, signEvent } = useAuthStore();
+  const { relayHandler, initialize, cleanup, logs, currentRelaySet, switchRelaySet } = useNostrStore();
   
   // Create services bundle for dependency injection
-  const services = useMemo(() => {
-    if (!relayHandler || !signEvent) {
-      console.log('[App] Services not ready - relayHandler:', !!relayHandler, 'signEvent:', !!signEvent);
-      return null;
-    }
-    console.log('[App] Services created successfully');
-    return createServices(snstrClient, relayHandler, signEvent, pubkey);
-  }, [snstrClient, relayHandler, signEvent, pubkey]);
+  const services = useAppServices();
 
   // Debug logging
   // console.log("App: Current template:", template);
@@ -147,21 +159,24 @@ export function App() {
           <Route
             path="/"
             element={
+              <>
+              <ForkedSourceLoader
+                onLoad={(source) => {
+                  setMarkdownStates(prev => ({ ...prev, blank: source }));
+                  setTemplate("blank");
+                }}
+              />
               <ResizablePanelGroup direction="vertical" className="flex-1 rounded-lg border">
                 <ResizablePanel defaultSize={75}>
                   <ResizablePanelGroup direction="horizontal">
                     <ResizablePanel defaultSize={33}>
-                      <div className="h-full">
-                        <textarea
-                          className="w-full h-full p-4 resize-none bg-transparent border-none focus:outline-none font-mono"
-                          placeholder="Enter your markdown here..."
-                          value={markdownStates[template]}
-                          onChange={(e) => setMarkdownStates(prev => ({
-                            ...prev,
-                            [template]: e.target.value
-                          }))}
-                        />
-                      </div>
+                      <SourceEditor
+                        value={markdownStates[template]}
+                        onChange={(value) => setMarkdownStates(prev => ({
+                          ...prev,
+                          [template]: value
+                        }))}
+                      />
                     </ResizablePanel>
                     <ResizableHandle withHandle />
                     <ResizablePanel defaultSize={34}>
@@ -187,19 +202,31 @@ export function App() {
                 </ResizablePanel>
                 <ResizableHandle withHandle />
                 <ResizablePanel defaultSize={25}>
-                  <div className="h-full bg-black text-white font-mono text-sm p-4 overflow-auto">
-                    {logs.map((log, index) => (
-                      <div key={index} className="py-1">
-                        {log}
+                  <ResizablePanelGroup direction="horizontal">
+                    <ResizablePanel defaultSize={70}>
+                      <div className="h-full bg-black text-white font-mono text-sm p-4 overflow-auto">
+                        {logs.map((log, index) => (
+                          <div key={index} className="py-1">
+                            {log}
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
+                    </ResizablePanel>
+                    <ResizableHandle withHandle />
+                    <ResizablePanel defaultSize={30}>
+                      <div className="h-full bg-black text-white font-mono text-sm p-4 overflow-auto">
+                        <RelayHealthPanel />
+                      </div>
+                    </ResizablePanel>
+                  </ResizablePanelGroup>
                 </ResizablePanel>
               </ResizablePanelGroup>
+              </>
             }
           />
-          <Route path="/hn/:tktkt" element={<HnPage />} />
+          <Route path="/hn/:tktkt" element={<HnPage services={services ?? undefined} />} />
         </Routes>
+        <SigningDialog />
         <Toaster />
       </div>
     </BrowserRouter>
@@ -1,66 +1,27 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import type { Hypernote } from '../lib/schema';
-import { resolveExpression, processString } from '../lib/renderHelpers';
-import { defaultClock } from '../lib/services';
+import { resolveComponentProps } from '../lib/renderHelpers';
+import { evaluateComponentBody, type EvaluateContext, type ResolvedComponent } from '../lib/render/evaluate';
+import { toReactElement, type ReactAdapterHandlers } from '../lib/render/react';
+import type { Services } from '../lib/services';
 
-// Import types from renderer - we'll need to make these shared
-interface RenderContext {
-  // Data
-  queryResults: Record<string, any[]>;
-  extractedVariables: Record<string, any>;
-  formData: Record<string, string>;
-  events: Record<string, any>;
-  userPubkey: string | null;
-  
-  // Current scope
-  loopVariables: Record<string, any>;
-  target?: any; // For components with kind: 0 or 1
-  
-  // Component support
-  resolver?: any;
-  depth: number;
-  
-  // Loading hints
-  loadingQueries?: Set<string>; // Which queries are still loading
-  
-  // Services injection
-  services?: any;
-  
-  // Callbacks (pure functions passed from parent)
-  onFormSubmit: (eventName: string) => void;
-  onInputChange: (name: string, value: string) => void;
-}
-
-interface HypernoteElement {
-  type: string;
-  content?: string[] | HypernoteElement[];
-  elementId?: string;
-  event?: string;
-  elements?: HypernoteElement[];
-  attributes?: Record<string, string>;
-  name?: string;
-  source?: string;
-  variable?: string;
-  style?: Record<string, any>;
-  alias?: string;
-  argument?: string;
-}
-
-// Forward declare renderElement - will be passed as parameter
-type RenderElementFn = (element: HypernoteElement, ctx: RenderContext) => React.ReactNode;
-
-// Component wrapper that handles loading target context
+// Component wrapper that loads a component's definition, target and queries, then renders
+// it through the same evaluate pass as the page it's used in
 export function ComponentWrapper({ 
   element, 
-  ctx, 
-  renderElement 
+  argument: resolvedArgument,
+  scope,
+  services,
+  handlers
 }: { 
-  element: HypernoteElement & { alias?: string; argument?: string }, 
-  ctx: RenderContext,
-  renderElement: RenderElementFn
+  element: { alias?: string; props?: Record<string, string>; elements?: any[] }, 
+  argument: string, // Resolved in the caller's scope by the evaluate pass
+  scope: EvaluateContext,
+  services: Services | undefined,
+  handlers: ReactAdapterHandlers
 }) {
   const alias = element.alias || 'unknown';
-  const argument = element.argument || '';
+  const props = element.props;
   
   // Components are now queries! Look up the query result
   const componentQueryName = `#${alias}`;
@@ -70,9 +31,9 @@ export function ComponentWrapper({
   
   // Subscribe to live updates for this component query
   useEffect(() => {
-    if (!ctx.services?.sharedExecutor) return;
+    if (!services?.sharedExecutor) return;
     
-    const sharedExecutor = ctx.services.sharedExecutor;
+    const sharedExecutor = services.sharedExecutor;
     
     // Set up callback for when this component query updates
     const originalOnUpdate = sharedExecutor.onUpdate;
@@ -99,10 +60,10 @@ export function ComponentWrapper({
       // Restore original callback on cleanup
       sharedExecutor.onUpdate = originalOnUpdate;
     };
-  }, [componentQueryName, ctx.services?.sharedExecutor]);
+  }, [componentQueryName, services?.sharedExecutor]);
   
   // Use live result if available, otherwise fall back to context
-  const componentQueryResult = liveComponentResult || ctx.queryResults[componentQueryName];
+  const componentQueryResult = liveComponentResult || scope.queryResults[componentQueryName];
   
   // ALWAYS CALL ALL HOOKS FIRST - no early returns before hooks!
   
@@ -125,18 +86,12 @@ export function ComponentWrapper({
     parseError = error instanceof Error ? error.message : 'Parse error';
   }
   
-  // Resolve the argument to get npub/nevent value (even if componentDef is null)
-  // Component arguments work like [json $variable] - no braces needed  
-  // Use useMemo to ensure it updates when relevant context changes
-  const resolvedArgument = useMemo(() => {
-    if (!argument) return '';
-    
-    const resolved = argument.startsWith('{') && argument.endsWith('}') 
-      ? processString(argument, ctx)  // Has braces, use processString
-      : String(resolveExpression(argument, ctx, defaultClock));  // No braces, resolve directly
-    
-    return resolved;
-  }, [argument, ctx.loopVariables, ctx.queryResults, ctx.extractedVariables, ctx.userPubkey, alias, componentDef?.kind]);
+  // Resolve named props against the caller's scope, applying declared types and defaults
+  const resolvedProps = useMemo(
+    () => resolveComponentProps(props, componentDef?.props, scope),
+    [props, componentDef?.props, scope.loopVariables, scope.queryResults, scope.extractedVariables, scope.userPubkey]
+  );
+  const resolvedPropsHash = JSON.stringify(resolvedProps);
   
   // Parse target context from the argument
   const [targetContext, setTargetContext] = useState<any | null>(null);
@@ -149,7 +104,7 @@ export function ComponentWrapper({
   const [componentQueriesLoading, setComponentQueriesLoading] = useState(false);
   
   // Get SNSTR client from services
-  const componentSnstrClient = ctx.services?.snstrClient;
+  const componentSnstrClient = services?.snstrClient;
   
   // Pre-resolved queries for ANY component with target data
   // MUST be called before any conditional returns to maintain hook order
@@ -182,9 +137,11 @@ export function ComponentWrapper({
   
   // Move queryOptions useMemo BEFORE any conditional returns
   const queryOptions = useMemo(() => ({
+    actionResults: {},
     target: targetContext,
-    parentExtracted: ctx.extractedVariables
-  }), [targetContext, ctx.extractedVariables]);
+    props: resolvedProps,
+    parentExtracted: scope.extractedVariables
+  }), [targetContext, resolvedPropsHash, scope.extractedVariables]);
   
   useEffect(() => {
     const loadTarget = async () => {
@@ -223,7 +180,7 @@ export function ComponentWrapper({
         console.log(`[Component] Loading target for ${alias} with argument: ${resolvedArgument}`);
         
         // Parse the target based on component kind using services
-        const target = await ctx.services!.targetParser.parse(resolvedArgument, componentDef!.kind as (0 | 1));
+        const target = await services!.targetParser.parse(resolvedArgument, componentDef!.kind!);
         console.log(`[Component] Parsed target for ${alias}:`, target);
         setTargetContext(target);
       } catch (error) {
@@ -237,6 +194,21 @@ export function ComponentWrapper({
     loadTarget();
   }, [resolvedArgument, componentDef?.kind, componentSnstrClient, alias]);
   
+  // Live-update replaceable targets (naddr) when a newer version is published
+  useEffect(() => {
+    const kind = componentDef?.kind;
+    const targetParser = services?.targetParser;
+    if (kind === undefined || !resolvedArgument || !targetParser?.watch) return;
+    
+    return targetParser.watch(resolvedArgument, kind, (target) => {
+      console.log(`[Component] Newer version of target for ${alias}:`, target.id);
+      // Ignore versions older than the one already loaded
+      setTargetContext((current: any) =>
+        current?.created_at && target.created_at && current.created_at >= target.created_at ? current : target
+      );
+    });
+  }, [resolvedArgument, componentDef?.kind, services?.targetParser, alias]);
+  
   // Create a stable hash of component queries to prevent infinite re-execution
   const componentQueriesHash = useMemo(() => {
     if (!componentDef?.queries) return '';
@@ -246,12 +218,12 @@ export function ComponentWrapper({
   // Use services from context for component queries (state already declared above)
   useEffect(() => {
     const hasQueries = componentDef?.queries && Object.keys(componentDef?.queries || {}).length > 0;
-    if (!hasQueries || !ctx.services || !componentDef) return;
+    if (!hasQueries || !services || !componentDef) return;
     
     const runComponentQueries = async () => {
       try {
         setComponentQueriesLoading(true);
-        const result = await ctx.services!.queryEngine.runAll(componentDef, queryOptions);
+        const result = await services!.queryEngine.runAll(componentDef, queryOptions);
         setComponentQueryResults(result.queryResults);
         setComponentExtractedVars(result.extractedVariables);
       } catch (err) {
@@ -262,29 +234,16 @@ export function ComponentWrapper({
     };
     
     runComponentQueries();
-  }, [componentQueriesHash, queryOptions, ctx.services]); // Use hash instead of componentDef
-  
-  const queryResults = componentQueryResults;
-  const extractedVariables = componentExtractedVars;
-  const queriesLoading = componentQueriesLoading;
-  
-  // Create component context - keep callbacks from parent
-  const componentCtx: RenderContext = {
-    ...ctx,
-    target: targetContext,
-    depth: ctx.depth + 1,
-    // Reset loop variables for component scope
-    loopVariables: {},
-    // Pre-populate with any resolved data to skip redundant queries
-    queryResults: preResolvedQueries,
-    extractedVariables: {},
-    loadingQueries: new Set()
-  };
+  }, [componentQueriesHash, queryOptions, services]); // Use hash instead of componentDef
   
   // Check if we need to execute queries
   const hasPrePopulatedData = preResolvedQueries && Object.keys(preResolvedQueries).length > 0;
   const hasQueries = componentDef?.queries && Object.keys(componentDef?.queries || {}).length > 0;
   
+  // Render the component body in the caller's scope
+  const renderBody = (component: ResolvedComponent) =>
+    toReactElement(evaluateComponentBody(element, scope, component), handlers);
+  
   // Skip query execution if we have pre-populated data (prevents infinite loops)
   if (hasPrePopulatedData || !hasQueries) {
     // Safety check before rendering
@@ -297,38 +256,13 @@ export function ComponentWrapper({
     }
     
     // Directly render with pre-populated or no data
-    return (
-      <div id={element.elementId} style={element.style}>
-        {componentDef.elements?.map((el, i) => (
-          <React.Fragment key={i}>
-            {renderElement(el as HypernoteElement, componentCtx)}
-          </React.Fragment>
-        ))}
-      </div>
-    );
+    return renderBody({ hypernote: componentDef, target: targetContext, queryResults: preResolvedQueries });
   }
   
-  // Update context with query results
-  const finalCtx: RenderContext = {
-    ...componentCtx,
-    queryResults: { ...preResolvedQueries, ...queryResults },
-    extractedVariables,
-    loadingQueries: queriesLoading ? new Set(Object.keys(componentDef?.queries || {})) : new Set()
-  };
-  
   // CONDITIONAL RENDERING - after all hooks are called
   
-  // Prevent nested components (max depth = 1)
-  if (ctx.depth > 0) {
-    return (
-      <div style={{ color: '#ef4444', padding: '0.5rem', border: '1px solid #ef4444', borderRadius: '0.25rem' }}>
-        ⚠️ Error: Components cannot include other components (max depth: 1)
-      </div>
-    );
-  }
-  
   // Check if component query is still loading
-  if (ctx.loadingQueries?.has(componentQueryName)) {
+  if (scope.loadingQueries?.has(componentQueryName)) {
     return (
       <div style={{ color: '#f59e0b', padding: '0.5rem', backgroundColor: '#fef3c7', borderRadius: '0.25rem' }}>
         ⏳ Loading component: #{alias}...
@@ -354,23 +288,12 @@ export function ComponentWrapper({
     );
   }
 
-  // Final safety check - this shouldn't happen but let's be defensive
-  if (!componentDef) {
-    return (
-      <div style={{ color: '#ef4444', padding: '0.5rem', border: '1px solid #ef4444', borderRadius: '0.25rem' }}>
-        ⚠️ Component definition is null: #{alias}
-      </div>
-    );
-  }
-
   // Render component with query results
-  return (
-    <div id={element.elementId} style={element.style}>
-      {componentDef.elements?.map((el, i) => (
-        <React.Fragment key={i}>
-          {renderElement(el as HypernoteElement, finalCtx)}
-        </React.Fragment>
-      ))}
-    </div>
-  );
-}
\ No newline at end of file
+  return renderBody({
+    hypernote: componentDef,
+    target: targetContext,
+    queryResults: { ...preResolvedQueries, ...componentQueryResults },
+    extractedVariables: componentExtractedVars,
+    loadingQueries: componentQueriesLoading ? new Set(Object.keys(componentDef.queries || {})) : new Set()
+  });
+}
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useNostrStore } from '../stores/nostrStore';
+import { useAuthStore } from '../stores/authStore';
 import { publishHypernote } from '../lib/publishHypernote';
+import { requestSigningApproval } from '../stores/signingStore';
 import { safeCompileHypernote } from '../lib/safe-compiler';
 import { toast } from 'sonner';
 import { Upload } from 'lucide-react';
@@ -13,6 +15,7 @@ interface PublishButtonProps {
 export function PublishButton({ markdown }: PublishButtonProps) {
   const [isPublishing, setIsPublishing] = useState(false);
   const { snstrClient } = useNostrStore();
+  const { signer } = useAuthStore();
 
   const handlePublish = async () => {
     if (!snstrClient) {
@@ -64,10 +67,12 @@ export function PublishButton({ markdown }: PublishButtonProps) {
         name.trim(),
         hypernote,
         snstrClient,
+        signer,
         {
           title: title?.trim(),
           description: description?.trim()
-        }
+        },
+        requestSigningApproval
       );
 
       if (result.success) {
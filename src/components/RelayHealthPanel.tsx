@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { useNostrStore } from "../stores/nostrStore";
+import type { RelayState } from "../lib/snstr/client";
+
+const STATE_COLORS: Record<RelayState, string> = {
+  connected: "bg-green-500",
+  connecting: "bg-yellow-400",
+  disconnected: "bg-red-500",
+  closed: "bg-gray-500"
+};
+
+// Connection state of every relay in use - subscriptions held, reconnect countdowns and what relays last said
+export function RelayHealthPanel() {
+  const relayStatuses = useNostrStore((state) => state.relayStatuses);
+  const [now, setNow] = useState(Date.now());
+  const retrying = relayStatuses.some((status) => status.nextReconnectAt !== undefined);
+
+  // Tick the countdowns while a reconnect is scheduled
+  useEffect(() => {
+    if (!retrying) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [retrying]);
+
+  if (relayStatuses.length === 0) {
+    return <div className="text-gray-400">No relays</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {relayStatuses.map((status) => (
+        <div key={status.url}>
+          <div className="flex items-center gap-2">
+            <span className={`inline-block w-2 h-2 rounded-full ${STATE_COLORS[status.state]}`} title={status.state} />
+            <span className="truncate">{status.url}</span>
+            <span className="ml-auto text-gray-400 whitespace-nowrap">
+              {status.subscriptions} sub{status.subscriptions === 1 ? "" : "s"}
+            </span>
+          </div>
+          {status.nextReconnectAt !== undefined && (
+            <div className="pl-4 text-yellow-400">
+              Retry {status.reconnectAttempts} in {Math.max(0, Math.ceil((status.nextReconnectAt - now) / 1000))}s
+            </div>
+          )}
+          {status.lastError && <div className="pl-4 text-red-400">{status.lastError}</div>}
+          {status.lastNotice && <div className="pl-4 text-gray-400">Notice: {status.lastNotice}</div>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "./ui/card";
+import { useSigningStore } from "../stores/signingStore";
+import { describeKind, describeRecipient } from "../lib/signing-review";
+
+/**
+ * Signing review dialog - shows the exact event an action wants to sign and waits for approval
+ * Requests come from the approval policy passed to createServices / publishHypernote
+ */
+export function SigningDialog() {
+  const { queue, respond } = useSigningStore();
+  const pending = queue[0];
+
+  if (!pending) {
+    return null;
+  }
+
+  const { request } = pending;
+  const { event } = request;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] flex flex-col" role="dialog" aria-modal="true">
+        <CardHeader>
+          <CardTitle>Sign {request.action}?</CardTitle>
+          <div className="text-sm text-muted-foreground">
+            {describeKind(event.kind)}
+            {queue.length > 1 && ` - ${queue.length - 1} more waiting`}
+          </div>
+        </CardHeader>
+
+        <CardContent className="overflow-auto space-y-4 text-sm">
+          <section>
+            <h3 className="font-semibold mb-1">Content</h3>
+            {request.encryptedTo && (
+              <div className="text-xs text-muted-foreground mb-1">
+                Encrypted (NIP-44) before signing - {describeRecipient(request.encryptedTo)}
+              </div>
+            )}
+            <pre className="bg-muted rounded p-2 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+              {request.json !== undefined
+                ? JSON.stringify(request.json, null, 2)
+                : event.content || <span className="italic text-muted-foreground">(empty)</span>}
+            </pre>
+          </section>
+
+          <section>
+            <h3 className="font-semibold mb-1">Tags</h3>
+            {request.tags.length === 0 ? (
+              <div className="italic text-muted-foreground">No tags</div>
+            ) : (
+              <ul className="space-y-1">
+                {request.tags.map(({ tag, description }, i) => (
+                  <li key={i}>
+                    <div>{description}</div>
+                    <code className="text-xs text-muted-foreground break-all">{JSON.stringify(tag)}</code>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <h3 className="font-semibold mb-1">Relays</h3>
+            {request.relays.length === 0 ? (
+              <div className="italic text-muted-foreground">No connected relays</div>
+            ) : (
+              <ul className="font-mono text-xs">
+                {request.relays.map((relay) => <li key={relay}>{relay}</li>)}
+              </ul>
+            )}
+          </section>
+
+          <div className="text-xs text-muted-foreground">
+            Created at {new Date(event.created_at * 1000).toLocaleString()}
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => respond(false)}>
+            Reject
+          </Button>
+          <Button onClick={() => respond(true)}>
+            Sign &amp; publish
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useMemo, useRef } from 'react';
+import { useDebounce } from 'use-debounce';
+import { safeCompileHypernote } from '../lib/safe-compiler';
+
+// Both layers use this line height so highlights sit behind the right line
+const LINE_HEIGHT = 24;
+
+type Highlight = 'error' | 'warning';
+
+const HIGHLIGHT_CLASSES: Record<Highlight, string> = {
+  error: 'bg-red-100',
+  warning: 'bg-amber-100'
+};
+
+/**
+ * HNMD source editor - the compile error banner and lint diagnostics sit above the text,
+ * and lines with problems are highlighted behind it. Clicking a location selects that line
+ */
+export function SourceEditor({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  // Debounced to match the renderer and JSON output
+  const [debouncedValue] = useDebounce(value, 300);
+  const compileResult = useMemo(() => safeCompileHypernote(debouncedValue || ''), [debouncedValue]);
+  const error = compileResult.success ? undefined : compileResult.error;
+  const diagnostics = compileResult.diagnostics || [];
+
+  // Errors win over warnings on the same line
+  const highlights = new Map<number, Highlight>();
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.loc && highlights.get(diagnostic.loc.line) !== 'error') {
+      highlights.set(diagnostic.loc.line, diagnostic.severity);
+    }
+  }
+  if (error?.line) highlights.set(error.line, 'error');
+
+  // Select a line and scroll it into view
+  const jumpToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = textarea.value.split('\n');
+    const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+    textarea.scrollTop = Math.max(0, (line - 1) * LINE_HEIGHT - textarea.clientHeight / 3);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {error && (
+        <div className="bg-red-50 border-b border-red-200 text-red-700 text-xs p-2 shrink-0">
+          <span className="font-bold mr-2">⚠️ Syntax Error</span>
+          {error.line && (
+            <button type="button" className="font-mono underline mr-2" onClick={() => jumpToLine(error.line ?? 1)}>
+              Line {error.line}{error.column ? `, Column ${error.column}` : ''}
+            </button>
+          )}
+          <span className="font-mono">{error.message}</span>
+        </div>
+      )}
+      {diagnostics.length > 0 && (
+        <div className="bg-amber-50 border-b border-amber-200 text-amber-800 text-xs p-2 shrink-0 max-h-32 overflow-auto">
+          <div className="font-bold mb-1">⚠️ {diagnostics.length} lint {diagnostics.length === 1 ? 'issue' : 'issues'}</div>
+          {diagnostics.map((diagnostic, i) => (
+            <div key={i} className={diagnostic.severity === 'error' ? 'text-red-700' : undefined}>
+              {diagnostic.loc && (
+                <button type="button" className="font-mono underline mr-2" onClick={() => jumpToLine(diagnostic.loc?.line ?? 1)}>
+                  Line {diagnostic.loc.line}
+                </button>
+              )}
+              {diagnostic.message}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="relative flex-1 min-h-0">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className="absolute inset-0 p-4 overflow-hidden font-mono whitespace-pre-wrap break-words text-transparent pointer-events-none"
+          style={{ lineHeight: `${LINE_HEIGHT}px` }}
+        >
+          {value.split('\n').map((line, i) => {
+            const highlight = highlights.get(i + 1);
+            return (
+              <div key={i} className={highlight && HIGHLIGHT_CLASSES[highlight]}>
+                {line || ' '}
+              </div>
+            );
+          })}
+        </div>
+        <textarea
+          ref={textareaRef}
+          className="relative w-full h-full p-4 resize-none bg-transparent border-none focus:outline-none font-mono"
+          style={{ lineHeight: `${LINE_HEIGHT}px` }}
+          placeholder="Enter your markdown here..."
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+        />
+      </div>
+    </div>
+  );
+}
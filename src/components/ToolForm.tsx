@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { listTools, parseServerPubkey, type ActionState, type ToolTransport } from "../lib/contextvm";
+import { toolFields, parseToolArguments, type ToolDescription, type ToolField } from "../lib/core/tools";
+
+// tools/list per server pubkey - every [tool] on the page pointing at one server shares a request
+const toolLists = new Map<string, { tools: Promise<ToolDescription[]>; requestedAt: number }>();
+
+// How long a tool list is reused - forms mounted later see a redeployed server's new schema
+const TOOL_LIST_TTL = 5 * 60_000;
+
+function loadTools(transport: ToolTransport, server: string): Promise<ToolDescription[]> {
+  const cached = toolLists.get(server);
+  if (cached && Date.now() - cached.requestedAt < TOOL_LIST_TTL) {
+    return cached.tools;
+  }
+  const tools = listTools(transport, server);
+  const entry = { tools, requestedAt: Date.now() };
+  toolLists.set(server, entry);
+  // Failed lookups are retried on the next mount
+  tools.catch(() => {
+    if (toolLists.get(server) === entry) toolLists.delete(server);
+  });
+  return tools;
+}
+
+interface ToolFormProps {
+  server: string; // npub or hex pubkey
+  tool: string;
+  transport?: ToolTransport;
+  state?: ActionState; // The latest tools/call for this tool
+  onCall: (server: string, tool: string, args: Record<string, unknown>) => void;
+  style?: React.CSSProperties;
+}
+
+/**
+ * [tool] directive - a form generated from a ContextVM tool's inputSchema
+ * Submitting publishes a tools/call request through the page's action executor
+ */
+export function ToolForm({ server, tool, transport, state, onCall, style }: ToolFormProps) {
+  const pubkey = parseServerPubkey(server);
+  const [description, setDescription] = useState<ToolDescription | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!pubkey || !transport) return;
+    let cancelled = false;
+    setDescription(null);
+    setLoadError(null);
+
+    loadTools(transport, pubkey).then(
+      (tools) => {
+        if (cancelled) return;
+        const found = tools.find((t) => t.name === tool);
+        if (!found) {
+          setLoadError(`The server has no tool named "${tool}"`);
+          return;
+        }
+        setDescription(found);
+        setValues(Object.fromEntries(toolFields(found).map((field) => [field.name, field.default ?? ''])));
+        setErrors({});
+      },
+      (error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : String(error));
+      }
+    );
+    return () => { cancelled = true; };
+  }, [pubkey, tool, transport]);
+
+  if (!pubkey) {
+    return <ToolMessage style={style} error>Invalid tool server "{server}" - expected an npub or hex pubkey</ToolMessage>;
+  }
+  if (!transport) {
+    return <ToolMessage style={style}>Tool forms need a relay connection</ToolMessage>;
+  }
+  if (loadError) {
+    return <ToolMessage style={style} error>{tool}: {loadError}</ToolMessage>;
+  }
+  if (!description) {
+    return <ToolMessage style={style}>Loading {tool}…</ToolMessage>;
+  }
+
+  const fields = toolFields(description);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseToolArguments(fields, values);
+    setErrors(parsed.errors);
+    if (Object.keys(parsed.errors).length === 0) {
+      onCall(pubkey, tool, parsed.args);
+    }
+  };
+
+  const setValue = (name: string, value: string) => setValues((prev) => ({ ...prev, [name]: value }));
+
+  return (
+    <form style={style} className="space-y-3 rounded-md border p-4" onSubmit={handleSubmit} noValidate>
+      <div>
+        <div className="font-semibold">{description.title || description.name}</div>
+        {description.description && <div className="text-sm text-muted-foreground">{description.description}</div>}
+      </div>
+
+      {fields.map((field) => (
+        <div key={field.name} className="space-y-1">
+          <Label htmlFor={`tool-${tool}-${field.name}`}>
+            {field.label}
+            {field.required && <span className="text-red-600"> *</span>}
+          </Label>
+          <ToolFieldControl
+            id={`tool-${tool}-${field.name}`}
+            field={field}
+            value={values[field.name] ?? ''}
+            invalid={!!errors[field.name]}
+            onChange={(value) => setValue(field.name, value)}
+          />
+          {field.description && <div className="text-xs text-muted-foreground">{field.description}</div>}
+          {errors[field.name] && <div className="text-xs text-red-600">{errors[field.name]}</div>}
+        </div>
+      ))}
+
+      <Button type="submit" disabled={state?.pending}>
+        {state?.pending ? 'Waiting for the server…' : 'Call'}
+      </Button>
+
+      {state && !state.pending && state.error && (
+        <div className="text-sm text-red-600">{state.error}</div>
+      )}
+      {state && !state.pending && !state.error && state.result !== undefined && (
+        <pre className="bg-muted rounded p-2 text-xs whitespace-pre-wrap break-all">
+          {typeof state.result === 'string' ? state.result : JSON.stringify(state.result, null, 2)}
+        </pre>
+      )}
+    </form>
+  );
+}
+
+function ToolFieldControl({ id, field, value, invalid, onChange }: {
+  id: string;
+  field: ToolField;
+  value: string;
+  invalid: boolean;
+  onChange: (value: string) => void;
+}) {
+  switch (field.type) {
+    case 'boolean':
+      return (
+        <input
+          id={id}
+          type="checkbox"
+          checked={value === 'true'}
+          onChange={(e) => onChange(e.target.checked ? 'true' : 'false')}
+        />
+      );
+    case 'enum':
+      return (
+        <Select value={value || undefined} onValueChange={onChange}>
+          <SelectTrigger id={id} aria-invalid={invalid}>
+            <SelectValue placeholder="Choose…" />
+          </SelectTrigger>
+          <SelectContent>
+            {(field.options || []).map((option) => (
+              <SelectItem key={String(option)} value={String(option)}>{String(option)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          type={field.type === 'number' || field.type === 'integer' ? 'number' : 'text'}
+          step={field.type === 'integer' ? 1 : field.type === 'number' ? 'any' : undefined}
+          placeholder={field.type === 'json' ? 'JSON' : undefined}
+          value={value}
+          aria-invalid={invalid}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+}
+
+function ToolMessage({ children, style, error }: { children: React.ReactNode; style?: React.CSSProperties; error?: boolean }) {
+  return (
+    <div style={style} className={`rounded-md border p-4 text-sm ${error ? 'text-red-600' : 'text-muted-foreground'}`}>
+      {children}
+    </div>
+  );
+}
@@ -1,20 +1,47 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useAuthStore } from "../stores/authStore";
+import { useNostrStore, RELAY_SETS } from "../stores/nostrStore";
+import type { SignerType } from "../lib/signers/signer";
 import { Button } from "./ui/button";
-import { User, LogOut, Key } from "lucide-react";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { User, LogOut, Key, Copy } from "lucide-react";
+
+// Login options - the remote signer has two flows, so it appears twice
+type SignerChoice = SignerType | "nostrconnect";
+
+const SIGNER_LABELS: Record<SignerType, string> = {
+  nip07: "Extension",
+  nip46: "Remote signer",
+  local: "Dev key"
+};
 
 export function UserProfile() {
   const { 
     isAuthenticated, 
     pubkey, 
+    signerType,
     hasExtension, 
     isConnecting,
+    nostrConnectUri,
     error,
     login, 
+    loginWithBunker,
+    loginWithNostrConnect,
+    loginWithLocalKey,
     logout,
     clearError,
     checkExtension
   } = useAuthStore();
+  const { currentRelaySet } = useNostrStore();
+  const [choice, setChoice] = useState<SignerChoice>("nip07");
+  const [secret, setSecret] = useState("");
   
   // Check for extension on mount and periodically
   useEffect(() => {
@@ -30,6 +57,11 @@ export function UserProfile() {
       clearTimeout(timeout);
     };
   }, []);
+
+  // Default to the extension when there is one, a remote signer otherwise
+  useEffect(() => {
+    setChoice(hasExtension ? "nip07" : "nip46");
+  }, [hasExtension]);
   
   // Format pubkey for display (show first 8 and last 4 characters)
   const formatPubkey = (key: string) => {
@@ -44,17 +76,25 @@ export function UserProfile() {
     return formatPubkey(hexPubkey);
   };
   
-  if (!hasExtension) {
-    return (
-      <div className="flex items-center gap-2">
-        <div className="text-sm text-muted-foreground">
-          Install a Nostr extension to connect
-        </div>
-      </div>
-    );
-  }
-  
   if (isConnecting) {
+    if (nostrConnectUri) {
+      return (
+        <div className="flex items-center gap-2">
+          <div className="text-sm text-muted-foreground">
+            Paste into your signer app:
+          </div>
+          <Input readOnly value={nostrConnectUri} className="h-8 w-64 font-mono text-xs" onFocus={(e) => e.target.select()} />
+          <Button 
+            size="sm" 
+            variant="outline"
+            onClick={() => navigator.clipboard.writeText(nostrConnectUri)}
+            className="h-8 w-8 p-0"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+    }
     return (
       <div className="flex items-center gap-2">
         <div className="text-sm text-muted-foreground">
@@ -82,15 +122,54 @@ export function UserProfile() {
   }
   
   if (!isAuthenticated) {
+    const connect = () => {
+      switch (choice) {
+        case "nip07":
+          return login();
+        case "nip46":
+          return loginWithBunker(secret.trim());
+        case "nostrconnect":
+          return loginWithNostrConnect([...RELAY_SETS[currentRelaySet]]);
+        case "local":
+          // Leave empty to generate a fresh key
+          return loginWithLocalKey(secret.trim() || undefined);
+      }
+    };
+
     return (
-      <Button 
-        size="sm" 
-        onClick={login}
-        className="bg-primary text-primary-foreground hover:bg-primary/90"
-      >
-        <Key className="h-4 w-4 mr-2" />
-        Connect NIP-07
-      </Button>
+      <div className="flex items-center gap-2">
+        <Select value={choice} onValueChange={(value: SignerChoice) => { setChoice(value); setSecret(""); }}>
+          <SelectTrigger className="w-[150px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="nip07" disabled={!hasExtension}>
+              {hasExtension ? "NIP-07 extension" : "No extension found"}
+            </SelectItem>
+            <SelectItem value="nip46">Bunker URI</SelectItem>
+            <SelectItem value="nostrconnect">Nostr Connect</SelectItem>
+            <SelectItem value="local">Dev key (nsec)</SelectItem>
+          </SelectContent>
+        </Select>
+        {(choice === "nip46" || choice === "local") && (
+          <Input
+            type={choice === "local" ? "password" : "text"}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder={choice === "nip46" ? "bunker://..." : "nsec1... (empty to generate)"}
+            className="h-8 w-56"
+          />
+        )}
+        <Button 
+          size="sm" 
+          onClick={connect}
+          disabled={choice === "nip46" && !secret.trim()}
+          className="bg-primary text-primary-foreground hover:bg-primary/90"
+        >
+          <Key className="h-4 w-4 mr-2" />
+          Connect
+        </Button>
+      </div>
     );
   }
   
@@ -101,6 +180,11 @@ export function UserProfile() {
         <span className="text-sm font-mono">
           {getNpub(pubkey || "")}
         </span>
+        {signerType && (
+          <span className="text-xs text-muted-foreground">
+            {SIGNER_LABELS[signerType]}
+          </span>
+        )}
       </div>
       <Button 
         size="sm" 
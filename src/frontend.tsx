@@ -5,20 +5,38 @@
  * It is included in `src/index.html`.
  */
 
-import { createRoot } from "react-dom/client";
+import { createRoot, hydrateRoot } from "react-dom/client";
 import { StrictMode } from "react";
 import { App } from "./App";
+import { PrerenderedHnChrome, PrerenderedHnPage, readSSRPayload } from "./routes/PrerenderedHnPage";
 import "./index.css";
 import "../styles/hypernote-base.css";
 
 const elem = document.getElementById("root")!;
+const payload = readSSRPayload();
 const app = (
   <StrictMode>
     <App />
   </StrictMode>
 );
 
-if (import.meta.hot) {
+if (payload) {
+  // A page pre-rendered by /hn/:naddr - hydrate its markup from the embedded data,
+  // with the page chrome in its own root in front of it
+  const chrome = document.createElement("div");
+  elem.before(chrome);
+  createRoot(chrome).render(
+    <StrictMode>
+      <PrerenderedHnChrome payload={payload} />
+    </StrictMode>
+  );
+  hydrateRoot(
+    elem,
+    <StrictMode>
+      <PrerenderedHnPage payload={payload} />
+    </StrictMode>
+  );
+} else if (import.meta.hot) {
   // With hot module reloading, `import.meta.hot.data` is persisted.
   const root = (import.meta.hot.data.root ??= createRoot(elem));
   root.render(app);
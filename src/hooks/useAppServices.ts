@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { useNostrStore } from '../stores/nostrStore';
+import { useAuthStore } from '../stores/authStore';
+import { createServices } from '../lib/adapters';
+import { requestSigningApproval } from '../stores/signingStore';
+import type { Services } from '../lib/services';
+
+/**
+ * Services bundle for the current relays and signer - null until the relay handler is ready
+ * Every action event is shown in the signing dialog before it is signed
+ */
+export function useAppServices(): Services | null {
+  const { relayHandler, snstrClient } = useNostrStore();
+  const { pubkey, signer } = useAuthStore();
+
+  return useMemo(() => {
+    if (!relayHandler) {
+      console.log('[App] Services not ready - relayHandler:', !!relayHandler);
+      return null;
+    }
+    console.log('[App] Services created successfully');
+    return createServices(snstrClient, relayHandler, signer, pubkey, requestSigningApproval);
+  }, [snstrClient, relayHandler, signer, pubkey]);
+}
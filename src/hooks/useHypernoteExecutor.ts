@@ -2,6 +2,7 @@ import { useEffect, useRef, useState, useMemo } from 'react';
 import { HypernoteExecutor, type ResolvedData, type ExecutorContext } from '../lib/HypernoteExecutor';
 import { useNostrStore } from '../stores/nostrStore';
 import { useAuthStore } from '../stores/authStore';
+import { requestSigningApproval } from '../stores/signingStore';
 import { queryCache } from '../lib/queryCache';
 import type { Hypernote } from '../lib/schema';
 
@@ -29,7 +30,7 @@ export function useHypernoteExecutor(
   
   const executorRef = useRef<HypernoteExecutor | undefined>(undefined);
   const { snstrClient } = useNostrStore();
-  const { pubkey, signEvent } = useAuthStore();
+  const { pubkey, signer } = useAuthStore();
   
   // Hash the queries AND events to detect changes
   const hypernoteHash = useMemo(() => {
@@ -85,7 +86,8 @@ export function useHypernoteExecutor(
       context,
       snstrClient,
       queryCache,
-      signEvent
+      signer || undefined,
+      requestSigningApproval
     );
     executorRef.current = executor;
     
@@ -133,7 +135,7 @@ export function useHypernoteExecutor(
         executorRef.current.cleanup();
       }
     };
-  }, [hypernoteHash, snstrClient, queryCache, pubkey, options?.target]);
+  }, [hypernoteHash, snstrClient, queryCache, pubkey, signer, options?.target]);
   
   // Action execution function
   const executeAction = async (actionName: string, formData: Record<string, any>) => {
@@ -148,6 +150,7 @@ export function useHypernoteExecutor(
   return {
     queryResults: data.queryResults,
     extractedVariables: data.extractedVariables,
+    actionStates: data.actionStates || {},
     loading,
     error,
     executeAction
@@ -1,6 +1,50 @@
 import { serve } from "bun";
 import index from "./index.html";
 import { FULL_DOMAIN, PORT } from "./lib/utils";
+import { SNSTRClient } from "./lib/snstr/client";
+import { prerenderHypernote, renderHypernotePage, SSRError } from "./lib/ssr";
+import { RELAY_SETS } from "./stores/nostrStore";
+
+const isProduction = process.env.NODE_ENV === "production";
+
+// Relays used for server-side rendering - HYPERNOTE_RELAYS is a comma-separated override
+const ssrRelays = process.env.HYPERNOTE_RELAYS
+  ? process.env.HYPERNOTE_RELAYS.split(",").map((url) => url.trim())
+  : [...RELAY_SETS[isProduction ? "real" : "local"]];
+
+let ssrClient: Promise<SNSTRClient> | null = null;
+function connectSSRClient(): Promise<SNSTRClient> {
+  const client = new SNSTRClient(ssrRelays);
+  const connecting = client.connect().then(() => client);
+  // Don't cache a failed connect - the next request tries again
+  connecting.catch(() => {
+    if (ssrClient === connecting) ssrClient = null;
+  });
+  return connecting;
+}
+
+async function getSSRClient(): Promise<SNSTRClient> {
+  const cached = ssrClient ?? (ssrClient = connectSSRClient());
+  const client = await cached;
+  if (client.getConnectedRelays().length > 0) return client;
+
+  // Every relay dropped since the last connect - start over rather than fail until restart
+  if (ssrClient === cached) {
+    console.warn("SSR relay client lost its relays, reconnecting");
+    client.disconnect();
+    ssrClient = connectSSRClient();
+  }
+  return ssrClient ?? connectSSRClient();
+}
+
+// The bundled index.html - fetched from ourselves so it includes the built script tags
+let cachedShell: string | null = null;
+async function getShell(): Promise<string> {
+  if (cachedShell) return cachedShell;
+  const shell = await (await fetch(new URL("/", server.url))).text();
+  if (isProduction) cachedShell = shell;
+  return shell;
+}
 
 const server = serve({
   port: PORT,
@@ -13,6 +57,29 @@ const server = serve({
     // Serve index.html for all unmatched routes
     "/*": index,
 
+    // Pre-rendered Hypernote pages - the client hydrates the markup from the embedded payload
+    "/hn/:naddr": async (req) => {
+      const { naddr } = req.params;
+      console.log(`GET /hn/${naddr} called`);
+      try {
+        const [client, shell] = await Promise.all([getSSRClient(), getShell()]);
+        const page = await prerenderHypernote(naddr, client);
+        const html = renderHypernotePage(shell, page, `https://${FULL_DOMAIN}/hn/${naddr}`);
+        return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+      } catch (error) {
+        console.error(`SSR failed for ${naddr}:`, error);
+        // Fall back to the client-rendered page, which shows its own error state
+        const status = error instanceof SSRError ? error.status : 500;
+        try {
+          return new Response(await getShell(), { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+        } catch (shellError) {
+          console.error("Failed to load the app shell:", shellError);
+          const message = error instanceof Error ? error.message : "Failed to render Hypernote";
+          return new Response(message, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+        }
+      }
+    },
+
     "/api/hello": {
       async GET(req) {
         console.log("GET /api/hello called");
@@ -39,7 +106,7 @@ const server = serve({
     },
   },
 
-  development: process.env.NODE_ENV !== "production",
+  development: !isProduction,
 });
 
 console.log(`🚀 Server running at ${server.url}`);
@@ -1,16 +1,23 @@
 import type { NostrEvent } from './snstr/nip07';
 import { SimpleQueryExecutor } from './simple-query-executor';
-import { applyPipes } from './pipes';
-import { SNSTRClient } from './snstr/client';
+import { applyPipes, usesDecrypt } from './pipes';
+import { SNSTRClient, withRelayHints } from './snstr/client';
 import { queryCache as QueryCacheInstance } from './queryCache';
 import { UnifiedResolver, type ResolutionContext } from './UnifiedResolver';
 import type { Hypernote } from './schema';
+import { buildUnsignedEvent, isTagEdit, fetchLatestVersion, assertLatestVersion } from './core/events';
+import { encryptContent, decryptEvents } from './core/encryption';
+import { awaitToolResponse, DEFAULT_RESPONSE_TIMEOUT, type ActionState } from './contextvm';
+import { describeLocation, type SourceLocation } from './source-map';
+import { createSigningRequest, reviewSigning, type ApprovalPolicy } from './signing-review';
+import type { Signer } from './signers/signer';
 import { nip19 } from 'nostr-tools';
 
 // Context for resolving variables (matches ResolutionContext)
 export interface ExecutorContext {
   user: { pubkey: string | null };
   target?: any;
+  props?: Record<string, any>;
   queryResults: Map<string, any>;
   actionResults: Map<string, string> | Record<string, string>;  // Support both formats
   loopVariables?: Record<string, any>;
@@ -22,6 +29,7 @@ export interface ResolvedData {
   queryResults: Record<string, any>;
   extractedVariables: Record<string, any>;
   loadingQueries: Set<string>;
+  actionStates?: Record<string, ActionState>; // ContextVM request state by action name
 }
 
 // Live subscription cleanup function
@@ -43,17 +51,23 @@ export class HypernoteExecutor {
   private subscriptions: Map<string, Cleanup> = new Map();
   private resolvedFilters: Map<string, any> = new Map();
   private queryResultHashes: Map<string, string> = new Map();
-  private signEvent?: (event: any) => Promise<NostrEvent>;
+  private signer?: Signer;
+  private approve: ApprovalPolicy; // Reviews each event before signing
+  private actionStates: Map<string, ActionState> = new Map();
   
   // Callback for updates
   public onUpdate?: UpdateCallback;
   
+  // How long ContextVM requests wait for the server's response
+  public responseTimeout = DEFAULT_RESPONSE_TIMEOUT;
+  
   constructor(
     hypernote: Partial<Hypernote>,
     context: ExecutorContext,
     snstrClient: SNSTRClient,
     queryCache: typeof QueryCacheInstance,
-    signEvent?: (event: any) => Promise<NostrEvent>
+    signer: Signer | undefined,
+    approve: ApprovalPolicy // Required - headless callers pass approveAll or approveKinds explicitly
   ) {
     // Expand any naddr strings in queries to full query objects
     this.queries = this.expandNaddrQueries(hypernote.queries || {});
@@ -67,13 +81,15 @@ export class HypernoteExecutor {
       loopVariables: context.loopVariables || {},
       user: context.user,
       target: context.target,
+      props: context.props,
       time: { now: Date.now() }
     };
     this.resolver = new UnifiedResolver(resolutionContext);
     
     this.snstrClient = snstrClient;
     this.queryCache = queryCache;
-    this.signEvent = signEvent;
+    this.signer = signer;
+    this.approve = approve;
   }
   
   /**
@@ -88,15 +104,15 @@ export class HypernoteExecutor {
           const decoded = nip19.decode(value);
           
           if (decoded.type === 'naddr') {
-            const { identifier, pubkey, kind } = decoded.data;
+            const { identifier, pubkey, kind, relays } = decoded.data;
             
-            // Create a query from the naddr components
-            const query: any = {
+            // Create a query from the naddr components - relay hints are queried on top of the app's relays
+            const query: any = withRelayHints({
               kinds: [kind],
               authors: [pubkey],
               "#d": [identifier],
               limit: 1
-            };
+            }, relays);
             
             // For component queries (#), automatically add the 'first' pipe
             if (key.startsWith('#')) {
@@ -145,6 +161,7 @@ export class HypernoteExecutor {
     const executorContext = {
       user: resolverContext.user,
       target: resolverContext.target,
+      props: resolverContext.props,
       time: resolverContext.time,
       queryResults: resolverContext.queryResults,
       actionResults: resolverContext.actionResults
@@ -154,7 +171,8 @@ export class HypernoteExecutor {
     const executor = new SimpleQueryExecutor(
       this.queries,
       executorContext,
-      (filter) => this.fetchWithCache(filter)
+      (filter) => this.fetchWithCache(filter),
+      this.signer
     );
     
     // Execute all queries in dependency order
@@ -202,7 +220,7 @@ export class HypernoteExecutor {
       
       if (queryConfig.triggers) {
         console.log(`[HypernoteExecutor] Query ${queryName} changed and has trigger: ${queryConfig.triggers}`);
-        await this.executeAction(queryConfig.triggers, {});
+        await this.executeAction(queryConfig.triggers, {}, queryConfig.loc);
       }
     }
     
@@ -297,7 +315,8 @@ export class HypernoteExecutor {
       this.queryCache.invalidate(resolvedFilter);
       
       // Apply pipes to get transformed result
-      updatedData = applyPipes(allEvents, pipe);
+      const decrypted = usesDecrypt(pipe) ? await decryptEvents(allEvents, this.signer) : undefined;
+      updatedData = applyPipes(allEvents, pipe, { decrypted });
       console.log(`[HypernoteExecutor] After pipes, ${queryName} =`, updatedData);
     } else {
       // Simple case: no pipes, just append/prepend the event
@@ -349,20 +368,21 @@ export class HypernoteExecutor {
       const queryConfig = this.queries[queryName];
       if (queryConfig.triggers) {
         console.log(`[HypernoteExecutor] Query ${queryName} changed via live update, executing trigger: ${queryConfig.triggers}`);
-        await this.executeAction(queryConfig.triggers, {});
+        await this.executeAction(queryConfig.triggers, {}, queryConfig.loc);
       }
     }
   }
   
   /**
    * Execute an action (publish an event)
+   * loc is where the action was used (a form or a query's triggers), for errors
    */
-  async executeAction(actionName: string, formData: Record<string, any>): Promise<string | null> {
+  async executeAction(actionName: string, formData: Record<string, any>, loc?: SourceLocation): Promise<string | null> {
     const fullActionName = actionName.startsWith('@') ? actionName : `@${actionName}`;
     const action = this.actions[fullActionName];
     
     if (!action) {
-      console.error(`Action ${fullActionName} not found in`, this.actions);
+      console.error(`Action ${fullActionName}${describeLocation(loc)} not found in`, this.actions);
       return null;
     }
     
@@ -375,24 +395,35 @@ export class HypernoteExecutor {
     // Resolve the entire action using unified resolver
     const resolvedAction = this.resolver.resolve(action);
     
-    // Handle json field - convert to content string
-    let content = resolvedAction.content;
-    if (!content && resolvedAction.json) {
-      content = JSON.stringify(resolvedAction.json);
-    }
+    // add_tag / remove_tag edit the user's latest version instead of replacing it
+    const pubkey = this.resolver.getContext().user.pubkey;
+    const latest = isTagEdit(resolvedAction)
+      ? await fetchLatestVersion(this.snstrClient, fullActionName, resolvedAction, pubkey, action.loc)
+      : undefined;
     
-    // Build the unsigned event
-    const unsignedEvent = {
-      kind: resolvedAction.kind,
-      content: content || '',
-      tags: resolvedAction.tags || [],
-      created_at: Math.floor(Date.now() / 1000)
-    };
+    // Build the unsigned event - throws before signing if the template can't produce a valid event
+    const unsignedEvent = buildUnsignedEvent(fullActionName, resolvedAction, action.loc, { latest });
+    
+    // Where it will be published - outbox relays depend on the signer and tagged users, so plan before review
+    const relays = await this.snstrClient.planPublishRelays(
+      { ...unsignedEvent, pubkey: this.signer ? await this.signer.getPublicKey() : pubkey ?? '' },
+      resolvedAction.relays
+    );
+    
+    // Show exactly what will be signed - throws SigningRejectedError if refused
+    await reviewSigning(this.approve, createSigningRequest(fullActionName, unsignedEvent, relays, resolvedAction));
     
-    // Sign the event if signing function is available
-    const eventToPublish = this.signEvent 
-      ? await this.signEvent(unsignedEvent)
-      : { ...unsignedEvent, pubkey: '', id: '', sig: '' } as NostrEvent;
+    // encrypt: templates are reviewed as plaintext and encrypted just before signing
+    const eventToSign = await encryptContent(fullActionName, unsignedEvent, resolvedAction, this.signer, action.loc);
+    
+    // Sign the event if a signer is available
+    const eventToPublish = this.signer 
+      ? await this.signer.signEvent(eventToSign)
+      : { ...eventToSign, pubkey: '', id: '', sig: '' } as NostrEvent;
+    
+    if (latest !== undefined) {
+      await assertLatestVersion(this.snstrClient, fullActionName, resolvedAction, pubkey, latest, action.loc);
+    }
     
     // The signed event should have an id
     const eventId = eventToPublish.id;
@@ -402,11 +433,25 @@ export class HypernoteExecutor {
       return null;
     }
     
-    // Publish the event
-    const publishResult = await this.snstrClient.publishEvent(eventToPublish);
+    // ContextVM requests - listen before publishing, the response can arrive straight away
+    const listening = new AbortController();
+    const response = awaitToolResponse(this.snstrClient, eventToPublish, this.responseTimeout, resolvedAction.relays, listening.signal);
+    
+    // Publish the event - to the relays that were reviewed
+    try {
+      await this.snstrClient.publishEvent(eventToPublish, relays);
+    } catch (error) {
+      listening.abort();
+      throw error;
+    }
     
     console.log(`[HypernoteExecutor] Published event ${eventId} for action ${fullActionName}`);
     
+    if (response) {
+      this.setActionState(fullActionName, { id: eventId, pending: true });
+      response.then((state) => this.setActionState(fullActionName, state));
+    }
+    
     // Store the event ID in resolver context for queries that depend on it
     const actionResults = new Map([[fullActionName, eventId]]);
     this.resolver.updateContext({ actionResults });
@@ -422,6 +467,23 @@ export class HypernoteExecutor {
   }
   
   
+  /**
+   * Record a ContextVM request's state - responses to superseded requests are dropped
+   */
+  private setActionState(actionName: string, state: ActionState): void {
+    const current = this.actionStates.get(actionName);
+    if (current && current.id !== state.id && !state.pending) return;
+    this.actionStates.set(actionName, state);
+    this.onUpdate?.({ actionStates: this.getActionStates() });
+  }
+  
+  /**
+   * Get the state of every ContextVM request made so far
+   */
+  getActionStates(): Record<string, ActionState> {
+    return Object.fromEntries(this.actionStates);
+  }
+  
   /**
    * Fetch events with caching
    */
@@ -3,6 +3,8 @@
  * Handles all variable substitutions consistently
  */
 
+import { evaluate, ExpressionError } from './expression';
+
 export interface ResolutionContext {
   // Core data sources
   queryResults: Map<string, any>;      // Results from executed queries
@@ -13,6 +15,7 @@ export interface ResolutionContext {
   // User/system context
   user: { pubkey: string | null };
   target?: any;                        // Component target context
+  props?: Record<string, any>;         // Component props from the usage site
   time: { now: number };
 }
 
@@ -62,65 +65,55 @@ export class UnifiedResolver {
   }
   
   /**
-   * Resolve a single expression (e.g., "$count", "user.pubkey", "$count or 0")
+   * Resolve a single expression (e.g., "$count", "user.pubkey", "$count or 0", "$posts.length > 0")
+   * Expressions that don't parse resolve to undefined so the template is left untouched
    */
   private resolveExpression(expr: string): any {
-    // Handle "or" operator for default values
-    if (expr.includes(' or ')) {
-      const parts = expr.split(' or ').map(s => s.trim());
-      for (let i = 0; i < parts.length; i++) {
-        const result = this.resolveExpression(parts[i]);
-        if (result !== undefined && result !== null && result !== '') {
-          return result;
-        }
+    try {
+      return evaluate(expr, (root) => this.resolveRoot(root));
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        return undefined;
       }
-      // Return last part as default
-      return parts[parts.length - 1];
+      throw error;
     }
-    
+  }
+  
+  /**
+   * Resolve the root name of an expression path
+   */
+  private resolveRoot(root: string): any {
     // Query result reference ($queryName)
-    if (expr.startsWith('$')) {
-      const queryName = expr;
-      
+    if (root.startsWith('$')) {
       // Check loop variables first (they shadow query results)
-      if (this.context.loopVariables[queryName] !== undefined) {
-        return this.context.loopVariables[queryName];
+      if (this.context.loopVariables[root] !== undefined) {
+        return this.context.loopVariables[root];
       }
       
       // Then check query results
-      return this.context.queryResults.get(queryName);
+      return this.context.queryResults.get(root);
     }
     
     // Action result reference (@actionName)
-    if (expr.startsWith('@')) {
-      const actionName = expr;
-      return this.context.actionResults.get(actionName);
+    if (root.startsWith('@')) {
+      return this.context.actionResults.get(root);
     }
     
-    // Form field reference (form.fieldName)
-    if (expr.startsWith('form.')) {
-      const fieldName = expr.substring(5);
-      return this.context.formData[fieldName];
+    switch (root) {
+      case 'form':
+        return this.context.formData;
+      case 'user':
+        return this.context.user;
+      case 'target':
+        return this.context.target;
+      case 'props':
+        return this.context.props || {};
+      case 'time':
+        return this.context.time;
     }
     
-    // User context (user.pubkey)
-    if (expr === 'user.pubkey') {
-      return this.context.user.pubkey;
-    }
-    
-    // Target context (target.field)
-    if (expr.startsWith('target.')) {
-      const field = expr.substring(7);
-      return this.context.target?.[field];
-    }
-    
-    // Time expressions (time.now)
-    if (expr === 'time.now') {
-      return this.context.time.now;
-    }
-    
-    // Plain string or number (not a variable)
-    return undefined;
+    // Loop variables declared without a $ prefix
+    return this.context.loopVariables[root];
   }
   
   /**
@@ -192,6 +185,10 @@ export class UnifiedResolver {
       this.context.target = updates.target;
     }
     
+    if (updates.props !== undefined) {
+      this.context.props = updates.props;
+    }
+    
     if (updates.time) {
       this.context.time = updates.time;
     }
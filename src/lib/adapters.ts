@@ -3,11 +3,17 @@
  * These implement the service interfaces using current stores/clients
  */
 
-import type { QueryEngine, ActionExecutor, TargetParser, Services } from './services';
+import type { QueryEngine, ActionExecutor, TargetParser, TargetContext, Services } from './services';
 import type { Hypernote } from './schema';
 import { SNSTRClient } from './snstr/client';
 import { RelayHandler } from './relayHandler';
-import { parseTarget } from './componentResolver';
+import { parseTarget, watchTarget } from './componentResolver';
+import { describeLocation, type SourceLocation } from './source-map';
+import { buildUnsignedEvent, isTagEdit, fetchLatestVersion, assertLatestVersion } from './core/events';
+import { encryptContent } from './core/encryption';
+import { awaitToolResponse, DEFAULT_RESPONSE_TIMEOUT, type ActionState } from './contextvm';
+import { createSigningRequest, reviewSigning, SigningRejectedError, rejectAll, type ApprovalPolicy } from './signing-review';
+import type { Signer } from './signers/signer';
 
 /**
  * SNSTR-based query engine adapter
@@ -58,6 +64,7 @@ export class SNSTRQueryEngine implements QueryEngine {
       // Update context for this execution
       this.sharedExecutor.resolver.updateContext({
         target: opts.target,
+        props: opts.props,
         actionResults: opts.actionResults ? new Map(Object.entries(opts.actionResults)) : new Map(),
         formData: opts.formData || {}
       });
@@ -87,6 +94,7 @@ export class SNSTRQueryEngine implements QueryEngine {
     const context = {
       user: { pubkey: this.userPubkey },
       target: opts.target,
+      props: opts.props,
       queryResults: new Map(),
       actionResults
     };
@@ -97,7 +105,7 @@ export class SNSTRQueryEngine implements QueryEngine {
       }
     }
     
-    const executor = new HypernoteExecutor(h, context, this.client, this.queryCache, undefined);
+    const executor = new HypernoteExecutor(h, context, this.client, this.queryCache, undefined, rejectAll); // Queries only - nothing is signed
     
     try {
       const staticData = executor.resolveStaticData();
@@ -127,8 +135,10 @@ export class SNSTRQueryEngine implements QueryEngine {
 export class RelayActionExecutor implements ActionExecutor {
   constructor(
     private snstrClient: any, // Use snstrClient for publishing (working method)
-    private signEvent: (event: any) => Promise<any>,
-    private userPubkey: string | null
+    private signer: Signer | null,
+    private userPubkey: string | null,
+    private approve: ApprovalPolicy, // Required - headless callers pass approveAll or approveKinds explicitly
+    private responseTimeout: number = DEFAULT_RESPONSE_TIMEOUT // How long ContextVM requests wait for the server
   ) {}
   
   async execute(
@@ -139,6 +149,9 @@ export class RelayActionExecutor implements ActionExecutor {
       queryResults: Record<string, any>;
       extractedVariables: Record<string, any>;
       userPubkey: string | null;
+      onActionState?: (state: ActionState) => void;
+      literal?: boolean;
+      loc?: SourceLocation;
     }
   ): Promise<string | void> {
     console.log(`[RelayActionExecutor] Executing ${actionName} with form:`, form);
@@ -147,7 +160,7 @@ export class RelayActionExecutor implements ActionExecutor {
     const action = hypernote.events?.[fullActionName];
     
     if (!action) {
-      console.error(`Action ${fullActionName} not found in hypernote events`);
+      console.error(`Action ${fullActionName}${describeLocation(context.loc)} not found in hypernote events`);
       return undefined;
     }
     
@@ -168,29 +181,36 @@ export class RelayActionExecutor implements ActionExecutor {
       
       const resolver = new UnifiedResolver(resolverContext);
       
-      // Resolve the action template
-      const resolvedAction = resolver.resolve(action);
+      // Resolve the action template - literal templates keep braces in user input as text
+      const resolvedAction = context.literal ? action : resolver.resolve(action);
       
-      // Handle json field - convert to content string
-      let content = resolvedAction.content;
-      if (!content && resolvedAction.json) {
-        content = JSON.stringify(resolvedAction.json);
-      }
+      const template = { ...resolvedAction, kind: resolvedAction.kind || 1 };
       
-      // Build the unsigned event
-      const unsignedEvent = {
-        kind: resolvedAction.kind || 1,
-        content: content || '',
-        tags: resolvedAction.tags || [],
-        created_at: Math.floor(Date.now() / 1000)
-      };
+      // add_tag / remove_tag edit the user's latest version instead of replacing it
+      const latest = isTagEdit(template)
+        ? await fetchLatestVersion(this.snstrClient, fullActionName, template, context.userPubkey, action.loc)
+        : undefined;
+      
+      // Build the unsigned event - throws before signing if the template can't produce a valid event
+      const unsignedEvent = buildUnsignedEvent(fullActionName, template, action.loc, { latest });
+      
+      // Where it will be published - outbox relays depend on the signer and tagged users, so plan before review
+      const relays: string[] = await this.snstrClient.planPublishRelays(
+        { ...unsignedEvent, pubkey: this.signer ? await this.signer.getPublicKey() : context.userPubkey ?? '' },
+        template.relays
+      );
+      
+      // Show exactly what will be signed - throws SigningRejectedError if refused
+      await reviewSigning(this.approve, createSigningRequest(fullActionName, unsignedEvent, relays, template));
       
       console.log(`[RelayActionExecutor] Publishing event:`, unsignedEvent);
       
-      // Sign the event if signing function is available
-      const eventToPublish = this.signEvent 
-        ? await this.signEvent(unsignedEvent)
-        : { ...unsignedEvent, pubkey: '', id: '', sig: '' };
+      if (!this.signer) {
+        throw new Error("Not authenticated. Please login first.");
+      }
+      // encrypt: templates are reviewed as plaintext and encrypted just before signing
+      const eventToSign = await encryptContent(fullActionName, unsignedEvent, template, this.signer, action.loc);
+      const eventToPublish = await this.signer.signEvent(eventToSign);
       
       // The signed event should have an id
       const eventId = eventToPublish.id;
@@ -200,14 +220,36 @@ export class RelayActionExecutor implements ActionExecutor {
         return undefined;
       }
       
-      // Publish the event using the same method that works in HypernoteExecutor
-      const publishResult = await this.snstrClient.publishEvent(eventToPublish);
+      if (latest !== undefined) {
+        await assertLatestVersion(this.snstrClient, fullActionName, template, context.userPubkey, latest, action.loc);
+      }
+      
+      // ContextVM requests - listen before publishing, the response can arrive straight away
+      const listening = new AbortController();
+      const response = awaitToolResponse(this.snstrClient, eventToPublish, this.responseTimeout, template.relays, listening.signal);
+      
+      // Publish the event using the same method that works in HypernoteExecutor - to the relays that were reviewed
+      try {
+        await this.snstrClient.publishEvent(eventToPublish, relays);
+      } catch (error) {
+        listening.abort();
+        throw error;
+      }
       
       console.log(`[RelayActionExecutor] Published event ${eventId} for action ${actionName}`);
+      
+      if (response) {
+        context.onActionState?.({ id: eventId, pending: true });
+        response.then((state) => context.onActionState?.(state));
+      }
       return eventId;
       
     } catch (error) {
-      console.error(`[RelayActionExecutor] Error executing action ${actionName}:`, error);
+      if (error instanceof SigningRejectedError) {
+        console.log(`[RelayActionExecutor] ${error.message}`);
+        return undefined;
+      }
+      console.error(`[RelayActionExecutor] Error executing action ${actionName}${describeLocation(action.loc)}:`, error);
       return undefined;
     }
   }
@@ -219,10 +261,14 @@ export class RelayActionExecutor implements ActionExecutor {
 export class SNSTRTargetParser implements TargetParser {
   constructor(private client?: SNSTRClient) {}
   
-  async parse(arg: string, kind: 0 | 1) {
+  async parse(arg: string, kind: number) {
     // Use existing parseTarget function
     return parseTarget(arg, kind, this.client);
   }
+  
+  watch(arg: string, kind: number, onUpdate: (target: TargetContext) => void) {
+    return watchTarget(arg, kind, this.client, onUpdate);
+  }
 }
 
 /**
@@ -231,8 +277,9 @@ export class SNSTRTargetParser implements TargetParser {
 export function createServices(
   snstrClient: SNSTRClient | null,
   relayHandler: RelayHandler,
-  signEvent: (event: any) => Promise<any>,
-  userPubkey: string | null
+  signer: Signer | null,
+  userPubkey: string | null,
+  approve: ApprovalPolicy
 ): Services {
   // Import queryCache for the query engine
   const { queryCache } = require('./queryCache');
@@ -257,13 +304,14 @@ export function createServices(
       sharedContext,
       snstrClient,
       queryCache,
-      signEvent
+      signer || undefined,
+      approve
     );
   }
 
   return {
     queryEngine: new SNSTRQueryEngine(snstrClient, queryCache, userPubkey, sharedExecutor),
-    actionExecutor: new RelayActionExecutor(snstrClient, signEvent, userPubkey), 
+    actionExecutor: new RelayActionExecutor(snstrClient, signer, userPubkey, approve),
     targetParser: new SNSTRTargetParser(snstrClient || undefined),
     clock: { now: () => Date.now() },
     userPubkey,
@@ -0,0 +1,443 @@
+/**
+ * Chess rules for the chess MCP server - legal move generation, SAN, FEN and PGN
+ * Boards are 8x8 arrays of FEN piece letters (' ' for empty), row 0 is rank 8
+ */
+
+export type Color = 'w' | 'b';
+export type GameStatus = 'active' | 'check' | 'checkmate' | 'stalemate';
+
+export interface Position {
+  board: string[][];
+  turn: Color;
+  castling: string;          // Remaining rights, e.g. "KQkq" - empty when none are left
+  enPassant: string | null;  // Square a pawn skipped with its double step, e.g. "e3"
+  halfmove: number;          // Moves since the last capture or pawn move
+  fullmove: number;
+}
+
+export interface ChessMove {
+  from: string;
+  to: string;
+  piece: string;        // FEN letter of the moving piece
+  captured?: string;
+  promotion?: string;   // Lowercase piece letter
+  castle?: 'K' | 'Q';
+  enPassant?: boolean;
+  san: string;
+}
+
+export class ChessError extends Error {
+  constructor(message: string, public move: string) {
+    super(message);
+    this.name = 'ChessError';
+  }
+}
+
+export const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const FILES = 'abcdefgh';
+const KNIGHT = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const ROOK = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const BISHOP = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const PROMOTIONS = ['q', 'r', 'b', 'n'];
+
+// Castling rights lost when a piece leaves or is captured on these squares
+const CORNERS: Record<string, string> = { a1: 'Q', h1: 'K', a8: 'q', h8: 'k', e1: 'KQ', e8: 'kq' };
+
+type Square = [number, number];
+
+interface Move {
+  from: Square;
+  to: Square;
+  piece: string;
+  captured?: string;
+  promotion?: string;
+  castle?: 'K' | 'Q';
+  enPassant?: boolean;
+  double?: boolean;
+}
+
+/**
+ * @throws ChessError for malformed FEN
+ */
+export function parseFEN(fen: string): Position {
+  const [placement = '', turn = 'w', castling = '-', enPassant = '-', halfmove = '0', fullmove = '1'] = fen.trim().split(/\s+/);
+  const rows = placement.split('/');
+  const board = rows.map((row) => [...row].flatMap((char) => (/[1-8]/.test(char) ? Array(Number(char)).fill(' ') : [char])));
+  const valid = board.length === 8 && board.every((row) => row.length === 8 && row.every((square) => /^[ pnbrqkPNBRQK]$/.test(square)));
+  if (!valid || !/^[wb]$/.test(turn)) {
+    throw new ChessError(`Invalid FEN: ${fen}`, fen);
+  }
+  return {
+    board,
+    turn: turn as Color,
+    castling: castling === '-' ? '' : castling,
+    enPassant: enPassant === '-' ? null : enPassant,
+    halfmove: Number(halfmove) || 0,
+    fullmove: Number(fullmove) || 1
+  };
+}
+
+export function toFEN(position: Position): string {
+  const placement = position.board
+    .map((row) => row.join('').replace(/ +/g, (empty) => String(empty.length)))
+    .join('/');
+  return `${placement} ${position.turn} ${position.castling || '-'} ${position.enPassant || '-'} ${position.halfmove} ${position.fullmove}`;
+}
+
+export function newPosition(): Position {
+  return parseFEN(START_FEN);
+}
+
+/**
+ * Every legal move for the side to move, with its SAN
+ */
+export function legalMoves(position: Position): ChessMove[] {
+  const moves = legal(position);
+  return moves.map((move) => ({
+    from: squareName(move.from),
+    to: squareName(move.to),
+    piece: move.piece,
+    ...(move.captured && { captured: move.captured }),
+    ...(move.promotion && { promotion: move.promotion }),
+    ...(move.castle && { castle: move.castle }),
+    ...(move.enPassant && { enPassant: true }),
+    san: toSAN(position, move, moves)
+  }));
+}
+
+/**
+ * Play a move given in SAN ("Nf3", "exd5", "e8=Q", "O-O") or coordinates ("g1f3", "e7e8q")
+ * Check marks and annotations are optional, 0-0 is accepted for O-O
+ * @throws ChessError when the move is illegal or the game is over
+ */
+export function playMove(position: Position, input: string): { position: Position; move: ChessMove } {
+  const status = gameStatus(position);
+  if (status === 'checkmate' || status === 'stalemate') {
+    throw new ChessError(`The game is over (${status})`, input);
+  }
+
+  const wanted = normalizeSAN(input);
+  const coordinates = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/i.exec(input.trim());
+  const candidates = legalMoves(position);
+  const move = candidates.find((candidate) => coordinates
+    ? candidate.from === coordinates[1].toLowerCase() && candidate.to === coordinates[2].toLowerCase() &&
+      candidate.promotion === coordinates[3]?.toLowerCase()
+    : normalizeSAN(candidate.san) === wanted);
+
+  if (!move) {
+    const promotes = candidates.some((candidate) => candidate.promotion && normalizeSAN(candidate.san).startsWith(wanted));
+    throw new ChessError(promotes ? `${input} needs a promotion piece, e.g. ${wanted}=Q` : `Illegal move: ${input}`, input);
+  }
+
+  return { position: apply(position, toInternal(move)), move };
+}
+
+export function isInCheck(position: Position, color: Color = position.turn): boolean {
+  const king = findKing(position.board, color);
+  return king !== null && isAttacked(position.board, king, opponent(color));
+}
+
+export function gameStatus(position: Position): GameStatus {
+  const check = isInCheck(position);
+  if (legal(position).length > 0) return check ? 'check' : 'active';
+  return check ? 'checkmate' : 'stalemate';
+}
+
+/**
+ * PGN result token - the side to move lost if it's checkmated
+ */
+export function gameResult(position: Position): '1-0' | '0-1' | '1/2-1/2' | '*' {
+  switch (gameStatus(position)) {
+    case 'checkmate':
+      return position.turn === 'w' ? '0-1' : '1-0';
+    case 'stalemate':
+      return '1/2-1/2';
+    default:
+      return '*';
+  }
+}
+
+/**
+ * PGN for a list of SAN moves - the seven tag roster first, movetext wrapped at 80 columns
+ */
+export function toPGN(moves: string[], tags: Record<string, string> = {}): string {
+  const headers: Record<string, string> = {
+    Event: '?', Site: '?', Date: '????.??.??', Round: '?', White: '?', Black: '?', Result: '*',
+    ...tags
+  };
+  const tagPairs = Object.entries(headers)
+    .map(([name, value]) => `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`);
+
+  const tokens = moves.flatMap((move, i) => (i % 2 === 0 ? [`${i / 2 + 1}.`, move] : [move]));
+  tokens.push(headers.Result);
+
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > 79) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+
+  return `${tagPairs.join('\n')}\n\n${lines.join('\n')}\n`;
+}
+
+function legal(position: Position): Move[] {
+  return pseudoLegal(position).filter((move) => !isInCheck(apply(position, move), position.turn));
+}
+
+// Moves that follow piece movement rules, ignoring whether they leave the king in check
+function pseudoLegal(position: Position): Move[] {
+  const { board, turn } = position;
+  const moves: Move[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (colorOf(piece) !== turn) continue;
+      const from: Square = [row, col];
+
+      switch (piece.toLowerCase()) {
+        case 'p':
+          pawnMoves(position, from, piece, moves);
+          break;
+        case 'n':
+          stepMoves(board, from, piece, KNIGHT, moves);
+          break;
+        case 'b':
+          slideMoves(board, from, piece, BISHOP, moves);
+          break;
+        case 'r':
+          slideMoves(board, from, piece, ROOK, moves);
+          break;
+        case 'q':
+          slideMoves(board, from, piece, [...ROOK, ...BISHOP], moves);
+          break;
+        case 'k':
+          stepMoves(board, from, piece, KING, moves);
+          castlingMoves(position, from, piece, moves);
+          break;
+      }
+    }
+  }
+  return moves;
+}
+
+function pawnMoves(position: Position, from: Square, piece: string, moves: Move[]): void {
+  const { board, turn } = position;
+  const [row, col] = from;
+  const direction = turn === 'w' ? -1 : 1;
+  const startRow = turn === 'w' ? 6 : 1;
+  const lastRow = turn === 'w' ? 0 : 7;
+
+  const add = (to: Square, extra: Partial<Move> = {}) => {
+    if (to[0] === lastRow) {
+      for (const promotion of PROMOTIONS) moves.push({ from, to, piece, ...extra, promotion });
+    } else {
+      moves.push({ from, to, piece, ...extra });
+    }
+  };
+
+  const ahead = row + direction;
+  if (onBoard(ahead, col) && board[ahead][col] === ' ') {
+    add([ahead, col]);
+    const twoAhead = row + 2 * direction;
+    if (row === startRow && board[twoAhead][col] === ' ') {
+      moves.push({ from, to: [twoAhead, col], piece, double: true });
+    }
+  }
+
+  for (const side of [-1, 1]) {
+    const target: Square = [ahead, col + side];
+    if (!onBoard(...target)) continue;
+    const captured = board[target[0]][target[1]];
+    if (colorOf(captured) === opponent(turn)) {
+      add(target, { captured });
+    } else if (position.enPassant === squareName(target)) {
+      moves.push({ from, to: target, piece, captured: turn === 'w' ? 'p' : 'P', enPassant: true });
+    }
+  }
+}
+
+function stepMoves(board: string[][], from: Square, piece: string, steps: number[][], moves: Move[]): void {
+  for (const [dr, dc] of steps) {
+    const to: Square = [from[0] + dr, from[1] + dc];
+    if (!onBoard(...to)) continue;
+    const target = board[to[0]][to[1]];
+    if (colorOf(target) === colorOf(piece)) continue;
+    moves.push(target === ' ' ? { from, to, piece } : { from, to, piece, captured: target });
+  }
+}
+
+function slideMoves(board: string[][], from: Square, piece: string, directions: number[][], moves: Move[]): void {
+  for (const [dr, dc] of directions) {
+    let [row, col] = [from[0] + dr, from[1] + dc];
+    while (onBoard(row, col)) {
+      const target = board[row][col];
+      if (target !== ' ') {
+        if (colorOf(target) !== colorOf(piece)) moves.push({ from, to: [row, col], piece, captured: target });
+        break;
+      }
+      moves.push({ from, to: [row, col], piece });
+      row += dr;
+      col += dc;
+    }
+  }
+}
+
+// The king may not castle out of, through or into check
+function castlingMoves(position: Position, from: Square, piece: string, moves: Move[]): void {
+  const { board, turn, castling } = position;
+  const row = turn === 'w' ? 7 : 0;
+  if (from[0] !== row || from[1] !== 4) return;
+  const enemy = opponent(turn);
+  if (isAttacked(board, from, enemy)) return;
+
+  const rook = turn === 'w' ? 'R' : 'r';
+  const kingSide = turn === 'w' ? 'K' : 'k';
+  const queenSide = turn === 'w' ? 'Q' : 'q';
+  const empty = (...cols: number[]) => cols.every((col) => board[row][col] === ' ');
+  const safe = (...cols: number[]) => cols.every((col) => !isAttacked(board, [row, col], enemy));
+
+  if (castling.includes(kingSide) && board[row][7] === rook && empty(5, 6) && safe(5, 6)) {
+    moves.push({ from, to: [row, 6], piece, castle: 'K' });
+  }
+  if (castling.includes(queenSide) && board[row][0] === rook && empty(1, 2, 3) && safe(2, 3)) {
+    moves.push({ from, to: [row, 2], piece, castle: 'Q' });
+  }
+}
+
+function apply(position: Position, move: Move): Position {
+  const board = position.board.map((row) => [...row]);
+  const [fromRow, fromCol] = move.from;
+  const [toRow, toCol] = move.to;
+  const white = position.turn === 'w';
+
+  board[fromRow][fromCol] = ' ';
+  board[toRow][toCol] = move.promotion ? (white ? move.promotion.toUpperCase() : move.promotion) : move.piece;
+  if (move.enPassant) {
+    board[fromRow][toCol] = ' ';
+  }
+  if (move.castle) {
+    const [rookFrom, rookTo] = move.castle === 'K' ? [7, 5] : [0, 3];
+    board[toRow][rookTo] = board[toRow][rookFrom];
+    board[toRow][rookFrom] = ' ';
+  }
+
+  const lost = (CORNERS[squareName(move.from)] || '') + (CORNERS[squareName(move.to)] || '');
+  const castling = [...position.castling].filter((right) => !lost.includes(right)).join('');
+
+  return {
+    board,
+    turn: opponent(position.turn),
+    castling,
+    enPassant: move.double ? squareName([(fromRow + toRow) / 2, fromCol]) : null,
+    halfmove: move.piece.toLowerCase() === 'p' || move.captured ? 0 : position.halfmove + 1,
+    fullmove: white ? position.fullmove : position.fullmove + 1
+  };
+}
+
+function toSAN(position: Position, move: Move, moves: Move[]): string {
+  let san: string;
+  const destination = squareName(move.to);
+
+  if (move.castle) {
+    san = move.castle === 'K' ? 'O-O' : 'O-O-O';
+  } else if (move.piece.toLowerCase() === 'p') {
+    san = (move.captured ? `${FILES[move.from[1]]}x` : '') + destination + (move.promotion ? `=${move.promotion.toUpperCase()}` : '');
+  } else {
+    // Name the origin file, rank or square when another piece of the same type can reach the destination
+    const rivals = moves.filter((other) => other !== move && other.piece === move.piece &&
+      other.to[0] === move.to[0] && other.to[1] === move.to[1]);
+    let origin = '';
+    if (rivals.length > 0) {
+      const [row, col] = move.from;
+      if (!rivals.some((other) => other.from[1] === col)) origin = FILES[col];
+      else if (!rivals.some((other) => other.from[0] === row)) origin = String(8 - row);
+      else origin = squareName(move.from);
+    }
+    san = move.piece.toUpperCase() + origin + (move.captured ? 'x' : '') + destination;
+  }
+
+  const next = apply(position, move);
+  if (isInCheck(next)) {
+    san += legal(next).length > 0 ? '+' : '#';
+  }
+  return san;
+}
+
+function toInternal(move: ChessMove): Move {
+  return {
+    from: parseSquare(move.from),
+    to: parseSquare(move.to),
+    piece: move.piece,
+    captured: move.captured,
+    promotion: move.promotion,
+    castle: move.castle,
+    enPassant: move.enPassant,
+    double: move.piece.toLowerCase() === 'p' && Math.abs(Number(move.from[1]) - Number(move.to[1])) === 2
+  };
+}
+
+function isAttacked(board: string[][], [row, col]: Square, by: Color): boolean {
+  const piece = (letter: string) => (by === 'w' ? letter.toUpperCase() : letter);
+  const at = (r: number, c: number) => (onBoard(r, c) ? board[r][c] : undefined);
+
+  // Pawns attack diagonally forward - white pawns from the row below
+  const pawnRow = by === 'w' ? row + 1 : row - 1;
+  if (at(pawnRow, col - 1) === piece('p') || at(pawnRow, col + 1) === piece('p')) return true;
+  if (KNIGHT.some(([dr, dc]) => at(row + dr, col + dc) === piece('n'))) return true;
+  if (KING.some(([dr, dc]) => at(row + dr, col + dc) === piece('k'))) return true;
+
+  const slider = (directions: number[][], letters: string[]) => directions.some(([dr, dc]) => {
+    let [r, c] = [row + dr, col + dc];
+    while (at(r, c) === ' ') {
+      r += dr;
+      c += dc;
+    }
+    const target = at(r, c);
+    return target !== undefined && letters.map(piece).includes(target);
+  });
+  return slider(ROOK, ['r', 'q']) || slider(BISHOP, ['b', 'q']);
+}
+
+function findKing(board: string[][], color: Color): Square | null {
+  const king = color === 'w' ? 'K' : 'k';
+  for (let row = 0; row < 8; row++) {
+    const col = board[row].indexOf(king);
+    if (col >= 0) return [row, col];
+  }
+  return null;
+}
+
+// Compare SAN without check marks, annotations or "=" before promotions
+function normalizeSAN(san: string): string {
+  return san.trim().replace(/[+#!?]+$/, '').replace(/0/g, 'O').replace('=', '');
+}
+
+function colorOf(piece: string): Color | null {
+  if (piece === ' ') return null;
+  return piece === piece.toUpperCase() ? 'w' : 'b';
+}
+
+function opponent(color: Color): Color {
+  return color === 'w' ? 'b' : 'w';
+}
+
+function onBoard(row: number, col: number): boolean {
+  return row >= 0 && row < 8 && col >= 0 && col < 8;
+}
+
+function squareName([row, col]: Square): string {
+  return `${FILES[col]}${8 - row}`;
+}
+
+function parseSquare(name: string): Square {
+  return [8 - Number(name[1]), FILES.indexOf(name[0])];
+}
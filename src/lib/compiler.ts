@@ -3,6 +3,7 @@ import { tokenize, parseTokens, TokenizerError } from './tokenizer';
 import { safeValidateHypernote, type Hypernote } from './schema';
 import { parseTailwindClasses } from './tailwind-parser';
 import { processPipes } from './pipe-compiler';
+import { locateFrontmatterKeys, type SourcePoint } from './source-map';
 import { nip19 } from 'nostr-tools';
 
 // Debug mode can be enabled via environment variable (check if process exists for browser compatibility)
@@ -41,10 +42,10 @@ function parseNaddrToQuery(naddrString: string, isComponent: boolean): any {
         limit: 1
       };
       
-      // Skip relay hints - let the app use its configured relays
-      // if (relays && relays.length > 0) {
-      //   query.relays = relays;
-      // }
+      // Relay hints are queried on top of the app's relays
+      if (relays && relays.length > 0) {
+        query.relays = relays;
+      }
       
       // For component queries, automatically add the 'first' pipe to get single element
       if (isComponent) {
@@ -65,6 +66,42 @@ function parseNaddrToQuery(naddrString: string, isComponent: boolean): any {
   }
 }
 
+/**
+ * Normalizes component prop declarations from frontmatter
+ * Accepts the full form ({ type, default }), a bare type name ("number")
+ * or a bare default value (5), whose type is inferred
+ */
+function normalizePropDeclarations(props: Record<string, any>): Record<string, any> {
+  const declarations: Record<string, any> = {};
+  
+  for (const [name, declaration] of Object.entries(props || {})) {
+    if (typeof declaration === 'string' && ['string', 'number', 'boolean', 'json'].includes(declaration)) {
+      declarations[name] = { type: declaration };
+    } else if (declaration && typeof declaration === 'object' && !Array.isArray(declaration)) {
+      declarations[name] = {
+        ...declaration,
+        type: declaration.type || inferPropType(declaration.default)
+      };
+    } else {
+      declarations[name] = { type: inferPropType(declaration), default: declaration };
+    }
+  }
+  
+  return declarations;
+}
+
+// Parsed YAML values - queries and events are objects unless written as a shorthand string
+function isRecord(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function inferPropType(value: any): string {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value !== null && typeof value === 'object') return 'json';
+  return 'string';
+}
+
 /**
  * Converts Tailwind classes to CSS-in-JS object with caching
  */
@@ -137,16 +174,41 @@ function processElementStyles(element: any): any {
     element.elements = element.elements.map(processElementStyles);
   }
   
+  // Process [elif] and [else] branches of if elements
+  if (element.branches && Array.isArray(element.branches)) {
+    element.branches = element.branches.map((branch: any) => ({
+      ...branch,
+      elements: branch.elements.map(processElementStyles)
+    }));
+  }
+  if (element.else && Array.isArray(element.else)) {
+    element.else = element.else.map(processElementStyles);
+  }
+  
+  // Process [empty] block of loop elements
+  if (element.empty && Array.isArray(element.empty)) {
+    element.empty = element.empty.map(processElementStyles);
+  }
+  
   return element;
 }
 
+/**
+ * Document position just past a prefix of the source
+ */
+function pointAfter(prefix: string): SourcePoint {
+  const lines = prefix.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
 /**
  * Compiles Hypernote Markdown to content object
  * @param hnmd Hypernote Markdown string
- * @param options Compiler options (strictValidation defaults to true)
+ * @param options Compiler options (strictValidation defaults to true; sourceMap attaches
+ *   a loc to every element, query and event - strip it with stripSourceLocations before publishing)
  * @returns Content object or fallback structure if validation fails
  */
-export function compileHypernoteToContent(hnmd: string, options?: { strictValidation?: boolean }): Hypernote {
+export function compileHypernoteToContent(hnmd: string, options?: { strictValidation?: boolean; sourceMap?: boolean }): Hypernote {
   debugLog('Starting compilation');
   debugLog('Input HNMD length:', hnmd.length);
   
@@ -160,6 +222,7 @@ export function compileHypernoteToContent(hnmd: string, options?: { strictValida
   // Split document into frontmatter and content
   const frontmatterMatch = hnmd.match(/^---\n([\s\S]*?)\n---/);
   let content = hnmd;
+  let contentOrigin: SourcePoint = { line: 1, column: 1 };
   
   if (frontmatterMatch && frontmatterMatch[1]) {
     const frontmatterString = frontmatterMatch[1];
@@ -213,6 +276,10 @@ export function compileHypernoteToContent(hnmd: string, options?: { strictValida
           // Handle component kind (0 for npub input, 1 for nevent input)
           result.kind = frontmatter[key];
           debugLog(`Set kind: ${frontmatter[key]}`);
+        } else if (key === 'props') {
+          // Handle component prop declarations (name -> type and default)
+          result.props = normalizePropDeclarations(frontmatter[key]);
+          debugLog(`Set props:`, result.props);
         } else if (key === 'type') {
           // Handle document type (hypernote or element)
           result.type = frontmatter[key];
@@ -248,8 +315,22 @@ export function compileHypernoteToContent(hnmd: string, options?: { strictValida
         // We can add more frontmatter sections here as needed
       }
       
+      // Frontmatter starts on line 2, after the opening ---
+      if (options?.sourceMap) {
+        const keyLocations = locateFrontmatterKeys(frontmatterString, 2);
+        for (const section of [result.queries, result.events]) {
+          for (const [name, value] of Object.entries(section || {})) {
+            if (isRecord(value) && keyLocations[name]) {
+              value.loc = keyLocations[name];
+            }
+          }
+        }
+      }
+      
       // Remove frontmatter from content
-      content = hnmd.slice(frontmatterMatch[0].length).trim();
+      const rest = hnmd.slice(frontmatterMatch[0].length);
+      content = rest.trim();
+      contentOrigin = pointAfter(hnmd.slice(0, frontmatterMatch[0].length) + rest.slice(0, rest.length - rest.trimStart().length));
       debugLog('Content after frontmatter removal length:', content.length);
     } catch (error) {
       console.error('Error parsing YAML frontmatter:', error);
@@ -262,7 +343,7 @@ export function compileHypernoteToContent(hnmd: string, options?: { strictValida
   const strictValidation = options?.strictValidation !== false; // Default to true
   let tokens;
   try {
-    tokens = tokenize(content, strictValidation);
+    tokens = tokenize(content, strictValidation, { locations: options?.sourceMap, origin: contentOrigin });
     debugLog(`Generated ${tokens.length} tokens`);
   } catch (error) {
     if (error instanceof TokenizerError) {
@@ -1,8 +1,9 @@
 import { nip19 } from 'nostr-tools';
-import type { SNSTRClient } from './snstr/client';
-import type { Filter } from './snstr/client';
+import { withRelayHints, type SNSTRClient, type Filter } from './snstr/client';
+import type { NostrEvent } from './snstr/nip07';
 import { queryCache } from './queryCache';
 import { getTargetBatcher } from './TargetBatcher';
+import { isAddressableKind } from './schema';
 
 /**
  * Handles parsing of component arguments (npub/nevent targets)
@@ -37,14 +38,81 @@ export interface TargetContext {
   created_at?: number;
   tags?: string[][];
   
+  // For addressable kinds 30000-39999 (naddr input)
+  kind?: number;
+  identifier?: string;
+  
   // Raw input value
   raw: string;
 }
 
+/**
+ * Coordinates of an addressable event
+ */
+export interface EventAddress {
+  kind: number;
+  pubkey: string;
+  identifier: string;
+  relays?: string[];  // Relay hints from an naddr
+}
+
+/**
+ * Parse an naddr or an "a" tag coordinate (kind:pubkey:d-identifier)
+ * Returns null if the value is neither
+ */
+export function parseEventAddress(value: string): EventAddress | null {
+  if (value.startsWith('naddr')) {
+    try {
+      const decoded = nip19.decode(value);
+      if (decoded.type !== 'naddr') return null;
+      const { kind, pubkey, identifier, relays } = decoded.data;
+      return relays?.length ? { kind, pubkey, identifier, relays } : { kind, pubkey, identifier };
+    } catch {
+      return null;
+    }
+  }
+  
+  // The identifier may itself contain colons
+  const [kind, pubkey, ...identifier] = value.split(':');
+  if (/^\d+$/.test(kind) && /^[0-9a-f]{64}$/i.test(pubkey || '') && identifier.length > 0) {
+    return { kind: parseInt(kind, 10), pubkey, identifier: identifier.join(':') };
+  }
+  
+  return null;
+}
+
+/**
+ * Filter for every stored version of an addressable event
+ */
+function addressFilter(address: EventAddress): Filter {
+  return withRelayHints({
+    kinds: [address.kind],
+    authors: [address.pubkey],
+    '#d': [address.identifier]
+  }, address.relays);
+}
+
+/**
+ * Build the target context for an addressable event
+ */
+function addressableTarget(event: NostrEvent, address: EventAddress, raw: string): TargetContext {
+  return {
+    id: event.id,
+    pubkey: event.pubkey,
+    kind: event.kind,
+    identifier: address.identifier,
+    content: event.content,
+    created_at: event.created_at,
+    tags: event.tags,
+    raw
+  };
+}
+
 /**
  * Parse and validate target based on component kind
+ * kind 0 expects an npub, kind 1 an nevent, and addressable kinds (30000-39999) an naddr or "a" coordinate
  */
-export async function parseTarget(value: string, expectedKind: 0 | 1, client?: SNSTRClient): Promise<TargetContext> {
+export async function parseTarget(value: string, expectedKind: number, client?: SNSTRClient): Promise<TargetContext> {
   console.log(`Parsing target: ${value} for kind ${expectedKind}`);
   
   try {
@@ -139,10 +207,10 @@ export async function parseTarget(value: string, expectedKind: 0 | 1, client?: S
         
         // If we have a client, fetch the full event
         if (client && typeof eventData === 'object' && 'id' in eventData) {
-          const filter: Filter = {
+          const filter: Filter = withRelayHints({
             ids: [eventData.id],
             limit: 1
-          };
+          }, eventData.relays);
           
           // Use cache for event fetching
           const events = await queryCache.getOrFetch(filter, async (f) => {
@@ -177,6 +245,44 @@ export async function parseTarget(value: string, expectedKind: 0 | 1, client?: S
       };
     }
     
+    if (isAddressableKind(expectedKind)) {
+      // Component expects an naddr or "a" coordinate - resolve to the latest version
+      const address = parseEventAddress(value);
+      if (!address) {
+        // It's a reference - return as is
+        return {
+          raw: value
+        };
+      }
+      
+      if (address.kind !== expectedKind) {
+        throw new Error(`Expected an address of kind ${expectedKind}, got kind ${address.kind}`);
+      }
+      
+      if (client) {
+        const events = await queryCache.getOrFetch(addressFilter(address), async (f) => {
+          return await client.fetchEvents([f]);
+        });
+        
+        // Relays may return older versions too - keep the newest
+        const latest = events.reduce<NostrEvent | null>(
+          (newest, event) => !newest || event.created_at > newest.created_at ? event : newest,
+          null
+        );
+        if (latest) {
+          return addressableTarget(latest, address, value);
+        }
+      }
+      
+      // Return the coordinates if the event couldn't be fetched
+      return {
+        pubkey: address.pubkey,
+        kind: address.kind,
+        identifier: address.identifier,
+        raw: value
+      };
+    }
+    
     throw new Error(`Invalid component kind: ${expectedKind}`);
   } catch (error) {
     console.error(`Error parsing target:`, error);
@@ -185,4 +291,37 @@ export async function parseTarget(value: string, expectedKind: 0 | 1, client?: S
       raw: value
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Watch an addressable target for newer versions
+ * Calls onUpdate each time a version newer than any seen so far arrives
+ * Returns a cleanup function (a no-op for targets that can't change)
+ */
+export function watchTarget(
+  value: string,
+  expectedKind: number,
+  client: SNSTRClient | undefined,
+  onUpdate: (target: TargetContext) => void
+): () => void {
+  const address = isAddressableKind(expectedKind) ? parseEventAddress(value) : null;
+  if (!client || !address || address.kind !== expectedKind) {
+    return () => {};
+  }
+  
+  let latestCreatedAt = 0;
+  
+  try {
+    return client.subscribeLive([addressFilter(address)], (event) => {
+      if (event.created_at <= latestCreatedAt) return;
+      latestCreatedAt = event.created_at;
+      
+      // Keep the cache in step so later fetches don't return the old version
+      queryCache.set(addressFilter(address), [event]);
+      onUpdate(addressableTarget(event, address, value));
+    });
+  } catch (error) {
+    console.warn(`[watchTarget] Could not subscribe to ${value}:`, error);
+    return () => {};
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * ContextVM responses - actions that publish a kind 25910 JSON-RPC request wait for the server's reply
+ * The reply is a kind 25910 event from the p-tagged server with an e tag pointing at the request event
+ */
+
+import { nip19 } from 'nostr-tools';
+import { generateSecretKey } from 'nostr-tools/pure';
+import type { NostrEvent } from './snstr/nip07';
+import { withRelayHints, type Filter } from './snstr/client';
+import { CONTEXTVM_KIND } from './schema';
+import type { ToolDescription } from './core/tools';
+import { bytesToHex, type Signer } from './signers/signer';
+import { LocalKeySigner } from './signers/local';
+
+export const DEFAULT_RESPONSE_TIMEOUT = 30_000;
+
+/**
+ * What HNMD sees as @action - {@make_move.pending}, {@make_move.error}, {@make_move.result.fen}
+ */
+export interface ActionState {
+  id: string;        // Published request event id
+  pending: boolean;  // Waiting for the server's response
+  result?: unknown;  // Parsed result - JSON text content is decoded
+  error?: string;    // JSON-RPC error, a tool error, or a timeout
+}
+
+// Anything that can deliver live events - SNSTRClient in the app
+export interface ResponseSource {
+  subscribeLive(filters: Filter[], onEvent: (event: NostrEvent) => void): () => void;
+}
+
+// Live events plus publishing - for requests made outside an action (tools/list)
+export interface ToolTransport extends ResponseSource {
+  publishEvent(event: NostrEvent): Promise<unknown>;
+}
+
+export class ContextVMError extends Error {
+  constructor(message: string, public method: string) {
+    super(message);
+    this.name = 'ContextVMError';
+  }
+}
+
+interface ToolRequest {
+  server: string;
+  rpcId?: string;
+}
+
+/**
+ * The server and JSON-RPC id of a ContextVM request event, or null for any other event
+ */
+export function parseToolRequest(event: Pick<NostrEvent, 'kind' | 'content' | 'tags'>): ToolRequest | null {
+  if (event.kind !== CONTEXTVM_KIND) return null;
+  const server = event.tags.find((tag) => tag[0] === 'p')?.[1];
+  if (!server) return null;
+
+  let message: any;
+  try {
+    message = JSON.parse(event.content);
+  } catch {
+    return null;
+  }
+  if (typeof message?.method !== 'string') return null;
+  return message.id === undefined ? { server } : { server, rpcId: String(message.id) };
+}
+
+/**
+ * Hex pubkey of a server given as npub or hex - null for anything else
+ */
+export function parseServerPubkey(server: string): string | null {
+  const trimmed = server.trim();
+  if (/^[0-9a-f]{64}$/.test(trimmed)) return trimmed;
+  try {
+    const decoded = nip19.decode(trimmed);
+    return decoded.type === 'npub' ? decoded.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Event template for a tools/call request - published like any declared event
+ * The arguments are user input whose braces aren't expressions, so callers execute it with the
+ * action executor's literal option rather than resolving it
+ */
+export function createToolCall(server: string, tool: string, args: Record<string, unknown>) {
+  return {
+    kind: CONTEXTVM_KIND,
+    json: { jsonrpc: '2.0', id: requestId(), method: 'tools/call', params: { name: tool, arguments: args } },
+    tags: [['p', server]]
+  };
+}
+
+/**
+ * Ask a server for its tools, following nextCursor pages
+ * Discovery needs no identity - a throwaway key is used unless a signer is given, so nothing prompts the user
+ * @throws ContextVMError when the server answers with an error or not at all
+ */
+export async function listTools(
+  transport: ToolTransport,
+  server: string,
+  options: { signer?: Signer; timeout?: number } = {}
+): Promise<ToolDescription[]> {
+  const signer = options.signer || LocalKeySigner.generate();
+  const tools: ToolDescription[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const request = await signer.signEvent({
+      kind: CONTEXTVM_KIND,
+      content: JSON.stringify({ jsonrpc: '2.0', id: requestId(), method: 'tools/list', params: cursor ? { cursor } : {} }),
+      tags: [['p', server]]
+    });
+    const listening = new AbortController();
+    const response = awaitToolResponse(transport, request, options.timeout, undefined, listening.signal)!;
+    try {
+      await transport.publishEvent(request);
+    } catch (error) {
+      listening.abort();
+      throw error;
+    }
+    const state = await response;
+    if (state.error) {
+      throw new ContextVMError(`tools/list failed: ${state.error}`, 'tools/list');
+    }
+    const result = state.result as { tools?: ToolDescription[]; nextCursor?: string } | undefined;
+    tools.push(...(result?.tools || []));
+    cursor = result?.nextCursor;
+  } while (cursor);
+
+  return tools;
+}
+
+/**
+ * Wait for the server's response to a published request - never rejects, failures become state.error
+ * Subscribes immediately, so call it before publishing the request (responses are ephemeral)
+ * Listens on the relays the request is published to - pass the request's extra relays
+ * Abort the signal when publishing fails, so the subscription doesn't stay open until the timeout
+ * Returns null for events that aren't ContextVM requests
+ */
+export function awaitToolResponse(
+  source: ResponseSource,
+  request: NostrEvent,
+  timeout: number = DEFAULT_RESPONSE_TIMEOUT,
+  relays?: string[],
+  signal?: AbortSignal
+): Promise<ActionState> | null {
+  const toolRequest = parseToolRequest(request);
+  if (!toolRequest) return null;
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      resolve({ id: request.id, pending: false, error: `No response from the server within ${timeout / 1000}s` });
+    }, timeout);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve({ id: request.id, pending: false, error: 'The request was not published' });
+    }, { once: true });
+
+    const unsubscribe = source.subscribeLive(
+      [withRelayHints({ kinds: [CONTEXTVM_KIND], authors: [toolRequest.server], '#e': [request.id] }, relays)],
+      (event) => {
+        const response = parseToolResponse(event, request, toolRequest);
+        if (!response) return;
+        clearTimeout(timer);
+        unsubscribe();
+        resolve({ id: request.id, pending: false, ...response });
+      }
+    );
+  });
+}
+
+/**
+ * Decode a response event - null when it answers some other request
+ * Tools report failures three ways: a JSON-RPC error, isError: true, or { success: false, error } text
+ */
+function parseToolResponse(event: NostrEvent, request: NostrEvent, toolRequest: ToolRequest): { result?: unknown; error?: string } | null {
+  if (event.pubkey !== toolRequest.server) return null;
+  if (!event.tags.some((tag) => tag[0] === 'e' && tag[1] === request.id)) return null;
+
+  let message: any;
+  try {
+    message = JSON.parse(event.content);
+  } catch {
+    return null;
+  }
+  // Servers echo the request's JSON-RPC id (some use the request event id instead)
+  if (message?.id !== undefined && toolRequest.rpcId !== undefined &&
+      String(message.id) !== toolRequest.rpcId && message.id !== request.id) {
+    return null;
+  }
+
+  if (message.error) {
+    return { error: String(message.error.message ?? JSON.stringify(message.error)) };
+  }
+
+  const result = decodeToolResult(message.result);
+  if (message.result?.isError) {
+    return { error: typeof result === 'string' ? result : JSON.stringify(result) };
+  }
+  if (isFailureResult(result)) {
+    return { result, error: String(result.error ?? 'Tool call failed') };
+  }
+  return { result };
+}
+
+// Tools that report failures in their output rather than with isError
+function isFailureResult(result: unknown): result is { success: false; error?: unknown } {
+  return !!result && typeof result === 'object' && 'success' in result && result.success === false;
+}
+
+/**
+ * tools/call results wrap their output in content: [{ type: "text", text }] - unwrap a single
+ * text item, decoding it when it holds JSON
+ */
+function decodeToolResult(result: any): unknown {
+  const content = result?.content;
+  if (!Array.isArray(content) || content.length !== 1 || content[0]?.type !== 'text') {
+    return result;
+  }
+  try {
+    return JSON.parse(content[0].text);
+  } catch {
+    return content[0].text;
+  }
+}
+
+function requestId(): string {
+  return bytesToHex(generateSecretKey()).slice(0, 16);
+}
@@ -4,6 +4,7 @@
  */
 
 import type { Clock } from '../services';
+import { evaluate, ExpressionError } from '../expression';
 
 /**
  * Resolve time expressions safely without dangerous eval
@@ -15,19 +16,13 @@ export function resolveTimeExpression(expr: string, clock: Clock): unknown {
     return undefined;
   }
 
-  const replaced = expr.replace(/\btime\.now\b/g, String(clock.now()));
-  
-  // Only allow safe arithmetic (no function calls, no variables, etc)
-  if (!/^[0-9+\-*/().\s]+$/.test(replaced)) {
-    console.warn(`Unsafe time expression rejected: ${expr}`);
-    return undefined;
-  }
-
   try {
-    // eslint-disable-next-line no-new-func
-    return Function(`"use strict";return (${replaced})`)();
+    // Only time is in scope, so any other reference resolves to undefined
+    const result = evaluate(expr, (root) => root === 'time' ? { now: clock.now() } : undefined);
+    return typeof result === 'number' ? result : undefined;
   } catch (e) {
+    if (!(e instanceof ExpressionError)) throw e;
     console.warn(`Failed to evaluate time expression: ${expr}`);
     return undefined;
   }
-}
\ No newline at end of file
+}
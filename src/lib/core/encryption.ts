@@ -0,0 +1,113 @@
+/**
+ * NIP-44 encrypted content - encrypt: templates and the decrypt pipe
+ * All crypto goes through the active signer, so keys never leave NIP-07 extensions or bunkers
+ */
+
+import { nip19 } from 'nostr-tools';
+import type { NostrEvent } from '../snstr/nip07';
+import type { Signer } from '../signers/signer';
+import { describeLocation, type SourceLocation } from '../source-map';
+import type { UnsignedEvent } from './events';
+
+export class EncryptionError extends Error {
+  constructor(message: string, public action: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Hex pubkey from a hex key or npub - null for anything else
+ */
+export function parseRecipient(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (/^[0-9a-f]{64}$/.test(trimmed)) return trimmed;
+  if (trimmed.startsWith('npub1')) {
+    try {
+      const decoded = nip19.decode(trimmed);
+      if (decoded.type === 'npub') return decoded.data;
+    } catch {
+      // Fall through - not a valid npub
+    }
+  }
+  return null;
+}
+
+/**
+ * The recipient of a resolved template's encrypt: field, or undefined when it isn't encrypted
+ * @throws EncryptionError when the recipient didn't resolve to a pubkey
+ */
+export function encryptionRecipient(actionName: string, template: Record<string, any>, loc?: SourceLocation): string | undefined {
+  if (template.encrypt === undefined) return undefined;
+  const recipient = parseRecipient(template.encrypt?.to);
+  if (!recipient) {
+    throw new EncryptionError(
+      `${actionName}${describeLocation(loc)}: encrypt.to must be a hex pubkey or npub, got ${JSON.stringify(template.encrypt?.to)}`,
+      actionName
+    );
+  }
+  return recipient;
+}
+
+/**
+ * Replace the event's content with its NIP-44 ciphertext for the template's recipient
+ * Runs after review, so the user approves the plaintext, and before signing
+ */
+export async function encryptContent(
+  actionName: string,
+  event: UnsignedEvent,
+  template: Record<string, any>,
+  signer: Signer | null | undefined,
+  loc?: SourceLocation
+): Promise<UnsignedEvent> {
+  const recipient = encryptionRecipient(actionName, template, loc);
+  if (!recipient) return event;
+  if (!signer?.nip44Encrypt) {
+    throw new EncryptionError(`${actionName}${describeLocation(loc)}: the current signer can't encrypt (NIP-44)`, actionName);
+  }
+  return { ...event, content: await signer.nip44Encrypt(recipient, event.content) };
+}
+
+// Plaintexts by event id per signer - null marks events the signer couldn't decrypt
+const decryptionCache = new WeakMap<Signer, Map<string, string | null>>();
+
+/**
+ * Decrypt every event the signer can read, keyed by event id
+ * Events the user can't decrypt (not addressed to them, or not encrypted at all) are left out
+ */
+export async function decryptEvents(events: unknown, signer: Signer | null | undefined): Promise<Map<string, string>> {
+  const plaintexts = new Map<string, string>();
+  if (!signer?.nip44Decrypt || !Array.isArray(events)) return plaintexts;
+
+  const userPubkey = await signer.getPublicKey();
+  let cache = decryptionCache.get(signer);
+  if (!cache) {
+    cache = new Map();
+    decryptionCache.set(signer, cache);
+  }
+
+  // Sequential - NIP-07 extensions and bunkers may prompt for each one
+  for (const event of events as NostrEvent[]) {
+    if (!event?.id || typeof event.content !== 'string') continue;
+    if (!cache.has(event.id)) {
+      try {
+        cache.set(event.id, await signer.nip44Decrypt(conversationPartner(event, userPubkey), event.content));
+      } catch {
+        cache.set(event.id, null);
+      }
+    }
+    const plaintext = cache.get(event.id);
+    if (plaintext != null) plaintexts.set(event.id, plaintext);
+  }
+  return plaintexts;
+}
+
+/**
+ * The other side of the conversation key - the author for incoming events,
+ * the first tagged recipient for the user's own (or the user, for notes to self)
+ */
+function conversationPartner(event: NostrEvent, userPubkey: string): string {
+  if (event.pubkey !== userPubkey) return event.pubkey;
+  return event.tags.find((tag) => tag[0] === 'p' && tag[1] !== userPubkey)?.[1] ?? userPubkey;
+}
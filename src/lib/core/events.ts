@@ -0,0 +1,246 @@
+/**
+ * Event template utilities - build the unsigned event an action publishes
+ * Shared by HypernoteExecutor and RelayActionExecutor so both honor the same template fields
+ */
+
+import type { NostrEvent } from '../snstr/nip07';
+import type { FetchResult, Filter } from '../snstr/client';
+import { isAddressableKind, isReplaceableKind } from '../schema';
+import { describeLocation, type SourceLocation } from '../source-map';
+import { encryptionRecipient } from './encryption';
+
+export interface UnsignedEvent {
+  kind: number;
+  content: string;
+  tags: string[][];
+  created_at: number;
+}
+
+export interface BuildEventOptions {
+  now?: number;
+  // Latest version of the event a tag-edit template rewrites - null when the user has none yet
+  latest?: NostrEvent | null;
+}
+
+// Anything that can fetch events and say which relays answered - SNSTRClient in the app
+export interface EventSource {
+  fetchEventsWithEose(filters: Filter[]): Promise<FetchResult>;
+}
+
+export class EventTemplateError extends Error {
+  constructor(message: string, public action: string) {
+    super(message);
+    this.name = 'EventTemplateError';
+  }
+}
+
+export class VersionConflictError extends Error {
+  constructor(message: string, public action: string, public latest: NostrEvent) {
+    super(message);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Templates with add_tag or remove_tag edit the user's latest event instead of publishing a fresh one
+ */
+export function isTagEdit(template: Record<string, any>): boolean {
+  return template.add_tag !== undefined || template.remove_tag !== undefined;
+}
+
+/**
+ * Build the unsigned event for a resolved event template
+ * - json is stringified as content when content is empty
+ * - d adds the d tag, replacing any d tag written in tags
+ * - expiration adds a NIP-40 expiration tag
+ * - created_at overrides the publish time
+ * - add_tag / remove_tag edit options.latest, keeping its other tags and its content
+ * - encrypt is only checked here - encryptContent runs after the plaintext has been reviewed
+ * Addressable kinds (30000-39999) must end up with a d tag, otherwise every publish
+ * would create a new address - this is checked before anything is signed
+ */
+export function buildUnsignedEvent(
+  actionName: string,
+  template: Record<string, any>,
+  loc?: SourceLocation,
+  options: BuildEventOptions = {}
+): UnsignedEvent {
+  const fail = failure(actionName, loc);
+  const now = options.now ?? Date.now();
+
+  const kind = Number(template.kind);
+  if (!Number.isInteger(kind) || kind < 0) {
+    throw fail(`kind must be a non-negative integer, got ${JSON.stringify(template.kind)}`);
+  }
+
+  let content = template.content;
+  if (!content && template.json !== undefined) {
+    content = JSON.stringify(template.json);
+  }
+
+  encryptionRecipient(actionName, template, loc);
+
+  let tags: string[][] = Array.isArray(template.tags) ? template.tags : [];
+  let created_at = Math.floor(now / 1000);
+
+  if (isTagEdit(template)) {
+    if (!isReplaceableKind(kind)) {
+      throw fail(`add_tag and remove_tag need a replaceable kind (0, 3, 10000-19999 or 30000-39999), got ${kind}`);
+    }
+    if (template.encrypt !== undefined) {
+      // Tag edits carry the latest content over as-is - encrypting it again would double-encrypt it
+      throw fail('encrypt can\'t be combined with add_tag or remove_tag');
+    }
+    if (options.latest === undefined) {
+      throw fail('the latest version must be fetched before editing its tags');
+    }
+
+    const latest = options.latest;
+    if (latest) {
+      // tags in the template only seed a list the user doesn't have yet
+      tags = latest.tags;
+      content = content || latest.content;
+      // Replaceable events are ordered by created_at - the edit must sort after what it replaces
+      created_at = Math.max(created_at, latest.created_at + 1);
+    }
+    if (template.remove_tag !== undefined) {
+      const prefix = tagValue(template.remove_tag, 'remove_tag', fail);
+      tags = tags.filter((tag) => !startsWith(tag, prefix));
+    }
+    if (template.add_tag !== undefined) {
+      const tag = tagValue(template.add_tag, 'add_tag', fail);
+      if (!tags.some((existing) => startsWith(existing, tag))) {
+        tags = [...tags, tag];
+      }
+    }
+  }
+
+  if (template.d !== undefined) {
+    tags = [['d', String(template.d)], ...tags.filter((tag) => tag[0] !== 'd')];
+  }
+
+  if (template.created_at !== undefined) {
+    created_at = toTimestamp(template.created_at, 'created_at', fail);
+  }
+
+  if (template.expiration !== undefined) {
+    const expiration = toTimestamp(template.expiration, 'expiration', fail);
+    if (expiration <= created_at) {
+      throw fail(`expiration ${expiration} is not after created_at ${created_at}`);
+    }
+    tags = [...tags.filter((tag) => tag[0] !== 'expiration'), ['expiration', String(expiration)]];
+  }
+
+  if (isAddressableKind(kind) && !tags.some((tag) => tag[0] === 'd')) {
+    throw fail(`kind ${kind} is addressable and needs a d tag - add d: to the event template`);
+  }
+
+  return { kind, content: content || '', tags, created_at };
+}
+
+/**
+ * Fetch the user's latest version of the event a tag-edit template rewrites
+ * Goes straight to the relays - a cached copy is exactly what would clobber newer changes
+ * null means a relay confirmed there is none - when no relay answered at all this throws, since
+ * starting a fresh list would replace the user's real one
+ */
+export async function fetchLatestVersion(
+  source: EventSource,
+  actionName: string,
+  template: Record<string, any>,
+  pubkey: string | null,
+  loc?: SourceLocation
+): Promise<NostrEvent | null> {
+  const fail = failure(actionName, loc);
+  if (!pubkey) {
+    throw fail('editing tags needs a logged in user');
+  }
+
+  const filter: Filter = { kinds: [Number(template.kind)], authors: [pubkey], limit: 1 };
+  if (isAddressableKind(Number(template.kind))) {
+    const d = template.d ?? template.tags?.find((tag: string[]) => tag[0] === 'd')?.[1];
+    if (d === undefined) {
+      throw fail(`kind ${template.kind} is addressable and needs a d tag - add d: to the event template`);
+    }
+    filter['#d'] = [String(d)];
+  }
+
+  const { events, eose } = await source.fetchEventsWithEose([filter]);
+  const latest = newest(events);
+  if (!latest && eose.length === 0) {
+    throw fail(`no relay answered for your latest kind ${template.kind} event - not replacing it with a new one`);
+  }
+  return latest;
+}
+
+/**
+ * Guard against overwriting a version published while the user was signing
+ * Throws VersionConflictError when the latest version is no longer the one that was edited
+ */
+export async function assertLatestVersion(
+  source: EventSource,
+  actionName: string,
+  template: Record<string, any>,
+  pubkey: string | null,
+  edited: NostrEvent | null,
+  loc?: SourceLocation
+): Promise<void> {
+  const current = await fetchLatestVersion(source, actionName, template, pubkey, loc);
+  if (current && current.id !== edited?.id && current.created_at >= (edited?.created_at ?? 0)) {
+    throw new VersionConflictError(
+      `${actionName}${describeLocation(loc)}: a newer kind ${current.kind} event (${current.id}) arrived while signing - not publishing over it`,
+      actionName,
+      current
+    );
+  }
+}
+
+function failure(actionName: string, loc?: SourceLocation) {
+  return (message: string) => new EventTemplateError(`${actionName}${describeLocation(loc)}: ${message}`, actionName);
+}
+
+/**
+ * Newest event by created_at - ties go to the lowest id, as NIP-01 specifies for replaceable events
+ */
+function newest(events: NostrEvent[]): NostrEvent | null {
+  let latest: NostrEvent | null = null;
+  for (const event of events) {
+    if (!latest || event.created_at > latest.created_at || (event.created_at === latest.created_at && event.id < latest.id)) {
+      latest = event;
+    }
+  }
+  return latest;
+}
+
+function tagValue(value: unknown, field: string, fail: (message: string) => Error): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw fail(`${field} must be a tag like ["p", "<pubkey>"], got ${JSON.stringify(value)}`);
+  }
+  const tag = value.map(String);
+  // An unresolved {expression} would add a garbage tag to the user's list
+  if (tag.some((item) => /\{[^}]+\}/.test(item) || item === '')) {
+    throw fail(`${field} has unresolved values: ${JSON.stringify(tag)}`);
+  }
+  return tag;
+}
+
+// ["p", pk] matches ["p", pk, "wss://relay", "alice"] - extra tag fields are relay hints and petnames
+function startsWith(tag: string[], prefix: string[]): boolean {
+  return prefix.every((item, i) => tag[i] === item);
+}
+
+/**
+ * Unix timestamp in seconds - resolved templates turn numbers into strings, so both are accepted
+ * Fractions are floored so "{time.now / 1000 + 86400}" works
+ */
+function toTimestamp(value: unknown, field: string, fail: (message: string) => Error): number {
+  const seconds = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0) {
+    throw fail(`${field} must be a unix timestamp in seconds, got ${JSON.stringify(value)}`);
+  }
+  // time.now is in milliseconds - catch templates that forgot to divide
+  if (seconds >= 1e12) {
+    throw fail(`${field} ${seconds} looks like milliseconds - use seconds`);
+  }
+  return Math.floor(seconds);
+}
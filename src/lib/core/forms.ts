@@ -3,6 +3,7 @@
  * Following RENDER_REFACTOR_IDEAS.md approach
  */
 
+import { nip19 } from 'nostr-tools';
 import type { Hypernote, AnyElement } from '../schema';
 
 // Type alias for backwards compatibility
@@ -26,9 +27,43 @@ export function deriveInitialFormData(h: Hypernote): Record<string, string> {
         }
       }
       if (el.elements) walk(el.elements);
+      if (el.type === "if") {
+        el.branches?.forEach((branch) => walk(branch.elements));
+        walk(el.else);
+      }
+      if (el.type === "loop") walk(el.empty);
     });
   };
   
   walk(h.elements);
   return acc;
-}
\ No newline at end of file
+}
+
+/**
+ * Form response targeting - [form @event target="#id"] re-renders the component instance
+ * with that elementId, passing the published event's nevent as its argument
+ * Returns a new map of elementId -> argument override
+ */
+export function targetFormResponse(
+  targetArguments: Record<string, string>,
+  target: string | undefined,
+  eventId: string
+): Record<string, string> {
+  if (!target) return targetArguments;
+  return {
+    ...targetArguments,
+    [target.replace(/^#/, '')]: nip19.neventEncode({ id: eventId })
+  };
+}
+
+/**
+ * The argument a component instance renders with - a targeted form response replaces
+ * the argument written in the document
+ */
+export function getTargetedArgument(
+  element: { elementId?: string; argument?: string },
+  targetArguments: Record<string, string> | undefined
+): string {
+  const override = element.elementId ? targetArguments?.[element.elementId] : undefined;
+  return override ?? element.argument ?? '';
+}
@@ -0,0 +1,316 @@
+/**
+ * Scope resolution shared by every renderer (React, headless evaluate, static HTML)
+ * Zero React dependencies - variables, conditions, loops, slots and props all resolve here
+ */
+
+import { evaluate, interpolate, isTruthy, ExpressionError } from '../expression';
+import type { Clock } from '../services';
+import type { ActionState } from '../contextvm';
+import { describeLocation, type SourceLocation } from '../source-map';
+
+// Render context interface shared by all renderers (no React-specific stuff)
+export interface RenderContext {
+  queryResults: Record<string, any>;
+  loadingQueries?: Set<string>;
+  extractedVariables: Record<string, any>;
+  formData: Record<string, string>;
+  userPubkey: string | null;
+  loopVariables: Record<string, any>;
+  target?: any;
+  props?: Record<string, any>;
+  slotContent?: SlotContent;
+  actionStates?: Record<string, ActionState>; // @action -> ContextVM request state
+}
+
+/**
+ * Children passed to a component block, with the caller's context they render in
+ */
+export interface SlotContent {
+  elements: any[];
+  ctx: any;
+}
+
+/**
+ * Resolve the root name of a path (e.g. "$note", "user", "time") against the render context
+ */
+export function resolveRoot(root: string, ctx: RenderContext, clock?: Clock): any {
+  // Action states - {@make_move.pending}, {@make_move.error}
+  if (root.startsWith('@')) return ctx.actionStates?.[root];
+  
+  // Normalize root - handle with or without $ prefix
+  const base = root.startsWith('$') ? root.slice(1) : root;
+  
+  // Resolution priority (first match wins):
+  
+  // 1. Loop variables (highest priority - most local scope)
+  // Check both with and without $ prefix for compatibility
+  if (ctx.loopVariables[`$${base}`] !== undefined) return ctx.loopVariables[`$${base}`];
+  if (ctx.loopVariables[base] !== undefined) return ctx.loopVariables[base];
+  
+  // 2. Query results
+  if (ctx.queryResults[`$${base}`] !== undefined) return ctx.queryResults[`$${base}`];
+  if (ctx.queryResults[base] !== undefined) return ctx.queryResults[base];
+  
+  // 3. Extracted variables (stored without $ prefix)
+  if (ctx.extractedVariables[base] !== undefined) return ctx.extractedVariables[base];
+  
+  // 4. Built-in contexts
+  switch (base) {
+    case 'user':
+      return { pubkey: ctx.userPubkey };
+    case 'target':
+      return ctx.target || undefined;
+    case 'form':
+      return ctx.formData;
+    case 'props':
+      return ctx.props || {};
+    case 'time':
+      return { now: clock ? clock.now() : Date.now() };
+  }
+  
+  return undefined;
+}
+
+// Unresolved references are reported once per source location, not on every render
+const MAX_REPORTED = 500;
+const reported = new Set<string>();
+
+/**
+ * Root resolver that records names which resolve to nothing
+ * Action states and the target are expected to be missing until they load, so they aren't recorded
+ */
+function recordingResolver(ctx: RenderContext, unresolved: string[], clock?: Clock) {
+  return (root: string) => {
+    const value = resolveRoot(root, ctx, clock);
+    const base = root.startsWith('$') ? root.slice(1) : root;
+    const loading = ctx.loadingQueries?.has(`$${base}`) || ctx.loadingQueries?.has(base);
+    if (value === undefined && !loading && !root.startsWith('@') && base !== 'target') {
+      unresolved.push(root);
+    }
+    return value;
+  };
+}
+
+function reportUnresolved(unresolved: string[], source: string, loc: SourceLocation | undefined) {
+  if (unresolved.length === 0) return;
+  const message = `Unresolved ${[...new Set(unresolved)].join(', ')} in "${source}"${describeLocation(loc)} - rendered blank`;
+  if (reported.has(message)) return;
+  if (reported.size >= MAX_REPORTED) reported.clear();
+  reported.add(message);
+  console.warn(`[render] ${message}`);
+}
+
+/**
+ * Single pure function for ALL variable resolution
+ * Extracted from renderer.tsx - zero React dependencies
+ * Accepts full expressions ($posts.length > 0, $count or 0, time.now - 3600) evaluated by the
+ * sandboxed expression language; the injected clock backs time.now
+ */
+export function resolveExpression(expr: string, ctx: RenderContext, clock?: Clock, loc?: SourceLocation): any {
+  let value: any;
+  const unresolved: string[] = [];
+  try {
+    value = evaluate(expr, recordingResolver(ctx, unresolved, clock));
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) throw error;
+    console.warn(`[render] Invalid expression "${expr}"${describeLocation(loc)}: ${error.message}`);
+    value = undefined;
+  }
+  reportUnresolved(unresolved, expr, loc);
+  
+  // Return the value if found, otherwise return original expression
+  // But if value is explicitly null (like user.pubkey when not logged in), return null
+  return value !== undefined ? value : expr;
+}
+
+/**
+ * Evaluate a condition expression to a boolean using Hypernote truthiness
+ * Unparseable conditions are false (the tokenizer rejects them at compile time)
+ */
+export function evaluateCondition(condition: string, ctx: RenderContext, clock?: Clock, loc?: SourceLocation): boolean {
+  try {
+    return isTruthy(evaluate(condition, (root) => resolveRoot(root, ctx, clock)));
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) throw error;
+    console.warn(`[renderIf] Invalid condition "${condition}"${describeLocation(loc)}: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Pure string processor - replaces {expressions} with values  
+ * Extracted from renderer.tsx - zero React dependencies
+ * Variables that don't resolve render blank and are reported with loc, the element the string belongs to
+ */
+export function processString(str: string, ctx: RenderContext, loc?: SourceLocation): string {
+  const unresolved: string[] = [];
+  const result = interpolate(str, recordingResolver(ctx, unresolved));
+  reportUnresolved(unresolved, str, loc);
+  return result;
+}
+
+/**
+ * Resolve the props passed to a component against its prop declarations
+ * A value that is a single {expression} keeps its resolved type, other values are interpolated;
+ * declared props are coerced to their type and fall back to their default
+ */
+export function resolveComponentProps(
+  props: Record<string, string> | undefined,
+  declarations: Record<string, { type: string; default?: any }> | undefined,
+  ctx: RenderContext,
+  loc?: SourceLocation
+): Record<string, any> {
+  const resolved: Record<string, any> = {};
+  
+  for (const [name, raw] of Object.entries(props || {})) {
+    const single = raw.match(/^\{([^}]+)\}$/);
+    if (single) {
+      try {
+        resolved[name] = evaluate(single[1], (root) => resolveRoot(root, ctx));
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        resolved[name] = undefined;
+      }
+    } else {
+      resolved[name] = processString(raw, ctx, loc);
+    }
+  }
+  
+  for (const [name, declaration] of Object.entries(declarations || {})) {
+    const value = resolved[name] === undefined ? undefined : coercePropValue(resolved[name], declaration.type);
+    resolved[name] = value === undefined ? declaration.default : value;
+  }
+  
+  return resolved;
+}
+
+/**
+ * Coerce a resolved prop value to its declared type - undefined if it can't be converted
+ */
+function coercePropValue(value: any, type: string): any {
+  switch (type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      return value === null || value === '' || Number.isNaN(number) ? undefined : number;
+    }
+    case 'boolean':
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return isTruthy(value);
+    case 'json':
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    default:
+      if (value === null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Stable key for a loop item - the key expression, then the event id, then the position
+ */
+export function getLoopKey(element: any, item: any, index: number, loopCtx: any): string | number {
+  if (element.key) {
+    try {
+      const key = evaluate(element.key, root => resolveRoot(root, loopCtx));
+      if (key !== undefined && key !== null && key !== '') return String(key);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      console.warn(`[renderLoop] Invalid key expression "${element.key}"${describeLocation(element.loc)}:`, error.message);
+    }
+  }
+  return item?.id ?? index;
+}
+
+/**
+ * Resolve the items a loop iterates over
+ * isLoading is true while the source query hasn't returned yet
+ */
+export function resolveLoopData(element: any, ctx: RenderContext): { data: any[]; isLoading: boolean } {
+  const source = element.source || '';
+  
+  // Check if source is a query result or a nested field
+  let data;
+  let isLoading = false;
+  
+  if (source.startsWith('$')) {
+    // Check if it's a loop variable first
+    if (ctx.loopVariables && ctx.loopVariables[source]) {
+      data = ctx.loopVariables[source];
+    } else if (source.includes('.')) {
+      // Nested field access like $board_state.board
+      data = resolveExpression(source, ctx, { now: () => Date.now() }, element.loc);
+    } else {
+      // Direct query result
+      data = ctx.queryResults[source];
+      isLoading = ctx.loadingQueries?.has(source) || false;
+    }
+  } else {
+    // Try to resolve as an expression
+    data = resolveExpression(source, ctx, { now: () => Date.now() }, element.loc);
+  }
+  
+  // Ensure data is an array
+  return { data: Array.isArray(data) ? data : [], isLoading };
+}
+
+/**
+ * Scope for one loop iteration - the item, the optional index variable and $loop
+ */
+export function createLoopContext<T extends RenderContext>(element: any, ctx: T, item: any, index: number, length: number): T {
+  const varName = element.variable || '$item';
+  return {
+    ...ctx,
+    loopVariables: {
+      ...ctx.loopVariables,
+      [varName]: item,
+      ...(element.index ? { [element.index]: index } : {}),
+      $loop: { index, first: index === 0, last: index === length - 1, length }
+    }
+  };
+}
+
+/**
+ * Pick the children of the first [if]/[elif] branch whose condition is truthy, falling back to [else]
+ * Returns undefined when nothing matched and there is no [else]
+ */
+export function selectIfChildren(element: any, ctx: RenderContext, clock?: Clock): any[] | undefined {
+  if (evaluateCondition(element.condition || '', ctx, clock, element.loc)) {
+    return element.elements;
+  }
+  const branch = element.branches?.find((b: any) => evaluateCondition(b.condition, ctx, clock, element.loc));
+  return branch ? branch.elements : element.else;
+}
+
+/**
+ * Caller children for a [slot] - unnamed slots take every child that doesn't target a named slot
+ */
+export function selectSlotChildren(element: any, slotContent: SlotContent | undefined): any[] {
+  if (!slotContent) return [];
+  const name = element.attributes?.name || '';
+  return slotContent.elements.filter((child: any) => (child.attributes?.slot || '') === name);
+}
+
+/**
+ * Text shown by a [json $variable] element
+ */
+export function resolveJsonText(element: any, ctx: RenderContext): { variable: string; text: string } {
+  const variable = element.attributes?.variable || '$data';
+  
+  // Use the unified resolver!
+  const actualData = resolveExpression(variable, ctx, { now: () => Date.now() }, element.loc);
+  
+  if (actualData !== undefined && actualData !== variable) {
+    // resolveExpression returns the original expression if not found
+    try {
+      return { variable, text: JSON.stringify(actualData, null, 2) };
+    } catch (e) {
+      return { variable, text: String(actualData) };
+    }
+  }
+  return { variable, text: `No data found for variable: ${variable}` };
+}
@@ -0,0 +1,130 @@
+/**
+ * Tool forms - turn an MCP tool's JSON-schema inputSchema into form fields and back into arguments
+ * Zero React dependencies - ToolForm renders the fields, parseToolArguments checks what was typed
+ */
+
+export type ToolFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'enum' | 'json';
+
+export interface ToolField {
+  name: string;
+  label: string;        // Schema title, falling back to the property name
+  type: ToolFieldType;  // object and array properties are typed as JSON
+  required: boolean;
+  description?: string;
+  options?: unknown[];  // enum values as declared - the select shows them as strings
+  default?: string;     // Initial form value
+}
+
+// A tool as listed by tools/list
+export interface ToolDescription {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: {
+    type?: string;
+    properties?: Record<string, any>;
+    required?: string[];
+  };
+}
+
+/**
+ * One field per inputSchema property, in declaration order
+ */
+export function toolFields(tool: ToolDescription): ToolField[] {
+  const properties = tool.inputSchema?.properties || {};
+  const required = new Set(tool.inputSchema?.required || []);
+
+  return Object.entries(properties).map(([name, schema]) => {
+    const field: ToolField = {
+      name,
+      label: schema?.title || name,
+      type: fieldType(schema),
+      required: required.has(name)
+    };
+    if (schema?.description) field.description = schema.description;
+    if (Array.isArray(schema?.enum)) field.options = schema.enum;
+    if (schema?.default !== undefined) {
+      field.default = typeof schema.default === 'string' ? schema.default : JSON.stringify(schema.default);
+    }
+    return field;
+  });
+}
+
+/**
+ * Convert form values (always strings) to tool arguments, checking them against the field types
+ * Empty optional fields are left out; errors are keyed by field name
+ */
+export function parseToolArguments(
+  fields: ToolField[],
+  values: Record<string, string>
+): { args: Record<string, unknown>; errors: Record<string, string> } {
+  const args: Record<string, unknown> = {};
+  const errors: Record<string, string> = {};
+
+  for (const field of fields) {
+    const raw = values[field.name] ?? '';
+
+    // Checkboxes are always answered - unchecked is false
+    if (field.type === 'boolean') {
+      if (raw !== '' || field.required) args[field.name] = raw === 'true';
+      continue;
+    }
+
+    if (raw.trim() === '') {
+      if (field.required) errors[field.name] = 'Required';
+      continue;
+    }
+
+    switch (field.type) {
+      case 'number':
+      case 'integer': {
+        const value = Number(raw);
+        if (!Number.isFinite(value)) {
+          errors[field.name] = 'Must be a number';
+        } else if (field.type === 'integer' && !Number.isInteger(value)) {
+          errors[field.name] = 'Must be a whole number';
+        } else {
+          args[field.name] = value;
+        }
+        break;
+      }
+      case 'enum': {
+        const index = (field.options || []).findIndex((option) => String(option) === raw);
+        if (index >= 0) {
+          args[field.name] = field.options![index];
+        } else {
+          errors[field.name] = `Must be one of ${(field.options || []).join(', ')}`;
+        }
+        break;
+      }
+      case 'json':
+        try {
+          args[field.name] = JSON.parse(raw);
+        } catch {
+          errors[field.name] = 'Must be valid JSON';
+        }
+        break;
+      default:
+        args[field.name] = raw;
+    }
+  }
+
+  return { args, errors };
+}
+
+/**
+ * Field type of a property schema - nullable types (["string", "null"]) use the non-null type
+ */
+function fieldType(schema: any): ToolFieldType {
+  if (Array.isArray(schema?.enum)) return 'enum';
+  const type = Array.isArray(schema?.type) ? schema.type.find((t: string) => t !== 'null') : schema?.type;
+  switch (type) {
+    case 'string':
+    case 'number':
+    case 'integer':
+    case 'boolean':
+      return type;
+    default:
+      return 'json';
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Decompiler - turns compiled Hypernote JSON back into HNMD source
+ * The reverse of compileHypernoteToContent, so published Hypernotes can be viewed and forked
+ * Styles become Tailwind classes and pipes use the compact YAML syntax where possible
+ */
+
+import * as yaml from 'js-yaml';
+import { nip19 } from 'nostr-tools';
+import type { Hypernote } from './schema';
+import { styleToTailwindClasses } from './tailwind-parser';
+import { decompileCompactPipe } from './pipe-compiler';
+import { stripSourceLocations } from './source-map';
+
+// Document fields emitted first, in this order, ahead of queries and events
+const DOCUMENT_FIELDS = ['type', 'title', 'description', 'name', 'kind', 'props'] as const;
+
+// Element types styled by a preceding {class="..."} line - the rest take a class="..." attribute
+const MARKER_STYLED = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'form', 'img', 'loop', 'if', 'component']);
+
+const HEADING_PATTERN = /^h([1-6])$/;
+const VARIABLE_PATTERN = /^\{(\$|user\.|time\.|target\.|form\.)[^}]*\}$/;
+const LITERAL_PATTERN = /^(-?\d+(\.\d+)?|true|false|null)$/;
+
+/**
+ * Decompile a Hypernote into HNMD - frontmatter YAML followed by the markdown body
+ */
+export function decompileHypernote(compiled: Hypernote | Record<string, any>): string {
+  const hypernote = stripSourceLocations(compiled);
+  const frontmatter = decompileFrontmatter(hypernote);
+  const body = emitElements(hypernote.elements || [], false);
+
+  if (Object.keys(frontmatter).length === 0) {
+    return body;
+  }
+
+  const yamlSource = yaml.dump(frontmatter, { lineWidth: -1, noRefs: true }).trimEnd();
+  return `---\n${yamlSource}\n---\n\n${body}`;
+}
+
+function decompileFrontmatter(hypernote: Record<string, any>): Record<string, any> {
+  const frontmatter: Record<string, any> = {};
+
+  for (const field of DOCUMENT_FIELDS) {
+    if (hypernote[field] !== undefined) {
+      frontmatter[field] = hypernote[field];
+    }
+  }
+
+  if (hypernote.style && Object.keys(hypernote.style).length > 0) {
+    const classes = toClasses(hypernote.style, 'root style');
+    if (classes) frontmatter.style = classes;
+  }
+
+  for (const [name, query] of Object.entries(hypernote.queries || {})) {
+    frontmatter[name] = decompileQuery(name, query);
+  }
+
+  for (const [name, event] of Object.entries(hypernote.events || {})) {
+    frontmatter[name] = hasPipe(event)
+      ? { ...event, pipe: decompileCompactPipe(event.pipe) }
+      : event;
+  }
+
+  return frontmatter;
+}
+
+// Event templates with a pipe to turn back into the compact form
+function hasPipe(value: unknown): value is Record<string, any> & { pipe: unknown } {
+  return !!value && typeof value === 'object' && 'pipe' in value && !!value.pipe;
+}
+
+function decompileQuery(name: string, query: any): any {
+  if (!query || typeof query !== 'object') {
+    return query;
+  }
+
+  // Component imports compiled from an naddr go back to the naddr
+  if (name.startsWith('#')) {
+    const naddr = componentQueryToNaddr(query);
+    if (naddr) return naddr;
+  }
+
+  return query.pipe ? { ...query, pipe: decompileCompactPipe(query.pipe) } : query;
+}
+
+function componentQueryToNaddr(query: any): string | null {
+  // Relay hints are optional - they go back into the naddr
+  const keys = Object.keys(query).filter((key) => key !== 'relays').sort().join(',');
+  if (keys !== '#d,authors,kinds,limit,pipe') return null;
+  if (query.limit !== 1 || query.kinds?.length !== 1 || query.authors?.length !== 1 || query['#d']?.length !== 1) return null;
+  if (JSON.stringify(query.pipe) !== JSON.stringify([{ op: 'first' }])) return null;
+  if (query.relays !== undefined && !(Array.isArray(query.relays) && query.relays.length > 0)) return null;
+
+  try {
+    return nip19.naddrEncode({ kind: query.kinds[0], pubkey: query.authors[0], identifier: query['#d'][0], relays: query.relays });
+  } catch (e) {
+    return null;
+  }
+}
+
+function toClasses(style: Record<string, any>, context: string): string {
+  const { classes, unsupported } = styleToTailwindClasses(style);
+  if (Object.keys(unsupported).length > 0) {
+    console.warn(`[Decompiler] No Tailwind class for ${context} properties:`, unsupported);
+  }
+  return classes;
+}
+
+/**
+ * Emit a list of block elements - blank lines separate blocks, except after a paragraph
+ * that already ends in a line break (its trailing space came from that break)
+ */
+function emitElements(elements: any[], inContainer: boolean): string {
+  let out = '';
+
+  elements.forEach((element, i) => {
+    if (i > 0) {
+      out += out.endsWith('\n') ? (element.type === 'p' ? '\n' : '') : '\n\n';
+    }
+    out += emitMarkers(element, inContainer) + emitElement(element);
+  });
+
+  return out;
+}
+
+/**
+ * {#id} and {class="..."} lines applying to the next element
+ * IDs only exist at the top level (components carry theirs inside the bracket),
+ * paragraphs in containers and inline components never take a style
+ */
+function emitMarkers(element: any, inContainer: boolean): string {
+  let markers = '';
+
+  if (element.elementId && !inContainer && element.type !== 'component') {
+    markers += `{#${element.elementId}}\n`;
+  }
+
+  const takesStyle = MARKER_STYLED.has(element.type)
+    && !(inContainer && element.type === 'p')
+    && !(element.type === 'component' && !element.elements);
+  if (element.style && takesStyle) {
+    const classes = toClasses(element.style, `${element.type} element`);
+    if (classes) markers += `{class="${classes}"}\n`;
+  }
+
+  return markers;
+}
+
+function emitElement(element: any): string {
+  const heading = HEADING_PATTERN.exec(element.type);
+  if (heading) {
+    return `${'#'.repeat(Number(heading[1]))} ${emitInlineFlat(element.content || [])}`;
+  }
+
+  switch (element.type) {
+    case 'p':
+      return emitInline(element.content || []);
+
+    case 'div':
+    case 'span':
+    case 'button':
+      return emitContainer(`[${element.type}${emitAttributes(element)}]`, [{ elements: element.elements || [] }], `[/${element.type}]`);
+
+    case 'form': {
+      const target = element.target ? ` target="#${element.target}"` : '';
+      return emitContainer(`[form${element.event ? ` ${element.event}` : ''}${target}]`, [{ elements: element.elements || [] }], '[/form]');
+    }
+
+    case 'loop': {
+      const index = element.index ? `, ${element.index}` : '';
+      const key = element.key ? ` key="${element.key}"` : '';
+      const sections: Section[] = [{ elements: element.elements || [] }];
+      if (element.empty) sections.push({ marker: '[empty]', elements: element.empty });
+      return emitContainer(`[each ${element.source} as ${element.variable}${index}${key}]`, sections, '[/each]');
+    }
+
+    case 'if': {
+      const sections: Section[] = [{ elements: element.elements || [] }];
+      for (const branch of element.branches || []) {
+        sections.push({ marker: `[elif ${branch.condition}]`, elements: branch.elements });
+      }
+      if (element.else) sections.push({ marker: '[else]', elements: element.else });
+      return emitContainer(`[if ${element.condition}]`, sections, '[/if]');
+    }
+
+    case 'component': {
+      // An ID needs an argument in front of it, even an empty one
+      const argument = element.argument ? ` ${element.argument}` : element.elementId ? ' ""' : '';
+      const id = element.elementId ? ` {#${element.elementId}}` : '';
+      const open = `[#${element.alias}${argument}${id}${emitProps(element.props)}]`;
+      return element.elements
+        ? emitContainer(open, [{ elements: element.elements }], `[/#${element.alias}]`)
+        : open;
+    }
+
+    case 'img':
+      return `![${element.attributes?.alt || ''}](${element.attributes?.src || ''})`;
+
+    case 'tool':
+      return `[tool server="${element.server}" name="${element.tool}"${emitAttributes(element)}]`;
+
+    case 'json':
+      return `[json${element.attributes?.variable ? ` ${element.attributes.variable}` : ''}]`;
+
+    case 'strong':
+    case 'em':
+    case 'code':
+      return emitInline([element]);
+
+    default: {
+      // Self-closing elements such as [input], [textarea] and [slot]
+      const content = element.content?.length ? ` "${element.content.join('')}"` : '';
+      return `[${element.type}${content}${emitAttributes(element)}]`;
+    }
+  }
+}
+
+interface Section {
+  marker?: string;
+  elements: any[];
+}
+
+/**
+ * Emit a container with its closing tag - a trailing paragraph runs up to the
+ * next tag on the same line, since a line break there would add a space
+ */
+function emitContainer(open: string, sections: Section[], close: string): string {
+  // A lone single-line paragraph stays inline, e.g. [button]Submit[/button]
+  if (sections.length === 1 && sections[0].elements.length === 1 && sections[0].elements[0].type === 'p') {
+    const text = emitInline(sections[0].elements[0].content || []);
+    if (!text.includes('\n')) return `${open}${text}${close}`;
+  }
+
+  let out = open;
+  for (const section of sections) {
+    if (section.marker) out += section.marker;
+    const body = emitElements(section.elements, true);
+    out += '\n' + body;
+    const last = section.elements[section.elements.length - 1];
+    if (body && last.type !== 'p' && !body.endsWith('\n')) {
+      out += '\n';
+    }
+  }
+  return out + close;
+}
+
+/**
+ * Bracket attributes, with the element's style folded back into class="..."
+ */
+function emitAttributes(element: any): string {
+  const attributes: Record<string, string> = { ...element.attributes };
+  if (element.style) {
+    const classes = toClasses(element.style, `${element.type} element`);
+    if (classes) attributes.class = classes;
+  }
+  return Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${value}"`)
+    .join('');
+}
+
+function emitProps(props: Record<string, string> | undefined): string {
+  if (!props) return '';
+  return Object.entries(props)
+    .map(([name, value]) => {
+      // Whole-value references go back to the unquoted form, e.g. author=$note.pubkey
+      const reference = /^\{([^{}\s"\]]+)\}$/.exec(value);
+      if (reference && !LITERAL_PATTERN.test(reference[1])) {
+        return ` ${name}=${reference[1]}`;
+      }
+      return ` ${name}="${value}"`;
+    })
+    .join('');
+}
+
+/**
+ * Emit paragraph content so it tokenizes back into the same items
+ * A " " item after text not ending in a space is what a line break produces,
+ * and two adjacent text items are only separate when a line break split them
+ */
+function emitInline(content: any[]): string {
+  let out = '';
+  let previous: 'none' | 'text' | 'variable' | 'element' | 'break' = 'none';
+  let previousText = '';
+
+  for (const item of content) {
+    if (typeof item !== 'string') {
+      out += emitInlineElement(item);
+      previous = 'element';
+    } else if (VARIABLE_PATTERN.test(item)) {
+      out += item;
+      previous = 'variable';
+    } else if (item === ' ' && previous !== 'none' && previous !== 'break' && !(previous === 'text' && previousText.endsWith(' '))) {
+      out += '\n';
+      previous = 'break';
+    } else {
+      if (previous === 'text' && previousText.endsWith(' ')) {
+        out += '\n';
+      }
+      out += item;
+      previous = 'text';
+      previousText = item;
+    }
+  }
+
+  return out;
+}
+
+function emitInlineFlat(content: any[]): string {
+  return content.map((item) => (typeof item === 'string' ? item : emitInlineElement(item))).join('');
+}
+
+function emitInlineElement(element: any): string {
+  switch (element.type) {
+    case 'strong':
+      return `**${emitInlineFlat(element.content || [])}**`;
+    case 'em':
+      return `*${emitInlineFlat(element.content || [])}*`;
+    case 'code':
+      return `\`${(element.content || []).join('')}\``;
+    default:
+      return emitInlineFlat(element.content || []);
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * Sandboxed expression language for Hypernote
+ * Used by [if] conditions, {} interpolation and event template resolution.
+ * Expressions are parsed into a small AST and evaluated by walking it - no eval, no Function.
+ *
+ * Grammar (lowest to highest precedence):
+ *   or-expr     := and-expr (("||" | "or") and-expr)*
+ *   and-expr    := compare (("&&" | "and") compare)*
+ *   compare     := additive (("==" | "!=" | "<" | "<=" | ">" | ">=") additive)?
+ *   additive    := term (("+" | "-") term)*
+ *   term        := unary (("*" | "/" | "%") unary)*
+ *   unary       := ("!" | "not" | "-") unary | primary
+ *   primary     := number | string | true | false | null | path | "(" or-expr ")"
+ *   path        := ("$" | "@")? name ("." (name | digits))*
+ */
+
+export type BinaryOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%';
+export type LogicalOperator = '&&' | '||' | 'or';
+
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null; start: number; end: number }
+  | { type: 'path'; root: string; members: string[]; start: number; end: number }
+  | { type: 'unary'; operator: '!' | '-'; argument: ExpressionNode; start: number; end: number }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; start: number; end: number }
+  | { type: 'logical'; operator: LogicalOperator; left: ExpressionNode; right: ExpressionNode; start: number; end: number };
+
+/**
+ * Expression syntax error with the offset (0-based) into the expression source
+ */
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public offset: number,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+/**
+ * Resolves the root of a path (e.g. "$posts", "user", "@increment") to a value.
+ * Return undefined when the name is unknown.
+ */
+export type RootResolver = (root: string) => any;
+
+type ExprTokenType = 'number' | 'string' | 'name' | 'operator' | 'lparen' | 'rparen' | 'dot' | 'eof';
+
+interface ExprToken {
+  type: ExprTokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'true', 'false', 'null']);
+
+// Two-character operators must be checked before their one-character prefixes
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%'];
+
+// Fields that live on the Nostr event itself rather than inside kind 0 profile JSON
+const EVENT_FIELDS = new Set(['id', 'pubkey', 'created_at', 'kind', 'tags', 'content', 'sig']);
+
+function isNameStart(char: string): boolean {
+  return /[a-zA-Z_]/.test(char);
+}
+
+function isNameChar(char: string): boolean {
+  return /[a-zA-Z0-9_]/.test(char);
+}
+
+/**
+ * Split an expression into tokens
+ */
+function lexExpression(source: string): ExprToken[] {
+  const tokens: ExprToken[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+
+    if (/[0-9]/.test(char)) {
+      while (pos < source.length && /[0-9]/.test(source[pos])) pos++;
+      // After a dot this is an index (tags.0.1), so it can't have a fraction
+      const isIndex = tokens[tokens.length - 1]?.type === 'dot';
+      if (!isIndex && source[pos] === '.' && /[0-9]/.test(source[pos + 1] || '')) {
+        pos++;
+        while (pos < source.length && /[0-9]/.test(source[pos])) pos++;
+      }
+      tokens.push({ type: 'number', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      pos++;
+      let value = '';
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          pos++;
+        }
+        value += source[pos];
+        pos++;
+      }
+      if (pos >= source.length) {
+        throw new ExpressionError('Unclosed string literal', start, 'UNCLOSED_STRING');
+      }
+      pos++; // Skip closing quote
+      tokens.push({ type: 'string', value, start, end: pos });
+      continue;
+    }
+
+    if (char === '$' || char === '@' || isNameStart(char)) {
+      pos++;
+      while (pos < source.length && isNameChar(source[pos])) pos++;
+      const value = source.slice(start, pos);
+      if (value === '$' || value === '@') {
+        throw new ExpressionError(`Expected a name after "${value}"`, start, 'INVALID_REFERENCE');
+      }
+      tokens.push({ type: 'name', value, start, end: pos });
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, start, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    if (char === '.') {
+      tokens.push({ type: 'dot', value: char, start, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, start, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    if (char === '=') {
+      throw new ExpressionError('Unexpected "=" - use "==" for comparison', start, 'UNEXPECTED_CHARACTER');
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`, start, 'UNEXPECTED_CHARACTER');
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token list
+ */
+class ExpressionParser {
+  private pos = 0;
+
+  constructor(private tokens: ExprToken[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError(`Unexpected "${next.value}"`, next.start, 'UNEXPECTED_TOKEN');
+    }
+    return node;
+  }
+
+  private peek(): ExprToken {
+    return this.tokens[this.pos];
+  }
+
+  private advance(): ExprToken {
+    return this.tokens[this.pos++];
+  }
+
+  private matchOperator(...operators: string[]): ExprToken | null {
+    const token = this.peek();
+    const isOperator = token.type === 'operator' || (token.type === 'name' && KEYWORDS.has(token.value));
+    if (isOperator && operators.includes(token.value)) {
+      return this.advance();
+    }
+    return null;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    let token: ExprToken | null;
+    while ((token = this.matchOperator('||', 'or'))) {
+      const right = this.parseAnd();
+      const operator = token.value as LogicalOperator;
+      left = { type: 'logical', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseComparison();
+    while (this.matchOperator('&&', 'and')) {
+      const right = this.parseComparison();
+      left = { type: 'logical', operator: '&&', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.matchOperator('==', '!=', '<', '<=', '>', '>=');
+    if (!token) return left;
+
+    const right = this.parseAdditive();
+    const chained = this.peek();
+    if (chained.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(chained.value)) {
+      throw new ExpressionError('Comparisons cannot be chained - use && to combine them', chained.start, 'CHAINED_COMPARISON');
+    }
+    return { type: 'binary', operator: token.value as BinaryOperator, left, right, start: left.start, end: right.end };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseTerm();
+    let token: ExprToken | null;
+    while ((token = this.matchOperator('+', '-'))) {
+      const right = this.parseTerm();
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    let token: ExprToken | null;
+    while ((token = this.matchOperator('*', '/', '%'))) {
+      const right = this.parseUnary();
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.matchOperator('!', 'not', '-');
+    if (token) {
+      const argument = this.parseUnary();
+      const operator = token.value === '-' ? '-' : '!';
+      return { type: 'unary', operator, argument, start: token.start, end: argument.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { type: 'literal', value: Number(token.value), start: token.start, end: token.end };
+
+      case 'string':
+        this.advance();
+        return { type: 'literal', value: token.value, start: token.start, end: token.end };
+
+      case 'lparen': {
+        this.advance();
+        const inner = this.parseOr();
+        const closing = this.peek();
+        if (closing.type !== 'rparen') {
+          throw new ExpressionError('Missing closing parenthesis', token.start, 'UNCLOSED_PAREN');
+        }
+        this.advance();
+        return { ...inner, start: token.start, end: closing.end };
+      }
+
+      case 'name': {
+        if (token.value === 'true' || token.value === 'false') {
+          this.advance();
+          return { type: 'literal', value: token.value === 'true', start: token.start, end: token.end };
+        }
+        if (token.value === 'null') {
+          this.advance();
+          return { type: 'literal', value: null, start: token.start, end: token.end };
+        }
+        if (KEYWORDS.has(token.value)) {
+          throw new ExpressionError(`Unexpected keyword "${token.value}"`, token.start, 'UNEXPECTED_TOKEN');
+        }
+        return this.parsePath();
+      }
+
+      case 'eof':
+        throw new ExpressionError('Unexpected end of expression', token.start, 'UNEXPECTED_END');
+
+      default:
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.start, 'UNEXPECTED_TOKEN');
+    }
+  }
+
+  private parsePath(): ExpressionNode {
+    const rootToken = this.advance();
+    const members: string[] = [];
+    let end = rootToken.end;
+
+    while (this.peek().type === 'dot') {
+      const dot = this.advance();
+      const member = this.peek();
+      const isMember = member.type === 'number'
+        ? /^[0-9]+$/.test(member.value)
+        : member.type === 'name' && !member.value.startsWith('$') && !member.value.startsWith('@');
+      if (!isMember || member.start !== dot.end) {
+        throw new ExpressionError('Expected a property name after "."', dot.end, 'INVALID_PROPERTY');
+      }
+      this.advance();
+      members.push(member.value);
+      end = member.end;
+    }
+
+    return { type: 'path', root: rootToken.value, members, start: rootToken.start, end };
+  }
+}
+
+// Parsed expressions are cached - the same conditions are evaluated on every render
+// Bounded, evicting the least recently used, since sources can come from arbitrary events
+export const PARSE_CACHE_SIZE = 500;
+const parseCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parse an expression string into an AST
+ * @throws ExpressionError with the offset of the problem
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) {
+    // Map keeps insertion order - re-inserting moves it to the most recently used end
+    parseCache.delete(source);
+    parseCache.set(source, cached);
+    return cached;
+  }
+
+  if (source.trim().length === 0) {
+    throw new ExpressionError('Empty expression', 0, 'EMPTY_EXPRESSION');
+  }
+
+  const node = new ExpressionParser(lexExpression(source)).parse();
+  parseCache.set(source, node);
+  if (parseCache.size > PARSE_CACHE_SIZE) {
+    parseCache.delete(parseCache.keys().next().value);
+  }
+  return node;
+}
+
+/**
+ * Hypernote truthiness: empty strings, arrays and objects are falsy
+ */
+export function isTruthy(value: any): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') return value.length > 0;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value).length > 0;
+  return !!value;
+}
+
+/**
+ * Whether a value counts as "present" for the `or` fallback operator
+ */
+function isPresent(value: any): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return null;
+}
+
+/**
+ * Read a property the way Hypernote templates expect:
+ * - `.length` works on arrays and strings
+ * - other properties of an array read from its first item (query results are arrays)
+ * - kind 0 events expose their profile JSON fields directly
+ * Only own properties are visible, so prototype members can never be reached.
+ */
+export function getProperty(value: any, key: string): any {
+  if (value === undefined || value === null) return undefined;
+
+  if (key === 'length' && (Array.isArray(value) || typeof value === 'string')) {
+    return value.length;
+  }
+
+  if (Array.isArray(value)) {
+    if (/^[0-9]+$/.test(key)) {
+      return value[Number(key)];
+    }
+    return value.length > 0 ? getProperty(value[0], key) : undefined;
+  }
+
+  if (typeof value !== 'object') return undefined;
+
+  if (value.kind === 0 && typeof value.content === 'string' && !EVENT_FIELDS.has(key)) {
+    try {
+      const profile = JSON.parse(value.content);
+      if (profile && typeof profile === 'object' && Object.prototype.hasOwnProperty.call(profile, key)) {
+        return profile[key];
+      }
+    } catch (e) {
+      // Not profile JSON - fall through to normal property access
+    }
+  }
+
+  return Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+}
+
+function compare(operator: BinaryOperator, left: any, right: any): boolean {
+  switch (operator) {
+    case '==':
+      // Loose equality so "5" == 5 (event content is always a string)
+      return left == right;
+    case '!=':
+      return left != right;
+  }
+
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  const [a, b] = leftNumber !== null && rightNumber !== null
+    ? [leftNumber, rightNumber]
+    : [String(left ?? ''), String(right ?? '')];
+
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return false;
+  }
+}
+
+function arithmetic(operator: BinaryOperator, left: any, right: any): any {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+
+  if (operator === '+' && (leftNumber === null || rightNumber === null)) {
+    // Not both numeric - concatenate like a template would
+    return `${left ?? ''}${right ?? ''}`;
+  }
+
+  if (leftNumber === null || rightNumber === null) {
+    return undefined;
+  }
+
+  switch (operator) {
+    case '+': return leftNumber + rightNumber;
+    case '-': return leftNumber - rightNumber;
+    case '*': return leftNumber * rightNumber;
+    case '/': return rightNumber === 0 ? undefined : leftNumber / rightNumber;
+    case '%': return rightNumber === 0 ? undefined : leftNumber % rightNumber;
+    default: return undefined;
+  }
+}
+
+/**
+ * Evaluate a parsed expression against a root resolver
+ */
+export function evaluateExpression(node: ExpressionNode, resolveRoot: RootResolver): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'path':
+      return node.members.reduce((value, member) => getProperty(value, member), resolveRoot(node.root));
+
+    case 'unary': {
+      const argument = evaluateExpression(node.argument, resolveRoot);
+      if (node.operator === '!') return !isTruthy(argument);
+      const number = toNumber(argument);
+      return number === null ? undefined : -number;
+    }
+
+    case 'logical': {
+      const left = evaluateExpression(node.left, resolveRoot);
+      switch (node.operator) {
+        case 'or':
+          return isPresent(left) ? left : evaluateExpression(node.right, resolveRoot);
+        case '||':
+          return isTruthy(left) ? left : evaluateExpression(node.right, resolveRoot);
+        case '&&':
+          return isTruthy(left) ? evaluateExpression(node.right, resolveRoot) : left;
+      }
+      return undefined;
+    }
+
+    case 'binary': {
+      const left = evaluateExpression(node.left, resolveRoot);
+      const right = evaluateExpression(node.right, resolveRoot);
+      if (['==', '!=', '<', '<=', '>', '>='].includes(node.operator)) {
+        return compare(node.operator, left, right);
+      }
+      return arithmetic(node.operator, left, right);
+    }
+  }
+}
+
+/**
+ * Parse and evaluate in one step
+ * @throws ExpressionError if the expression does not parse
+ */
+export function evaluate(source: string, resolveRoot: RootResolver): any {
+  return evaluateExpression(parseExpression(source), resolveRoot);
+}
+
+/**
+ * Collect every path referenced by an expression (e.g. "$posts.length", "user.pubkey")
+ */
+export function collectPaths(node: ExpressionNode): Array<{ root: string; members: string[] }> {
+  switch (node.type) {
+    case 'literal':
+      return [];
+    case 'path':
+      return [{ root: node.root, members: node.members }];
+    case 'unary':
+      return collectPaths(node.argument);
+    case 'binary':
+    case 'logical':
+      return [...collectPaths(node.left), ...collectPaths(node.right)];
+  }
+}
+
+/**
+ * Format an evaluated value for display inside text
+ */
+function formatInterpolated(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Replace every {expression} in a template string with its evaluated value
+ * Text in braces that is not a valid expression is left untouched
+ */
+export function interpolate(template: string, resolveRoot: RootResolver): string {
+  return template.replace(/\{([^}]+)\}/g, (match, source) => {
+    try {
+      return formatInterpolated(evaluate(source.trim(), resolveRoot));
+    } catch (error) {
+      if (error instanceof ExpressionError) return match;
+      throw error;
+    }
+  });
+}
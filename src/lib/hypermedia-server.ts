@@ -0,0 +1,460 @@
+/**
+ * Hypermedia MCP servers - ContextVM servers that keep typed state and publish it to Nostr
+ * as a kind 30078 value plus a kind 32616 Hypernote element (authored as HNMD) that renders it
+ * Transport-agnostic: server scripts pass in their signer, relay pool and MCP transport
+ */
+
+import { McpServer, type ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z, type ZodRawShape } from 'zod';
+import { nip19 } from 'nostr-tools';
+import type { NostrEvent } from './snstr/nip07';
+import { compileHypernoteToContent } from './compiler';
+import { stripSourceLocations } from './source-map';
+import { APP_STATE_KIND, HYPERNOTE_ELEMENT_KIND, type Hypernote } from './schema';
+
+// PrivateKeySigner from @contextvm/sdk, or any signer holding the server's key
+export interface ServerSigner {
+  getPublicKey(): Promise<string>;
+  signEvent(event: { kind: number; content: string; tags: string[][]; created_at: number }): Promise<NostrEvent>;
+}
+
+// SimpleRelayPool from @contextvm/sdk, or anything that publishes signed events
+export interface EventRelay {
+  publish(event: NostrEvent): Promise<unknown>;
+}
+
+export class PublishError extends Error {
+  constructor(message: string, public event: NostrEvent, public attempts: number) {
+    super(message);
+    this.name = 'PublishError';
+  }
+}
+
+export interface RateLimitOptions {
+  minInterval?: number;   // ms between publishes (default 500)
+  maxRetries?: number;    // Attempts per event before giving up (default 3)
+  initialDelay?: number;  // First backoff after a rate-limited publish, doubling each retry (default 1000)
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Relays reject bursts with an OK message prefixed "rate-limited:" (NIP-01)
+ */
+export function isRateLimited(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('rate-limited');
+}
+
+/**
+ * Publishes one event at a time, spaced minInterval apart, and retries rate-limited publishes
+ * with exponential backoff - other failures are not retried
+ */
+export class RateLimitedPublisher {
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastPublish = -Infinity;
+  private minInterval: number;
+  private maxRetries: number;
+  private initialDelay: number;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(private relay: EventRelay, options: RateLimitOptions = {}) {
+    this.minInterval = options.minInterval ?? 500;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.initialDelay = options.initialDelay ?? 1000;
+    this.now = options.now ?? (() => Date.now());
+    this.sleep = options.sleep ?? ((ms) => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * @throws PublishError when the relay keeps rate limiting or refuses the event
+   */
+  publish(event: NostrEvent): Promise<void> {
+    const published = this.queue.then(() => this.publishNow(event));
+    this.queue = published.catch(() => {});
+    return published;
+  }
+
+  /**
+   * Resolves once queued events are out and minInterval has passed since the last one -
+   * for publishes that don't go through this publisher, like the transport's tool responses
+   */
+  async cooldown(): Promise<void> {
+    await this.queue;
+    await this.wait();
+  }
+
+  private async publishNow(event: NostrEvent): Promise<void> {
+    let delay = this.initialDelay;
+    for (let attempt = 1; ; attempt++) {
+      await this.wait();
+      this.lastPublish = this.now();
+      try {
+        await this.relay.publish(event);
+        return;
+      } catch (error) {
+        if (!isRateLimited(error) || attempt >= this.maxRetries) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new PublishError(`Publishing kind ${event.kind} failed after ${attempt} attempt(s): ${reason}`, event, attempt);
+        }
+        console.log(`[HypermediaServer] Rate limited, retrying kind ${event.kind} in ${delay}ms (attempt ${attempt}/${this.maxRetries})`);
+        await this.sleep(delay);
+        delay *= 2;
+      }
+    }
+  }
+
+  private async wait(): Promise<void> {
+    const remaining = this.lastPublish + this.minInterval - this.now();
+    if (remaining > 0) await this.sleep(remaining);
+  }
+}
+
+export interface SessionLimitOptions {
+  maxSessions?: number;   // Sessions kept in memory - the least recently used is dropped beyond this (default 1000)
+  idleTimeout?: number;   // ms without use before a session is dropped (default 24 hours)
+  now?: () => number;
+}
+
+export interface HypermediaServerOptions<State> {
+  name: string;
+  version?: string;
+  signer: ServerSigner;
+  relay: EventRelay;
+  state: State;                                // Initial state - every session starts from a copy
+  stateId: string;                             // d tag of the kind 30078 state event
+  serializeState?: (state: State) => string;   // State event content (default JSON.stringify)
+  ui: {
+    id: string;                                // d tag of the kind 32616 element
+    render: (state: State, session: string | null) => string;  // HNMD for the current state
+    description?: string;
+  };
+  sessions?: boolean;                          // State per client pubkey or session id instead of one shared state
+  sessionLimits?: SessionLimitOptions;
+  rateLimit?: RateLimitOptions;
+}
+
+export interface ToolContext<State> {
+  state: State;
+  session: string | null;  // null when the server has no sessions
+  client: string | null;   // Requesting client's pubkey, when the transport injects it
+  // Replace the state - it's published once the tool returns
+  setState(next: State): void;
+}
+
+export interface ToolConfig<Shape extends ZodRawShape> {
+  title?: string;
+  description?: string;
+  inputSchema?: Shape;
+}
+
+// Strings are sent as-is, anything else as JSON text - thrown errors become isError results
+export type ToolHandler<State, Shape extends ZodRawShape> = (
+  args: z.objectOutputType<Shape, z.ZodTypeAny>,
+  context: ToolContext<State>
+) => unknown | Promise<unknown>;
+
+export interface SessionInfo {
+  session: string;
+  players: string[];  // Pubkeys that joined or called a tool in the session
+  state: string;      // naddr of the session's state event
+  ui: string;         // naddr of the session's UI element
+}
+
+interface Session<State> {
+  state: State;
+  players: Set<string>;
+  lastUsed: number;
+}
+
+// Key of the one state of a server without sessions
+const SHARED = '';
+
+const SESSION_ID = /^[\w-]{1,64}$/;
+
+const PUBKEY = /^[0-9a-f]{64}$/;
+
+/**
+ * An MCP server whose tools update typed state that is published with its UI after every change
+ *
+ * With sessions: true every tool takes an optional session argument. Calls without one use the session
+ * the client joined, or one named after the client's pubkey (ContextVM transports inject it as
+ * _meta.clientPubkey). Each session publishes under its own d tags (stateId:session) and p-tags its
+ * players, so a hypernote finds "my game" with a #p filter on the user's pubkey
+ *
+ * A session named after a pubkey belongs to that client - other clients can't join or use it unless
+ * they are already among its players. Sessions live in memory only: idle ones and the least recently
+ * used beyond sessionLimits are dropped, and start over from the initial state if used again
+ */
+export class HypermediaServer<State> {
+  readonly mcp: McpServer;
+  readonly publisher: RateLimitedPublisher;
+  private sessions = new Map<string, Session<State>>();
+  private joined = new Map<string, string>(); // Client pubkey -> session id
+  private pubkey: string | null = null;
+  private maxSessions: number;
+  private idleTimeout: number;
+  private now: () => number;
+
+  constructor(private options: HypermediaServerOptions<State>) {
+    this.mcp = new McpServer({ name: options.name, version: options.version ?? '1.0.0' });
+    this.publisher = new RateLimitedPublisher(options.relay, options.rateLimit);
+    this.maxSessions = options.sessionLimits?.maxSessions ?? 1000;
+    this.idleTimeout = options.sessionLimits?.idleTimeout ?? 24 * 60 * 60 * 1000;
+    this.now = options.sessionLimits?.now ?? (() => Date.now());
+    if (options.sessions) {
+      this.registerSessionTools();
+    } else {
+      this.sessions.set(SHARED, { state: options.state, players: new Set(), lastUsed: this.now() });
+    }
+  }
+
+  /**
+   * Current state - of the given session on servers with sessions
+   */
+  getState(session: string = SHARED): State | undefined {
+    return this.sessions.get(session)?.state;
+  }
+
+  registerTool<Shape extends ZodRawShape>(name: string, config: ToolConfig<Shape>, handler: ToolHandler<State, Shape>): this {
+    const inputSchema: ZodRawShape = this.options.sessions
+      ? { ...config.inputSchema, session: z.string().optional().describe('Session id - defaults to your joined session, then your pubkey') }
+      : config.inputSchema ?? {};
+
+    const callback: ToolCallback<ZodRawShape> = async ({ session: requested, ...args }, extra) => {
+      const client = clientPubkey(extra);
+      const id = this.resolveSession(requested, client);
+      this.authorize(id, client);
+      const session = this.openSession(id, client);
+      if (!this.options.sessions && requested !== undefined) args.session = requested;
+
+      const update: { changed: boolean; state?: State } = { changed: false };
+      // The SDK validated args against inputSchema, which is Shape plus the session
+      const output = await handler(args as z.objectOutputType<Shape, z.ZodTypeAny>, {
+        state: session.state,
+        session: this.options.sessions ? id : null,
+        client,
+        setState: (state) => { update.changed = true; update.state = state; }
+      });
+
+      if (update.changed) {
+        await this.setState(update.state as State, id);
+      }
+      // The transport publishes the response right after this returns
+      await this.publisher.cooldown();
+
+      return textResult(typeof output === 'string' ? output : JSON.stringify(output));
+    };
+    this.mcp.registerTool(name, { ...config, inputSchema }, callback);
+    return this;
+  }
+
+  /**
+   * Replace a session's state (the shared state without sessions) and publish it -
+   * publishing failures are logged, the new state is kept
+   */
+  async setState(state: State, session: string = SHARED): Promise<void> {
+    this.openSession(session, null).state = state;
+    try {
+      await this.publishState(session);
+    } catch (error) {
+      console.error(`[HypermediaServer] Failed to publish ${this.options.name} state${session ? ` for session ${session}` : ''}:`, error);
+    }
+  }
+
+  /**
+   * Publish the state event, then the UI element
+   * @throws PublishError when either can't be published
+   */
+  async publishState(session: string = SHARED): Promise<void> {
+    const { state, players } = this.openSession(session, null);
+    const playerTags = [...players].map((pubkey) => ['p', pubkey]);
+    const createdAt = Math.floor(Date.now() / 1000);
+
+    const stateEvent = await this.options.signer.signEvent({
+      kind: APP_STATE_KIND,
+      content: (this.options.serializeState ?? JSON.stringify)(state),
+      tags: [['d', this.identifier(this.options.stateId, session)], ...playerTags],
+      created_at: createdAt
+    });
+    const uiEvent = await this.options.signer.signEvent({
+      kind: HYPERNOTE_ELEMENT_KIND,
+      content: JSON.stringify(this.renderUI(session)),
+      tags: [
+        ['d', this.identifier(this.options.ui.id, session)],
+        ['hypernote', '1.1.0'],
+        ['hypernote-type', 'element'],
+        ['t', 'hypernote-element'],
+        ...(this.options.ui.description ? [['description', this.options.ui.description]] : []),
+        ...playerTags
+      ],
+      created_at: createdAt
+    });
+
+    await this.publisher.publish(stateEvent);
+    await this.publisher.publish(uiEvent);
+  }
+
+  /**
+   * Compile the UI for a session's state - the element published as kind 32616
+   */
+  renderUI(session: string = SHARED): Hypernote {
+    const { state } = this.openSession(session, null);
+    const hnmd = this.options.ui.render(state, this.options.sessions ? session : null);
+    return { ...stripSourceLocations(compileHypernoteToContent(hnmd)), type: 'element' };
+  }
+
+  /**
+   * naddrs of a session's state event and UI element - available once started
+   */
+  addresses(session: string = SHARED): { state: string; ui: string } {
+    if (!this.pubkey) {
+      throw new Error(`${this.options.name} has not been started`);
+    }
+    return {
+      state: nip19.naddrEncode({ kind: APP_STATE_KIND, pubkey: this.pubkey, identifier: this.identifier(this.options.stateId, session) }),
+      ui: nip19.naddrEncode({ kind: HYPERNOTE_ELEMENT_KIND, pubkey: this.pubkey, identifier: this.identifier(this.options.ui.id, session) })
+    };
+  }
+
+  listSessions(): SessionInfo[] {
+    this.dropIdleSessions();
+    return [...this.sessions.entries()].map(([session, { players }]) => ({
+      session,
+      players: [...players],
+      ...this.addresses(session)
+    }));
+  }
+
+  /**
+   * Start serving tools over the transport
+   * Without sessions, the initial state is published first and exposed as nostr: resources
+   */
+  async start(transport: Transport): Promise<void> {
+    this.pubkey = await this.options.signer.getPublicKey();
+
+    if (!this.options.sessions) {
+      const { state, ui } = this.addresses();
+      this.mcp.registerResource(`${this.options.name}-state`, `nostr:${state}`, { mimeType: 'text/plain' }, async (uri) => ({
+        contents: [{ uri: uri.href, mimeType: 'text/plain', text: (this.options.serializeState ?? JSON.stringify)(this.getState() as State) }]
+      }));
+      this.mcp.registerResource(`${this.options.name}-ui`, `nostr:${ui}`, { mimeType: 'application/json' }, async (uri) => ({
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(this.renderUI()) }]
+      }));
+      await this.setState(this.getState() as State);
+    }
+
+    await this.mcp.connect(transport);
+  }
+
+  private registerSessionTools(): void {
+    this.mcp.registerTool('list_sessions', {
+      title: 'List Sessions',
+      description: 'Sessions on this server with their players and event addresses'
+    }, async () => textResult(JSON.stringify(this.listSessions())));
+
+    this.mcp.registerTool('join_session', {
+      title: 'Join Session',
+      description: 'Join a session by id (creating it if needed) - later calls without a session use it',
+      inputSchema: { session: z.string() }
+    }, async ({ session }, extra) => {
+      const client = clientPubkey(extra);
+      if (!client) {
+        throw new Error("Joining a session needs the client's pubkey - the transport didn't provide one");
+      }
+      const id = this.resolveSession(session, client);
+      this.authorize(id, client);
+      const created = !this.sessions.has(id);
+      const { players } = this.openSession(id, client);
+      this.joined.set(client, id);
+      // Republish so the new player's #p query finds the session
+      await this.setState(this.getState(id) as State, id);
+      await this.publisher.cooldown();
+
+      const info = { session: id, created, players: [...players], ...this.addresses(id) };
+      return textResult(JSON.stringify(info));
+    });
+  }
+
+  private resolveSession(requested: unknown, client: string | null): string {
+    if (!this.options.sessions) return SHARED;
+
+    if (typeof requested === 'string' && requested.trim()) {
+      const id = requested.trim();
+      if (!SESSION_ID.test(id)) {
+        throw new Error(`Invalid session "${id}" - use up to 64 letters, digits, "-" or "_"`);
+      }
+      return id;
+    }
+    if (client) return this.joined.get(client) ?? client;
+    throw new Error('No session - pass "session", or call through a transport that injects the client pubkey');
+  }
+
+  // A session named after a pubkey is that client's own - others only get in as existing players
+  private authorize(id: string, client: string | null): void {
+    if (!PUBKEY.test(id) || id === client) return;
+    if (client && this.sessions.get(id)?.players.has(client)) return;
+    throw new Error(`Session ${id} belongs to another client - only its owner and players can use it`);
+  }
+
+  // The session's entry, created from the initial state on first use - the client becomes a player
+  private openSession(id: string, client: string | null): Session<State> {
+    let session = this.sessions.get(id);
+    if (!session) {
+      this.dropIdleSessions();
+      this.dropLeastRecentlyUsed(this.maxSessions - 1);
+      session = { state: structuredClone(this.options.state), players: new Set(), lastUsed: this.now() };
+      this.sessions.set(id, session);
+    }
+    session.lastUsed = this.now();
+    if (client) session.players.add(client);
+    return session;
+  }
+
+  private dropIdleSessions(): void {
+    if (!this.options.sessions) return;
+    const cutoff = this.now() - this.idleTimeout;
+    for (const [id, session] of this.sessions) {
+      if (session.lastUsed < cutoff) this.dropSession(id);
+    }
+  }
+
+  // Drop the least recently used sessions until at most keep remain
+  private dropLeastRecentlyUsed(keep: number): void {
+    if (!this.options.sessions) return;
+    while (this.sessions.size > Math.max(keep, 0)) {
+      let oldest: string | null = null;
+      for (const [id, session] of this.sessions) {
+        if (oldest === null || session.lastUsed < (this.sessions.get(oldest) as Session<State>).lastUsed) oldest = id;
+      }
+      this.dropSession(oldest as string);
+    }
+  }
+
+  private dropSession(id: string): void {
+    this.sessions.delete(id);
+    for (const [client, session] of this.joined) {
+      if (session === id) this.joined.delete(client);
+    }
+  }
+
+  private identifier(base: string, session: string): string {
+    return session === SHARED ? base : `${base}:${session}`;
+  }
+}
+
+function textResult(text: string): CallToolResult {
+  return { content: [{ type: 'text', text }] };
+}
+
+/**
+ * Pubkey of the client behind a tool call - ContextVM server transports put it in the request's _meta
+ */
+function clientPubkey(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): string | null {
+  const pubkey = extra?._meta?.clientPubkey;
+  return typeof pubkey === 'string' && PUBKEY.test(pubkey) ? pubkey : null;
+}
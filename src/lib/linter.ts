@@ -0,0 +1,244 @@
+/**
+ * Hypernote linter - static cross-reference checks on a compiled Hypernote
+ * Catches what would otherwise fail silently at runtime: forms publishing undeclared events,
+ * loops over undeclared queries, dangling triggers, unused queries and references to
+ * queries that don't exist. Diagnostics carry source locations when compiled with sourceMap
+ */
+
+import { parseExpression, collectPaths, ExpressionError } from './expression';
+import type { Hypernote } from './schema';
+import type { SourceLocation } from './source-map';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'unknown-event'      // [form @missing]
+  | 'unknown-query'      // [each $typo as $x]
+  | 'unknown-component'  // [#alias] without a "#alias" import
+  | 'unknown-trigger'    // triggers: naming an undeclared event or query
+  | 'unused-query'       // a query nothing reads
+  | 'undeclared-variable'; // {$q.field} where $q is not a query, saved value or loop variable
+
+export interface LintDiagnostic {
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  loc?: SourceLocation;
+}
+
+// Scope names every loop introduces alongside its own variables
+const LOOP_BUILTINS = ['$loop'];
+
+interface LintState {
+  hypernote: Record<string, any>;
+  diagnostics: LintDiagnostic[];
+  declared: Set<string>; // Queries plus values saved by pipes, as "$name"
+  used: Set<string>;     // Query names referenced anywhere
+}
+
+/**
+ * Lint a compiled Hypernote, returning diagnostics in document order
+ * (elements first, then queries, then events)
+ */
+export function lintHypernote(hypernote: Hypernote | Record<string, any>): LintDiagnostic[] {
+  const queries: Record<string, any> = hypernote.queries || {};
+  const events: Record<string, any> = hypernote.events || {};
+
+  const state: LintState = {
+    hypernote,
+    diagnostics: [],
+    declared: new Set(Object.keys(queries).filter((name) => name.startsWith('$'))),
+    used: new Set()
+  };
+
+  // Values saved with the save pipe are readable as $name
+  for (const definition of [...Object.values(queries), ...Object.values(events)]) {
+    for (const name of collectSavedNames(definition?.pipe)) {
+      state.declared.add(`$${name}`);
+    }
+  }
+
+  lintElements(hypernote.elements || [], new Set(), state);
+
+  for (const [name, query] of Object.entries(queries)) {
+    markReferences(query, state);
+    if (query && typeof query === 'object' && query.triggers && !events[query.triggers]) {
+      report(state, 'error', 'unknown-trigger', `Query ${name} triggers ${query.triggers}, which is not a declared event`, query.loc);
+    }
+  }
+
+  for (const [name, event] of Object.entries(events)) {
+    markReferences(event, state);
+    if (event && typeof event === 'object' && event.triggers) {
+      if (queries[event.triggers]) {
+        state.used.add(event.triggers);
+      } else {
+        report(state, 'error', 'unknown-trigger', `Event ${name} triggers ${event.triggers}, which is not a declared query`, event.loc);
+      }
+    }
+  }
+
+  for (const [name, query] of Object.entries(queries)) {
+    // Queries that trigger events or save values do work even when nothing displays them
+    const hasSideEffects = query && typeof query === 'object' && (query.triggers || collectSavedNames(query.pipe).length > 0);
+    if (!state.used.has(name) && !hasSideEffects) {
+      report(state, 'warning', 'unused-query', `Query ${name} is never used`, query?.loc);
+    }
+  }
+
+  return state.diagnostics;
+}
+
+function report(state: LintState, severity: LintSeverity, code: LintCode, message: string, loc?: SourceLocation): void {
+  state.diagnostics.push(loc ? { severity, code, message, loc } : { severity, code, message });
+}
+
+function lintElements(elements: any[], scope: Set<string>, state: LintState): void {
+  for (const element of elements) {
+    if (element && typeof element === 'object') {
+      lintElement(element, scope, state);
+    }
+  }
+}
+
+function lintElement(element: any, scope: Set<string>, state: LintState): void {
+  const loc: SourceLocation | undefined = element.loc;
+
+  switch (element.type) {
+    case 'form':
+      if (element.event) {
+        const event = element.event.startsWith('@') ? element.event : `@${element.event}`;
+        if (!state.hypernote.events?.[event]) {
+          report(state, 'error', 'unknown-event', `Form publishes ${event}, which is not a declared event`, loc);
+        }
+      }
+      break;
+
+    case 'loop': {
+      const [root] = expressionRoots(element.source);
+      if (root?.startsWith('$') && !scope.has(root)) {
+        if (state.declared.has(root)) {
+          state.used.add(root);
+        } else {
+          report(state, 'error', 'unknown-query', `Loop source ${element.source} is not a declared query`, loc);
+        }
+      }
+
+      const loopScope = new Set([...scope, ...LOOP_BUILTINS, element.variable]);
+      if (element.index) loopScope.add(element.index);
+      if (element.key) checkExpression(element.key, loopScope, state, loc);
+      lintElements(element.elements || [], loopScope, state);
+      lintElements(element.empty || [], scope, state);
+      return;
+    }
+
+    case 'if':
+      checkExpression(element.condition, scope, state, loc);
+      for (const branch of element.branches || []) {
+        checkExpression(branch.condition, scope, state, loc);
+        lintElements(branch.elements || [], scope, state);
+      }
+      lintElements(element.else || [], scope, state);
+      break;
+
+    case 'json':
+      // [json $query] names its variable without braces
+      if (element.attributes?.variable) checkExpression(element.attributes.variable, scope, state, loc);
+      break;
+
+    case 'tool':
+      checkTemplate(element.server, scope, state, loc);
+      break;
+
+    case 'component':
+      if (!state.hypernote.queries?.[`#${element.alias}`]) {
+        report(state, 'error', 'unknown-component', `Component #${element.alias} is not imported`, loc);
+      } else {
+        state.used.add(`#${element.alias}`);
+      }
+      if (element.argument) checkExpression(element.argument, scope, state, loc);
+      for (const value of Object.values(element.props || {})) {
+        checkTemplate(value as string, scope, state, loc);
+      }
+      break;
+  }
+
+  for (const item of element.content || []) {
+    if (typeof item === 'string') {
+      checkTemplate(item, scope, state, loc);
+    } else if (item && typeof item === 'object') {
+      // Inline formatting shares its paragraph's location
+      lintElement({ loc, ...item }, scope, state);
+    }
+  }
+  for (const value of Object.values(element.attributes || {})) {
+    if (typeof value === 'string') checkTemplate(value, scope, state, loc);
+  }
+
+  lintElements(element.elements || [], scope, state);
+}
+
+/**
+ * Check every {expression} in a text or attribute template
+ */
+function checkTemplate(template: string, scope: Set<string>, state: LintState, loc?: SourceLocation): void {
+  for (const match of template.matchAll(/\{([^}]+)\}/g)) {
+    checkExpression(match[1].trim(), scope, state, loc);
+  }
+}
+
+function checkExpression(source: string, scope: Set<string>, state: LintState, loc?: SourceLocation): void {
+  for (const root of expressionRoots(source)) {
+    if (!root.startsWith('$') || scope.has(root)) continue;
+    if (state.declared.has(root)) {
+      state.used.add(root);
+    } else {
+      report(state, 'warning', 'undeclared-variable', `${root} is not a declared query, saved value or loop variable`, loc);
+    }
+  }
+}
+
+/**
+ * Root names referenced by an expression - unparseable expressions are the tokenizer's concern
+ */
+function expressionRoots(source: string | undefined): string[] {
+  if (!source) return [];
+  try {
+    return collectPaths(parseExpression(source)).map((path) => path.root);
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) throw error;
+    return [];
+  }
+}
+
+/**
+ * Mark queries referenced from query filters and event templates ("$follows", "{$count}")
+ */
+function markReferences(value: any, state: LintState): void {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(/[$#][A-Za-z_][\w-]*/g)) {
+      state.used.add(match[0]);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => markReferences(item, state));
+  } else if (value && typeof value === 'object') {
+    // Only values are references - keys like "#e" are tag filters
+    Object.values(value).forEach((item) => markReferences(item, state));
+  }
+}
+
+/**
+ * Names saved by save steps anywhere in a pipe, including pipes nested in map and construct
+ */
+function collectSavedNames(pipe: any): string[] {
+  if (Array.isArray(pipe)) {
+    return pipe.flatMap(collectSavedNames);
+  }
+  if (!pipe || typeof pipe !== 'object') {
+    return [];
+  }
+  if (pipe.op === 'save' && typeof pipe.as === 'string') {
+    return [pipe.as];
+  }
+  return Object.values(pipe).flatMap(collectSavedNames);
+}
@@ -26,8 +26,8 @@ function executePipeStep(data: Event[], step: any): Event[] {
  * Returns a Promise of Event[].
  */
 export async function fetchNostrEvents(relayHandler: RelayHandler, queryConfig: any): Promise<Event[]> {
-  // Extract the base Nostr filter (everything except 'pipe')
-  const { pipe, ...nostrFilter } = queryConfig;
+  // Extract the base Nostr filter (everything except 'pipe' and the source location)
+  const { pipe, loc, ...nostrFilter } = queryConfig;
   
   // Fetch events using the base Nostr filter
   const events = await relayHandler.subscribe([nostrFilter as Filter]);
@@ -145,6 +145,77 @@ export function compileCompactPipe(yamlPipe: any): any[] {
 }
 
 
+// The single parameter each compact operation maps to (see compileCompactPipe)
+const COMPACT_PARAMETERS: Record<string, string> = {
+  save: 'as',
+  get: 'field', pluck: 'field', groupBy: 'field',
+  limit: 'count', take: 'count', drop: 'count',
+  default: 'value', add: 'value', multiply: 'value', defaults: 'value',
+  sort: 'by', filter: 'field', filterTag: 'tag', pluckTag: 'tag',
+  whereIndex: 'index', pluckIndex: 'index',
+  split: 'separator', join: 'separator',
+  merge: 'with', pick: 'fields', omit: 'fields',
+  where: 'expression'
+};
+
+// Operations whose compact form spreads an object of parameters
+const SPREAD_OPERATIONS = new Set(['sort', 'filter', 'filterTag', 'pluckTag', 'whereIndex', 'pluckIndex', 'replace']);
+
+function toCompactOperation(item: any): any {
+  if (!item || typeof item !== 'object' || typeof item.op !== 'string') {
+    return item;
+  }
+
+  const { op, ...params } = item;
+  const keys = Object.keys(params);
+
+  if (keys.length === 0) {
+    return op;
+  }
+
+  if (op === 'map' && keys.length === 1 && Array.isArray(params.pipe)) {
+    return { map: decompileCompactPipe(params.pipe) };
+  }
+
+  if (op === 'construct' && keys.length === 1 && params.fields && typeof params.fields === 'object') {
+    const fields: Record<string, any> = {};
+    for (const [fieldName, fieldPipe] of Object.entries(params.fields)) {
+      fields[fieldName] = Array.isArray(fieldPipe) ? decompileCompactPipe(fieldPipe) : fieldPipe;
+    }
+    return { construct: { fields } };
+  }
+
+  if (keys.length === 1 && COMPACT_PARAMETERS[op] === keys[0]) {
+    return { [op]: params[keys[0]] };
+  }
+
+  if (SPREAD_OPERATIONS.has(op)) {
+    return { [op]: params };
+  }
+
+  return item;
+}
+
+/**
+ * Converts full JSON pipe operations back to compact YAML syntax
+ * The reverse of compileCompactPipe - operations without an exact compact form stay as-is
+ */
+export function decompileCompactPipe(pipe: any): any {
+  if (!Array.isArray(pipe)) {
+    return pipe;
+  }
+
+  return pipe.map(item => {
+    const compact = toCompactOperation(item);
+    // Only use the compact form if it compiles back to the same operation
+    if (compact !== item && JSON.stringify(compileCompactPipe([compact])[0]) === JSON.stringify(item)) {
+      return compact;
+    }
+    return item;
+  });
+}
+
+
 /**
  * Processes pipes in queries and events
  * Compiles compact YAML syntax into explicit pipe operations
@@ -21,6 +21,7 @@ const SimpleOps = z.union([
   z.literal("max"),     // Max of array
   z.literal("average"), // Average of array
   z.literal("length"),  // Length of array or string
+  z.literal("decrypt"), // NIP-44 decrypt event content with the current signer, dropping unreadable events
 ]);
 
 // Operations with single field parameter
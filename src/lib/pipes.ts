@@ -4,11 +4,17 @@
  */
 
 import type { PipeOperation } from './pipe-schema';
+import { interpolate } from './expression';
+
+// Data pipes read besides their input - filled in by the query executors
+export interface PipeContext {
+  decrypted?: Map<string, string>; // Plaintext content by event id, for the decrypt op
+}
 
 /**
  * Apply a series of pipe operations to transform data
  */
-export function applyPipes(data: any, pipes?: PipeOperation[]): any {
+export function applyPipes(data: any, pipes?: PipeOperation[], context: PipeContext = {}): any {
   if (!pipes || pipes.length === 0) {
     return data;
   }
@@ -106,6 +112,17 @@ export function applyPipes(data: any, pipes?: PipeOperation[]): any {
         }
         break;
 
+      // Encrypted content - decryption is async, so executors decrypt up front (see usesDecrypt)
+      case 'decrypt': {
+        const readable = (event: any) => event && context.decrypted?.has(event.id)
+          ? { ...event, content: context.decrypted.get(event.id) }
+          : null;
+        current = Array.isArray(current)
+          ? current.map(readable).filter(event => event !== null)
+          : readable(current);
+        break;
+      }
+
       // Value operations
       case 'default':
         current = current ?? pipe.value;
@@ -353,7 +370,7 @@ export function applyPipes(data: any, pipes?: PipeOperation[]): any {
       // Map operation (recursive)
       case 'map':
         if (Array.isArray(current)) {
-          current = current.map(item => applyPipes(item, pipe.pipe));
+          current = current.map(item => applyPipes(item, pipe.pipe, context));
         }
         break;
 
@@ -369,7 +386,7 @@ export function applyPipes(data: any, pipes?: PipeOperation[]): any {
           current = current.map(item => {
             const constructed: Record<string, any> = {};
             for (const [fieldName, fieldPipe] of Object.entries(pipe.fields)) {
-              constructed[fieldName] = applyPipes(item, fieldPipe as PipeOperation[]);
+              constructed[fieldName] = applyPipes(item, fieldPipe as PipeOperation[], context);
             }
             return constructed;
           });
@@ -377,7 +394,7 @@ export function applyPipes(data: any, pipes?: PipeOperation[]): any {
           // We're in a map context or have a single item - construct one object
           const constructed: Record<string, any> = {};
           for (const [fieldName, fieldPipe] of Object.entries(pipe.fields)) {
-            constructed[fieldName] = applyPipes(current, fieldPipe as PipeOperation[]);
+            constructed[fieldName] = applyPipes(current, fieldPipe as PipeOperation[], context);
           }
           current = constructed;
         }
@@ -391,6 +408,24 @@ export function applyPipes(data: any, pipes?: PipeOperation[]): any {
   return current;
 }
 
+/**
+ * Whether a pipe (or any pipe nested in map / construct) decrypts content
+ */
+export function usesDecrypt(pipes?: PipeOperation[]): boolean {
+  return (pipes || []).some(pipe => {
+    switch (pipe.op) {
+      case 'decrypt':
+        return true;
+      case 'map':
+        return usesDecrypt(pipe.pipe);
+      case 'construct':
+        return Object.values(pipe.fields).some(fieldPipe => usesDecrypt(fieldPipe as PipeOperation[]));
+      default:
+        return false;
+    }
+  });
+}
+
 /**
  * Helper to extract variables used in a template string
  */
@@ -448,37 +483,12 @@ export function resolveVariables(
     return String(template);
   }
   
-  return template.replace(/\{([^}]+)\}/g, (match, varPath) => {
-    const trimmed = varPath.trim();
-    
+  return interpolate(template, (root) => {
     // Handle special time.now case
-    if (trimmed === 'time.now') {
-      return String(context.time?.now || Date.now());
-    }
-    
-    // Handle "or" syntax for fallback values
-    if (trimmed.includes(' or ')) {
-      const [primary, fallback] = trimmed.split(' or ').map(s => s.trim());
-      const value = resolvePath(context, primary);
-      
-      if (value !== undefined && value !== null && value !== '') {
-        return String(value);
-      }
-      
-      // Use fallback (remove quotes if present)
-      return fallback.replace(/^["']|["']$/g, '');
-    }
-    
-    // Simple variable resolution
-    const value = resolvePath(context, trimmed);
-    if (value !== undefined && value !== null) {
-      // If the value is an object/array, JSON stringify it
-      if (typeof value === 'object') {
-        return JSON.stringify(value);
-      }
-      return String(value);
+    if (root === 'time') {
+      return context.time ?? { now: Date.now() };
     }
-    return '';
+    return resolvePath(context, root);
   });
 }
 
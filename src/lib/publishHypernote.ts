@@ -2,6 +2,9 @@ import type { Hypernote } from './schema';
 import { HYPERNOTE_KIND, HYPERNOTE_ELEMENT_KIND } from './schema';
 import { nip19 } from 'nostr-tools';
 import type { SNSTRClient } from './snstr/client';
+import { stripSourceLocations } from './source-map';
+import { createSigningRequest, reviewSigning, type ApprovalPolicy } from './signing-review';
+import type { Signer } from './signers/signer';
 
 export interface PublishResult {
   eventId: string;
@@ -19,12 +22,13 @@ export async function publishHypernote(
   name: string,
   hypernote: Hypernote,
   client: SNSTRClient,
-  metadata?: { title?: string; description?: string }
+  signer: Signer | null,
+  metadata: { title?: string; description?: string } | undefined,
+  approve: ApprovalPolicy
 ): Promise<PublishResult> {
   try {
-    // Check if window.nostr is available (NIP-07)
-    if (typeof window === 'undefined' || !window.nostr) {
-      throw new Error("NIP-07 extension not found. Please install a Nostr signer extension.");
+    if (!signer) {
+      throw new Error("Not logged in. Please connect a signer first.");
     }
 
     // Determine document type (both use the same event kind now)
@@ -58,19 +62,24 @@ export async function publishHypernote(
     }
     
     // Create the unsigned event
+    const published = stripSourceLocations(hypernote);
     const unsignedEvent = {
       kind: eventKind,
       created_at: Math.floor(Date.now() / 1000),
       tags,
-      content: JSON.stringify(hypernote),
-      pubkey: '' // Will be filled by NIP-07
+      content: JSON.stringify(published)
     };
     
-    // Sign with NIP-07
-    const signedEvent = await window.nostr.signEvent(unsignedEvent);
+    // Publishing reaches the signer's outbox relays too
+    const relays = await client.planPublishRelays({ ...unsignedEvent, pubkey: await signer.getPublicKey() });
     
-    // Publish to relays
-    const publishResult = await client.publishEvent(signedEvent);
+    // Show exactly what will be signed - throws SigningRejectedError if refused
+    await reviewSigning(approve, createSigningRequest('publish', unsignedEvent, relays, { json: published }));
+    
+    const signedEvent = await signer.signEvent(unsignedEvent);
+    
+    // Publish to the relays that were reviewed
+    const publishResult = await client.publishEvent(signedEvent, relays);
     
     if (!publishResult || publishResult.successCount === 0) {
       throw new Error("Failed to publish to any relay");
@@ -119,18 +128,3 @@ export async function publishHypernote(
     };
   }
 }
-
-// Extend window type for NIP-07
-declare global {
-  interface Window {
-    nostr?: {
-      getPublicKey(): Promise<string>;
-      signEvent(event: any): Promise<any>;
-      getRelays?(): Promise<Record<string, { read: boolean; write: boolean }>>;
-      nip04?: {
-        encrypt(pubkey: string, plaintext: string): Promise<string>;
-        decrypt(pubkey: string, ciphertext: string): Promise<string>;
-      };
-    };
-  }
-}
\ No newline at end of file
@@ -0,0 +1,388 @@
+/**
+ * Headless evaluate pass - turns a compiled Hypernote plus resolved data into a tree of
+ * plain elements with every variable, condition, loop, slot and prop already resolved
+ * Zero React dependencies - adapters (html.ts, react.tsx) turn the tree into output
+ */
+
+import type { Hypernote } from '../schema';
+import type { Clock } from '../services';
+import type { ActionState } from '../contextvm';
+import type { SourceLocation } from '../source-map';
+import {
+  processString,
+  resolveExpression,
+  resolveComponentProps,
+  resolveLoopData,
+  createLoopContext,
+  getLoopKey,
+  selectIfChildren,
+  selectSlotChildren,
+  resolveJsonText,
+  type RenderContext,
+  type SlotContent
+} from '../core/scope';
+import { getTargetedArgument } from '../core/forms';
+
+/**
+ * A resolved element - an HTML tag with final attributes, styles and children
+ */
+export interface ResolvedElement {
+  type: string;
+  key?: string | number;
+  attributes: Record<string, string>;
+  style?: Record<string, any>;
+  children: ResolvedNode[];
+  event?: string; // Event template published when a form is submitted
+  target?: string; // elementId of the component a form's response re-renders
+  loc?: SourceLocation; // Where a form was written, so a missing event template can point at it
+  mount?: ResolvedMount; // Left for an interactive adapter - children are the static placeholder
+}
+
+/**
+ * A part of the tree that needs a live client - tool discovery, or a component evaluation couldn't resolve
+ * The component mount keeps the caller's scope so its props and slots resolve where it was used
+ */
+export type ResolvedMount =
+  | { kind: 'tool'; server: string; tool: string }
+  | { kind: 'component'; element: any; argument: string; scope: EvaluateContext };
+
+export type ResolvedNode = ResolvedElement | string;
+
+/**
+ * A component's definition and data, supplied by the caller since evaluation never fetches
+ */
+export interface ResolvedComponent {
+  hypernote: Hypernote;
+  target?: any;
+  queryResults?: Record<string, any>;
+  extractedVariables?: Record<string, any>;
+  loadingQueries?: Set<string>;
+}
+
+/**
+ * Data for an evaluation - everything is optional so a bare Hypernote can be evaluated
+ */
+export interface EvaluateOptions {
+  queryResults?: Record<string, any>;
+  extractedVariables?: Record<string, any>;
+  formData?: Record<string, string>;
+  userPubkey?: string | null;
+  target?: any;
+  props?: Record<string, any>;
+  loadingQueries?: Set<string>;
+  actionStates?: Record<string, ActionState>;
+  clock?: Clock;
+
+  // Form response targeting - elementId -> nevent replacing that component's argument
+  targetArguments?: Record<string, string>;
+
+  // Look up the component used at [#alias argument] - unresolved components render as placeholders
+  resolveComponent?: (alias: string, argument: string) => ResolvedComponent | undefined;
+}
+
+export interface EvaluateContext extends RenderContext {
+  depth: number;
+  clock: Clock;
+  targetArguments?: Record<string, string>;
+  resolveComponent?: EvaluateOptions['resolveComponent'];
+}
+
+/**
+ * Evaluate a whole Hypernote into its root element
+ */
+export function evaluateHypernote(hypernote: Hypernote, options: EvaluateOptions = {}): ResolvedElement {
+  const ctx: EvaluateContext = {
+    queryResults: options.queryResults || {},
+    extractedVariables: options.extractedVariables || {},
+    formData: options.formData || {},
+    userPubkey: options.userPubkey ?? null,
+    loopVariables: {},
+    target: options.target,
+    props: options.props,
+    loadingQueries: options.loadingQueries,
+    actionStates: options.actionStates,
+    depth: 0,
+    clock: options.clock || { now: () => Date.now() },
+    targetArguments: options.targetArguments,
+    resolveComponent: options.resolveComponent
+  };
+
+  // Black backgrounds switch to the dark theme
+  const style = hypernote.style || {};
+  const isDark = ['rgb(0,0,0)', '#000000', 'black'].includes(style.backgroundColor);
+
+  return element('div', {
+    attributes: { class: isDark ? 'hypernote-content hypernote-dark' : 'hypernote-content' },
+    style,
+    children: evaluateElements(hypernote.elements || [], ctx)
+  });
+}
+
+/**
+ * Evaluate a list of elements - conditionals that render nothing are dropped
+ * and slots are flattened into their caller's children
+ */
+export function evaluateElements(elements: any[], ctx: EvaluateContext): ResolvedNode[] {
+  return elements.flatMap((el) => {
+    const result = evaluateElement(el, ctx);
+    if (result === null) return [];
+    return Array.isArray(result) ? result : [result];
+  });
+}
+
+// Placeholder and loading styles - inline so static HTML looks the same as the app
+const SKELETON_STYLE = {
+  backgroundColor: '#e2e8f0',
+  borderRadius: '0.25rem',
+  height: '1rem',
+  marginBottom: '0.5rem',
+  animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite'
+};
+const IMAGE_PLACEHOLDER_STYLE = {
+  padding: '1rem',
+  backgroundColor: '#f3f4f6',
+  borderRadius: '0.25rem',
+  color: '#6b7280',
+  fontSize: '0.875rem',
+  minHeight: '100px',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center'
+};
+const JSON_SUMMARY_STYLE = { cursor: 'pointer', padding: '0.5rem', backgroundColor: '#e2e8f0', borderRadius: '0.25rem', fontSize: '0.875rem' };
+const JSON_PRE_STYLE = {
+  backgroundColor: '#f1f5f9',
+  padding: '1rem',
+  borderRadius: '0.25rem',
+  overflow: 'auto',
+  fontSize: '0.75rem',
+  lineHeight: '1rem',
+  fontFamily: 'monospace',
+  marginTop: '0.5rem'
+};
+const COMPONENT_ERROR_STYLE = { color: '#ef4444', padding: '0.5rem', border: '1px solid #ef4444', borderRadius: '0.25rem' };
+
+function element(type: string, init: Partial<ResolvedElement> = {}): ResolvedElement {
+  const node: ResolvedElement = { type, attributes: init.attributes || {}, children: init.children || [] };
+  if (init.key !== undefined) node.key = init.key;
+  if (init.style && Object.keys(init.style).length > 0) node.style = init.style;
+  if (init.event) node.event = init.event;
+  if (init.target) node.target = init.target;
+  if (init.loc) node.loc = init.loc;
+  if (init.mount) node.mount = init.mount;
+  return node;
+}
+
+function baseAttributes(el: any): Record<string, string> {
+  return el.elementId ? { id: el.elementId } : {};
+}
+
+function evaluateContent(content: any[] | undefined, ctx: EvaluateContext, loc?: SourceLocation): ResolvedNode[] {
+  if (!content) return [];
+  return content.flatMap((item) => {
+    if (typeof item === 'string') {
+      return [processString(item, ctx, loc)];
+    }
+    return evaluateElements([item], ctx);
+  });
+}
+
+function evaluateElement(el: any, ctx: EvaluateContext): ResolvedNode | ResolvedNode[] | null {
+  const attributes = baseAttributes(el);
+
+  // Text elements with content array
+  if (['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'strong', 'em', 'code'].includes(el.type)) {
+    return element(el.type, { attributes, style: el.style, children: evaluateContent(el.content, ctx, el.loc) });
+  }
+
+  // Container elements with children
+  if (['div', 'span'].includes(el.type)) {
+    return element(el.type, {
+      attributes,
+      style: el.style,
+      children: [...evaluateContent(el.content, ctx, el.loc), ...evaluateElements(el.elements || [], ctx)]
+    });
+  }
+
+  switch (el.type) {
+    case 'form':
+      return element('form', {
+        attributes,
+        style: el.style,
+        event: el.event,
+        target: el.target,
+        loc: el.loc,
+        children: evaluateElements(el.elements || [], ctx)
+      });
+
+    case 'button':
+      return element('button', {
+        attributes: { ...attributes, type: 'submit' },
+        style: el.style,
+        children: evaluateElements(el.elements || [], ctx)
+      });
+
+    case 'input': {
+      const name = el.attributes?.name || '';
+      return element('input', {
+        attributes: {
+          ...attributes,
+          type: el.attributes?.type || 'text',
+          placeholder: el.attributes?.placeholder || '',
+          name,
+          value: ctx.formData[name] || el.attributes?.value || ''
+        },
+        style: el.style
+      });
+    }
+
+    case 'img': {
+      const src = processString(el.attributes?.src || '', ctx, el.loc);
+      const alt = processString(el.attributes?.alt || '', ctx, el.loc);
+
+      // Placeholder while variables are still unresolved
+      const hasUnresolvedVars = src.includes('{') && src.includes('}');
+      if (!src || hasUnresolvedVars) {
+        return element('div', {
+          attributes,
+          style: { ...IMAGE_PLACEHOLDER_STYLE, ...el.style },
+          children: [hasUnresolvedVars ? 'Loading image...' : `[Image: ${alt || 'No image available'}]`]
+        });
+      }
+      return element('img', { attributes: { ...attributes, src, alt }, style: el.style });
+    }
+
+    case 'loop':
+      return evaluateLoop(el, ctx);
+
+    case 'if': {
+      const children = selectIfChildren(el, ctx, ctx.clock);
+      if (!children) return null;
+      return element('div', { attributes, style: el.style, children: evaluateElements(children, ctx) });
+    }
+
+    case 'slot': {
+      const slotContent = ctx.slotContent as SlotContent | undefined;
+      return evaluateElements(selectSlotChildren(el, slotContent), slotContent?.ctx);
+    }
+
+    case 'json': {
+      const { variable, text } = resolveJsonText(el, ctx);
+      return element('details', {
+        attributes,
+        style: el.style,
+        children: [
+          element('summary', { style: JSON_SUMMARY_STYLE, children: [`${variable} (JSON)`] }),
+          element('pre', { style: JSON_PRE_STYLE, children: [text] })
+        ]
+      });
+    }
+
+    case 'tool': {
+      // Tool discovery needs a relay round trip - headless output leaves a mount point for the client
+      const server = processString(el.server || '', ctx, el.loc);
+      return element('form', {
+        attributes: { ...attributes, 'data-tool': el.tool, 'data-server': server },
+        style: el.style,
+        mount: { kind: 'tool', server, tool: el.tool || '' },
+        children: [`Loading ${el.tool}...`]
+      });
+    }
+
+    case 'component':
+      return evaluateComponent(el, ctx);
+
+    default:
+      // Unknown element type - render children if any
+      return element('div', { attributes, style: el.style, children: evaluateElements(el.elements || [], ctx) });
+  }
+}
+
+function evaluateLoop(el: any, ctx: EvaluateContext): ResolvedElement {
+  const { data, isLoading } = resolveLoopData(el, ctx);
+  const attributes = baseAttributes(el);
+
+  if (isLoading) {
+    return element('div', {
+      attributes: { ...attributes, 'aria-busy': 'true' },
+      style: el.style,
+      children: [element('div', {
+        style: { padding: '1rem' },
+        children: [element('div', { style: SKELETON_STYLE }), element('div', { style: { ...SKELETON_STYLE, width: '75%' } })]
+      })]
+    });
+  }
+
+  if (data.length === 0) {
+    const children = el.empty
+      ? evaluateElements(el.empty, ctx)
+      : [element('div', { style: { color: '#6b7280', padding: '1rem' }, children: ['No data found'] })];
+    return element('div', { attributes, style: el.style, children });
+  }
+
+  return element('div', {
+    attributes,
+    style: el.style,
+    children: data.map((item, i) => {
+      const loopCtx = createLoopContext(el, ctx, item, i, data.length);
+      return element('div', { key: getLoopKey(el, item, i, loopCtx), children: evaluateElements(el.elements || [], loopCtx) });
+    })
+  });
+}
+
+function evaluateComponent(el: any, ctx: EvaluateContext): ResolvedElement {
+  const attributes = { ...baseAttributes(el), 'data-component': el.alias || '' };
+
+  // Components can't include other components
+  if (ctx.depth > 0) {
+    return element('div', {
+      attributes,
+      style: COMPONENT_ERROR_STYLE,
+      children: ['⚠️ Error: Components cannot include other components (max depth: 1)']
+    });
+  }
+
+  // Component arguments work like [json $variable] - braces are optional
+  const raw = getTargetedArgument(el, ctx.targetArguments);
+  const argument = !raw
+    ? ''
+    : raw.startsWith('{') && raw.endsWith('}')
+      ? processString(raw, ctx, el.loc)
+      : String(resolveExpression(raw, ctx, ctx.clock, el.loc));
+  const component = ctx.resolveComponent?.(el.alias, argument);
+  if (!component) {
+    // A form response replaced the argument - keyed so a client re-mounts it and loads the new event
+    return element('div', {
+      attributes,
+      style: el.style,
+      key: raw === (el.argument ?? '') ? undefined : raw,
+      mount: { kind: 'component', element: el, argument, scope: ctx }
+    });
+  }
+
+  return evaluateComponentBody(el, ctx, component);
+}
+
+/**
+ * Evaluate a resolved component where it was used - props and slot children resolve in the caller's scope
+ */
+export function evaluateComponentBody(el: any, scope: EvaluateContext, component: ResolvedComponent): ResolvedElement {
+  const componentCtx: EvaluateContext = {
+    ...scope,
+    queryResults: component.queryResults || {},
+    extractedVariables: component.extractedVariables || {},
+    loopVariables: {},
+    target: component.target,
+    props: resolveComponentProps(el.props, component.hypernote.props, scope, el.loc),
+    // Children of a component block evaluate in the caller's scope
+    slotContent: el.elements ? { elements: el.elements, ctx: scope } : undefined,
+    loadingQueries: component.loadingQueries || new Set(),
+    depth: scope.depth + 1
+  };
+
+  return element('div', {
+    attributes: { ...baseAttributes(el), 'data-component': el.alias || '' },
+    style: el.style,
+    children: evaluateElements(component.hypernote.elements || [], componentCtx)
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Static HTML adapter - serializes an evaluated tree to an HTML string
+ * Used for server rendering and snapshot tests, no DOM or React required
+ */
+
+import type { ResolvedNode } from './evaluate';
+
+const VOID_ELEMENTS = new Set(['area', 'br', 'col', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Convert a camelCase style object into inline CSS
+ */
+export function styleToCss(style: Record<string, any>): string {
+  return Object.entries(style)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([property, value]) => {
+      const name = property.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+      return `${name}:${value}`;
+    })
+    .join(';');
+}
+
+/**
+ * Render a node (or list of nodes) to HTML
+ * Form event names are kept as data-event so a client can hydrate the markup
+ */
+export function renderToHtml(node: ResolvedNode | ResolvedNode[]): string {
+  if (Array.isArray(node)) {
+    return node.map(renderToHtml).join('');
+  }
+
+  if (typeof node === 'string') {
+    return escapeHtml(node);
+  }
+
+  const attributes: Record<string, string> = { ...node.attributes };
+  if (node.event) attributes['data-event'] = node.event;
+  if (node.style) {
+    const css = styleToCss(node.style);
+    if (css) attributes.style = css;
+  }
+
+  const attrs = Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${escapeHtml(String(value))}"`)
+    .join('');
+
+  if (VOID_ELEMENTS.has(node.type)) {
+    return `<${node.type}${attrs}>`;
+  }
+
+  return `<${node.type}${attrs}>${renderToHtml(node.children)}</${node.type}>`;
+}
@@ -0,0 +1,58 @@
+/**
+ * React adapter - turns an evaluated tree into React elements
+ * Interactivity is wired through optional handlers, without them the output is static
+ */
+
+import React from 'react';
+import type { ResolvedElement, ResolvedNode } from './evaluate';
+import type { SourceLocation } from '../source-map';
+
+export interface ReactAdapterHandlers {
+  onFormSubmit?: (eventName: string, target?: string, loc?: SourceLocation) => void;
+  onInputChange?: (name: string, value: string) => void;
+  // Mount points (tools, unresolved components) render their placeholder unless this returns a node
+  renderMount?: (node: ResolvedElement, handlers: ReactAdapterHandlers) => React.ReactNode | undefined;
+}
+
+// HTML attribute names that React spells differently
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor'
+};
+
+export function toReactElement(node: ResolvedNode, handlers: ReactAdapterHandlers = {}): React.ReactNode {
+  if (typeof node === 'string') {
+    return node;
+  }
+
+  if (node.mount && handlers.renderMount) {
+    const mounted = handlers.renderMount(node, handlers);
+    if (mounted !== undefined) return mounted;
+  }
+
+  const props: Record<string, any> = {};
+  if (node.key !== undefined) props.key = node.key;
+
+  // Inputs are controlled only when someone listens for changes
+  const controlled = node.type === 'input' && !!handlers.onInputChange;
+  for (const [name, value] of Object.entries(node.attributes)) {
+    const propName = node.type === 'input' && name === 'value' && !controlled ? 'defaultValue' : ATTRIBUTE_NAMES[name] || name;
+    props[propName] = value;
+  }
+  if (node.style) props.style = node.style;
+
+  if (node.type === 'form' && node.event) {
+    const { event: eventName, target, loc } = node;
+    props.onSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      handlers.onFormSubmit?.(eventName, target, loc);
+    };
+  }
+
+  if (controlled) {
+    props.onChange = (e: React.ChangeEvent<HTMLInputElement>) => handlers.onInputChange!(e.target.name, e.target.value);
+  }
+
+  const children = node.children.map((child) => toReactElement(child, handlers));
+  return React.createElement(node.type, props, ...children);
+}
@@ -10,6 +10,7 @@
 
 import { compileHypernoteToContent } from './compiler';
 import { TokenizerError } from './tokenizer';
+import { lintHypernote, type LintDiagnostic } from './linter';
 import type { Hypernote } from './schema';
 
 export interface SafeCompileResult {
@@ -24,6 +25,7 @@ export interface SafeCompileResult {
     details?: any;
   };
   isStale?: boolean; // True if returning cached last valid state
+  diagnostics?: LintDiagnostic[]; // Linter findings for a successful compile
 }
 
 // Cache for the last valid compilation result
@@ -42,7 +44,8 @@ export function safeCompileHypernote(
 ): SafeCompileResult {
   try {
     // Always use strict validation to get proper error messages
-    const result = compileHypernoteToContent(hnmd, { strictValidation: true });
+    // Source maps let the editor point runtime errors at the offending line
+    const result = compileHypernoteToContent(hnmd, { strictValidation: true, sourceMap: true });
     
     // Success! Update the cached valid result
     lastValidResult = result;
@@ -50,7 +53,8 @@ export function safeCompileHypernote(
     return {
       success: true,
       data: result,
-      isStale: false
+      isStale: false,
+      diagnostics: lintHypernote(result)
     };
     
   } catch (error: any) {
@@ -9,12 +9,34 @@ const StylePropertiesSchema = z.record(z.string(), z.any()).optional();
 const ElementIdSchema = z.string().regex(/^[a-zA-Z][a-zA-Z0-9_-]*$/, "Invalid elementId format");
 const MinStringSchema = z.string().min(1);
 
+// Props are read as props.name in expressions, so names are identifiers - "my-prop" would parse as subtraction
+const PropNameSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Prop names may only use letters, digits and "_"');
+
+// Where an element, query or event came from in the HNMD source (see source-map.ts)
+// Only present in editor builds - stripped before publishing
+const SourcePointSchema = z.object({ line: z.int().positive(), column: z.int().positive() });
+const SourceLocationSchema = SourcePointSchema.extend({ end: SourcePointSchema });
+
 // Nostr event kind constants
 export const HYPERNOTE_KIND = 32616;          // All Hypernote documents and components
 export const HYPERNOTE_ELEMENT_KIND = 32616;  // Hypernote components (same as HYPERNOTE_KIND)
 export const APP_STATE_KIND = 30078;          // Application state (counters, preferences, etc.)
 export const CONTEXTVM_KIND = 25910;          // ContextVM tool call events
 
+/**
+ * Addressable (parameterized replaceable) events are kinds 30000-39999 - identified by kind, pubkey and d tag
+ */
+export function isAddressableKind(kind: number): boolean {
+  return kind >= 30000 && kind < 40000;
+}
+
+/**
+ * Replaceable events keep only the latest version per pubkey (and d tag) - kinds 0, 3, 10000-19999 and addressable kinds
+ */
+export function isReplaceableKind(kind: number): boolean {
+  return kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000) || isAddressableKind(kind);
+}
+
 /**
  * IMPORTANT: TypeScript Circular Reference Warnings
  * 
@@ -31,13 +53,30 @@ export const CONTEXTVM_KIND = 25910;          // ContextVM tool call events
 /**
  * Component element schema
  * Used to reference external Hypernote components by their alias
- * Components receive a single string argument (npub/nevent depending on component_kind)
+ * Components receive a string argument (npub/nevent depending on component kind)
+ * plus optional named props - each value is a template string, so "{$note.pubkey}"
+ * resolves at render time and plain values are coerced using the component's prop types
  */
 const ComponentElementSchema = z.object({
   type: z.literal("component"),
   elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
   alias: MinStringSchema,
-  argument: MinStringSchema,
+  argument: z.string(),
+  props: z.record(PropNameSchema, z.string()).optional(),
+  // Children of a component block - rendered in the caller's scope wherever the
+  // component places a [slot]; children with a slot attribute fill the named slot
+  elements: z.lazy(() => z.array(AnyElementSchema)).optional(),
+});
+
+/**
+ * Component prop declaration schema
+ * Declared in component frontmatter under props: with a type and optional default
+ */
+const PropDeclarationSchema = z.object({
+  type: z.enum(["string", "number", "boolean", "json"]),
+  default: z.any().optional(),
+  description: z.string().optional(),
 });
 
 /**
@@ -74,10 +113,11 @@ const SupportedElementType = z.union([
   z.literal("input"),
   z.literal("textarea"),
   z.literal("json"), // For JSON data display
+  z.literal("slot"), // Placeholder for children passed to a component
 ], {
   error: (issue) => {
     if (issue.code === "invalid_union") {
-      return `Unsupported element type "${issue.input}". Supported types are: h1, h2, h3, h4, h5, h6, p, br, em, strong, blockquote, ul, ol, li, code, pre, hr, a, img, input, textarea, json (form, div, button, span have separate schemas)`;
+      return `Unsupported element type "${issue.input}". Supported types are: h1, h2, h3, h4, h5, h6, p, br, em, strong, blockquote, ul, ol, li, code, pre, hr, a, img, input, textarea, json, slot (form, div, button, span, tool have separate schemas)`;
     }
     return undefined; // defer to default
   }
@@ -95,6 +135,7 @@ const AttributesSchema = z.record(MinStringSchema, z.string());
 const ElementSchema = z.object({
   type: SupportedElementType,
   elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
   style: StylePropertiesSchema, // Inline styles as CSS-in-JS object
   content: z.lazy(() => ElementContentSchema.optional()),
   attributes: AttributesSchema.optional(),
@@ -114,16 +155,30 @@ const ElementContentSchema = z.array(
   ])
 );
 
+/**
+ * Conditional branch schema for [elif condition] blocks
+ * Branches are checked in order after the main condition fails
+ */
+const IfBranchSchema = z.object({
+  condition: MinStringSchema,
+  elements: z.lazy(() => z.array(AnyElementSchema)),
+});
+
 /**
  * Conditional rendering element schema
  * Renders its child elements only if the condition evaluates to true
  * The condition is a string expression evaluated by the client with variable substitution
+ * - branches: Optional [elif] branches, the first truthy one is rendered
+ * - else: Optional elements rendered when no condition matches
  */
 const IfElementSchema = z.object({
   type: z.literal("if"),
   elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
   condition: MinStringSchema,
   elements: z.lazy(() => z.array(AnyElementSchema)),
+  branches: z.lazy(() => z.array(IfBranchSchema)).optional(),
+  else: z.lazy(() => z.array(AnyElementSchema)).optional(),
 });
 
 /**
@@ -131,13 +186,21 @@ const IfElementSchema = z.object({
  * Iterates over data from a query, rendering child elements for each item
  * - source: Name of the query (references entries in the queries map)
  * - variable: Name for each item in the iteration (available in nested scope)
+ * - index: Optional name for the iteration index (available in nested scope)
+ * - key: Optional expression giving each item a stable identity (defaults to the event id)
+ * - empty: Optional elements rendered when the source has no items
+ * Nested scope also has $loop with index, first, last and length
  */
 const LoopElementSchema = z.object({
   type: z.literal("loop"),
   elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
   source: MinStringSchema,
   variable: MinStringSchema,
+  index: MinStringSchema.optional(),
+  key: MinStringSchema.optional(),
   elements: z.lazy(() => z.array(AnyElementSchema)),
+  empty: z.lazy(() => z.array(AnyElementSchema)).optional(),
 });
 
 /**
@@ -160,6 +223,7 @@ const FormElementUnion = z.lazy(() => z.union([
 const FormElementSchema = z.object({
   type: z.literal("form"),
   elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
   event: MinStringSchema,
   target: ElementIdSchema.optional(),
   elements: z.lazy(() => z.array(FormElementUnion)),
@@ -173,6 +237,7 @@ const FormElementSchema = z.object({
 const DivElementSchema = z.object({
   type: z.literal("div"),
   elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
   style: StylePropertiesSchema,
   attributes: AttributesSchema.optional(),
   elements: z.lazy(() => z.array(AnyElementSchema).optional()),
@@ -186,6 +251,7 @@ const DivElementSchema = z.object({
 const ButtonElementSchema = z.object({
   type: z.literal("button"),
   elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
   style: StylePropertiesSchema,
   attributes: AttributesSchema.optional(),
   elements: z.lazy(() => z.array(AnyElementSchema).optional()),
@@ -199,13 +265,31 @@ const ButtonElementSchema = z.object({
 const SpanElementSchema = z.object({
   type: z.literal("span"),
   elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
   style: StylePropertiesSchema,
   attributes: AttributesSchema.optional(),
   elements: z.lazy(() => z.array(AnyElementSchema).optional()),
 });
 
+/**
+ * Tool element schema
+ * Renders a form for one tool of a ContextVM (MCP over Nostr) server
+ * - server: npub or hex pubkey of the server, asked for its tools with tools/list
+ * - tool: Tool name - the form has one control per property of its inputSchema
+ */
+const ToolElementSchema = z.object({
+  type: z.literal("tool"),
+  elementId: ElementIdSchema.optional(),
+  loc: SourceLocationSchema.optional(),
+  style: StylePropertiesSchema,
+  server: MinStringSchema,
+  tool: MinStringSchema,
+  attributes: AttributesSchema.optional(),
+});
+
 // Union of all element types for simpler type checking
 const AnyElementSchema = z.union([
+  ToolElementSchema,
   FormElementSchema,
   DivElementSchema,
   ButtonElementSchema,
@@ -262,6 +346,9 @@ const QuerySchema = z.object({
   "#a": StringArraySchema.optional(),
   "#r": StringArraySchema.optional(),
   
+  // Extra relays to query on top of the app's (naddr relay hints end up here) - connected on demand
+  relays: StringArraySchema.optional(),
+  
   // NO MORE live flag - everything is live by default!
   // live: z.boolean().optional(), // REMOVED
   
@@ -273,6 +360,8 @@ const QuerySchema = z.object({
   
   // NEW: Trigger field - action to trigger after query completes
   triggers: z.string().optional(), // Name of action to trigger (e.g., "@save_count")
+  
+  loc: SourceLocationSchema.optional(),
 });
 
 // Event template schema - simplified!
@@ -283,10 +372,26 @@ const EventTemplateSchema = z.object({
   tags: TagArraySchema.optional(),
   
   // Regular replaceable event fields
-  d: z.string().optional(), // d tag for replaceable events
+  d: z.string().optional(), // d tag for replaceable events - required for kinds 30000-39999
+  
+  // Timestamps in unix seconds - strings allow templates like "{time.now / 1000 + 3600}"
+  expiration: z.union([NonNegIntSchema, z.string()]).optional(), // NIP-40 expiration tag
+  created_at: z.union([NonNegIntSchema, z.string()]).optional(), // Defaults to publish time
+  
+  // Read-modify-write - republish the user's latest event of this (replaceable) kind with a tag added or removed
+  add_tag: z.array(z.string()).min(1).optional(), // e.g. ["p", "{target.pubkey}"]
+  remove_tag: z.array(z.string()).min(1).optional(), // Removes every tag starting with these values
+  
+  // NIP-44 encrypt the content to a pubkey (hex or npub) with the current signer
+  encrypt: z.object({ to: z.string() }).optional(), // e.g. { to: "{target.pubkey}" }
+  
+  // Extra relays to publish to on top of the app's - connected on demand
+  relays: StringArraySchema.optional(),
   
   // NEW: Trigger field - query to refresh after publishing
   triggers: z.string().optional(), // Name of query to refresh (e.g., "$count")
+  
+  loc: SourceLocationSchema.optional(),
 });
 
 /**
@@ -303,8 +408,12 @@ export const hypernoteSchema = z.object({
   description: z.string().optional(), // Document description
   name: z.string().optional(), // Optional slug for 'd' tag (auto-generated from title if not provided)
   
-  // For component definitions: 0 (npub input), 1 (nevent input), undefined (not a component)
-  kind: z.union([z.literal(0), z.literal(1)]).optional(),
+  // For component definitions: the kind of event the argument points to
+  // (0 for npub input, 1 for nevent input), undefined if the component takes no argument
+  kind: z.int().nonnegative().optional(),
+  
+  // For component definitions: named props passed at the usage site
+  props: z.record(PropNameSchema, PropDeclarationSchema).optional(),
   
   // Root-level styles as CSS-in-JS object (compiled from HNMD Tailwind classes)
   // In HNMD, this is specified as Tailwind classes, but gets compiled to a style object
@@ -329,6 +438,7 @@ export type AnyElement = z.infer<typeof AnyElementSchema>;
 // Export individual element types
 export type Element = z.infer<typeof ElementSchema>;
 export type ComponentElement = z.infer<typeof ComponentElementSchema>;
+export type PropDeclaration = z.infer<typeof PropDeclarationSchema>;
 export type IfElement = z.infer<typeof IfElementSchema>;
 export type LoopElement = z.infer<typeof LoopElementSchema>;
 export type FormElement = z.infer<typeof FormElementSchema>;
@@ -5,6 +5,8 @@
  */
 
 import type { Hypernote } from './schema';
+import type { ActionState } from './contextvm';
+import type { SourceLocation } from './source-map';
 
 // Target context for components
 export interface TargetContext {
@@ -20,6 +22,10 @@ export interface TargetContext {
   created_at?: number;
   tags?: string[][];
   
+  // For addressable kinds 30000-39999 (naddr input)
+  kind?: number;
+  identifier?: string;
+  
   // Raw input value
   raw: string;
 }
@@ -34,6 +40,7 @@ export interface QueryEngine {
       actionResults: Record<string, string>; 
       onTriggerAction?: (name: string) => void; 
       target?: TargetContext; 
+      props?: Record<string, unknown>;
       parentExtracted?: Record<string, unknown>;
     }
   ): Promise<{ 
@@ -57,6 +64,12 @@ export interface ActionExecutor {
       queryResults: Record<string, any>;
       extractedVariables: Record<string, any>;
       userPubkey: string | null;
+      // ContextVM requests report pending right after publishing, then the server's response
+      onActionState?: (state: ActionState) => void;
+      // Use the event template as-is - templates built from user input (like [tool] arguments) hold no expressions
+      literal?: boolean;
+      // Where the action was used (a form's source location) - errors point there
+      loc?: SourceLocation;
     }
   ): Promise<string | void>;
 }
@@ -65,7 +78,10 @@ export interface ActionExecutor {
  * Target parser contract - handles component argument resolution
  */
 export interface TargetParser {
-  parse(arg: string, kind: 0 | 1): Promise<TargetContext>;
+  parse(arg: string, kind: number): Promise<TargetContext>;
+  
+  // Optional live updates - called with the newer target when a replaceable target changes
+  watch?(arg: string, kind: number, onUpdate: (target: TargetContext) => void): () => void;
 }
 
 /**
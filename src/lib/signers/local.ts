@@ -0,0 +1,56 @@
+/**
+ * Local key signer - holds a secret key in memory
+ * For development, CI and headless tests - never paste a real nsec into a web page
+ */
+
+import { nip19, nip44 } from 'nostr-tools';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import type { EventTemplate, NostrEvent } from '../snstr/nip07';
+import { completeTemplate, hexToBytes, type Signer } from './signer';
+
+export class LocalKeySigner implements Signer {
+  readonly type = 'local' as const;
+  private secretKey: Uint8Array;
+
+  /**
+   * Accepts an nsec, a 64-character hex key or raw key bytes
+   */
+  constructor(key: string | Uint8Array) {
+    if (typeof key !== 'string') {
+      this.secretKey = key;
+    } else if (key.startsWith('nsec1')) {
+      const decoded = nip19.decode(key.trim());
+      if (decoded.type !== 'nsec') throw new Error('Expected an nsec');
+      this.secretKey = decoded.data;
+    } else if (/^[0-9a-f]{64}$/i.test(key.trim())) {
+      this.secretKey = hexToBytes(key.trim());
+    } else {
+      throw new Error('Expected an nsec or a 64-character hex secret key');
+    }
+  }
+
+  static generate(): LocalKeySigner {
+    return new LocalKeySigner(generateSecretKey());
+  }
+
+  // For persisting the development key between reloads
+  get nsec(): string {
+    return nip19.nsecEncode(this.secretKey);
+  }
+
+  async getPublicKey(): Promise<string> {
+    return getPublicKey(this.secretKey);
+  }
+
+  async signEvent(template: EventTemplate): Promise<NostrEvent> {
+    return finalizeEvent(completeTemplate(template), this.secretKey);
+  }
+
+  async nip44Encrypt(pubkey: string, plaintext: string): Promise<string> {
+    return nip44.encrypt(plaintext, nip44.getConversationKey(this.secretKey, pubkey));
+  }
+
+  async nip44Decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    return nip44.decrypt(ciphertext, nip44.getConversationKey(this.secretKey, pubkey));
+  }
+}
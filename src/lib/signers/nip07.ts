@@ -0,0 +1,30 @@
+/**
+ * NIP-07 signer - delegates to the browser extension at window.nostr
+ */
+
+import { getPublicKey, signEvent, nip44Encrypt, nip44Decrypt, hasNip07Support, type EventTemplate, type NostrEvent } from '../snstr/nip07';
+import { completeTemplate, type Signer } from './signer';
+
+export class Nip07Signer implements Signer {
+  readonly type = 'nip07' as const;
+
+  static isAvailable(): boolean {
+    return hasNip07Support();
+  }
+
+  getPublicKey(): Promise<string> {
+    return getPublicKey();
+  }
+
+  signEvent(template: EventTemplate): Promise<NostrEvent> {
+    return signEvent(completeTemplate(template));
+  }
+
+  nip44Encrypt(pubkey: string, plaintext: string): Promise<string> {
+    return nip44Encrypt(pubkey, plaintext);
+  }
+
+  nip44Decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    return nip44Decrypt(pubkey, ciphertext);
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * NIP-46 remote signer - requests travel as NIP-44 encrypted kind 24133 events over relays
+ * Supports both connection flows:
+ * - bunker://<remote-signer-pubkey>?relay=...&secret=...  (the signer hands out a URI)
+ * - nostrconnect://<client-pubkey>?relay=...&secret=...  (the client hands out a URI)
+ */
+
+import { nip44 } from 'nostr-tools';
+import { finalizeEvent, generateSecretKey, getPublicKey, verifyEvent } from 'nostr-tools/pure';
+import { SNSTRClient, type Filter } from '../snstr/client';
+import type { EventTemplate, NostrEvent } from '../snstr/nip07';
+import { bytesToHex, completeTemplate, type Signer } from './signer';
+
+export const NIP46_KIND = 24133;
+
+// The part of SNSTRClient the signer needs - tests pass an in-memory relay
+export interface Nip46Transport {
+  subscribeLive(filters: Filter[], onEvent: (event: NostrEvent) => void): () => void;
+  publishEvent(event: NostrEvent): Promise<unknown>;
+}
+
+export interface BunkerPointer {
+  remotePubkey: string;
+  relays: string[];
+  secret?: string;
+}
+
+export interface Nip46Options {
+  // Reuse a client key to resume an earlier session - a new one is generated otherwise
+  clientSecretKey?: Uint8Array;
+  // Defaults to a new SNSTRClient connected to the URI's relays
+  transport?: Nip46Transport;
+  // Milliseconds to wait for each response (default 30s - the user may be approving on their phone)
+  timeout?: number;
+  // Called when the remote signer asks the user to authenticate at a URL first
+  onAuthUrl?: (url: string) => void;
+}
+
+export class Nip46Error extends Error {
+  // refused is set when the remote signer answered with a refusal rather than not answering
+  constructor(message: string, public method: string, public refused: boolean = false) {
+    super(message);
+    this.name = 'Nip46Error';
+  }
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Parse a bunker:// URI
+ */
+export function parseBunkerUri(uri: string): BunkerPointer {
+  const url = new URL(uri.trim());
+  const remotePubkey = url.hostname || url.pathname.replace(/^\/\//, '');
+  if (url.protocol !== 'bunker:' || !/^[0-9a-f]{64}$/.test(remotePubkey)) {
+    throw new Error('Expected bunker://<remote-signer-pubkey>?relay=...');
+  }
+  const relays = url.searchParams.getAll('relay');
+  if (relays.length === 0) {
+    throw new Error('Bunker URI has no relay');
+  }
+  const secret = url.searchParams.get('secret') || undefined;
+  return secret ? { remotePubkey, relays, secret } : { remotePubkey, relays };
+}
+
+/**
+ * Build the nostrconnect:// URI a remote signer scans or pastes to connect to this client
+ */
+export function createNostrConnectUri(options: {
+  clientSecretKey: Uint8Array;
+  relays: string[];
+  secret: string;
+  name?: string;
+  perms?: string[];
+}): string {
+  const params = new URLSearchParams();
+  options.relays.forEach((relay) => params.append('relay', relay));
+  params.set('secret', options.secret);
+  if (options.perms?.length) params.set('perms', options.perms.join(','));
+  if (options.name) params.set('name', options.name);
+  return `nostrconnect://${getPublicKey(options.clientSecretKey)}?${params.toString()}`;
+}
+
+export class Nip46Signer implements Signer {
+  readonly type = 'nip46' as const;
+
+  private pending = new Map<string, PendingRequest>();
+  private unsubscribe: () => void;
+  private conversationKey: Uint8Array;
+  private userPubkey?: string;
+
+  private constructor(
+    private transport: Nip46Transport,
+    private clientSecretKey: Uint8Array,
+    readonly remotePubkey: string,
+    readonly relays: string[],
+    private options: Nip46Options,
+    private ownsTransport: boolean
+  ) {
+    this.conversationKey = nip44.getConversationKey(clientSecretKey, remotePubkey);
+    this.unsubscribe = transport.subscribeLive(
+      [{ kinds: [NIP46_KIND], '#p': [getPublicKey(clientSecretKey)] }],
+      (event) => this.handleResponse(event)
+    );
+  }
+
+  /**
+   * Connect using a bunker:// URI from the remote signer
+   */
+  static async connect(uri: string, options: Nip46Options = {}): Promise<Nip46Signer> {
+    const pointer = parseBunkerUri(uri);
+    const { transport, owned } = await openTransport(pointer.relays, options.transport);
+    const signer = new Nip46Signer(
+      transport,
+      options.clientSecretKey || generateSecretKey(),
+      pointer.remotePubkey,
+      pointer.relays,
+      options,
+      owned
+    );
+
+    try {
+      const params = pointer.secret ? [pointer.remotePubkey, pointer.secret] : [pointer.remotePubkey];
+      const result = await signer.request('connect', params);
+      if (result !== 'ack' && result !== pointer.secret) {
+        throw new Nip46Error(`Unexpected connect response: ${result}`, 'connect', true);
+      }
+      return signer;
+    } catch (error) {
+      signer.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for a remote signer to connect to a nostrconnect:// URI made by createNostrConnectUri
+   * The signer answers with the URI's secret, which identifies it as the one the user chose
+   */
+  static async waitForConnection(uri: string, clientSecretKey: Uint8Array, options: Nip46Options = {}): Promise<Nip46Signer> {
+    const url = new URL(uri.trim());
+    const relays = url.searchParams.getAll('relay');
+    const secret = url.searchParams.get('secret');
+    if (url.protocol !== 'nostrconnect:' || relays.length === 0 || !secret) {
+      throw new Error('Expected nostrconnect://<client-pubkey>?relay=...&secret=...');
+    }
+
+    const { transport, owned } = await openTransport(relays, options.transport);
+    const timeout = options.timeout ?? 120_000;
+
+    const connected = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        reject(new Nip46Error('No remote signer connected', 'connect'));
+      }, timeout);
+      const unsubscribe = transport.subscribeLive(
+        [{ kinds: [NIP46_KIND], '#p': [getPublicKey(clientSecretKey)] }],
+        (event) => {
+          try {
+            const key = nip44.getConversationKey(clientSecretKey, event.pubkey);
+            const response = JSON.parse(nip44.decrypt(event.content, key));
+            if (response.result !== secret) return;
+          } catch {
+            return; // Not for this connection
+          }
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(event.pubkey);
+        }
+      );
+    });
+
+    let remotePubkey: string;
+    try {
+      remotePubkey = await connected;
+    } catch (error) {
+      // Nothing will use the relays this login opened
+      if (owned && transport instanceof SNSTRClient) transport.disconnect();
+      throw error;
+    }
+    return new Nip46Signer(transport, clientSecretKey, remotePubkey, relays, options, owned);
+  }
+
+  // For resuming the session after a reload
+  get clientKey(): string {
+    return bytesToHex(this.clientSecretKey);
+  }
+
+  // Reconnect URI without the one-time secret
+  get bunkerUri(): string {
+    const params = new URLSearchParams();
+    this.relays.forEach((relay) => params.append('relay', relay));
+    return `bunker://${this.remotePubkey}?${params.toString()}`;
+  }
+
+  async getPublicKey(): Promise<string> {
+    if (!this.userPubkey) {
+      this.userPubkey = await this.request('get_public_key', []);
+    }
+    return this.userPubkey;
+  }
+
+  async signEvent(template: EventTemplate): Promise<NostrEvent> {
+    const result = await this.request('sign_event', [JSON.stringify(completeTemplate(template))]);
+    const event: NostrEvent = JSON.parse(result);
+    if (event.pubkey !== await this.getPublicKey()) {
+      throw new Nip46Error('Remote signer signed with an unexpected key', 'sign_event');
+    }
+    if (!verifyEvent(event)) {
+      throw new Nip46Error('Remote signer returned an invalid signature', 'sign_event');
+    }
+    return event;
+  }
+
+  nip44Encrypt(pubkey: string, plaintext: string): Promise<string> {
+    return this.request('nip44_encrypt', [pubkey, plaintext]);
+  }
+
+  nip44Decrypt(pubkey: string, ciphertext: string): Promise<string> {
+    return this.request('nip44_decrypt', [pubkey, ciphertext]);
+  }
+
+  close(): void {
+    this.unsubscribe();
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new Nip46Error('Remote signer connection closed', request.method));
+      this.pending.delete(id);
+    }
+    if (this.ownsTransport && this.transport instanceof SNSTRClient) {
+      this.transport.disconnect();
+    }
+  }
+
+  private async request(method: string, params: string[]): Promise<string> {
+    const id = bytesToHex(generateSecretKey()).slice(0, 16);
+    const content = nip44.encrypt(JSON.stringify({ id, method, params }), this.conversationKey);
+    const event = finalizeEvent({
+      kind: NIP46_KIND,
+      content,
+      tags: [['p', this.remotePubkey]],
+      created_at: Math.floor(Date.now() / 1000)
+    }, this.clientSecretKey);
+
+    // Registered before publishing - the answer can arrive while publishEvent is still running
+    const response = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Nip46Error(`Remote signer did not answer ${method}`, method));
+      }, this.options.timeout ?? 30_000);
+      this.pending.set(id, { method, resolve, reject, timer });
+    });
+
+    try {
+      await this.transport.publishEvent(event);
+    } catch (error) {
+      const request = this.pending.get(id);
+      if (request) clearTimeout(request.timer);
+      this.pending.delete(id);
+      response.catch(() => {}); // Nothing waits on it anymore
+      throw error;
+    }
+    return response;
+  }
+
+  private handleResponse(event: NostrEvent): void {
+    if (event.pubkey !== this.remotePubkey) return;
+
+    let response: { id?: string; result?: string; error?: string };
+    try {
+      response = JSON.parse(nip44.decrypt(event.content, this.conversationKey));
+    } catch {
+      return; // Not a response we can read
+    }
+
+    const request = response.id ? this.pending.get(response.id) : undefined;
+    if (!request) return;
+
+    // The signer wants the user to log in somewhere first - the real response follows with the same id
+    if (response.result === 'auth_url') {
+      if (response.error) this.options.onAuthUrl?.(response.error);
+      return;
+    }
+
+    clearTimeout(request.timer);
+    this.pending.delete(response.id!);
+    if (response.error) {
+      request.reject(new Nip46Error(`Remote signer refused ${request.method}: ${response.error}`, request.method, true));
+    } else {
+      request.resolve(response.result ?? '');
+    }
+  }
+}
+
+async function openTransport(relays: string[], transport?: Nip46Transport): Promise<{ transport: Nip46Transport; owned: boolean }> {
+  if (transport) {
+    return { transport, owned: false };
+  }
+  const client = new SNSTRClient(relays, undefined, { outbox: false });
+  await client.connect();
+  return { transport: client, owned: true };
+}
@@ -0,0 +1,48 @@
+/**
+ * Signer contract - everything that signs events goes through this interface
+ * Implementations: NIP-07 browser extension, NIP-46 remote signer (bunker), in-memory local key
+ */
+
+import type { EventTemplate, NostrEvent } from '../snstr/nip07';
+
+export type SignerType = 'nip07' | 'nip46' | 'local';
+
+export interface Signer {
+  readonly type: SignerType;
+
+  // The user's public key (hex) - for NIP-46 this is the user's key, not the remote signer's
+  getPublicKey(): Promise<string>;
+
+  // Sign a template, filling in pubkey, id and sig (created_at defaults to now)
+  signEvent(template: EventTemplate): Promise<NostrEvent>;
+
+  // NIP-44 encryption between the user and another pubkey - for encrypt: templates and the decrypt pipe
+  nip44Encrypt?(pubkey: string, plaintext: string): Promise<string>;
+  nip44Decrypt?(pubkey: string, ciphertext: string): Promise<string>;
+
+  // Release connections - only NIP-46 holds any
+  close?(): void;
+}
+
+/**
+ * Template with the fields every signer expects filled in
+ */
+export function completeTemplate(template: EventTemplate): Required<EventTemplate> {
+  return {
+    kind: template.kind,
+    content: template.content,
+    tags: template.tags || [],
+    created_at: template.created_at || Math.floor(Date.now() / 1000)
+  };
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  return Uint8Array.from(hex.match(/../g) || [], (byte) => parseInt(byte, 16));
+}
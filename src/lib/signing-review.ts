@@ -0,0 +1,166 @@
+/**
+ * Signing review - every event an action publishes is shown to an approval policy before it is signed
+ * The app's policy opens the signing dialog; headless callers pass their own (approveAll, approveKinds, ...)
+ */
+
+import { nip19 } from 'nostr-tools';
+import type { UnsignedEvent } from './core/events';
+import { parseRecipient } from './core/encryption';
+import { APP_STATE_KIND, CONTEXTVM_KIND, HYPERNOTE_KIND } from './schema';
+
+export interface TagDescription {
+  tag: string[];
+  description: string; // Human-readable meaning, e.g. "Mentions npub1abc…"
+}
+
+export interface SigningRequest {
+  action: string;            // "@post_note", or "publish" for publishing a Hypernote itself
+  event: UnsignedEvent;
+  json?: unknown;            // Decoded content for json: templates
+  encryptedTo?: string;      // Recipient pubkey - the content shown is NIP-44 encrypted after approval
+  tags: TagDescription[];
+  relays: string[];          // Where the signed event will be published
+}
+
+// Resolves true to sign, false to refuse
+export type ApprovalPolicy = (request: SigningRequest) => boolean | Promise<boolean>;
+
+export class SigningRejectedError extends Error {
+  constructor(public request: SigningRequest) {
+    super(`Signing ${request.action} (kind ${request.event.kind}) was rejected`);
+    this.name = 'SigningRejectedError';
+  }
+}
+
+export const approveAll: ApprovalPolicy = () => true;
+export const rejectAll: ApprovalPolicy = () => false;
+
+/**
+ * Approve only the listed kinds - for bots that should never sign anything unexpected
+ */
+export function approveKinds(kinds: number[]): ApprovalPolicy {
+  return (request) => kinds.includes(request.event.kind);
+}
+
+/**
+ * Describe what the signer is being asked to sign
+ */
+export function createSigningRequest(
+  action: string,
+  event: UnsignedEvent,
+  relays: string[],
+  template?: { json?: unknown; encrypt?: { to?: unknown } }
+): SigningRequest {
+  const request: SigningRequest = {
+    action,
+    event,
+    tags: event.tags.map((tag) => ({ tag, description: describeTag(tag) })),
+    relays
+  };
+  if (template?.json !== undefined) {
+    try {
+      request.json = JSON.parse(event.content);
+    } catch {
+      // Content was written explicitly alongside json - show it as text
+    }
+  }
+  const recipient = parseRecipient(template?.encrypt?.to);
+  if (recipient) {
+    request.encryptedTo = recipient;
+  }
+  return request;
+}
+
+/**
+ * Ask the policy to approve a request, throwing SigningRejectedError when it refuses
+ */
+export async function reviewSigning(policy: ApprovalPolicy, request: SigningRequest): Promise<void> {
+  if (!(await policy(request))) {
+    throw new SigningRejectedError(request);
+  }
+}
+
+const KIND_NAMES: Record<number, string> = {
+  0: 'Profile metadata',
+  1: 'Short text note',
+  3: 'Contact list',
+  5: 'Deletion request',
+  6: 'Repost',
+  7: 'Reaction',
+  1111: 'Comment',
+  10000: 'Mute list',
+  10002: 'Relay list',
+  10003: 'Bookmarks',
+  [CONTEXTVM_KIND]: 'ContextVM tool call',
+  30000: 'Follow set',
+  30003: 'Bookmark set',
+  30023: 'Long-form article',
+  [APP_STATE_KIND]: 'Application data',
+  [HYPERNOTE_KIND]: 'Hypernote'
+};
+
+/**
+ * Human-readable name of an event kind, e.g. "Contact list (kind 3)"
+ */
+export function describeKind(kind: number): string {
+  return KIND_NAMES[kind] ? `${KIND_NAMES[kind]} (kind ${kind})` : `Kind ${kind}`;
+}
+
+/**
+ * Who can read an encrypted event's content, e.g. "Only you and npub1abc…"
+ */
+export function describeRecipient(pubkey: string): string {
+  return `Only you and ${shortNpub(pubkey)} can read this`;
+}
+
+/**
+ * Human-readable meaning of a tag - unknown tags just list their values
+ */
+export function describeTag(tag: string[]): string {
+  const [name, value = '', ...rest] = tag;
+  switch (name) {
+    case 'p':
+      return `Mentions or follows ${shortNpub(value)}`;
+    case 'e':
+      return `References event ${shortNevent(value)}${rest[1] ? ` as ${rest[1]}` : ''}`;
+    case 'a':
+      return `References addressable event ${value}`;
+    case 'd':
+      return `Identifier "${value}" - replaces your previous event with this identifier`;
+    case 't':
+      return `Hashtag #${value}`;
+    case 'r':
+      return `Links to ${value}`;
+    case 'k':
+      return `Concerns events of kind ${value}`;
+    case 'expiration':
+      return `Expires ${formatTimestamp(value)}`;
+    case 'title':
+      return `Title "${value}"`;
+    case 'description':
+      return `Description "${value}"`;
+    case 'alt':
+      return `Description for other clients "${value}"`;
+    case 'client':
+      return `Published with ${value}`;
+    default:
+      return `${name}: ${[value, ...rest].join(', ')}`;
+  }
+}
+
+function shortNpub(pubkey: string): string {
+  if (!/^[0-9a-f]{64}$/.test(pubkey)) return pubkey;
+  const npub = nip19.npubEncode(pubkey);
+  return `${npub.slice(0, 12)}…${npub.slice(-4)}`;
+}
+
+function shortNevent(id: string): string {
+  if (!/^[0-9a-f]{64}$/.test(id)) return id;
+  const nevent = nip19.neventEncode({ id });
+  return `${nevent.slice(0, 14)}…${nevent.slice(-4)}`;
+}
+
+function formatTimestamp(seconds: string): string {
+  const date = new Date(Number(seconds) * 1000);
+  return isNaN(date.getTime()) ? `at ${seconds}` : `at ${date.toISOString().replace('T', ' ').slice(0, 16)} UTC`;
+}
@@ -1,70 +1,174 @@
 /**
- * Simple query executor with implicit dependency resolution
- * Replaces the complex dependency graph with direct references
+ * Simple query executor with explicit dependency resolution
+ * Queries reference each other directly ("$follows", ["#profile"]); the executor orders them
+ * into dependency levels and runs each level concurrently
  */
 
-import { applyPipes } from './pipes';
+import { applyPipes, usesDecrypt } from './pipes';
 import { resolveVariables } from './pipes';
+import { decryptEvents } from './core/encryption';
+import { resolveTimeExpression } from './core/clock';
+import { describeLocation } from './source-map';
 import type { NostrEvent } from './snstr/nip07';
+import type { Signer } from './signers/signer';
 
 interface QueryContext {
   user: { pubkey: string | null };
   target?: any;
+  props?: Record<string, any>;
   time: { now: number };
   queryResults: Map<string, any>; // Results of already executed queries
   actionResults: Map<string, string>; // Event IDs from published actions
 }
 
+/**
+ * Raised when queries reference each other in a loop ($a -> $b -> $a)
+ */
+export class QueryCycleError extends Error {
+  constructor(public cycle: string[]) {
+    super(`Query reference cycle: ${cycle.join(' -> ')}`);
+    this.name = 'QueryCycleError';
+  }
+}
+
+/**
+ * Queries a query config references - top-level values and array items naming another query
+ * "@action" references resolve from published events, not queries, so they add no edges
+ */
+export function getQueryDependencies(queryConfig: any, queries: Record<string, any>): string[] {
+  const dependencies: string[] = [];
+  if (!queryConfig || typeof queryConfig !== 'object') return dependencies;
+  
+  for (const value of Object.values(queryConfig)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === 'string' && (item.startsWith('$') || item.startsWith('#')) &&
+          item in queries && !dependencies.includes(item)) {
+        dependencies.push(item);
+      }
+    }
+  }
+  
+  return dependencies;
+}
+
+/**
+ * Order queries into levels - each level only depends on earlier levels
+ * Within a level queries keep their declaration order, so execution plans are deterministic
+ * @throws QueryCycleError if the references form a cycle
+ */
+export function buildQueryLevels(queries: Record<string, any>): string[][] {
+  const names = Object.keys(queries);
+  const dependencies = new Map(names.map(name => [name, getQueryDependencies(queries[name], queries)]));
+  const levels: string[][] = [];
+  const placed = new Set<string>();
+  
+  while (placed.size < names.length) {
+    const level = names.filter(name => !placed.has(name) && dependencies.get(name)!.every(dep => placed.has(dep)));
+    if (level.length === 0) {
+      throw new QueryCycleError(findCycle(names.filter(name => !placed.has(name)), dependencies));
+    }
+    level.forEach(name => placed.add(name));
+    levels.push(level);
+  }
+  
+  return levels;
+}
+
+/**
+ * Walk dependencies from the first unplaced query until a name repeats
+ * Every unplaced query has an unplaced dependency, so the walk always closes a loop
+ */
+function findCycle(unplaced: string[], dependencies: Map<string, string[]>): string[] {
+  const path: string[] = [];
+  let current = unplaced[0];
+  
+  while (!path.includes(current)) {
+    path.push(current);
+    current = dependencies.get(current)!.find(dep => unplaced.includes(dep))!;
+  }
+  
+  return [...path.slice(path.indexOf(current)), current];
+}
+
 export class SimpleQueryExecutor {
   private queries: Record<string, any>;
   private context: QueryContext;
   private fetchEvents: (filter: any) => Promise<NostrEvent[]>;
   private resolvedFilters: Map<string, any> = new Map();
   private extractedVariables: Record<string, any> = {};
+  private signer?: Signer | null; // Decrypts content for the decrypt pipe - without one nothing is readable
   
   constructor(
     queries: Record<string, any>,
     context: Partial<QueryContext>,
-    fetchEvents: (filter: any) => Promise<NostrEvent[]>
+    fetchEvents: (filter: any) => Promise<NostrEvent[]>,
+    signer?: Signer | null
   ) {
     this.queries = queries;
     this.context = {
       user: context.user || { pubkey: null },
       target: context.target,
+      props: context.props,
       time: { now: Date.now() },
       queryResults: context.queryResults || new Map(),
       actionResults: context.actionResults || new Map(),
     };
     this.fetchEvents = fetchEvents;
+    this.signer = signer;
   }
   
+  /**
+   * Execute every query, level by level - queries within a level run concurrently
+   * Results and resolved filters come back in declaration order regardless of timing
+   * @throws QueryCycleError before fetching anything if the queries reference each other in a loop
+   */
   async executeAll(): Promise<{ results: Map<string, any>, resolvedFilters: Map<string, any> }> {
-    const results = new Map<string, any>();
+    const levels = buildQueryLevels(this.queries);
     
-    console.log('[SimpleQueryExecutor] Executing all queries:', Object.keys(this.queries));
+    console.log('[SimpleQueryExecutor] Executing all queries in levels:', levels);
     
-    // Execute queries one by one (will handle dependencies)
-    for (const [queryName, queryConfig] of Object.entries(this.queries)) {
-      console.log(`[SimpleQueryExecutor] Executing query: ${queryName}`);
-      const result = await this.executeQuery(queryName, queryConfig);
-      results.set(queryName, result);
-      this.context.queryResults.set(queryName, result);
-      console.log(`[SimpleQueryExecutor] Query ${queryName} result:`, result);
+    for (const level of levels) {
+      const levelResults = await Promise.all(
+        level.map(queryName => this.executeQuery(queryName, this.queries[queryName]))
+      );
+      level.forEach((queryName, i) => {
+        this.context.queryResults.set(queryName, levelResults[i]);
+        console.log(`[SimpleQueryExecutor] Query ${queryName} result:`, levelResults[i]);
+      });
     }
     
+    const order = Object.keys(this.queries);
+    const results = new Map(order.map(queryName => [queryName, this.context.queryResults.get(queryName)]));
+    this.resolvedFilters = new Map(
+      order.filter(queryName => this.resolvedFilters.has(queryName))
+        .map(queryName => [queryName, this.resolvedFilters.get(queryName)])
+    );
+    
     console.log('[SimpleQueryExecutor] All queries executed. Results:', Array.from(results.keys()));
     return { results, resolvedFilters: this.resolvedFilters };
   }
   
-  async executeQuery(queryName: string, queryConfig: any): Promise<any> {
+  /**
+   * Execute one query, running the queries it references first
+   * path holds the queries waiting on this one - each call chain carries its own, so concurrent
+   * executions of the same query aren't mistaken for a cycle
+   */
+  async executeQuery(queryName: string, queryConfig: any, path: string[] = []): Promise<any> {
+    if (path.includes(queryName)) {
+      throw new QueryCycleError([...path.slice(path.indexOf(queryName)), queryName]);
+    }
+    return this.runQuery(queryName, queryConfig, [...path, queryName]);
+  }
+  
+  private async runQuery(queryName: string, queryConfig: any, path: string[]): Promise<any> {
     // Clone the config so we don't mutate the original
     const config = JSON.parse(JSON.stringify(queryConfig));
     
     // Resolve any references to other queries or actions
-    await this.resolveReferences(config);
+    await this.resolveReferences(config, path);
     
     // Build the Nostr filter (strip non-filter fields)
-    const { pipe, triggers, ...filter } = config;
+    const { pipe, triggers, loc, ...filter } = config;
     
     // Resolve variables in the filter
     const resolvedFilter = this.resolveFilterVariables(filter);
@@ -116,7 +220,14 @@ export class SimpleQueryExecutor {
     
     // Apply pipes if any
     if (pipe && pipe.length > 0) {
-      const result = applyPipes(processedEvents, pipe);
+      const decrypted = usesDecrypt(pipe) ? await decryptEvents(processedEvents, this.signer) : undefined;
+      let result;
+      try {
+        result = applyPipes(processedEvents, pipe, { decrypted });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Pipe failed for ${queryName}${describeLocation(loc)}: ${message}`);
+      }
       console.log(`[SimpleQueryExecutor] After pipes for ${queryName}:`, result);
       return result;
     }
@@ -124,7 +235,7 @@ export class SimpleQueryExecutor {
     return processedEvents;
   }
   
-  private async resolveReferences(config: any): Promise<void> {
+  private async resolveReferences(config: any, path: string[]): Promise<void> {
     // Check each field for references to other queries ($query or #component) or actions (@action)
     for (const [key, value] of Object.entries(config)) {
       if (typeof value === 'string') {
@@ -137,7 +248,7 @@ export class SimpleQueryExecutor {
             const refQuery = this.queries[refQueryName];
             if (refQuery) {
               console.log(`[SimpleQueryExecutor] Implicit wait: executing ${refQueryName} before continuing`);
-              const result = await this.executeQuery(refQueryName, refQuery);
+              const result = await this.executeQuery(refQueryName, refQuery, path);
               this.context.queryResults.set(refQueryName, result);
             }
           }
@@ -169,7 +280,7 @@ export class SimpleQueryExecutor {
               const refQuery = this.queries[refQueryName];
               if (refQuery) {
                 console.log(`[SimpleQueryExecutor] Implicit wait: executing ${refQueryName} before continuing`);
-                const result = await this.executeQuery(refQueryName, refQuery);
+                const result = await this.executeQuery(refQueryName, refQuery, path);
                 this.context.queryResults.set(refQueryName, result);
               }
             }
@@ -253,12 +364,15 @@ export class SimpleQueryExecutor {
         } else if (value === 'target.id') {
           // Only resolve if target context has id, otherwise keep as unresolved
           resolved[key] = this.context.target?.id || 'target.id';
+        } else if (value.startsWith('props.')) {
+          // Component props keep their type (e.g. limit: props.limit), otherwise keep as unresolved
+          resolved[key] = this.resolveProp(value) ?? value;
         } else if (value.includes('time.')) {
-          // Handle time expressions
-          try {
-            const timeValue = value.replace('time.now', String(this.context.time.now));
-            resolved[key] = eval(timeValue);
-          } catch (e) {
+          // Handle time expressions with the sandboxed evaluator
+          const timeValue = resolveTimeExpression(value, { now: () => this.context.time.now });
+          if (timeValue !== undefined) {
+            resolved[key] = timeValue;
+          } else {
             console.warn('Failed to evaluate time expression:', value);
           }
         }
@@ -278,6 +392,9 @@ export class SimpleQueryExecutor {
               // Only resolve if target context has id, otherwise keep as unresolved
               return this.context.target?.id || 'target.id';
             }
+            if (item.startsWith('props.')) {
+              return this.resolveProp(item) ?? item;
+            }
           }
           return item;
         });
@@ -286,4 +403,11 @@ export class SimpleQueryExecutor {
     
     return resolved;
   }
+  
+  /**
+   * Resolve a props.name reference against the component props
+   */
+  private resolveProp(reference: string): any {
+    return this.context.props?.[reference.slice('props.'.length)];
+  }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@
 // This provides basic relay functionality without requiring private keys for queries
 
 import type { EventTemplate, NostrEvent } from "./nip07";
+import { RELAY_LIST_KIND, isRoutable, normalizeRelayUrl, parseRelayList, planOutbox, planPublish, type OutboxOptions, type RelayList } from "./outbox";
 
 export interface Filter {
   ids?: string[];
@@ -17,18 +18,62 @@ export interface Filter {
   "#a"?: string[];
   "#r"?: string[];
   search?: string;
+  relays?: string[];  // Extra relays to ask, like naddr/nevent hints - stripped before the REQ
 }
 
+/**
+ * Attach relay hints (from an naddr, nevent or a query's relays:) to a filter - without hints it's unchanged
+ */
+export function withRelayHints<T extends Filter>(filter: T, relays?: string[]): T {
+  return relays && relays.length > 0 ? { ...filter, relays } : filter;
+}
+
+export interface FetchResult {
+  events: NostrEvent[];
+  eose: string[];  // Relays that sent EOSE - no events only means "none exist" when one of them answered
+}
+
+export type RelayState = "connecting" | "connected" | "disconnected" | "closed";
+
 export interface RelayStatus {
   url: string;
   connected: boolean;
-  lastError?: string;
+  state: RelayState;
+  subscriptions: number;     // Active subscriptions - restored after a reconnect
+  reconnectAttempts: number;
+  nextReconnectAt?: number;  // When the scheduled reconnect fires (ms since epoch)
+  lastError?: string;        // Connection errors, CLOSED reasons and rejected events
+  lastNotice?: string;
+}
+
+export interface ReconnectOptions {
+  initialDelay?: number;  // ms before the first reconnect, doubling each attempt (default 1000)
+  maxDelay?: number;      // Cap on the doubling (default 30000)
+  maxAttempts?: number;   // Attempts while no subscription is active (default 5) - with one, reconnecting never stops
 }
 
 export interface SubscriptionCallbacks {
   onEvent?: (event: NostrEvent) => void;
   onEose?: () => void;
-  onClose?: () => void;
+  onClose?: (reason?: string) => void;  // The relay ended the subscription with CLOSED
+}
+
+// Seconds restored subscriptions reach back before the disconnect - covers clock skew between relay and client
+const RESUBSCRIBE_OVERLAP = 60;
+
+/**
+ * Delay before a reconnect attempt (0-based) - exponential backoff with jitter, so clients that
+ * lost the same relay don't all come back at once
+ */
+export function reconnectDelay(attempt: number, options: ReconnectOptions = {}, random: () => number = Math.random): number {
+  const base = Math.min((options.initialDelay ?? 1000) * 2 ** attempt, options.maxDelay ?? 30000);
+  return Math.round(base / 2 + (random() * base) / 2);
+}
+
+interface ActiveSubscription {
+  filters: Filter[];
+  callbacks: SubscriptionCallbacks;
+  eose: boolean;  // Stored events were delivered - a restore only asks for what was missed
 }
 
 // Simple WebSocket relay client
@@ -36,61 +81,93 @@ class SimpleRelay {
   private url: string;
   private ws: WebSocket | null = null;
   private connected = false;
-  private subscriptions = new Map<string, SubscriptionCallbacks>();
+  private state: RelayState = "disconnected";
+  private subscriptions = new Map<string, ActiveSubscription>();
   private messageQueue: string[] = [];
   private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-
-  constructor(url: string) {
+  private nextReconnectAt: number | undefined;
+  private disconnectedAt: number | null = null;
+  private lastError: string | undefined;
+  private lastNotice: string | undefined;
+  private connecting: Promise<boolean> | null = null;
+  private closed = false; // Disconnected on purpose - no reconnecting
+  private reconnect: ReconnectOptions;
+  private onStatus: (status: RelayStatus) => void;
+
+  constructor(url: string, options: { reconnect?: ReconnectOptions; onStatus?: (status: RelayStatus) => void } = {}) {
     this.url = url;
+    this.reconnect = options.reconnect ?? {};
+    this.onStatus = options.onStatus ?? (() => {});
   }
 
+  // Concurrent callers share one connection attempt
   async connect(): Promise<boolean> {
     if (this.connected) return true;
+    this.closed = false;
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private open(): Promise<boolean> {
+    this.setState("connecting");
 
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.url);
+        const ws = new WebSocket(this.url);
+        this.ws = ws;
 
         const timeout = setTimeout(() => {
           reject(new Error(`Connection timeout for ${this.url}`));
-          this.ws?.close();
+          ws.close();
         }, 10000);
 
-        this.ws.onopen = () => {
+        ws.onopen = () => {
           clearTimeout(timeout);
           this.connected = true;
           this.reconnectAttempts = 0;
+          this.lastError = undefined;
           console.log(`Connected to relay: ${this.url}`);
-          
+
+          this.restoreSubscriptions();
           // Send queued messages
           while (this.messageQueue.length > 0) {
             const msg = this.messageQueue.shift();
-            if (msg) this.ws?.send(msg);
+            if (msg) ws.send(msg);
           }
-          
+
+          this.setState("connected");
           resolve(true);
         };
 
-        this.ws.onclose = () => {
-          this.connected = false;
+        ws.onclose = () => {
           clearTimeout(timeout);
+          // A superseded socket closing late says nothing about the current one
+          if (this.ws !== ws && this.ws !== null) return;
+          this.connected = false;
+          this.disconnectedAt ??= Date.now();
           console.log(`Disconnected from relay: ${this.url}`);
-          
-          // Attempt reconnection
-          if (this.reconnectAttempts < this.maxReconnectAttempts) {
+
+          if (this.closed) {
+            this.setState("closed");
+          } else {
+            this.setState("disconnected");
             this.scheduleReconnect();
           }
         };
 
-        this.ws.onerror = (error) => {
+        ws.onerror = (error) => {
           clearTimeout(timeout);
           console.error(`Relay error for ${this.url}:`, error);
+          this.lastError = (error as ErrorEvent).message || "Connection error";
           reject(error);
         };
 
-        this.ws.onmessage = (event) => {
+        ws.onmessage = (event) => {
           try {
             const message = JSON.parse(event.data);
             this.handleMessage(message);
@@ -99,63 +176,94 @@ class SimpleRelay {
           }
         };
       } catch (error) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        this.setState("disconnected");
         reject(error);
       }
     });
   }
 
   private scheduleReconnect() {
-    if (this.reconnectTimer) return;
-    
-    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
+    if (this.reconnectTimer || this.closed) return;
+    // Idle relays give up eventually - live subscriptions keep trying
+    if (this.subscriptions.size === 0 && this.reconnectAttempts >= (this.reconnect.maxAttempts ?? 5)) {
+      return;
+    }
+
+    const delay = reconnectDelay(this.reconnectAttempts, this.reconnect);
     this.reconnectAttempts++;
-    
+    this.nextReconnectAt = Date.now() + delay;
+
     console.log(`Scheduling reconnect to ${this.url} in ${delay}ms (attempt ${this.reconnectAttempts})`);
-    
+    this.emitStatus();
+
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
-      this.connect().catch(console.error);
+      this.nextReconnectAt = undefined;
+      this.connect().catch(() => {}); // Logged by the error handler, and the close handler retries
     }, delay);
   }
 
+  // Re-issue every active subscription after (re)connecting - ones that had EOSE only ask for the gap
+  private restoreSubscriptions() {
+    const since = this.disconnectedAt === null ? null : Math.floor(this.disconnectedAt / 1000) - RESUBSCRIBE_OVERLAP;
+    this.disconnectedAt = null;
+
+    this.subscriptions.forEach((subscription, subId) => {
+      const filters = subscription.eose && since !== null
+        ? subscription.filters.map((filter) => ({ ...filter, since: Math.max(filter.since ?? 0, since) }))
+        : subscription.filters;
+      this.ws?.send(JSON.stringify(["REQ", subId, ...filters]));
+    });
+  }
+
   private handleMessage(message: any[]) {
     const [type, ...rest] = message;
 
     switch (type) {
       case "EVENT": {
         const [subId, event] = rest;
-        const callbacks = this.subscriptions.get(subId);
-        if (callbacks?.onEvent) {
-          callbacks.onEvent(event as NostrEvent);
+        const subscription = this.subscriptions.get(subId);
+        if (subscription?.callbacks.onEvent) {
+          subscription.callbacks.onEvent(event as NostrEvent);
         }
         break;
       }
       case "EOSE": {
         const [subId] = rest;
-        const callbacks = this.subscriptions.get(subId);
-        if (callbacks?.onEose) {
-          callbacks.onEose();
+        const subscription = this.subscriptions.get(subId);
+        // Restored subscriptions end their stored events again - callers only hear the first EOSE
+        if (subscription && !subscription.eose) {
+          subscription.eose = true;
+          subscription.callbacks.onEose?.();
         }
         break;
       }
       case "CLOSED": {
-        const [subId] = rest;
-        const callbacks = this.subscriptions.get(subId);
-        if (callbacks?.onClose) {
-          callbacks.onClose();
-        }
+        const [subId, reason] = rest;
+        const subscription = this.subscriptions.get(subId);
         this.subscriptions.delete(subId);
+        if (reason) {
+          console.log(`Subscription ${subId} closed by ${this.url}: ${reason}`);
+          this.lastError = `Subscription closed: ${reason}`;
+        }
+        subscription?.callbacks.onClose?.(reason);
+        this.emitStatus();
         break;
       }
       case "NOTICE": {
         const [notice] = rest;
         console.log(`Relay notice from ${this.url}: ${notice}`);
+        this.lastNotice = String(notice);
+        this.emitStatus();
         break;
       }
       case "OK": {
         const [eventId, accepted, message] = rest;
         if (!accepted) {
           console.error(`Event ${eventId} rejected: ${message}`);
+          this.lastError = `Event rejected: ${message}`;
+          this.emitStatus();
         }
         break;
       }
@@ -164,35 +272,34 @@ class SimpleRelay {
 
   subscribe(filters: Filter[], callbacks: SubscriptionCallbacks): string {
     const subId = Math.random().toString(36).substring(2, 15);
-    this.subscriptions.set(subId, callbacks);
+    this.subscriptions.set(subId, { filters, callbacks, eose: false });
 
-    const message = JSON.stringify(["REQ", subId, ...filters]);
-    
-    console.log(`[SimpleRelay] Sending subscription to ${this.url}:`, message);
-    console.log(`[SimpleRelay] Filters object:`, filters);
-    
+    // Disconnected relays send it once they're back (restoreSubscriptions)
     if (this.connected && this.ws?.readyState === WebSocket.OPEN) {
+      const message = JSON.stringify(["REQ", subId, ...filters]);
+      console.log(`[SimpleRelay] Sending subscription to ${this.url}:`, message);
       this.ws.send(message);
-    } else {
-      this.messageQueue.push(message);
+    } else if (!this.connecting && !this.reconnectTimer && this.disconnectedAt !== null) {
+      // Reconnecting had given up while idle
+      this.scheduleReconnect();
     }
 
+    this.emitStatus();
     return subId;
   }
 
   unsubscribe(subId: string) {
-    this.subscriptions.delete(subId);
-    
-    const message = JSON.stringify(["CLOSE", subId]);
-    
+    if (!this.subscriptions.delete(subId)) return;
+
     if (this.connected && this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(message);
+      this.ws.send(JSON.stringify(["CLOSE", subId]));
     }
+    this.emitStatus();
   }
 
   async publish(event: NostrEvent): Promise<void> {
     const message = JSON.stringify(["EVENT", event]);
-    
+
     if (this.connected && this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(message);
     } else {
@@ -201,19 +308,21 @@ class SimpleRelay {
   }
 
   disconnect() {
+    this.closed = true;
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
-    
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    
+    this.nextReconnectAt = undefined;
+
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+
     this.connected = false;
     this.subscriptions.clear();
     this.messageQueue = [];
+    this.setState("closed");
   }
 
   isConnected(): boolean {
@@ -223,26 +332,71 @@ class SimpleRelay {
   getUrl(): string {
     return this.url;
   }
+
+  getStatus(): RelayStatus {
+    return {
+      url: this.url,
+      connected: this.connected,
+      state: this.state,
+      subscriptions: this.subscriptions.size,
+      reconnectAttempts: this.reconnectAttempts,
+      ...(this.nextReconnectAt !== undefined && { nextReconnectAt: this.nextReconnectAt }),
+      ...(this.lastError !== undefined && { lastError: this.lastError }),
+      ...(this.lastNotice !== undefined && { lastNotice: this.lastNotice })
+    };
+  }
+
+  private setState(state: RelayState) {
+    this.state = state;
+    this.emitStatus();
+  }
+
+  private emitStatus() {
+    this.onStatus(this.getStatus());
+  }
 }
 
+export interface SNSTRClientOptions extends OutboxOptions {
+  outbox?: boolean;           // Route by NIP-65 relay lists (default true)
+  relayListTtl?: number;      // ms before a cached relay list is fetched again (default 10 minutes)
+  relayListTimeout?: number;  // ms to wait for relay lists before routing (default 2000)
+  maxExtraConnections?: number; // Outbox and hinted relays kept open at once - least recently used idle ones close first (default 16)
+  reconnect?: ReconnectOptions;
+}
+
+interface CachedRelayList {
+  list: RelayList | null;  // null when the user has no kind 10002 event
+  fetchedAt: number;
+}
+
+const PUBKEY = /^[0-9a-f]{64}$/;
+
 // SNSTR Client that manages multiple relays
+// With the outbox model (NIP-65) queries for authors go to the relays they write to, and publishes
+// also reach the author's write relays and tagged users' read relays. Those relays, and relay hints
+// on filters or publishes, are connected on demand and kept open for later requests - up to maxExtraConnections
 export class SNSTRClient {
   private relays: Map<string, SimpleRelay> = new Map();
   private relayUrls: string[] = [];
   private logger: (message: string) => void;
-
-  constructor(relayUrls: string[], logger?: (message: string) => void) {
-    this.relayUrls = relayUrls;
+  private options: SNSTRClientOptions;
+  private relayLists = new Map<string, CachedRelayList>();
+  private pendingRelayLists = new Map<string, Promise<void>>();
+  private statusListeners = new Set<(statuses: RelayStatus[]) => void>();
+  private extraRelayUse = new Set<string>(); // Extra relays, least recently used first
+
+  constructor(relayUrls: string[], logger?: (message: string) => void, options: SNSTRClientOptions = {}) {
+    this.relayUrls = relayUrls.map((url) => normalizeRelayUrl(url) ?? url);
     this.logger = logger || console.log;
+    this.options = { outbox: true, ...options };
   }
 
   async connect(): Promise<void> {
     this.logger(`Connecting to ${this.relayUrls.length} relays...`);
-    
+
     const connectionPromises = this.relayUrls.map(async (url) => {
-      const relay = new SimpleRelay(url);
-      this.relays.set(url, relay);
-      
+      const relay = this.createRelay(url);
+
       try {
         await relay.connect();
         this.logger(`✅ Connected to ${url}`);
@@ -254,30 +408,37 @@ export class SNSTRClient {
     });
 
     const results = await Promise.allSettled(connectionPromises);
-    
-    const connected = results.filter(r => 
+
+    const connected = results.filter(r =>
       r.status === 'fulfilled' && r.value.success
     ).length;
-    
+
     this.logger(`Connected to ${connected}/${this.relayUrls.length} relays`);
   }
 
   disconnect() {
     this.relays.forEach(relay => relay.disconnect());
     this.relays.clear();
+    this.extraRelayUse.clear();
+    this.emitRelayStatuses();
   }
 
+  // Every relay in use, including outbox and hinted relays connected on demand
   getRelayStatuses(): RelayStatus[] {
-    return Array.from(this.relays.entries()).map(([url, relay]) => ({
-      url,
-      connected: relay.isConnected()
-    }));
+    return Array.from(this.relays.values()).map((relay) => relay.getStatus());
   }
 
+  // Called with every relay's status whenever one connects, drops, retries or hears from its relay
+  onRelayStatus(listener: (statuses: RelayStatus[]) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Connected relays of the configured set
   getConnectedRelays(): string[] {
-    return Array.from(this.relays.entries())
-      .filter(([_, relay]) => relay.isConnected())
-      .map(([url, _]) => url);
+    return this.relayUrls.filter((url) => this.relays.get(url)?.isConnected());
   }
 
   // Subscribe to events from all connected relays (live subscription)
@@ -316,7 +477,7 @@ export class SNSTRClient {
 
     return subIds;
   }
-  
+
   // Unsubscribe from specific subscriptions
   unsubscribeAll(subIds: string[], relayUrls: string[]) {
     subIds.forEach((subId, index) => {
@@ -332,25 +493,23 @@ export class SNSTRClient {
     onEose?: () => void
   ): () => void {
     const connectedRelays = this.getConnectedRelays();
-    
-    if (connectedRelays.length === 0) {
+
+    if (connectedRelays.length === 0 && !this.hasRelayHints(filters)) {
       throw new Error("No relays connected for live subscription");
     }
-    
-    this.logger(`[LIVE] Starting live subscription with ${connectedRelays.length} relays`);
+
     this.logger(`[LIVE] Filters: ${JSON.stringify(filters)}`);
-    
-    const subIds: string[] = [];
+
     const seenIds = new Set<string>();
-    let eoseCount = 0;
-    let hasCalledEose = false;
-    
-    // Subscribe to each relay
-    connectedRelays.forEach((relayUrl) => {
-      const relay = this.relays.get(relayUrl);
-      if (!relay) return;
-      
-      const subId = relay.subscribe(filters, {
+    let close: (() => void) | null = null;
+    let closed = false;
+
+    // Relay lists may need fetching first - closing before then cancels the subscription
+    this.routeFilters(filters, connectedRelays).then((plan) => {
+      if (closed) return;
+      this.logger(`[LIVE] Starting live subscription with ${plan.size} relays`);
+
+      close = this.subscribePlan(plan, {
         onEvent: (event) => {
           // Deduplicate events across relays
           if (!seenIds.has(event.id)) {
@@ -359,104 +518,60 @@ export class SNSTRClient {
             onEvent(event);
           }
         },
-        onEose: () => {
-          eoseCount++;
-          this.logger(`[LIVE] EOSE from ${relayUrl} (${eoseCount}/${connectedRelays.length})`);
-          
-          // Call onEose once when all relays have sent EOSE
-          if (eoseCount >= connectedRelays.length && !hasCalledEose && onEose) {
-            hasCalledEose = true;
-            onEose();
-          }
+        // Once every relay has sent EOSE or failed to connect
+        onDone: () => {
+          this.logger(`[LIVE] EOSE from all ${plan.size} relays`);
+          onEose?.();
         }
       });
-      
-      subIds.push(subId);
     });
-    
+
     // Return cleanup function
     return () => {
       this.logger(`[LIVE] Closing live subscription`);
-      subIds.forEach((subId, index) => {
-        const relay = this.relays.get(connectedRelays[index]);
-        relay?.unsubscribe(subId);
-      });
+      closed = true;
+      close?.();
     };
   }
-  
+
   // Fetch events with EOSE (End of Stored Events) handling
   async fetchEvents(filters: Filter[], timeout: number = 5000): Promise<NostrEvent[]> {
-    const events: NostrEvent[] = [];
-    const seenIds = new Set<string>();
+    return (await this.fetchEventsWithEose(filters, timeout)).events;
+  }
+
+  // Like fetchEvents, but also says which relays confirmed they had nothing more - timeouts and failed relays don't
+  async fetchEventsWithEose(filters: Filter[], timeout: number = 5000): Promise<FetchResult> {
     const connectedRelays = this.getConnectedRelays();
-    
-    if (connectedRelays.length === 0) {
+
+    if (connectedRelays.length === 0 && !this.hasRelayHints(filters)) {
       throw new Error("No relays connected");
     }
 
-    return new Promise((resolve) => {
-      let eoseCount = 0;
-      const subIds: string[] = [];
-
-      const checkComplete = () => {
-        if (eoseCount >= connectedRelays.length) {
-          // Unsubscribe from all
-          subIds.forEach((subId, index) => {
-            const relay = this.relays.get(connectedRelays[index]);
-            relay?.unsubscribe(subId);
-          });
-          resolve(events);
-        }
-      };
-
-      // Set up timeout
-      const timeoutId = setTimeout(() => {
-        subIds.forEach((subId, index) => {
-          const relay = this.relays.get(connectedRelays[index]);
-          relay?.unsubscribe(subId);
-        });
-        resolve(events);
-      }, timeout);
-
-      // Subscribe to each relay
-      connectedRelays.forEach((url) => {
-        const relay = this.relays.get(url);
-        if (!relay) return;
-
-        const subId = relay.subscribe(filters, {
-          onEvent: (event) => {
-            if (!seenIds.has(event.id)) {
-              seenIds.add(event.id);
-              events.push(event);
-            }
-          },
-          onEose: () => {
-            eoseCount++;
-            checkComplete();
-          }
-        });
-
-        subIds.push(subId);
-      });
-    });
+    return this.fetchFrom(await this.routeFilters(filters, connectedRelays), timeout);
   }
 
-  // Publish event to all connected relays
-  async publishEvent(event: NostrEvent): Promise<{ 
+  // Publish event to the connected relays and any extra relays - plus outbox relays when they're on
+  async publishEvent(event: NostrEvent, relays: string[] = []): Promise<{
     eventId: string;
     successCount: number;
     results: Array<{ relay: string; success: boolean; error?: any }>;
   }> {
     const connectedRelays = this.getConnectedRelays();
-    
-    if (connectedRelays.length === 0) {
+    const extraRelays = this.relayHints(relays);
+
+    if (connectedRelays.length === 0 && extraRelays.length === 0) {
       throw new Error("No relays connected");
     }
 
-    const publishPromises = connectedRelays.map(async (url) => {
-      const relay = this.relays.get(url);
-      if (!relay) {
-        return { relay: url, success: false, error: "Relay not found" };
+    if (event.kind === RELAY_LIST_KIND) {
+      this.relayLists.set(event.pubkey, { list: parseRelayList(event), fetchedAt: Date.now() });
+    }
+    const targets = await this.planPublishRelays(event, relays);
+
+    const publishPromises = targets.map(async (url) => {
+      const { relay, ready } = this.openRelay(url);
+      if (!(await ready)) {
+        return { relay: url, success: false, error: "Connection failed" };
       }
 
       try {
@@ -468,7 +583,7 @@ export class SNSTRClient {
     });
 
     const results = await Promise.allSettled(publishPromises);
-    const processedResults = results.map(r => 
+    const processedResults = results.map(r =>
       r.status === 'fulfilled' ? r.value : { relay: 'unknown', success: false, error: r.reason }
     );
 
@@ -480,4 +595,225 @@ export class SNSTRClient {
       results: processedResults
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Every relay publishEvent sends an event to - the connected relays, outbox relays and the extra relays
+   * Signing reviews show this before there is a signed event, so pass the signer's pubkey
+   */
+  async planPublishRelays(event: Pick<NostrEvent, "kind" | "tags" | "pubkey">, relays: string[] = []): Promise<string[]> {
+    return [...new Set([...await this.publishRelays(event, this.getConnectedRelays()), ...this.relayHints(relays)])];
+  }
+
+  /**
+   * NIP-65 relay lists of the given users - fetched from the configured relays and cached for relayListTtl
+   * Users without a kind 10002 event map to null
+   */
+  async getRelayLists(pubkeys: string[]): Promise<Map<string, RelayList | null>> {
+    const ttl = this.options.relayListTtl ?? 10 * 60 * 1000;
+    const wanted = [...new Set(pubkeys)].filter((pubkey) => PUBKEY.test(pubkey));
+    const stale = wanted.filter((pubkey) => {
+      const cached = this.relayLists.get(pubkey);
+      return (!cached || Date.now() - cached.fetchedAt > ttl) && !this.pendingRelayLists.has(pubkey);
+    });
+
+    if (stale.length > 0) {
+      const fetching = this.fetchRelayLists(stale);
+      stale.forEach((pubkey) => this.pendingRelayLists.set(pubkey, fetching));
+    }
+    await Promise.all(wanted.map((pubkey) => this.pendingRelayLists.get(pubkey)));
+
+    return new Map(wanted.map((pubkey) => [pubkey, this.relayLists.get(pubkey)?.list ?? null]));
+  }
+
+  private async fetchRelayLists(pubkeys: string[]): Promise<void> {
+    try {
+      const plan = new Map(this.getConnectedRelays().map((url) => [url, [{ kinds: [RELAY_LIST_KIND], authors: pubkeys }]]));
+      const { events } = await this.fetchFrom(plan, this.options.relayListTimeout ?? 2000);
+
+      // Relays may hold older versions of the replaceable list
+      const latest = new Map<string, NostrEvent>();
+      for (const event of events) {
+        const current = latest.get(event.pubkey);
+        if (!current || event.created_at > current.created_at) latest.set(event.pubkey, event);
+      }
+
+      const fetchedAt = Date.now();
+      for (const pubkey of pubkeys) {
+        const event = latest.get(pubkey);
+        this.relayLists.set(pubkey, { list: event ? parseRelayList(event) : null, fetchedAt });
+      }
+    } catch (error) {
+      this.logger(`Failed to fetch relay lists: ${error}`);
+    } finally {
+      pubkeys.forEach((pubkey) => this.pendingRelayLists.delete(pubkey));
+    }
+  }
+
+  // Which relays get which filters - the default relays get everything unless outbox routing is on,
+  // and each filter also goes to its relay hints
+  private async routeFilters(filters: Filter[], defaultRelays: string[]): Promise<Map<string, Filter[]>> {
+    const stripped = filters.map(({ relays, ...filter }) => filter as Filter);
+    const authors = stripped.filter(isRoutable).flatMap((filter) => filter.authors);
+    const plan = this.options.outbox && authors.length > 0
+      ? planOutbox(stripped, await this.getRelayLists(authors), defaultRelays, this.options)
+      : new Map(defaultRelays.map((url) => [url, stripped]));
+
+    filters.forEach((filter, i) => {
+      for (const url of this.relayHints(filter.relays)) {
+        const planned = plan.get(url) ?? [];
+        if (!planned.includes(stripped[i])) plan.set(url, [...planned, stripped[i]]);
+      }
+    });
+    return plan;
+  }
+
+  // Valid, distinct relay hints - at most maxRelays of them
+  private relayHints(relays?: string[]): string[] {
+    const urls = (relays ?? []).map((url) => typeof url === "string" ? normalizeRelayUrl(url) : null).filter((url): url is string => !!url);
+    return [...new Set(urls)].slice(0, this.options.maxRelays ?? 8);
+  }
+
+  private hasRelayHints(filters: Filter[]): boolean {
+    return filters.some((filter) => this.relayHints(filter.relays).length > 0);
+  }
+
+  private async publishRelays(event: Pick<NostrEvent, "kind" | "tags" | "pubkey">, defaultRelays: string[]): Promise<string[]> {
+    if (!this.options.outbox) return defaultRelays;
+    const tagged = event.tags.filter(([name]) => name === "p").map(([, pubkey]) => pubkey);
+    return planPublish(event, await this.getRelayLists([event.pubkey, ...tagged]), defaultRelays, this.options);
+  }
+
+  // Subscribe on every relay of a plan, connecting as needed - onDone fires once each relay sent EOSE or failed
+  private subscribePlan(
+    plan: Map<string, Filter[]>,
+    callbacks: { onEvent: (event: NostrEvent) => void; onEose?: (url: string) => void; onDone?: () => void }
+  ): () => void {
+    const subscriptions: Array<[SimpleRelay, string]> = [];
+    let pending = plan.size;
+
+    plan.forEach((filters, url) => {
+      let done = false;
+      const finish = () => {
+        if (done) return;
+        done = true;
+        if (--pending === 0) callbacks.onDone?.();
+      };
+
+      const { relay, ready } = this.openRelay(url);
+      const subId = relay.subscribe(filters, {
+        onEvent: callbacks.onEvent,
+        onEose: () => {
+          callbacks.onEose?.(url);
+          finish();
+        },
+        onClose: finish
+      });
+      subscriptions.push([relay, subId]);
+      ready.then((connected) => {
+        if (!connected) finish();
+      });
+    });
+
+    return () => {
+      subscriptions.forEach(([relay, subId]) => relay.unsubscribe(subId));
+      // Relays busy with this plan couldn't be closed while it ran
+      this.closeIdleExtraRelays();
+    };
+  }
+
+  private fetchFrom(plan: Map<string, Filter[]>, timeout: number): Promise<FetchResult> {
+    const events: NostrEvent[] = [];
+    const eose: string[] = [];
+    const seenIds = new Set<string>();
+    if (plan.size === 0) return Promise.resolve({ events, eose });
+
+    return new Promise((resolve) => {
+      let finished = false;
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timeoutId);
+        close();
+        resolve({ events, eose });
+      };
+
+      const timeoutId = setTimeout(finish, timeout);
+      const close = this.subscribePlan(plan, {
+        onEvent: (event) => {
+          if (!seenIds.has(event.id)) {
+            seenIds.add(event.id);
+            events.push(event);
+          }
+        },
+        onEose: (url) => eose.push(url),
+        onDone: finish
+      });
+    });
+  }
+
+  // A relay's connection, opened on first use - extra relays that fail are dropped so a later request retries
+  private openRelay(url: string): { relay: SimpleRelay; ready: Promise<boolean> } {
+    if (!this.relayUrls.includes(url)) {
+      this.extraRelayUse.delete(url);
+      this.extraRelayUse.add(url);
+    }
+    let relay = this.relays.get(url);
+    if (!relay) {
+      relay = this.createRelay(url);
+      this.logger(`Connecting to ${url} on demand`);
+      this.closeIdleExtraRelays(url);
+    }
+    if (relay.isConnected()) {
+      return { relay, ready: Promise.resolve(true) };
+    }
+
+    const opened = relay;
+    const ready = opened.connect().catch((error) => {
+      this.logger(`❌ Failed to connect to ${url}: ${error}`);
+      if (!this.relayUrls.includes(url) && this.relays.get(url) === opened) {
+        opened.disconnect();
+        this.relays.delete(url);
+        this.extraRelayUse.delete(url);
+        this.emitRelayStatuses();
+      }
+      return false;
+    });
+    return { relay: opened, ready };
+  }
+
+  // Close least recently used extra relays without subscriptions until at most maxExtraConnections remain
+  private closeIdleExtraRelays(keep?: string) {
+    const excess = this.extraRelayUse.size - (this.options.maxExtraConnections ?? 16);
+    if (excess <= 0) return;
+
+    const idle = [...this.extraRelayUse]
+      .filter((url) => url !== keep && !(this.relays.get(url)?.getStatus().subscriptions))
+      .slice(0, excess);
+    for (const url of idle) {
+      this.logger(`Closing idle relay ${url}`);
+      const relay = this.relays.get(url);
+      this.relays.delete(url);  // First, so the closed relay doesn't report its status
+      this.extraRelayUse.delete(url);
+      relay?.disconnect();
+    }
+    if (idle.length > 0) this.emitRelayStatuses();
+  }
+
+  private createRelay(url: string): SimpleRelay {
+    const relay = new SimpleRelay(url, {
+      reconnect: this.options.reconnect,
+      // Relays replaced or dropped since don't report anymore
+      onStatus: () => {
+        if (this.relays.get(url) === relay) this.emitRelayStatuses();
+      }
+    });
+    this.relays.set(url, relay);
+    return relay;
+  }
+
+  private emitRelayStatuses() {
+    if (this.statusListeners.size === 0) return;
+    const statuses = this.getRelayStatuses();
+    this.statusListeners.forEach((listener) => listener(statuses));
+  }
+}
@@ -72,4 +72,24 @@ export const signEvent = async (
   } catch (error) {
     throw new Error(`Failed to sign event with NIP-07 extension: ${error}`);
   }
-};
\ No newline at end of file
+};
+
+// Older extensions only implement NIP-04 - encrypted templates need NIP-44
+function getNip44(): NonNullable<NostrWindow["nip44"]> {
+  const nostr = getNostr();
+  if (!nostr) {
+    throw new Error("NIP-07 extension not available");
+  }
+  if (!nostr.nip44) {
+    throw new Error("NIP-07 extension does not support NIP-44 encryption");
+  }
+  return nostr.nip44;
+}
+
+export const nip44Encrypt = async (pubkey: string, plaintext: string): Promise<string> => {
+  return getNip44().encrypt(pubkey, plaintext);
+};
+
+export const nip44Decrypt = async (pubkey: string, ciphertext: string): Promise<string> => {
+  return getNip44().decrypt(pubkey, ciphertext);
+};
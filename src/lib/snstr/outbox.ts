@@ -0,0 +1,173 @@
+// Outbox model (NIP-65) - route author queries to the relays those authors write to
+// Pure helpers: SNSTRClient fetches the kind 10002 lists and owns the connections
+
+import type { Filter } from "./client";
+import type { NostrEvent } from "./nip07";
+
+export const RELAY_LIST_KIND = 10002;
+
+export interface RelayList {
+  read: string[];   // Where the user reads mentions - publish events tagging them here
+  write: string[];  // Where the user publishes - query their events here
+}
+
+export interface OutboxOptions {
+  maxRelays?: number;        // Extra relays one request may fan out to, beyond the default set (default 8)
+  relaysPerAuthor?: number;  // Write relays each author is queried on (default 2)
+}
+
+/**
+ * Normalize a relay URL so "wss://Nos.lol" and "wss://nos.lol/" are the same relay
+ * Returns null for anything that isn't a ws:// or wss:// URL
+ */
+export function normalizeRelayUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== "ws:" && parsed.protocol !== "wss:") return null;
+    parsed.hash = "";
+    return parsed.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read and write relays from a kind 10002 event - "r" tags without a marker are both
+ */
+export function parseRelayList(event: NostrEvent): RelayList {
+  const list: RelayList = { read: [], write: [] };
+  for (const [name, value, marker] of event.tags) {
+    const url = name === "r" && value ? normalizeRelayUrl(value) : null;
+    if (!url) continue;
+    if (marker !== "write" && !list.read.includes(url)) list.read.push(url);
+    if (marker !== "read" && !list.write.includes(url)) list.write.push(url);
+  }
+  return list;
+}
+
+/**
+ * Whether a filter goes to its authors' write relays - ephemeral events (kinds 20000-29999) aren't
+ * stored there, and relay lists themselves are looked up on the default relays
+ */
+export function isRoutable(filter: Filter): boolean {
+  if (!filter.authors?.length) return false;
+  return !filter.kinds?.length ||
+    !filter.kinds.every((kind) => kind === RELAY_LIST_KIND || (kind >= 20000 && kind < 30000));
+}
+
+/**
+ * Split filters across relays - each authors-scoped filter goes to its authors' write relays
+ *
+ * Relays are picked greedily, the one covering the most authors first, until every author is on
+ * relaysPerAuthor relays or maxRelays extra relays are in use. Default relays count for free.
+ * Authors without a relay list, or left uncovered by the cap, and filters that aren't routable
+ * go to the default relays.
+ */
+export function planOutbox(
+  filters: Filter[],
+  relayLists: Map<string, RelayList | null>,
+  defaultRelays: string[],
+  options: OutboxOptions = {}
+): Map<string, Filter[]> {
+  const maxRelays = options.maxRelays ?? 8;
+  const relaysPerAuthor = options.relaysPerAuthor ?? 2;
+  const defaults = new Set(defaultRelays);
+
+  // Relays chosen for each author
+  const authors = [...new Set(filters.filter(isRoutable).flatMap((filter) => filter.authors))];
+  const chosen = new Map<string, string[]>(authors.map((author) => [author, []]));
+  const candidates = new Map<string, Set<string>>(); // Extra relay -> authors writing there
+
+  for (const author of authors) {
+    for (const url of relayLists.get(author)?.write ?? []) {
+      if (defaults.has(url)) {
+        chosen.get(author).push(url);
+      } else {
+        if (!candidates.has(url)) candidates.set(url, new Set());
+        candidates.get(url).add(author);
+      }
+    }
+  }
+
+  const needs = (author: string) => chosen.get(author).length < relaysPerAuthor;
+  for (let picked = 0; picked < maxRelays; picked++) {
+    let best: string | null = null;
+    let bestCount = 0;
+    for (const [url, writers] of candidates) {
+      const count = [...writers].filter(needs).length;
+      if (count > bestCount) {
+        best = url;
+        bestCount = count;
+      }
+    }
+    if (!best) break;
+    for (const author of candidates.get(best)) {
+      if (needs(author)) chosen.get(author).push(best);
+    }
+    candidates.delete(best);
+  }
+
+  const plan = new Map<string, Filter[]>();
+  const add = (url: string, filter: Filter) => {
+    if (!plan.has(url)) plan.set(url, []);
+    plan.get(url).push(filter);
+  };
+
+  for (const filter of filters) {
+    if (!isRoutable(filter)) {
+      defaultRelays.forEach((url) => add(url, filter));
+      continue;
+    }
+
+    const byRelay = new Map<string, string[]>();
+    for (const author of filter.authors) {
+      const relays = chosen.get(author).length > 0 ? chosen.get(author) : defaultRelays;
+      for (const url of relays) {
+        if (!byRelay.has(url)) byRelay.set(url, []);
+        if (!byRelay.get(url).includes(author)) byRelay.get(url).push(author);
+      }
+    }
+    byRelay.forEach((relayAuthors, url) => add(url, { ...filter, authors: relayAuthors }));
+  }
+
+  return plan;
+}
+
+/**
+ * Relays to publish an event to - the defaults, the author's write relays and the read relays
+ * of tagged users, with at most maxRelays extra relays
+ */
+export function planPublish(
+  event: Pick<NostrEvent, "kind" | "tags" | "pubkey">,
+  relayLists: Map<string, RelayList | null>,
+  defaultRelays: string[],
+  options: OutboxOptions = {}
+): string[] {
+  const maxRelays = options.maxRelays ?? 8;
+  const relaysPerAuthor = options.relaysPerAuthor ?? 2;
+  const relays = [...defaultRelays];
+  let extra = 0;
+  const add = (url: string) => {
+    if (relays.includes(url) || extra >= maxRelays) return;
+    relays.push(url);
+    extra++;
+  };
+
+  relayLists.get(event.pubkey)?.write.forEach(add);
+  for (const pubkey of taggedPubkeys(event, maxRelays)) {
+    relayLists.get(pubkey)?.read.slice(0, relaysPerAuthor).forEach(add);
+  }
+  return relays;
+}
+
+/**
+ * Users an event should reach through their read relays - lists like contact lists (kind 3)
+ * and kind 10000-19999 replaceables tag people without addressing them, so they're skipped
+ */
+export function taggedPubkeys(event: Pick<NostrEvent, "kind" | "tags" | "pubkey">, limit: number): string[] {
+  if (event.kind === 3 || (event.kind >= 10000 && event.kind < 20000)) return [];
+  const pubkeys = event.tags
+    .filter(([name, value]) => name === "p" && /^[0-9a-f]{64}$/.test(value ?? "") && value !== event.pubkey)
+    .map(([, value]) => value);
+  return [...new Set(pubkeys)].slice(0, limit);
+}
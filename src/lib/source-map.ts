@@ -0,0 +1,90 @@
+/**
+ * Source maps - where compiled elements, queries and events came from in the HNMD source
+ * Locations are only attached when compiling with { sourceMap: true } (the editor does),
+ * and are stripped before a Hypernote is published
+ */
+
+export interface SourcePoint {
+  line: number;   // 1-based, counted from the top of the document including frontmatter
+  column: number; // 1-based
+}
+
+export interface SourceLocation extends SourcePoint {
+  end: SourcePoint; // Just past the last character
+}
+
+/**
+ * Suffix for error messages, in the same format as TokenizerError
+ */
+export function describeLocation(loc: SourceLocation | undefined): string {
+  return loc ? ` at line ${loc.line}, column ${loc.column}` : '';
+}
+
+/**
+ * Locate the top-level keys of a YAML frontmatter block
+ * Each key spans from its own line to the last non-blank line before the next key
+ * @param frontmatter The YAML between the --- fences
+ * @param firstLine Document line of the first frontmatter line
+ */
+export function locateFrontmatterKeys(frontmatter: string, firstLine: number): Record<string, SourceLocation> {
+  const locations: Record<string, SourceLocation> = {};
+  const lines = frontmatter.split('\n');
+  let current: SourceLocation | null = null;
+
+  lines.forEach((text, i) => {
+    const line = firstLine + i;
+    const key = /^(?:"([^"]+)"|'([^']+)'|([^\s#"'][^:]*?))\s*:/.exec(text);
+    if (key) {
+      current = { line, column: 1, end: { line, column: text.length + 1 } };
+      locations[key[1] ?? key[2] ?? key[3]] = current;
+    } else if (current && text.trim() && !text.trimStart().startsWith('#')) {
+      current.end = { line, column: text.length + 1 };
+    }
+  });
+
+  return locations;
+}
+
+/**
+ * Remove source locations from a compiled Hypernote - published events carry no editor state
+ * Returns a copy; only the loc fields the compiler adds are removed
+ */
+export function stripSourceLocations<T extends Record<string, any>>(hypernote: T): T {
+  const stripped: Record<string, any> = { ...hypernote };
+
+  if (hypernote.elements) {
+    stripped.elements = stripElements(hypernote.elements);
+  }
+  for (const field of ['queries', 'events'] as const) {
+    if (hypernote[field]) {
+      stripped[field] = Object.fromEntries(
+        Object.entries(hypernote[field]).map(([name, value]) => [name, withoutLoc(value)])
+      );
+    }
+  }
+
+  return stripped as T;
+}
+
+function stripElements(elements: any[]): any[] {
+  return elements.map((element) => {
+    if (!element || typeof element !== 'object') return element;
+
+    const stripped = withoutLoc(element);
+    for (const field of ['content', 'elements', 'else', 'empty']) {
+      if (Array.isArray(element[field])) {
+        stripped[field] = stripElements(element[field]);
+      }
+    }
+    if (Array.isArray(element.branches)) {
+      stripped.branches = element.branches.map((branch: any) => ({ ...branch, elements: stripElements(branch.elements) }));
+    }
+    return stripped;
+  });
+}
+
+function withoutLoc(value: any): any {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  const { loc, ...rest } = value;
+  return rest;
+}
@@ -0,0 +1,162 @@
+/**
+ * Server-side rendering for published Hypernotes
+ * Fetches the event, runs its queries once and pre-renders HTML for /hn/:naddr that the client hydrates
+ * The event source is injected so the same code runs against relays or an in-memory stand-in
+ */
+
+import { renderToString } from 'react-dom/server';
+import { nip19 } from 'nostr-tools';
+import type { NostrEvent } from './snstr/nip07';
+import { withRelayHints, type Filter } from './snstr/client';
+import { safeValidateHypernote, type Hypernote } from './schema';
+import { SimpleQueryExecutor } from './simple-query-executor';
+import { evaluateHypernote } from './render/evaluate';
+import { escapeHtml } from './render/html';
+import { toReactElement } from './render/react';
+import { deriveInitialFormData } from './core/forms';
+
+/**
+ * Anything that can answer a relay query - SNSTRClient satisfies this
+ */
+export interface EventSource {
+  fetchEvents(filters: Filter[], timeout?: number): Promise<NostrEvent[]>;
+}
+
+/**
+ * Rendering failure with the HTTP status the route should answer with
+ */
+export class SSRError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SSRError';
+  }
+}
+
+/**
+ * Data embedded in the page so the client can hydrate without refetching
+ */
+export interface SSRPayload {
+  identifier: string;
+  event: NostrEvent;
+  queryResults: Record<string, any>;
+  extractedVariables: Record<string, any>;
+}
+
+export interface PrerenderedHypernote {
+  hypernote: Hypernote;
+  html: string;
+  payload: SSRPayload;
+}
+
+// Element id of the embedded payload script
+export const SSR_PAYLOAD_ID = 'hypernote-ssr';
+
+/**
+ * Fetch the event behind an naddr or nevent, picking the latest version of addressable events
+ */
+export async function fetchHypernoteEvent(identifier: string, source: EventSource): Promise<NostrEvent | null> {
+  let decoded: nip19.DecodeResult;
+  try {
+    decoded = nip19.decode(identifier);
+  } catch (e) {
+    throw new SSRError('Invalid NIP-19 identifier', 400);
+  }
+
+  if (decoded.type === 'nevent') {
+    const events = await source.fetchEvents([withRelayHints({ ids: [decoded.data.id], limit: 1 }, decoded.data.relays)]);
+    return events[0] || null;
+  }
+
+  if (decoded.type === 'naddr') {
+    const { identifier: d, pubkey, kind, relays } = decoded.data;
+    const events = await source.fetchEvents([withRelayHints({ kinds: [kind], authors: [pubkey], '#d': [d], limit: 10 }, relays)]);
+    if (events.length === 0) return null;
+    return events.reduce((a, b) => (a.created_at > b.created_at ? a : b));
+  }
+
+  throw new SSRError(`Unsupported nip19 type: ${decoded.type}`, 400);
+}
+
+/**
+ * Fetch, validate, query and render a Hypernote - no live subscriptions and no user
+ */
+export async function prerenderHypernote(identifier: string, source: EventSource): Promise<PrerenderedHypernote> {
+  const event = await fetchHypernoteEvent(identifier, source);
+  if (!event) {
+    throw new SSRError('No event found', 404);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(event.content);
+  } catch (e) {
+    throw new SSRError('Event content is not valid JSON', 422);
+  }
+
+  const safe = safeValidateHypernote(parsed);
+  if (!safe.success) {
+    throw new SSRError('Hypernote JSON failed validation', 422);
+  }
+  const hypernote = safe.data;
+
+  const executor = new SimpleQueryExecutor(
+    hypernote.queries || {},
+    { user: { pubkey: null } },
+    (filter) => source.fetchEvents([filter])
+  );
+  const { results } = await executor.executeAll();
+  const queryResults = Object.fromEntries(results);
+  const extractedVariables = executor.getExtractedVariables();
+
+  // Rendered with the React adapter from the same inputs as the client's first render, so it hydrates as-is
+  const html = renderToString(toReactElement(evaluateHypernote(hypernote, {
+    queryResults,
+    extractedVariables,
+    formData: deriveInitialFormData(hypernote)
+  })));
+
+  return {
+    hypernote,
+    html,
+    payload: { identifier, event, queryResults, extractedVariables }
+  };
+}
+
+/**
+ * OpenGraph and Twitter card tags describing a Hypernote
+ */
+export function renderMetaTags(hypernote: Hypernote, url: string): string {
+  const title = hypernote.title || hypernote.name || 'Hypernote';
+  const tags: Array<[string, string, string]> = [
+    ['property', 'og:type', 'website'],
+    ['property', 'og:title', title],
+    ['property', 'og:url', url],
+    ['name', 'twitter:card', 'summary'],
+    ['name', 'twitter:title', title]
+  ];
+  if (hypernote.description) {
+    tags.push(['name', 'description', hypernote.description]);
+    tags.push(['property', 'og:description', hypernote.description]);
+    tags.push(['name', 'twitter:description', hypernote.description]);
+  }
+
+  return [
+    `<title>${escapeHtml(title)}</title>`,
+    ...tags.map(([attr, name, content]) => `<meta ${attr}="${name}" content="${escapeHtml(content)}" />`)
+  ].join('\n    ');
+}
+
+/**
+ * Inject a pre-rendered Hypernote into the app's HTML shell
+ * The markup goes inside #root and the payload follows it so the client can hydrate from it
+ */
+export function renderHypernotePage(shell: string, page: PrerenderedHypernote, url: string): string {
+  // Keep "</script>" and friends from ending the payload script early
+  const payload = JSON.stringify(page.payload).replace(/</g, '\\u003c');
+  const root = `<div id="root">${page.html}</div>\n    <script type="application/json" id="${SSR_PAYLOAD_ID}">${payload}</script>`;
+
+  // Function replacers so "$" in rendered content is never read as a replacement pattern
+  return shell
+    .replace(/<title>[\s\S]*?<\/title>/, () => renderMetaTags(page.hypernote, url))
+    .replace(/<div id="root"><\/div>/, () => root);
+}
@@ -458,4 +458,165 @@ export function parseTailwindClasses(classes: string): HypernoteStyle | null {
   }
   
   return Object.keys(style).length > 0 ? style : null;
-}
\ No newline at end of file
+}
+
+/**
+ * Reverse lookup tables for turning style objects back into Tailwind classes
+ * The first class defining a value wins (e.g. amber over yellow, which share shades)
+ */
+function invertTable<T>(table: Record<string, T>): Map<T, string> {
+  const inverted = new Map<T, string>();
+  for (const [key, value] of Object.entries(table)) {
+    if (!inverted.has(value)) inverted.set(value, key);
+  }
+  return inverted;
+}
+
+const SPACING_CLASSES = invertTable(SPACING);
+const FONT_SIZE_CLASSES = invertTable(FONT_SIZES);
+const FONT_WEIGHT_CLASSES = invertTable(FONT_WEIGHTS);
+const BORDER_RADIUS_CLASSES = invertTable(BORDER_RADIUS);
+const COLOR_CLASSES = (() => {
+  const colors = new Map<string, string>();
+  for (const [name, value] of Object.entries(COLORS)) {
+    if (typeof value === 'string') {
+      if (!colors.has(value)) colors.set(value, name);
+    } else {
+      for (const [shade, rgb] of Object.entries(value)) {
+        if (!colors.has(rgb)) colors.set(rgb, `${name}-${shade}`);
+      }
+    }
+  }
+  return colors;
+})();
+
+const BORDER_WIDTH_CLASSES: Record<string, string> = { '1px': 'border', '0': 'border-0', '2px': 'border-2', '4px': 'border-4', '8px': 'border-8' };
+const JUSTIFY_CLASSES: Record<string, string> = { 'flex-start': 'start', 'flex-end': 'end', 'center': 'center', 'space-between': 'between', 'space-around': 'around', 'space-evenly': 'evenly' };
+const ALIGN_CLASSES: Record<string, string> = { 'flex-start': 'start', 'flex-end': 'end', 'center': 'center', 'baseline': 'baseline', 'stretch': 'stretch', 'auto': 'auto' };
+const FLEX_DIRECTION_CLASSES: Record<string, string> = { 'row': 'flex-row', 'row-reverse': 'flex-row-reverse', 'column': 'flex-col', 'column-reverse': 'flex-col-reverse' };
+
+// Spacing-scale properties and their class prefixes
+const SPACING_PREFIXES: Record<string, string> = {
+  padding: 'p', paddingTop: 'pt', paddingRight: 'pr', paddingBottom: 'pb', paddingLeft: 'pl',
+  margin: 'm', marginTop: 'mt', marginRight: 'mr', marginBottom: 'mb', marginLeft: 'ml',
+  gap: 'gap'
+};
+
+// Sizing properties, which also accept full (and auto/none where the parser does)
+const SIZE_PREFIXES: Record<string, { prefix: string; keywords: Record<string, string> }> = {
+  width: { prefix: 'w', keywords: { '100%': 'full', 'auto': 'auto' } },
+  height: { prefix: 'h', keywords: { '100%': 'full', 'auto': 'auto' } },
+  minWidth: { prefix: 'min-w', keywords: { '100%': 'full' } },
+  minHeight: { prefix: 'min-h', keywords: { '100%': 'full' } },
+  maxWidth: { prefix: 'max-w', keywords: { '100%': 'full', 'none': 'none' } },
+  maxHeight: { prefix: 'max-h', keywords: { '100%': 'full', 'none': 'none' } }
+};
+
+/**
+ * Find the single Tailwind class producing one style property, if any
+ */
+function propertyToClass(property: string, value: any): string | undefined {
+  if (property in SPACING_PREFIXES) {
+    const key = SPACING_CLASSES.get(String(value));
+    return key !== undefined ? `${SPACING_PREFIXES[property]}-${key}` : undefined;
+  }
+
+  if (property in SIZE_PREFIXES) {
+    const { prefix, keywords } = SIZE_PREFIXES[property];
+    const key = keywords[String(value)] ?? SPACING_CLASSES.get(String(value));
+    return key !== undefined ? `${prefix}-${key}` : undefined;
+  }
+
+  switch (property) {
+    case 'display':
+      return value === 'flex' ? 'flex' : value === 'none' ? 'hidden' : undefined;
+    case 'flexDirection':
+      return FLEX_DIRECTION_CLASSES[value];
+    case 'color': {
+      const color = COLOR_CLASSES.get(value);
+      return color ? `text-${color}` : undefined;
+    }
+    case 'backgroundColor': {
+      const color = COLOR_CLASSES.get(value);
+      return color ? `bg-${color}` : undefined;
+    }
+    case 'borderColor': {
+      const color = COLOR_CLASSES.get(value);
+      return color ? `border-${color}` : undefined;
+    }
+    case 'textAlign':
+      return ['left', 'center', 'right', 'justify'].includes(value) ? `text-${value}` : undefined;
+    case 'fontSize': {
+      const size = FONT_SIZE_CLASSES.get(value);
+      return size ? `text-${size}` : undefined;
+    }
+    case 'fontWeight': {
+      const weight = FONT_WEIGHT_CLASSES.get(value);
+      return weight ? `font-${weight}` : undefined;
+    }
+    case 'borderWidth':
+      return BORDER_WIDTH_CLASSES[String(value)];
+    case 'borderRadius': {
+      const radius = BORDER_RADIUS_CLASSES.get(String(value));
+      if (radius === undefined) return undefined;
+      return radius === '' ? 'rounded' : `rounded-${radius}`;
+    }
+    case 'justifyContent':
+      return JUSTIFY_CLASSES[value] ? `justify-${JUSTIFY_CLASSES[value]}` : undefined;
+    case 'alignItems':
+      return value !== 'auto' && ALIGN_CLASSES[value] ? `items-${ALIGN_CLASSES[value]}` : undefined;
+    case 'alignSelf':
+      return value !== 'baseline' && ALIGN_CLASSES[value] ? `self-${ALIGN_CLASSES[value]}` : undefined;
+    case 'overflow':
+      return ['auto', 'hidden', 'visible', 'scroll'].includes(value) ? `overflow-${value}` : undefined;
+    case 'position':
+      return ['absolute', 'relative', 'fixed', 'sticky'].includes(value) ? value : undefined;
+    case 'opacity':
+      return typeof value === 'number' && Number.isInteger(value * 100) ? `opacity-${value * 100}` : undefined;
+    case 'zIndex':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? `z-${value}` : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert a Hypernote style object back into Tailwind classes (the reverse of parseTailwindClasses)
+ * Properties with no matching class are returned in `unsupported`
+ */
+export function styleToTailwindClasses(style: HypernoteStyle | Record<string, any>): { classes: string; unsupported: Record<string, any> } {
+  const remaining: Record<string, any> = {};
+  for (const [property, value] of Object.entries(style)) {
+    if (value !== undefined) remaining[property] = value;
+  }
+
+  const classes: string[] = [];
+  const unsupported: Record<string, any> = {};
+
+  // Matching sides collapse into the axis shorthands
+  const axes: Array<[string, string, string]> = [
+    ['px', 'paddingLeft', 'paddingRight'],
+    ['py', 'paddingTop', 'paddingBottom'],
+    ['mx', 'marginLeft', 'marginRight'],
+    ['my', 'marginTop', 'marginBottom']
+  ];
+  for (const [prefix, first, second] of axes) {
+    const key = SPACING_CLASSES.get(String(remaining[first]));
+    if (first in remaining && remaining[first] === remaining[second] && key !== undefined) {
+      classes.push(`${prefix}-${key}`);
+      delete remaining[first];
+      delete remaining[second];
+    }
+  }
+
+  for (const [property, value] of Object.entries(remaining)) {
+    const cls = propertyToClass(property, value);
+    if (cls) {
+      classes.push(cls);
+    } else {
+      unsupported[property] = value;
+    }
+  }
+
+  return { classes: classes.join(' '), unsupported };
+}
@@ -1,3 +1,5 @@
+import { parseExpression, ExpressionError } from './expression';
+
 /**
  * Tokenizer validation errors
  */
@@ -46,21 +48,36 @@ export class SourcePosition {
 /**
  * Validation state for tracking open tags and context
  */
+export interface OpenTag {
+  type: string;
+  name: string;
+  line: number;
+  column: number;
+  finalBranch?: string;
+  token?: number;  // Token index of a component opener - it stays a leaf unless its closing tag comes
+}
+
 export class ValidationState {
-  private tagStack: Array<{ type: string; name: string; line: number; column: number }> = [];
+  private tagStack: OpenTag[] = [];
+  private branchParents: Record<string, string> = { elif: 'if', else: 'if', empty: 'each' };
   private selfClosingTags = new Set(['img', 'br', 'hr', 'input', 'meta', 'link']);
   private containerTags = new Set(['div', 'span', 'button', 'form', 'each', 'if']);
   
-  pushTag(type: string, name: string, line: number, column: number) {
+  pushTag(type: string, name: string, line: number, column: number, token?: number) {
     // Self-closing tags don't get pushed to stack
     if (this.selfClosingTags.has(name)) {
       return;
     }
     
-    this.tagStack.push({ type, name, line, column });
+    this.tagStack.push({ type, name, line, column, ...(token !== undefined ? { token } : {}) });
   }
   
-  popTag(name: string, line: number, column: number): void {
+  /**
+   * Close the innermost open tag - component openers it skips over were leaves
+   * @returns the tag that was closed
+   */
+  popTag(name: string, line: number, column: number): OpenTag {
+    this.dropOptionalTags(name);
     if (this.tagStack.length === 0) {
       throw new TokenizerError(
         `Unexpected closing tag [/${name}] with no matching opening tag`,
@@ -81,12 +98,53 @@ export class ValidationState {
       );
     }
     
-    this.tagStack.pop();
+    return this.tagStack.pop() as OpenTag;
+  }
+  
+  // Drop component openers from the top of the stack, stopping at one named name
+  private dropOptionalTags(name?: string): void {
+    while (this.tagStack.length > 0) {
+      const lastTag = this.tagStack[this.tagStack.length - 1];
+      if (lastTag.token === undefined || lastTag.name === name) return;
+      this.tagStack.pop();
+    }
+  }
+  
+  /**
+   * Record an [elif], [else] or [empty] branch - it must belong to the innermost open [if] or [each]
+   */
+  addBranch(name: string, line: number, column: number): void {
+    const parent = this.branchParents[name];
+    this.dropOptionalTags();
+    const lastTag = this.tagStack[this.tagStack.length - 1];
+    
+    if (!lastTag || lastTag.name !== parent) {
+      throw new TokenizerError(
+        `Unexpected [${name}] outside of an [${parent}] block`,
+        line,
+        column,
+        'ORPHAN_BRANCH'
+      );
+    }
+    
+    if (lastTag.finalBranch) {
+      throw new TokenizerError(
+        `Unexpected [${name}] after [${lastTag.finalBranch}] - [${lastTag.finalBranch}] must be the last branch of an [${parent}] block`,
+        line,
+        column,
+        'BRANCH_AFTER_FINAL'
+      );
+    }
+    
+    // [else] and [empty] close the list of branches
+    if (name !== 'elif') {
+      lastTag.finalBranch = name;
+    }
   }
   
   checkUnclosedTags(): void {
-    if (this.tagStack.length > 0) {
-      const unclosed = this.tagStack[0];
+    const unclosed = this.tagStack.find(tag => tag.token === undefined);
+    if (unclosed) {
       throw new TokenizerError(
         `Unclosed tag [${unclosed.name}]`,
         unclosed.line,
@@ -175,13 +233,40 @@ export function validateAttribute(
   }
 }
 
+/**
+ * Validate an expression (condition or interpolation) by parsing it
+ * The column must point at the first character of the expression so errors land on the exact offending character
+ */
+export function validateExpression(expression: string, line: number, column: number): void {
+  try {
+    parseExpression(expression);
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      throw new TokenizerError(
+        `Invalid expression "${expression}": ${error.message}`,
+        line,
+        column + error.offset,
+        'INVALID_EXPRESSION'
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * Validate conditional expression
+ * conditionColumn is where the condition text starts (defaults to the [if] position)
  */
-export function validateIfCondition(condition: string, line: number, column: number): void {
+export function validateIfCondition(
+  condition: string,
+  line: number,
+  column: number,
+  conditionColumn: number = column,
+  tagName: string = 'if'
+): void {
   if (!condition || condition.trim().length === 0) {
     throw new TokenizerError(
-      'Empty condition in [if] statement',
+      `Empty condition in [${tagName}] statement`,
       line,
       column,
       'EMPTY_CONDITION'
@@ -194,12 +279,14 @@ export function validateIfCondition(condition: string, line: number, column: num
   // Check for obviously invalid conditions
   if (trimmed === '{}' || trimmed === '[]' || trimmed === '()') {
     throw new TokenizerError(
-      `Invalid condition "${trimmed}" in [if] statement`,
+      `Invalid condition "${trimmed}" in [${tagName}] statement`,
       line,
       column,
       'INVALID_CONDITION'
     );
   }
+  
+  validateExpression(trimmed, line, conditionColumn);
 }
 
 /**
@@ -209,7 +296,9 @@ export function validateEachLoop(
   source: string,
   variable: string,
   line: number,
-  column: number
+  column: number,
+  index?: string,
+  key?: string
 ): void {
   // Source must start with $ (query reference)
   if (!source || !source.startsWith('$')) {
@@ -243,6 +332,24 @@ export function validateEachLoop(
       'INVALID_LOOP_VARIABLE'
     );
   }
+  
+  // Optional index variable follows the same naming rules
+  if (index !== undefined) {
+    const cleanIndex = index.startsWith('$') ? index.slice(1) : index;
+    if (!validVarPattern.test(cleanIndex) || index === variable) {
+      throw new TokenizerError(
+        `Invalid loop index name "${index}"`,
+        line,
+        column,
+        'INVALID_LOOP_INDEX'
+      );
+    }
+  }
+  
+  // Key must be a valid expression (usually $item.id)
+  if (key !== undefined) {
+    validateExpression(key, line, column);
+  }
 }
 
 /**
@@ -325,6 +432,11 @@ export function validateVariableReference(
       'UNBALANCED_BRACES'
     );
   }
+  
+  // The expression starts after the opening brace and any leading whitespace
+  const raw = variable.slice(1, -1);
+  const leadingWhitespace = raw.length - raw.trimStart().length;
+  validateExpression(inner, line, column + 1 + leadingWhitespace);
 }
 
 /**
@@ -8,8 +8,10 @@ import {
   validateEachLoop,
   validateFormEvent,
   validateVariableReference,
+  validateExpression,
   checkUnclosedQuotes
 } from './tokenizer-validator';
+import type { SourceLocation, SourcePoint } from './source-map';
 
 // Re-export TokenizerError for consumers
 export { TokenizerError } from './tokenizer-validator';
@@ -39,11 +41,16 @@ export enum TokenType {
   EACH_END,
   IF_START,
   IF_END,
+  ELIF,
+  ELSE,
+  EMPTY,
   VARIABLE_REFERENCE,
   BOLD,
   ITALIC,
   INLINE_CODE,
   COMPONENT,
+  COMPONENT_START,
+  COMPONENT_END,
   EOF
 }
 
@@ -56,6 +63,19 @@ export interface Token {
   level?: number; // For headings
   attributes?: Record<string, string>; // For elements with attributes
   elementId?: string; // For elements with elementIds
+  props?: Record<string, string>; // For components with named props
+  loc?: SourceLocation; // Source span, when tokenizing with locations
+}
+
+/**
+ * Tokenizer options
+ * - locations: record the source span of each token (copied onto elements by parseTokens)
+ * - origin: document position of the first character of content, so locations count
+ *   frontmatter lines too (defaults to line 1, column 1)
+ */
+export interface TokenizeOptions {
+  locations?: boolean;
+  origin?: SourcePoint;
 }
 
 /**
@@ -237,6 +257,90 @@ function parseAttributes(
   return { pos, attributes };
 }
 
+/**
+ * Parse named component props (e.g., compact="true" limit=5 author=$note.pubkey)
+ * Quoted values are kept as template strings, unquoted literals are kept as-is
+ * and unquoted references are wrapped in braces so they resolve at render time
+ */
+function parseComponentProps(
+  content: string,
+  startPos: number,
+  strict: boolean,
+  sourcePosition: SourcePosition | null
+): { pos: number; props: Record<string, string> } {
+  let pos = startPos;
+  const props: Record<string, string> = {};
+  
+  while (pos < content.length && content[pos] !== ']') {
+    // Skip whitespace
+    if (content[pos] === ' ') {
+      pos++;
+      continue;
+    }
+    
+    const propStart = pos;
+    let name = '';
+    while (pos < content.length && content[pos] !== '=' && content[pos] !== ' ' && content[pos] !== ']') {
+      name += content[pos];
+      pos++;
+    }
+    
+    if (content[pos] !== '=') {
+      if (strict && sourcePosition) {
+        const position = sourcePosition.getPosition(propStart, content);
+        throw new TokenizerError(
+          `Component prop "${name}" must have a value (e.g., ${name}="value")`,
+          position.line,
+          position.column,
+          'MISSING_PROP_VALUE'
+        );
+      }
+      continue;
+    }
+    pos++; // Skip '='
+    
+    let value: string;
+    if (content[pos] === '"') {
+      const quoted = parseQuotedString(content, pos, strict, sourcePosition, 'component prop');
+      value = quoted.value;
+      pos = quoted.pos;
+    } else {
+      const valueStart = pos;
+      let raw = '';
+      while (pos < content.length && content[pos] !== ' ' && content[pos] !== ']') {
+        raw += content[pos];
+        pos++;
+      }
+      
+      if (strict && sourcePosition) {
+        const position = sourcePosition.getPosition(valueStart, content);
+        validateExpression(raw, position.line, position.column);
+      }
+      
+      // Literals need no resolution, references become {expression}
+      value = /^(-?\d+(\.\d+)?|true|false|null)$/.test(raw) ? raw : `{${raw}}`;
+    }
+    
+    if (strict && sourcePosition) {
+      const position = sourcePosition.getPosition(propStart, content);
+      validateAttribute(name, value, true, position.line, position.column);
+      // Read back as props.name, where a hyphen would parse as subtraction
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new TokenizerError(
+          `Invalid prop name "${name}" - use letters, digits and "_" so it can be read as props.${name.replace(/-/g, '_')}`,
+          position.line,
+          position.column,
+          'INVALID_PROP_NAME'
+        );
+      }
+    }
+    
+    props[name] = value;
+  }
+  
+  return { pos, props };
+}
+
 /**
  * Process a container element (div, button, span)
  * These all follow the same pattern: [element attrs] ... [/element]
@@ -432,6 +536,13 @@ function tokenizeInlineContent(
         if (pos < endPos && content[pos] === '}') {
           variableName += '}';
           pos++; // Skip '}'
+          
+          // Validate variable reference if in strict mode
+          if (strict && sourcePosition) {
+            const position = sourcePosition.getPosition(pos - variableName.length, content);
+            validateVariableReference(variableName, position.line, position.column);
+          }
+          
           inlineTokens.push({
             type: TokenType.VARIABLE_REFERENCE,
             value: variableName
@@ -461,18 +572,48 @@ function tokenizeInlineContent(
  * Tokenizes Hypernote Markdown content with strict validation
  * @param content The markdown content to tokenize
  * @param strict Enable strict validation mode (default: true)
+ * @param options Source location options
  * @returns Array of tokens
  * @throws TokenizerError if validation fails in strict mode
  */
-export function tokenize(content: string, strict: boolean = true): Token[] {
+export function tokenize(content: string, strict: boolean = true, options?: TokenizeOptions): Token[] {
   const tokens: Token[] = [];
   let pos = 0;
   
   // Initialize validation state if in strict mode
   const sourcePosition = strict ? new SourcePosition(content) : null;
   const validationState = strict ? new ValidationState() : null;
+  // Component openers become blocks when their closing tag comes - strict mode pairs them through the
+  // validation stack, otherwise this keeps their token indices by alias
+  const openComponents = new Map<string, number[]>();
+  
+  // Every token pushed in one pass of the loop below spans the source that pass consumed
+  const locator = options?.locations ? (sourcePosition || new SourcePosition(content)) : null;
+  const origin = options?.origin || { line: 1, column: 1 };
+  let stampedCount = 0;
+  let passStart = 0;
+  
+  function toDocumentPoint(offset: number): SourcePoint {
+    const { line, column } = locator!.getPosition(offset, content);
+    return line === 1
+      ? { line: origin.line, column: column + origin.column - 1 }
+      : { line: line + origin.line - 1, column };
+  }
+  
+  function stampTokens(): void {
+    if (locator && stampedCount < tokens.length) {
+      const start = toDocumentPoint(passStart);
+      const last = toDocumentPoint(Math.max(pos - 1, passStart));
+      const loc: SourceLocation = { ...start, end: { line: last.line, column: last.column + 1 } };
+      for (; stampedCount < tokens.length; stampedCount++) {
+        tokens[stampedCount].loc = loc;
+      }
+    }
+    passStart = pos;
+  }
   
   while (pos < content.length) {
+    stampTokens();
     const char = content[pos];
     
     // Handle newline
@@ -674,15 +815,18 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         if (pos < content.length && content[pos] === ']') pos++; // Skip ']'
         
         // Validate closing tag if in strict mode
+        let opener: number | undefined;
         if (strict && validationState && sourcePosition) {
           const position = sourcePosition.getPosition(closeTagStart, content);
           try {
-            validationState.popTag(elementType, position.line, position.column);
+            opener = validationState.popTag(elementType, position.line, position.column).token;
           } catch (error) {
             if (error instanceof TokenizerError) {
               throw error;
             }
           }
+        } else if (elementType.startsWith('#')) {
+          opener = openComponents.get(elementType.slice(1))?.pop();
         }
         
         // Generate appropriate END token
@@ -705,12 +849,20 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
           case 'if':
             tokens.push({ type: TokenType.IF_END, value: elementType });
             break;
+          default:
+            // Closing a component block [/#alias] - its opener was a block all along
+            if (elementType.startsWith('#')) {
+              if (opener !== undefined) tokens[opener].type = TokenType.COMPONENT_START;
+              tokens.push({ type: TokenType.COMPONENT_END, value: elementType.slice(1) });
+            }
         }
         continue;
       }
       
-      // Check if this is a component reference [#alias argument]
+      // Check if this is a component reference [#alias argument prop="value"]
+      // or the start of a component block [#alias argument] ...children... [/#alias]
       if (content[pos] === '#') {
+        const componentStart = pos - 1; // Position of '['
         pos++; // Skip '#'
         
         // Get the alias name
@@ -721,15 +873,50 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         }
         
         // Skip whitespace
-        if (content[pos] === ' ') pos++;
+        while (content[pos] === ' ') pos++;
         
         // Get the argument (e.g., user.pubkey, $note.pubkey, or a literal npub/nevent)
+        // A quoted argument is a literal ("" for none yet), a leading name=value pair
+        // means there is no argument, only props
+        const argumentStart = pos;
         let argument = '';
-        while (pos < content.length && content[pos] !== ']') {
-          argument += content[pos];
-          pos++;
+        if (content[pos] === '"') {
+          const quoted = parseQuotedString(content, pos, strict, sourcePosition, 'component argument');
+          argument = quoted.value;
+          pos = quoted.pos;
+        } else if (!content.startsWith('{#', pos)) {
+          while (pos < content.length && content[pos] !== ']' && content[pos] !== ' ' && content[pos] !== '=') {
+            argument += content[pos];
+            pos++;
+          }
+          if (content[pos] === '=') {
+            argument = '';
+            pos = argumentStart;
+          }
+        }
+        
+        // An ID right after the argument names this instance, e.g. [#note_viewer "" {#note-display}]
+        while (content[pos] === ' ') pos++;
+        let elementId = '';
+        if (content.startsWith('{#', pos)) {
+          const idEnd = content.indexOf('}', pos);
+          if (idEnd === -1 || content.slice(pos, idEnd).includes(']')) {
+            const position = sourcePosition ? sourcePosition.getPosition(pos, content) : { line: 1, column: pos + 1 };
+            throw new TokenizerError(
+              `Unclosed component ID - missing closing brace`,
+              position.line,
+              position.column,
+              'UNCLOSED_ELEMENT'
+            );
+          }
+          elementId = content.slice(pos + 2, idEnd);
+          pos = idEnd + 1;
         }
         
+        // Get named props
+        const { pos: propsEnd, props } = parseComponentProps(content, pos, strict, sourcePosition);
+        pos = propsEnd;
+        
         // Check if we found the closing bracket
         if (pos >= content.length) {
           const position = sourcePosition ? sourcePosition.getPosition(pos - argument.length - 1, content) : { line: 1, column: pos - argument.length };
@@ -743,11 +930,27 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         
         if (pos < content.length && content[pos] === ']') pos++; // Skip ']'
         
-        tokens.push({
+        // A leaf until a closing tag pairs with it
+        if (strict && validationState && sourcePosition) {
+          const position = sourcePosition.getPosition(componentStart, content);
+          validationState.pushTag('component', `#${alias}`, position.line, position.column, tokens.length);
+        } else {
+          if (!openComponents.has(alias)) openComponents.set(alias, []);
+          openComponents.get(alias)?.push(tokens.length);
+        }
+        
+        const componentToken: Token = {
           type: TokenType.COMPONENT,
           value: alias,
           attributes: { argument: argument.trim() }
-        });
+        };
+        if (Object.keys(props).length > 0) {
+          componentToken.props = props;
+        }
+        if (elementId) {
+          componentToken.elementId = elementId;
+        }
+        tokens.push(componentToken);
         continue;
       }
       
@@ -787,6 +990,10 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
           }
         }
         
+        // Attributes after the event, e.g. target="#note-display"
+        const { pos: attributesEnd, attributes } = parseAttributes(content, pos, elementStart, strict, sourcePosition);
+        pos = attributesEnd;
+        
         // Check if we found the closing bracket
         checkClosingBracket(pos, content, elementType, elementStart, strict, sourcePosition);
         
@@ -813,7 +1020,7 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         tokens.push({ 
           type: TokenType.FORM_START, 
           value: elementType,
-          attributes: { event }
+          attributes: { ...attributes, event }
         });
         continue;
       } else if (elementType === 'div') {
@@ -826,7 +1033,7 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         pos = processContainerElement('span', TokenType.SPAN_START, content, pos, elementStart, strict, sourcePosition, validationState, tokens);
         continue;
       } else if (elementType === 'each') {
-        // Handle [each $source as $variable]
+        // Handle [each $source as $variable, $index key="$variable.id"]
         if (content[pos] === ' ') pos++; // Skip space
         
         // Get source variable
@@ -843,16 +1050,33 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         
         // Get iteration variable
         let variable = '';
-        while (pos < content.length && content[pos] !== ']') {
+        while (pos < content.length && content[pos] !== ']' && content[pos] !== ',' && content[pos] !== ' ') {
           variable += content[pos];
           pos++;
         }
+        while (pos < content.length && content[pos] === ' ') pos++;
+        
+        // Get optional index variable after a comma
+        let index: string | undefined;
+        if (content[pos] === ',') {
+          pos++; // Skip ','
+          while (pos < content.length && content[pos] === ' ') pos++;
+          index = '';
+          while (pos < content.length && content[pos] !== ']' && content[pos] !== ' ') {
+            index += content[pos];
+            pos++;
+          }
+        }
+        
+        // Parse remaining attributes (e.g., key="$post.id")
+        const { pos: attributesEnd, attributes: loopAttributes } = parseAttributes(content, pos, elementStart, strict, sourcePosition);
+        pos = attributesEnd;
         
         // Validate loop syntax if in strict mode
         if (strict && sourcePosition) {
           const position = sourcePosition.getPosition(elementStart, content);
           try {
-            validateEachLoop(source, variable, position.line, position.column);
+            validateEachLoop(source, variable, position.line, position.column, index, loopAttributes.key);
           } catch (error) {
             if (error instanceof TokenizerError) {
               throw error;
@@ -871,18 +1095,23 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
           validationState.pushTag('each', elementType, position.line, position.column);
         }
         
+        const eachAttributes: Record<string, string> = { source, variable };
+        if (index) eachAttributes.index = index;
+        if (loopAttributes.key) eachAttributes.key = loopAttributes.key;
+        
         tokens.push({ 
           type: TokenType.EACH_START, 
           value: elementType,
-          attributes: { source, variable }
+          attributes: eachAttributes
         });
         continue;
-      } else if (elementType === 'if') {
-        // Handle [if condition]
+      } else if (elementType === 'if' || elementType === 'elif') {
+        // Handle [if condition] and [elif condition]
         if (content[pos] === ' ') pos++; // Skip space
         
         // Get the condition expression
         let condition = '';
+        const conditionStart = pos;
         while (pos < content.length && content[pos] !== ']') {
           condition += content[pos];
           pos++;
@@ -891,8 +1120,10 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         // Validate condition if in strict mode
         if (strict && sourcePosition) {
           const position = sourcePosition.getPosition(elementStart, content);
+          const leadingWhitespace = condition.length - condition.trimStart().length;
+          const conditionPosition = sourcePosition.getPosition(conditionStart + leadingWhitespace, content);
           try {
-            validateIfCondition(condition.trim(), position.line, position.column);
+            validateIfCondition(condition.trim(), position.line, position.column, conditionPosition.column, elementType);
           } catch (error) {
             if (error instanceof TokenizerError) {
               throw error;
@@ -905,18 +1136,54 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         
         if (pos < content.length && content[pos] === ']') pos++; // Skip ']'
         
-        // Track opening tag if in strict mode
+        // Track opening tag (or the branch of the open [if]) if in strict mode
         if (strict && validationState && sourcePosition) {
           const position = sourcePosition.getPosition(elementStart, content);
-          validationState.pushTag('if', elementType, position.line, position.column);
+          if (elementType === 'if') {
+            validationState.pushTag('if', elementType, position.line, position.column);
+          } else {
+            validationState.addBranch(elementType, position.line, position.column);
+          }
         }
         
         tokens.push({ 
-          type: TokenType.IF_START, 
+          type: elementType === 'if' ? TokenType.IF_START : TokenType.ELIF, 
           value: elementType,
           attributes: { condition: condition.trim() }
         });
         continue;
+      } else if (elementType === 'else' || elementType === 'empty') {
+        // Handle [else] and [empty] - neither takes any arguments
+        while (pos < content.length && content[pos] === ' ') pos++;
+        
+        if (strict && sourcePosition && pos < content.length && content[pos] !== ']') {
+          const position = sourcePosition.getPosition(elementStart, content);
+          throw new TokenizerError(
+            elementType === 'else'
+              ? '[else] does not take a condition - use [elif condition] instead'
+              : '[empty] does not take any arguments',
+            position.line,
+            position.column,
+            elementType === 'else' ? 'INVALID_ELSE' : 'INVALID_EMPTY'
+          );
+        }
+        
+        // Skip anything up to the closing bracket in non-strict mode
+        while (pos < content.length && content[pos] !== ']') pos++;
+        
+        // Check if we found the closing bracket
+        checkClosingBracket(pos, content, elementType, elementStart, strict, sourcePosition);
+        
+        if (pos < content.length && content[pos] === ']') pos++; // Skip ']'
+        
+        // Attach the branch to the open [if] or [each] if in strict mode
+        if (strict && validationState && sourcePosition) {
+          const position = sourcePosition.getPosition(elementStart, content);
+          validationState.addBranch(elementType, position.line, position.column);
+        }
+        
+        tokens.push({ type: elementType === 'else' ? TokenType.ELSE : TokenType.EMPTY, value: elementType });
+        continue;
       } else if (elementType === 'json') {
         // Handle [json $variable] or [json $variable.property] syntax
         let attributes: Record<string, string> = {};
@@ -955,6 +1222,17 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
         // Check if we found the closing bracket
         checkClosingBracket(pos, content, elementType, elementStart, strict, sourcePosition);
         
+        // [tool] can't render anything without knowing which tool on which server
+        if (strict && sourcePosition && elementType === 'tool' && (!attributes.server || !attributes.name)) {
+          const position = sourcePosition.getPosition(elementStart, content);
+          throw new TokenizerError(
+            '[tool] needs server="npub..." and name="tool_name"',
+            position.line,
+            position.column,
+            'INVALID_TOOL'
+          );
+        }
+        
         if (pos < content.length && content[pos] === ']') pos++; // Skip ']'
         
         tokens.push({ 
@@ -1038,10 +1316,46 @@ export function tokenize(content: string, strict: boolean = true): Token[] {
     }
   }
   
+  stampTokens();
   tokens.push({ type: TokenType.EOF, value: '' });
   return tokens;
 }
 
+/**
+ * Copy the source span of the tokens an element was parsed from onto the element
+ */
+function applyLocation(element: any, start: Token, end: Token = start): void {
+  if (start.loc && end.loc) {
+    element.loc = { line: start.loc.line, column: start.loc.column, end: end.loc.end };
+  }
+}
+
+/**
+ * Element for an ELEMENT_START token - [tool] lifts server and name out of its attributes
+ */
+function createRegularElement(token: Token): any {
+  const { content, ...attributes } = token.attributes || {};
+  if (token.value === 'tool') {
+    const { server, name, ...rest } = attributes;
+    const element: any = { type: 'tool', server, tool: name };
+    if (Object.keys(rest).length > 0) {
+      element.attributes = rest;
+    }
+    return element;
+  }
+  const element: any = {
+    type: token.value,
+    content: content ? [content] : []
+  };
+  if (Object.keys(attributes).length > 0) {
+    element.attributes = attributes;
+  }
+  return element;
+}
+
+// First and last inline token added to each paragraph buffer, for paragraph locations
+const bufferSpans = new WeakMap<any[], { start: Token; end: Token }>();
+
 /**
  * Apply pending style to an element
  */
@@ -1081,6 +1395,10 @@ function applyIdAndStyle(
  * Process inline token and add to buffer
  */
 function processInlineToken(token: Token, inlineBuffer: any[]): void {
+  if (token.loc) {
+    bufferSpans.set(inlineBuffer, { start: bufferSpans.get(inlineBuffer)?.start || token, end: token });
+  }
+  
   switch (token.type) {
     case TokenType.TEXT:
     case TokenType.VARIABLE_REFERENCE:
@@ -1162,10 +1480,15 @@ function createParagraphFromBuffer(inlineBuffer: any[]): any | null {
     return null;
   }
   
-  return {
+  const paragraph = {
     type: 'p',
     content: [...inlineBuffer]
   };
+  const span = bufferSpans.get(inlineBuffer);
+  if (span) {
+    applyLocation(paragraph, span.start, span.end);
+  }
+  return paragraph;
 }
 
 /**
@@ -1228,9 +1551,17 @@ export function parseTokens(tokens: Token[]): any[] {
 
   // Helper function to parse container elements with explicit closing tags
   function parseContainer(startTokenType: TokenType, endTokenType: TokenType, containerType: string, token: Token): any {
-    const containerElements: any[] = [];
+    const primaryElements: any[] = [];
+    let containerElements = primaryElements;
     currentIndex++; // Skip the start token
     
+    // [elif] and [else] branches collected while parsing an [if]
+    const branches: Array<{ condition: string; elements: any[] }> = [];
+    let elseElements: any[] | null = null;
+    
+    // [empty] block collected while parsing an [each]
+    let emptyElements: any[] | null = null;
+    
     let containerInlineBuffer: any[] = [];
 
     function flushContainerParagraph() {
@@ -1255,6 +1586,30 @@ export function parseTokens(tokens: Token[]): any[] {
         break;
       }
       
+      // Start a new branch of this [if] - following elements belong to it
+      if (containerType === 'if' && (t.type === TokenType.ELIF || t.type === TokenType.ELSE)) {
+        flushContainerParagraph();
+        containerStyle = null;
+        containerElements = [];
+        if (t.type === TokenType.ELIF) {
+          branches.push({ condition: t.attributes?.condition || '', elements: containerElements });
+        } else {
+          elseElements = containerElements;
+        }
+        currentIndex++;
+        continue;
+      }
+      
+      // Start the [empty] block of this [each]
+      if (containerType === 'loop' && t.type === TokenType.EMPTY) {
+        flushContainerParagraph();
+        containerStyle = null;
+        containerElements = [];
+        emptyElements = containerElements;
+        currentIndex++;
+        continue;
+      }
+      
       // Handle style marker - applies to the next element
       if (t.type === TokenType.STYLE_MARKER) {
         flushContainerParagraph();
@@ -1268,7 +1623,8 @@ export function parseTokens(tokens: Token[]): any[] {
         [TokenType.FORM_START, TokenType.FORM_END, 'form'],
         [TokenType.DIV_START, TokenType.DIV_END, 'div'],
         [TokenType.BUTTON_START, TokenType.BUTTON_END, 'button'],
-        [TokenType.SPAN_START, TokenType.SPAN_END, 'span']
+        [TokenType.SPAN_START, TokenType.SPAN_END, 'span'],
+        [TokenType.COMPONENT_START, TokenType.COMPONENT_END, 'component']
       ];
       
       let handledContainer = false;
@@ -1292,6 +1648,7 @@ export function parseTokens(tokens: Token[]): any[] {
           type: `h${t.level}`,
           content: [t.value]
         };
+        applyLocation(heading, t);
         applyStyleToElement(heading, containerStyle);
         containerStyle = null;
         containerElements.push(heading);
@@ -1302,11 +1659,16 @@ export function parseTokens(tokens: Token[]): any[] {
       // Handle component references
       if (t.type === TokenType.COMPONENT) {
         flushContainerParagraph();
-        const componentElement = {
+        const componentElement: any = {
           type: 'component',
           alias: t.value,
           argument: t.attributes?.argument || ''
         };
+        if (t.props) {
+          componentElement.props = t.props;
+        }
+        applyIdToElement(componentElement, t.elementId || null);
+        applyLocation(componentElement, t);
         containerElements.push(componentElement);
         currentIndex++;
         continue;
@@ -1315,17 +1677,8 @@ export function parseTokens(tokens: Token[]): any[] {
       // Handle regular elements (input, etc.)
       if (t.type === TokenType.ELEMENT_START) {
         flushContainerParagraph();
-        const element = {
-          type: t.value,
-          content: t.attributes?.content ? [t.attributes.content] : [],
-          attributes: { ...t.attributes }
-        };
-        if (element.attributes && 'content' in element.attributes) {
-          delete element.attributes.content;
-        }
-        if (element.attributes && Object.keys(element.attributes).length === 0) {
-          delete element.attributes;
-        }
+        const element = createRegularElement(t);
+        applyLocation(element, t);
         containerElements.push(element);
         currentIndex++;
         continue;
@@ -1338,6 +1691,7 @@ export function parseTokens(tokens: Token[]): any[] {
           type: 'img',
           attributes: { ...t.attributes }
         };
+        applyLocation(imageElement, t);
         // Apply pending style if present
         if (containerStyle) {
           imageElement.attributes.class = containerStyle;
@@ -1385,7 +1739,7 @@ export function parseTokens(tokens: Token[]): any[] {
     // Create the container element
     const container: any = {
       type: containerType,
-      elements: containerElements
+      elements: primaryElements
     };
     
     // Add attributes if present
@@ -1396,9 +1750,13 @@ export function parseTokens(tokens: Token[]): any[] {
     // Handle special properties for specific container types
     if (containerType === 'form' && token.attributes?.event) {
       container.event = token.attributes.event;
-      // Remove event from attributes since it's now a separate property
+      // target="#id" names the component to re-render with the published event
+      if (token.attributes.target) {
+        container.target = token.attributes.target.replace(/^#/, '');
+      }
+      // Remove event and target from attributes since they're now separate properties
       if (container.attributes) {
-        const { event, ...otherAttributes } = container.attributes;
+        const { event, target, ...otherAttributes } = container.attributes;
         if (Object.keys(otherAttributes).length > 0) {
           container.attributes = otherAttributes;
         } else {
@@ -1407,17 +1765,47 @@ export function parseTokens(tokens: Token[]): any[] {
       }
     }
     
+    if (containerType === 'component') {
+      container.alias = token.value;
+      container.argument = token.attributes?.argument || '';
+      if (token.props) {
+        container.props = token.props;
+      }
+      if (token.elementId) {
+        container.elementId = token.elementId;
+      }
+      delete container.attributes; // Component arguments aren't regular attributes
+    }
+    
     if (containerType === 'loop') {
       container.source = token.attributes?.source;
       container.variable = token.attributes?.variable;
+      if (token.attributes?.index) {
+        container.index = token.attributes.index;
+      }
+      if (token.attributes?.key) {
+        container.key = token.attributes.key;
+      }
+      if (emptyElements) {
+        container.empty = emptyElements;
+      }
       delete container.attributes; // Loop doesn't use regular attributes
     }
     
     if (containerType === 'if') {
       container.condition = token.attributes?.condition;
       delete container.attributes; // If doesn't use regular attributes
+      if (branches.length > 0) {
+        container.branches = branches;
+      }
+      if (elseElements) {
+        container.else = elseElements;
+      }
     }
     
+    // Spans from the opening tag to the closing tag (the last token consumed)
+    applyLocation(container, token, tokens[currentIndex - 1]);
+    
     return container;
   }
 
@@ -1450,7 +1838,8 @@ export function parseTokens(tokens: Token[]): any[] {
       token.type === TokenType.EACH_START ||
       token.type === TokenType.IF_START ||
       token.type === TokenType.IMAGE ||
-      token.type === TokenType.COMPONENT
+      token.type === TokenType.COMPONENT ||
+      token.type === TokenType.COMPONENT_START
     ) {
       flushParagraph();
     }
@@ -1461,6 +1850,7 @@ export function parseTokens(tokens: Token[]): any[] {
         type: `h${token.level}`,
         content: [token.value]
       };
+      applyLocation(heading, token);
       applyIdToElement(heading, currentId);
       applyStyleToElement(heading, currentStyle);
       currentId = null;
@@ -1477,7 +1867,8 @@ export function parseTokens(tokens: Token[]): any[] {
       [TokenType.BUTTON_START, TokenType.BUTTON_END, 'button'],
       [TokenType.SPAN_START, TokenType.SPAN_END, 'span'],
       [TokenType.EACH_START, TokenType.EACH_END, 'loop'],
-      [TokenType.IF_START, TokenType.IF_END, 'if']
+      [TokenType.IF_START, TokenType.IF_END, 'if'],
+      [TokenType.COMPONENT_START, TokenType.COMPONENT_END, 'component']
     ];
     
     let handledContainer = false;
@@ -1498,12 +1889,16 @@ export function parseTokens(tokens: Token[]): any[] {
 
     // Handle component references
     if (token.type === TokenType.COMPONENT) {
-      const componentElement = {
+      const componentElement: any = {
         type: 'component',
         alias: token.value,
         argument: token.attributes?.argument || ''
       };
-      applyIdToElement(componentElement, currentId);
+      if (token.props) {
+        componentElement.props = token.props;
+      }
+      applyLocation(componentElement, token);
+      applyIdToElement(componentElement, token.elementId || currentId);
       currentId = null;
       elements.push(componentElement);
       currentIndex++;
@@ -1513,17 +1908,8 @@ export function parseTokens(tokens: Token[]): any[] {
     // Handle regular elements
     if (token.type === TokenType.ELEMENT_START) {
       flushParagraph();
-      const element = {
-        type: token.value,
-        content: token.attributes?.content ? [token.attributes.content] : [],
-        attributes: { ...token.attributes }
-      };
-      if (element.attributes && 'content' in element.attributes) {
-        delete element.attributes.content;
-      }
-      if (element.attributes && Object.keys(element.attributes).length === 0) {
-        delete element.attributes;
-      }
+      const element = createRegularElement(token);
+      applyLocation(element, token);
       applyIdToElement(element, currentId);
       applyStyleToElement(element, currentStyle);
       currentId = null;
@@ -1540,6 +1926,7 @@ export function parseTokens(tokens: Token[]): any[] {
         type: 'img',
         attributes: { ...token.attributes }
       };
+      applyLocation(imageElement, token);
       applyIdToElement(imageElement, currentId);
       applyStyleToElement(imageElement, currentStyle);
       currentId = null;
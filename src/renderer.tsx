@@ -2,6 +2,7 @@ import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react'
 import { useDebounce } from 'use-debounce';
 import { RelayHandler } from './lib/relayHandler';
 import { safeCompileHypernote } from './lib/safe-compiler';
+import { stripSourceLocations, type SourceLocation } from './lib/source-map';
 // Store imports removed - using services injection instead
 import { useNostrSubscription } from './lib/snstr/hooks';
 // useHypernoteExecutor removed - using services.queryEngine instead
@@ -13,53 +14,12 @@ import { ComponentResolver, parseTarget, type TargetContext } from './lib/compon
 import { ComponentWrapper } from './components/ComponentWrapper';
 import { nip19 } from 'nostr-tools';
 import { applyPipes, resolveVariables, resolveObjectVariables } from './lib/pipes';
-import { resolveExpression, processString, renderLoop, renderIf, renderJson } from './lib/renderHelpers';
 import type { Services } from './lib/services';
-import { deriveInitialFormData } from './lib/core/forms';
-import { defaultClock } from './lib/services';
-
-// Pure render context - all data needed for rendering
-interface RenderContext {
-  // Data
-  queryResults: Record<string, NostrEvent[]>;
-  extractedVariables: Record<string, any>;
-  formData: Record<string, string>;
-  events: Record<string, any>;
-  userPubkey: string | null;
-  
-  // Current scope
-  loopVariables: Record<string, any>;
-  target?: TargetContext; // For components with kind: 0 or 1
-  
-  // Component support
-  resolver?: ComponentResolver;
-  depth: number;
-  
-  // Loading hints
-  loadingQueries?: Set<string>; // Which queries are still loading
-  
-  // Services injection
-  services?: Services;
-  
-  // Callbacks (pure functions passed from parent)
-  onFormSubmit: (eventName: string) => void;
-  onInputChange: (name: string, value: string) => void;
-  
-}
-
-// Define the structure of elements based on compiler output
-interface HypernoteElement {
-  type: string;
-  content?: string[] | HypernoteElement[];
-  elementId?: string;
-  event?: string;
-  elements?: HypernoteElement[];
-  attributes?: Record<string, string>;
-  name?: string;
-  source?: string;
-  variable?: string;
-  style?: Record<string, any>; // CSS-in-JS style object
-}
+import { createToolCall, type ActionState } from './lib/contextvm';
+import { ToolForm } from './components/ToolForm';
+import { deriveInitialFormData, targetFormResponse } from './lib/core/forms';
+import { evaluateHypernote, type ResolvedElement } from './lib/render/evaluate';
+import { toReactElement, type ReactAdapterHandlers } from './lib/render/react';
 
 // (Old RendererProps interface removed - using RenderContext instead)
 
@@ -82,10 +42,20 @@ export function HypernoteRenderer({ markdown, relayHandler, services }: { markdo
   return <RenderHypernoteContent content={content} services={services} />;
 }
 
+/**
+ * Query results a server already resolved - rendering starts from them instead of empty,
+ * so the first render matches the pre-rendered markup and can hydrate it
+ */
+export interface InitialRenderData {
+  queryResults: Record<string, any>;
+  extractedVariables: Record<string, any>;
+}
+
 // New: Render from compiled Hypernote JSON directly
-export function RenderHypernoteContent({ content, services }: { content: Hypernote; services: Services }) {
+// services is undefined until the relays connect - queries and actions wait for it
+export function RenderHypernoteContent({ content, services, initialData }: { content: Hypernote; services?: Services; initialData?: InitialRenderData }) {
   // Get SNSTR client from services
-  const snstrClient = services.snstrClient;
+  const snstrClient = services?.snstrClient;
 
   // Set up component resolver
   const resolverRef = useRef<ComponentResolver | undefined>(undefined);
@@ -114,7 +84,7 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
   }, [initialFormData]);
 
   // Get user pubkey from services
-  const pubkey = services.userPubkey;
+  const pubkey = services?.userPubkey ?? null;
 
   const userContext = { pubkey };
 
@@ -135,9 +105,19 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
     hashQueries();
   }, [content.queries]);
 
+  // Pre-rendered markup has static placeholders for tools and components - mount them after hydrating
+  const [hydrated, setHydrated] = useState(!initialData);
+  useEffect(() => setHydrated(true), []);
+
   // Track published event IDs for action outputs (@action.id references)
   const [publishedEventIds, setPublishedEventIds] = useState<Record<string, string>>({});
 
+  // Component arguments replaced by targeted form responses (elementId -> nevent)
+  const [targetArguments, setTargetArguments] = useState<Record<string, string>>({});
+
+  // ContextVM request state by action name (@action.pending / .result / .error)
+  const [actionStates, setActionStates] = useState<Record<string, ActionState>>({});
+
   // Memoize queries based on their hash to prevent unnecessary re-fetches
   const memoizedQueries = useMemo(() => {
     console.log('[Renderer] Render cycle triggered');
@@ -145,7 +125,7 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
   }, [queriesHash]);
 
   // Use a ref to hold the action executor so queries can trigger it
-  const executeActionRef = useRef<(actionName: string) => Promise<void> | void>(() => {});
+  const executeActionRef = useRef<(actionName: string) => Promise<unknown> | void>(() => {});
 
   // Memoize the onTriggerAction callback to prevent re-renders
   const onTriggerAction = useCallback((actionName: string) => {
@@ -162,12 +142,13 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
   }), [publishedEventIds, onTriggerAction]);
 
   // Execute all queries with dependency resolution using services
-  const [queryResults, setQueryResults] = useState<Record<string, any>>({});
-  const [extractedVariables, setExtractedVariables] = useState<Record<string, any>>({});
+  const [queryResults, setQueryResults] = useState<Record<string, any>>(initialData?.queryResults ?? {});
+  const [extractedVariables, setExtractedVariables] = useState<Record<string, any>>(initialData?.extractedVariables ?? {});
   const [queriesLoading, setQueriesLoading] = useState(false);
   const [queryError, setQueryError] = useState<string | null>(null);
   
   useEffect(() => {
+    if (!services) return;
     const runQueriesWithServices = async () => {
       try {
         setQueriesLoading(true);
@@ -193,15 +174,28 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
   // }, [queryResults]);
 
   // Action execution using services
-  const executeAction = async (actionName: string) => {
+  const executeAction = async (actionName: string, hypernote: Hypernote = content, literal = false, loc?: SourceLocation) => {
+    if (!services) {
+      toast.error('Still connecting to relays - try again in a moment');
+      return null;
+    }
     const eventId = await services.actionExecutor.execute(
       actionName,
       formData,
-      content,
+      hypernote,
       {
         queryResults,
         extractedVariables,
-        userPubkey: pubkey
+        userPubkey: pubkey,
+        literal,
+        loc,
+        onActionState: (state) => {
+          const name = actionName.startsWith('@') ? actionName : `@${actionName}`;
+          // A late response to an earlier request must not overwrite a newer one
+          setActionStates(prev => prev[name] && prev[name].id !== state.id && !state.pending
+            ? prev
+            : { ...prev, [name]: state });
+        }
       }
     );
     
@@ -211,18 +205,34 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
         [actionName]: eventId
       }));
     }
+    return eventId || null;
   };
 
   // Store the executeAction in ref so queries can use it
   executeActionRef.current = executeAction;
 
-  // Simple wrapper for form submission
-  const handleFormSubmit = (eventName: string) => {
+  // Simple wrapper for form submission - a targeted form re-renders its target component
+  // with the published event once publishing succeeds
+  const handleFormSubmit = async (eventName: string, target?: string, loc?: SourceLocation) => {
     if (!eventName) {
       console.log('Form submitted but no event is specified');
       return;
     }
-    executeAction(eventName);
+    const eventId = await executeAction(eventName, content, false, loc);
+    if (eventId && target) {
+      setTargetArguments(prev => targetFormResponse(prev, target, eventId));
+    }
+  };
+
+  // [tool] forms publish a generated tools/call template like a declared event,
+  // so review, signing and response tracking (@tool:name) are the same - the template
+  // is literal, so what the user typed is never evaluated
+  const handleToolCall = (server: string, tool: string, args: Record<string, unknown>) => {
+    const actionName = `@tool:${tool}`;
+    executeAction(actionName, {
+      ...content,
+      events: { ...content.events, [actionName]: createToolCall(server, tool, args) }
+    }, true);
   };
 
   // Handle input changes in forms
@@ -236,25 +246,6 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
   // Don't block on loading - render progressively!
   // Queries will populate as they resolve
 
-  // If there are no elements, show an empty container (allow editing)
-  if (!content.elements || content.elements.length === 0) {
-    return (
-      <div className="hypernote-content" style={content.style || {}}>
-        {/* Empty but editable */}
-      </div>
-    );
-  }
-
-  // Get the root-level styles from the hypernote
-  const rootStyles = content.style || {};
-
-  // Determine theme class based on background color or explicit class
-  let themeClass = '';
-  if (rootStyles.backgroundColor === 'rgb(0,0,0)' || rootStyles.backgroundColor === '#000000' || rootStyles.backgroundColor === 'black') {
-    themeClass = 'hypernote-dark';
-  }
-
-  // Build context for pure renderer
   // Track which queries are still loading
   const loadingQueries = new Set<string>();
   if (queriesLoading && content.queries) {
@@ -266,19 +257,46 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
     });
   }
 
-  const context: RenderContext = {
+  // Resolve everything in the headless evaluate pass, then render it with the React adapter
+  const tree = evaluateHypernote(content, {
     queryResults: queryResults || {},  // Empty initially, populates progressively
     extractedVariables: extractedVariables || {},
     formData,
-    events: content.events || {},
     userPubkey: pubkey,
-    loopVariables: {},
-    resolver: resolverRef.current,
-    depth: 0,
     loadingQueries,
-    services, // Pass services to context
-    onFormSubmit: handleFormSubmit,
-    onInputChange: handleInputChange
+    actionStates,
+    targetArguments
+  });
+
+  // Mount points need a live client - tools are discovered over the relay, components load their own data
+  const renderMount = (node: ResolvedElement, handlers: ReactAdapterHandlers): React.ReactNode => {
+    const mount = node.mount;
+    if (mount?.kind === 'tool') {
+      return (
+        <ToolForm
+          key={node.key}
+          server={mount.server}
+          tool={mount.tool}
+          transport={snstrClient}
+          state={actionStates[`@tool:${mount.tool}`]}
+          onCall={handleToolCall}
+          style={node.style}
+        />
+      );
+    }
+    if (mount?.kind === 'component') {
+      return (
+        <ComponentWrapper
+          key={node.key}
+          element={mount.element}
+          argument={mount.argument}
+          scope={mount.scope}
+          services={services}
+          handlers={handlers}
+        />
+      );
+    }
+    return undefined;
   };
 
   // Show error banner if there was a query error, but still render the page
@@ -288,26 +306,15 @@ export function RenderHypernoteContent({ content, services }: { content: Hyperno
     </div>
   ) : null;
 
-  // Render the content
+  // Render the content - while hydrating, mount points keep the server's placeholders
   return (
     <>
-      <style>{`
-        @keyframes pulse {
-          0%, 100% { opacity: 1; }
-          50% { opacity: 0.5; }
-        }
-      `}</style>
       {errorBanner}
-      <div 
-        className={`hypernote-content ${themeClass}`.trim()} 
-        style={rootStyles as React.CSSProperties}
-      >
-        {content.elements.map((element, index) => (
-          <React.Fragment key={index}>
-            {renderElement(element, context)}
-          </React.Fragment>
-        ))}
-      </div>
+      {toReactElement(tree, {
+        onFormSubmit: handleFormSubmit,
+        onInputChange: handleInputChange,
+        renderMount: hydrated ? renderMount : undefined
+      })}
     </>
   );
 }
@@ -329,28 +336,24 @@ export function HypernoteJsonOutput({ markdown }: { markdown: string }) {
     [debouncedMarkdown]
   );
   
-  // If compilation failed, show error in the JSON area
+  // The error itself is shown above the editor - keep the last valid JSON here
   if (!compileResult.success && compileResult.error) {
     return (
-      <div className="bg-red-50 border border-red-200 text-red-700 text-xs p-4 rounded overflow-auto">
-        <div className="font-bold mb-2">⚠️ Syntax Error</div>
-        <div className="font-mono">{compileResult.error.message}</div>
-        {compileResult.error.line && compileResult.error.column && (
-          <div className="text-red-500 mt-1">Line {compileResult.error.line}, Column {compileResult.error.column}</div>
-        )}
-        {compileResult.isStale && (
-          <div className="text-orange-600 mt-2 text-xs">Showing last valid JSON below:</div>
-        )}
+      <div className="bg-red-50 border border-red-200 text-xs p-4 rounded overflow-auto">
+        <div className="text-orange-600 text-xs">
+          {compileResult.isStale ? 'Syntax error - showing last valid JSON below:' : 'Syntax error - see the editor'}
+        </div>
         {compileResult.isStale && (
           <pre className="mt-2 bg-white p-2 rounded border border-red-100">
-            {JSON.stringify(compileResult.data, null, 2)}
+            {JSON.stringify(stripSourceLocations(compileResult.data), null, 2)}
           </pre>
         )}
       </div>
     );
   }
   
-  const content = compileResult.data;
+  // Show the JSON as it will be published, without the editor's source locations
+  const content = stripSourceLocations(compileResult.data);
   
   return (
     <pre className="bg-slate-100 text-green-900 text-xs p-4 rounded overflow-auto">
@@ -358,164 +361,3 @@ export function HypernoteJsonOutput({ markdown }: { markdown: string }) {
     </pre>
   );
 }
-
-// ============================================================================
-// PURE RENDERER FUNCTIONS - No hooks, no side effects
-// ============================================================================
-
-// ✅ MOVED: resolveExpression and processString now imported from renderHelpers.ts
-
-// Pure content renderer - handles mixed string/element arrays
-function renderContent(content: any[] | undefined, ctx: RenderContext): React.ReactNode[] {
-  if (!content) return [];
-  
-  return content.map((item, i) => {
-    if (typeof item === 'string') {
-      return processString(item, ctx);
-    }
-    return <React.Fragment key={i}>{renderElement(item, ctx)}</React.Fragment>;
-  });
-}
-
-// Pure element renderer - main rendering logic
-function renderElement(element: HypernoteElement, ctx: RenderContext): React.ReactNode {
-  const props = {
-    id: element.elementId,
-    style: element.style || {}
-  };
-
-  // Text elements with content array
-  if (['h1', 'h2', 'h3', 'p', 'strong', 'em', 'code'].includes(element.type)) {
-    return React.createElement(
-      element.type,
-      props,
-      renderContent(element.content, ctx)
-    );
-  }
-
-  // Container elements with children
-  if (['div', 'span'].includes(element.type)) {
-    return React.createElement(
-      element.type,
-      props,
-      <>
-        {/* Render content if present */}
-        {element.content && renderContent(element.content, ctx)}
-        {/* Then render child elements */}
-        {element.elements?.map((child, i) => 
-          <React.Fragment key={i}>{renderElement(child, ctx)}</React.Fragment>
-        )}
-      </>
-    );
-  }
-
-  // Special elements
-  switch (element.type) {
-    case 'form':
-      return (
-        <form
-          {...props}
-          onSubmit={(e) => {
-            e.preventDefault();
-            if (element.event) {
-              ctx.onFormSubmit(element.event);
-            }
-          }}
-        >
-          {element.elements?.map((child, i) => 
-            <React.Fragment key={i}>{renderElement(child, ctx)}</React.Fragment>
-          )}
-        </form>
-      );
-
-    case 'button':
-      return (
-        <button {...props} type="submit">
-          {element.elements?.map((child, i) => 
-            <React.Fragment key={i}>{renderElement(child, ctx)}</React.Fragment>
-          )}
-        </button>
-      );
-
-    case 'input':
-      const name = element.attributes?.name || '';
-      const inputType = element.attributes?.type || 'text';
-      const defaultValue = element.attributes?.value || '';
-      
-      // ✅ FIXED: Hidden input values now derived at initialization (no setTimeout!)
-      
-      return (
-        <input
-          {...props}
-          type={inputType}
-          name={name}
-          placeholder={element.attributes?.placeholder || ''}
-          value={ctx.formData[name] || defaultValue}
-          onChange={(e) => ctx.onInputChange(name, e.target.value)}
-        />
-      );
-
-    case 'img':
-      const src = processString(element.attributes?.src || '', ctx);
-      const alt = processString(element.attributes?.alt || '', ctx);
-      
-      // Check if src contains unresolved variables (still has braces)
-      const hasUnresolvedVars = src.includes('{') && src.includes('}');
-      
-      if (!src || hasUnresolvedVars) {
-        // Show placeholder while variables are resolving
-        return (
-          <div style={{
-            ...props.style,
-            padding: '1rem', 
-            backgroundColor: '#f3f4f6', 
-            borderRadius: '0.25rem', 
-            color: '#6b7280', 
-            fontSize: '0.875rem',
-            minHeight: '100px',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center'
-          }}>
-            {hasUnresolvedVars ? '🖼️ Loading image...' : `[Image: ${alt || 'No image available'}]`}
-          </div>
-        );
-      }
-      
-      return <img {...props} src={src} alt={alt} />;
-
-    case 'loop':
-      return renderLoop(element, ctx, renderElement);
-    
-    case 'if':
-      return renderIf(element, ctx, renderElement);
-
-    case 'json':
-      return renderJson(element, ctx);
-
-    case 'component':
-      return <ComponentWrapper element={element} ctx={ctx} renderElement={renderElement} />;
-
-    default:
-      // Unknown element type - render children if any
-      return (
-        <div {...props}>
-          {element.elements?.map((child, i) => 
-            <React.Fragment key={i}>{renderElement(child, ctx)}</React.Fragment>
-          )}
-        </div>
-      );
-  }
-}
-
-// ✅ MOVED: renderIf extracted to renderHelpers.ts
-
-// ✅ MOVED: renderLoop extracted to renderHelpers.ts
-
-
-// Pure component renderer - renders embedded hypernote components
-function renderComponent(element: HypernoteElement & { alias?: string; argument?: string }, ctx: RenderContext): React.ReactNode {
-  return <ComponentWrapper element={element} ctx={ctx} renderElement={renderElement} />;
-}
-
-// ✅ MOVED: renderJson extracted to renderHelpers.ts 
\ No newline at end of file
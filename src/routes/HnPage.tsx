@@ -1,13 +1,31 @@
 import { useEffect, useMemo, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import { nip19 } from 'nostr-tools';
 import { useNostrStore } from '@/stores/nostrStore';
 import { RenderHypernoteContent } from '@/renderer';
 import { safeValidateHypernote, type Hypernote } from '@/lib/schema';
+import { decompileHypernote } from '@/lib/decompiler';
+import type { Services } from '@/lib/services';
 
 type DecodedKind = 'naddr' | 'nevent';
 
-export default function HnPage() {
+// Source forked from a server-rendered page, which has no router state to carry it to the editor
+const FORK_SOURCE_KEY = 'hypernote-fork-source';
+
+export function storeForkedSource(source: string) {
+  sessionStorage.setItem(FORK_SOURCE_KEY, source);
+}
+
+/**
+ * Read and clear source forked from a server-rendered page
+ */
+export function takeForkedSource(): string | undefined {
+  const source = sessionStorage.getItem(FORK_SOURCE_KEY);
+  sessionStorage.removeItem(FORK_SOURCE_KEY);
+  return source ?? undefined;
+}
+
+export default function HnPage({ services }: { services?: Services }) {
   const { tktkt } = useParams<{ tktkt: string }>();
   const { snstrClient } = useNostrStore();
 
@@ -117,6 +135,9 @@ export default function HnPage() {
     };
   }, [decoded]);
 
+  // Decompiling warns about anything it can't express, so do it once per loaded Hypernote
+  const forkSource = useMemo(() => (content ? decompileHypernote(content) : null), [content]);
+
   if (loading) {
     return (
       <div style={{ padding: '1rem', fontFamily: 'sans-serif' }}>Loading…</div>
@@ -135,7 +156,12 @@ export default function HnPage() {
 
   return (
     <div className="prose prose-slate max-w-none dark:prose-invert">
-      <RenderHypernoteContent content={content} />
+      <div className="not-prose mb-2 text-sm">
+        <Link className="underline text-blue-600" to="/" state={{ forkSource }}>
+          View source / fork in editor
+        </Link>
+      </div>
+      <RenderHypernoteContent content={content} services={services} />
     </div>
   );
 }
@@ -0,0 +1,83 @@
+import { useEffect, useMemo } from 'react';
+import { Toaster } from 'sonner';
+import { useNostrStore } from '@/stores/nostrStore';
+import { useAppServices } from '@/hooks/useAppServices';
+import { RenderHypernoteContent } from '@/renderer';
+import { SigningDialog } from '@/components/SigningDialog';
+import { safeValidateHypernote, type Hypernote } from '@/lib/schema';
+import { decompileHypernote } from '@/lib/decompiler';
+import { SSR_PAYLOAD_ID, type SSRPayload } from '@/lib/ssr';
+import { storeForkedSource } from './HnPage';
+
+/**
+ * Payload embedded by the /hn/:naddr server route, if this page was served that way
+ */
+export function readSSRPayload(): SSRPayload | null {
+  const script = document.getElementById(SSR_PAYLOAD_ID);
+  if (!script?.textContent) return null;
+  try {
+    return JSON.parse(script.textContent) as SSRPayload;
+  } catch (e) {
+    return null;
+  }
+}
+
+// The server validated the event before rendering it, so this is the Hypernote it rendered
+function payloadHypernote(payload: SSRPayload): Hypernote | null {
+  try {
+    const safe = safeValidateHypernote(JSON.parse(payload.event.content));
+    return safe.success ? safe.data : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Hydrates the server-rendered markup - the first render uses the embedded query results,
+ * then queries go live once the relays connect
+ */
+export function PrerenderedHnPage({ payload }: { payload: SSRPayload }) {
+  const services = useAppServices();
+  const hypernote = useMemo(() => payloadHypernote(payload), [payload]);
+
+  if (!hypernote) return null;
+
+  return <RenderHypernoteContent content={hypernote} services={services ?? undefined} initialData={payload} />;
+}
+
+/**
+ * Everything around a server-rendered page - relay setup, the fork link, signing dialog and toasts
+ * Mounted in its own root so the hydrated root stays exactly what the server rendered
+ */
+export function PrerenderedHnChrome({ payload }: { payload: SSRPayload }) {
+  const { initialize, cleanup } = useNostrStore();
+
+  useEffect(() => {
+    initialize().catch(error => {
+      console.error('Failed to initialize Nostr store:', error);
+    });
+    return () => {
+      cleanup();
+    };
+  }, []);
+
+  // The editor lives in the client-routed app, so fork with a full page load
+  const fork = () => {
+    const hypernote = payloadHypernote(payload);
+    if (!hypernote) return;
+    storeForkedSource(decompileHypernote(hypernote));
+    window.location.assign('/');
+  };
+
+  return (
+    <>
+      <div className="p-4 pb-0 text-sm">
+        <button type="button" className="underline text-blue-600" onClick={fork}>
+          View source / fork in editor
+        </button>
+      </div>
+      <SigningDialog />
+      <Toaster />
+    </>
+  );
+}
@@ -1,167 +1,287 @@
 import { create } from "zustand";
-import { 
-  hasNip07Support, 
-  getPublicKey as nip07GetPublicKey, 
-  signEvent as nip07SignEvent,
-  type NostrEvent,
-  type EventTemplate
-} from "../lib/snstr/nip07";
+import { generateSecretKey } from "nostr-tools/pure";
+import { hasNip07Support, type NostrEvent, type EventTemplate } from "../lib/snstr/nip07";
+import type { Signer, SignerType } from "../lib/signers/signer";
+import { bytesToHex, hexToBytes } from "../lib/signers/signer";
+import { Nip07Signer } from "../lib/signers/nip07";
+import { Nip46Signer, Nip46Error, createNostrConnectUri } from "../lib/signers/nip46";
+import { LocalKeySigner } from "../lib/signers/local";
+
+const STORAGE_KEY = "hypernote_signer";
+const LEGACY_STORAGE_KEY = "nip07_pubkey";
+
+// What is persisted to restore the session after a reload
+type StoredSigner =
+  | { type: "nip07"; pubkey: string }
+  | { type: "nip46"; pubkey: string; bunker: string; clientKey: string }
+  | { type: "local"; nsec: string };
 
 interface AuthStore {
   // State
   isAuthenticated: boolean;
   pubkey: string | null;
+  signer: Signer | null;
+  signerType: SignerType | null;
   hasExtension: boolean;
   isConnecting: boolean;
   error: string | null;
-  
+  nostrConnectUri: string | null; // Shown while waiting for a remote signer to connect
+
   // Actions
   checkExtension: () => void;
-  login: () => Promise<void>;
+  login: () => Promise<void>; // NIP-07 extension
+  loginWithBunker: (uri: string) => Promise<void>;
+  loginWithNostrConnect: (relays: string[]) => Promise<void>;
+  loginWithLocalKey: (nsec?: string) => Promise<void>; // Generates a key when none is given
   logout: () => void;
   signEvent: (template: EventTemplate) => Promise<NostrEvent>;
   clearError: () => void;
 }
 
-export const useAuthStore = create<AuthStore>((set, get) => ({
-  // Initial state
-  isAuthenticated: false,
-  pubkey: null,
-  hasExtension: false,
-  isConnecting: false,
-  error: null,
-  
-  // Check if extension is available
-  checkExtension: () => {
-    const currentHasExtension = get().hasExtension;
-    const newHasExtension = hasNip07Support();
-    
-    // Only update state if the value actually changed
-    if (currentHasExtension !== newHasExtension) {
-      console.log("NIP-07 extension status changed:", {
-        oldValue: currentHasExtension,
-        newValue: newHasExtension
-      });
-      set({ hasExtension: newHasExtension });
-      
-      if (newHasExtension) {
-        console.log("Extension found!");
-        // Clear any previous error when extension is detected
-        set({ error: null });
-      } else {
-        console.log("No extension found. window.nostr:", window?.nostr);
-      }
-    }
-  },
-  
-  // Login with NIP-07 extension
-  login: async () => {
-    const state = get();
-    
-    if (!state.hasExtension) {
-      state.checkExtension();
-      if (!get().hasExtension) {
-        return;
-      }
-    }
-    
+export const useAuthStore = create<AuthStore>((set, get) => {
+  // Switch to a signer once it has produced the user's pubkey
+  const connect = async (createSigner: () => Promise<Signer>, persist: (signer: Signer, pubkey: string) => StoredSigner) => {
     set({ isConnecting: true, error: null });
-    
+
     try {
-      const pubkey = await nip07GetPublicKey();
-      
-      set({ 
+      const signer = await createSigner();
+      const pubkey = await signer.getPublicKey();
+
+      get().signer?.close?.();
+      set({
         pubkey,
+        signer,
+        signerType: signer.type,
         isAuthenticated: true,
         isConnecting: false,
+        nostrConnectUri: null,
         error: null
       });
-      
+
       // Store in localStorage for persistence
-      localStorage.setItem("nip07_pubkey", pubkey);
-      
-      console.log("Successfully logged in with NIP-07. Pubkey:", pubkey);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(persist(signer, pubkey)));
+
+      console.log(`Successfully logged in with ${signer.type}. Pubkey:`, pubkey);
     } catch (error) {
-      console.error("Failed to login with NIP-07:", error);
-      set({ 
+      console.error("Failed to login:", error);
+      set({
         isConnecting: false,
-        error: error instanceof Error ? error.message : "Failed to connect to Nostr extension"
+        nostrConnectUri: null,
+        error: error instanceof Error ? error.message : "Failed to connect to signer"
       });
     }
-  },
-  
-  // Logout
-  logout: () => {
-    localStorage.removeItem("nip07_pubkey");
-    set({ 
-      isAuthenticated: false,
-      pubkey: null,
-      error: null
-    });
-    console.log("Logged out from NIP-07");
-  },
-  
-  // Sign event with NIP-07
-  signEvent: async (template: EventTemplate): Promise<NostrEvent> => {
-    const state = get();
-    
-    if (!state.isAuthenticated || !state.pubkey) {
-      throw new Error("Not authenticated. Please login first.");
+  };
+
+  return {
+    // Initial state
+    isAuthenticated: false,
+    pubkey: null,
+    signer: null,
+    signerType: null,
+    hasExtension: false,
+    isConnecting: false,
+    error: null,
+    nostrConnectUri: null,
+
+    // Check if extension is available
+    checkExtension: () => {
+      const currentHasExtension = get().hasExtension;
+      const newHasExtension = hasNip07Support();
+
+      // Only update state if the value actually changed
+      if (currentHasExtension !== newHasExtension) {
+        console.log("NIP-07 extension status changed:", {
+          oldValue: currentHasExtension,
+          newValue: newHasExtension
+        });
+        set({ hasExtension: newHasExtension });
+
+        if (newHasExtension) {
+          console.log("Extension found!");
+          // Clear any previous error when extension is detected
+          set({ error: null });
+        } else {
+          console.log("No extension found. window.nostr:", window?.nostr);
+        }
+      }
+    },
+
+    // Login with NIP-07 extension
+    login: async () => {
+      const state = get();
+
+      if (!state.hasExtension) {
+        state.checkExtension();
+        if (!get().hasExtension) {
+          return;
+        }
+      }
+
+      await connect(
+        async () => new Nip07Signer(),
+        (_, pubkey) => ({ type: "nip07", pubkey })
+      );
+    },
+
+    // Login with a NIP-46 remote signer's bunker:// URI
+    loginWithBunker: async (uri: string) => {
+      await connect(
+        () => Nip46Signer.connect(uri),
+        (signer, pubkey) => ({ type: "nip46", pubkey, bunker: (signer as Nip46Signer).bunkerUri, clientKey: (signer as Nip46Signer).clientKey })
+      );
+    },
+
+    // Show a nostrconnect:// URI and wait for a remote signer to connect to it
+    loginWithNostrConnect: async (relays: string[]) => {
+      const clientSecretKey = generateSecretKey();
+      const secret = bytesToHex(generateSecretKey()).slice(0, 16);
+      const uri = createNostrConnectUri({ clientSecretKey, relays, secret, name: "Hypernote" });
+      set({ nostrConnectUri: uri });
+
+      await connect(
+        () => Nip46Signer.waitForConnection(uri, clientSecretKey),
+        (signer, pubkey) => ({ type: "nip46", pubkey, bunker: (signer as Nip46Signer).bunkerUri, clientKey: (signer as Nip46Signer).clientKey })
+      );
+    },
+
+    // Login with an in-memory key - development only, the nsec is kept in localStorage
+    loginWithLocalKey: async (nsec?: string) => {
+      await connect(
+        async () => nsec ? new LocalKeySigner(nsec) : LocalKeySigner.generate(),
+        (signer) => ({ type: "local", nsec: (signer as LocalKeySigner).nsec })
+      );
+    },
+
+    // Logout
+    logout: () => {
+      get().signer?.close?.();
+      localStorage.removeItem(STORAGE_KEY);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      set({
+        isAuthenticated: false,
+        pubkey: null,
+        signer: null,
+        signerType: null,
+        nostrConnectUri: null,
+        error: null
+      });
+      console.log("Logged out");
+    },
+
+    // Sign event with the current signer
+    signEvent: async (template: EventTemplate): Promise<NostrEvent> => {
+      const { signer, pubkey } = get();
+
+      if (!signer || !pubkey) {
+        throw new Error("Not authenticated. Please login first.");
+      }
+
+      try {
+        return await signer.signEvent(template);
+      } catch (error) {
+        console.error("Failed to sign event:", error);
+        throw new Error(
+          error instanceof Error ? error.message : "Failed to sign event"
+        );
+      }
+    },
+
+    // Clear error
+    clearError: () => {
+      set({ error: null });
     }
-    
-    if (!state.hasExtension) {
-      throw new Error("No Nostr extension available");
+  };
+});
+
+/**
+ * The stored session can never come back - the signer changed keys or refused to reconnect
+ */
+class StaleSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StaleSessionError";
+  }
+}
+
+/**
+ * Recreate the signer a stored session used - it must still hand out the same pubkey
+ * @throws StaleSessionError when the session is gone for good, anything else may pass on a retry
+ */
+async function restoreSigner(stored: StoredSigner): Promise<Signer> {
+  switch (stored.type) {
+    case "nip07": {
+      const signer = new Nip07Signer();
+      if (await signer.getPublicKey() !== stored.pubkey) {
+        throw new StaleSessionError("Extension pubkey changed");
+      }
+      return signer;
     }
-    
-    try {
-      // Ensure created_at is set
-      const eventToSign = {
-        ...template,
-        created_at: template.created_at || Math.floor(Date.now() / 1000),
-        tags: template.tags || []
-      };
-      
-      const signedEvent = await nip07SignEvent(eventToSign);
-      return signedEvent;
-    } catch (error) {
-      console.error("Failed to sign event:", error);
-      throw new Error(
-        error instanceof Error ? error.message : "Failed to sign event with extension"
-      );
+    case "nip46": {
+      let signer: Nip46Signer;
+      try {
+        signer = await Nip46Signer.connect(stored.bunker, { clientSecretKey: hexToBytes(stored.clientKey) });
+      } catch (error) {
+        if (error instanceof Nip46Error && error.refused) throw new StaleSessionError(error.message);
+        throw error;
+      }
+      if (await signer.getPublicKey() !== stored.pubkey) {
+        signer.close();
+        throw new StaleSessionError("Remote signer pubkey changed");
+      }
+      return signer;
     }
-  },
-  
-  // Clear error
-  clearError: () => {
-    set({ error: null });
+    case "local":
+      try {
+        return new LocalKeySigner(stored.nsec);
+      } catch (error) {
+        throw new StaleSessionError("Stored key is invalid");
+      }
   }
-}));
+}
 
-// Auto-check for extension and stored pubkey on initialization
-if (typeof window !== "undefined") {
+function readStoredSigner(): StoredSigner | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Corrupt entry - start logged out
+  }
+  // Sessions from before signer selection were always NIP-07
+  const legacyPubkey = localStorage.getItem(LEGACY_STORAGE_KEY);
+  return legacyPubkey ? { type: "nip07", pubkey: legacyPubkey } : null;
+}
+
+// Auto-check for extension and stored session on initialization
+if (typeof window !== "undefined" && typeof localStorage !== "undefined") {
   const store = useAuthStore.getState();
   store.checkExtension();
-  
+
   // Check if user was previously logged in
-  const storedPubkey = localStorage.getItem("nip07_pubkey");
-  if (storedPubkey && store.hasExtension) {
-    // Verify the extension still has access to this pubkey
-    nip07GetPublicKey()
-      .then(pubkey => {
-        if (pubkey === storedPubkey) {
-          useAuthStore.setState({ 
-            pubkey,
-            isAuthenticated: true 
-          });
-          console.log("Restored NIP-07 session. Pubkey:", pubkey);
-        } else {
-          // Pubkey changed, clear stored data
-          localStorage.removeItem("nip07_pubkey");
-        }
+  const stored = readStoredSigner();
+  if (stored && (stored.type !== "nip07" || store.hasExtension)) {
+    restoreSigner(stored)
+      .then(async signer => {
+        const pubkey = await signer.getPublicKey();
+        useAuthStore.setState({
+          pubkey,
+          signer,
+          signerType: signer.type,
+          isAuthenticated: true
+        });
+        console.log(`Restored ${signer.type} session. Pubkey:`, pubkey);
       })
-      .catch(() => {
-        // Extension no longer has access, clear stored data
-        localStorage.removeItem("nip07_pubkey");
+      .catch((error) => {
+        if (error instanceof StaleSessionError) {
+          // Signer no longer has access, clear stored data
+          localStorage.removeItem(STORAGE_KEY);
+          localStorage.removeItem(LEGACY_STORAGE_KEY);
+          return;
+        }
+        // A relay or extension that is slow or briefly unreachable - keep the session for the next load
+        console.error("Failed to restore session:", error);
+        useAuthStore.setState({
+          error: `Couldn't restore your ${stored.type} session: ${error instanceof Error ? error.message : String(error)} - reload to try again`
+        });
       });
   }
-}
\ No newline at end of file
+}
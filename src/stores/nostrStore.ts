@@ -1,5 +1,5 @@
 import { create } from "zustand";
-import { SNSTRClient } from "../lib/snstr/client";
+import { SNSTRClient, type RelayStatus } from "../lib/snstr/client";
 import { QueryClient } from "@tanstack/react-query";
 
 // Create a QueryClient instance to be used throughout the app
@@ -17,7 +17,9 @@ interface NostrStore {
   snstrClient: SNSTRClient | null;
   currentRelaySet: RelaySet;
   logs: string[];
+  relayStatuses: RelayStatus[]; // Live health of every relay the client uses
   addLog: (message: string) => void;
+  watchRelays: (client: SNSTRClient) => void;
   initialize: () => Promise<void>;
   switchRelaySet: (relaySet: RelaySet) => Promise<void>;
   cleanup: () => void;
@@ -35,6 +37,9 @@ export const RELAY_SETS = {
   ]
 } as const;
 
+// Stops the current client's relay status updates
+let stopRelayStatuses: (() => void) | null = null;
+
 export const useNostrStore = create<NostrStore>((set, get) => ({
   relayHandler: null,
   snstrClient: null,
@@ -50,6 +55,7 @@ export const useNostrStore = create<NostrStore>((set, get) => ({
     return 'real';
   })(),
   logs: [],
+  relayStatuses: [],
   addLog: (message: string) => {
     const timestamp = new Date().toISOString();
     console.log(`[${timestamp}] ${message}`);
@@ -57,6 +63,11 @@ export const useNostrStore = create<NostrStore>((set, get) => ({
       logs: [...state.logs, `[${timestamp}] ${message}`],
     }));
   },
+  watchRelays: (client: SNSTRClient) => {
+    stopRelayStatuses?.();
+    stopRelayStatuses = client.onRelayStatus((relayStatuses) => set({ relayStatuses }));
+    set({ relayStatuses: client.getRelayStatuses() });
+  },
   initialize: async () => {
     const store = useNostrStore.getState();
     store.addLog("Initializing Nostr store with SNSTR client...");
@@ -65,6 +76,7 @@ export const useNostrStore = create<NostrStore>((set, get) => ({
     
     // Create SNSTR client
     const client = new SNSTRClient(currentRelayUrls, store.addLog);
+    store.watchRelays(client);
     
     try {
       await client.connect();
@@ -122,6 +134,7 @@ export const useNostrStore = create<NostrStore>((set, get) => ({
     // Create new SNSTR client with new relay set
     const newRelayUrls = [...RELAY_SETS[relaySet]];
     const client = new SNSTRClient(newRelayUrls, store.addLog);
+    store.watchRelays(client);
     
     try {
       await client.connect();
@@ -165,10 +178,12 @@ export const useNostrStore = create<NostrStore>((set, get) => ({
   cleanup: () => {
     set((state) => {
       state.addLog("Cleaning up Nostr store...");
+      stopRelayStatuses?.();
+      stopRelayStatuses = null;
       state.snstrClient?.disconnect();
       state.relayHandler?.cleanup();
       queryClient.clear(); // Clear the query cache when cleaning up
-      return { relayHandler: null, snstrClient: null };
+      return { relayHandler: null, snstrClient: null, relayStatuses: [] };
     });
   },
 })); 
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { create } from "zustand";
+import type { SigningRequest } from "../lib/signing-review";
+
+interface PendingSigning {
+  request: SigningRequest;
+  resolve: (approved: boolean) => void;
+}
+
+interface SigningStore {
+  // State - requests waiting for the user, the dialog shows the first
+  queue: PendingSigning[];
+
+  // Actions
+  requestApproval: (request: SigningRequest) => Promise<boolean>;
+  respond: (approved: boolean) => void;
+}
+
+export const useSigningStore = create<SigningStore>((set, get) => ({
+  queue: [],
+
+  // ApprovalPolicy for the app - resolves once the user approves or rejects in the signing dialog
+  requestApproval: (request: SigningRequest) => {
+    return new Promise<boolean>((resolve) => {
+      set({ queue: [...get().queue, { request, resolve }] });
+    });
+  },
+
+  respond: (approved: boolean) => {
+    const [current, ...rest] = get().queue;
+    if (!current) return;
+    set({ queue: rest });
+    current.resolve(approved);
+  }
+}));
+
+// Stable reference for createServices and publishHypernote
+export const requestSigningApproval = (request: SigningRequest) =>
+  useSigningStore.getState().requestApproval(request);
@@ -0,0 +1,85 @@
+import { test, expect } from 'bun:test';
+import { ChessError, START_FEN, gameResult, gameStatus, legalMoves, newPosition, parseFEN, playMove, toFEN, toPGN, type Position } from '../src/lib/chess';
+
+function perft(position: Position, depth: number): number {
+  if (depth === 0) return 1;
+  return legalMoves(position).reduce((nodes, move) => nodes + perft(playMove(position, move.san).position, depth - 1), 0);
+}
+
+function play(moves: string[], fen = START_FEN): Position {
+  return moves.reduce((position, move) => playMove(position, move).position, parseFEN(fen));
+}
+
+test('generates every legal move', () => {
+  const kiwipete = parseFEN('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+
+  expect(perft(newPosition(), 1)).toBe(20);
+  expect(perft(newPosition(), 3)).toBe(8902);
+  expect(perft(kiwipete, 1)).toBe(48);
+});
+
+test('FEN round-trips and invalid FEN is rejected', () => {
+  const fen = 'r3k2r/8/8/3pP3/8/8/8/R3K2R w Kq d6 0 12';
+
+  expect(toFEN(parseFEN(fen))).toBe(fen);
+  expect(() => parseFEN('not a position')).toThrow(ChessError);
+});
+
+test('accepts SAN and coordinates, rejects illegal moves', () => {
+  const position = play(['e4', 'e7e5', 'Nf3+', 'Nc6']);
+
+  expect(toFEN(position)).toBe('r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3');
+  expect(() => playMove(position, 'Ke3')).toThrow('Illegal move: Ke3');
+  expect(() => playMove(newPosition(), 'e5')).toThrow(ChessError);
+});
+
+test('castling moves the rook and moving the king loses the rights', () => {
+  const ready = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1';
+
+  expect(toFEN(play(['O-O'], ready))).toBe('r3k2r/8/8/8/8/8/8/R4RK1 b kq - 1 1');
+  expect(toFEN(play(['0-0-0'], ready))).toBe('r3k2r/8/8/8/8/8/8/2KR3R b kq - 1 1');
+  expect(play(['Ke2', 'Ke7'], ready).castling).toBe('');
+  // Can't castle through an attacked square
+  expect(() => playMove(parseFEN('r3k2r/8/8/8/8/8/5r2/R3K2R w KQkq - 0 1'), 'O-O')).toThrow('Illegal move');
+});
+
+test('en passant captures the skipped pawn', () => {
+  const position = play(['e4', 'a6', 'e5', 'd5']);
+  const { position: after, move } = playMove(position, 'exd6');
+
+  expect(position.enPassant).toBe('d6');
+  expect(move.enPassant).toBe(true);
+  expect(toFEN(after)).toBe('rnbqkbnr/1pp1pppp/p2P4/8/8/8/PPPP1PPP/RNBQKBNR b KQkq - 0 3');
+});
+
+test('promotion needs a piece', () => {
+  const position = parseFEN('4k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+
+  expect(playMove(position, 'a8=Q').move.san).toBe('a8=Q+');
+  expect(playMove(position, 'a7a8n').move.promotion).toBe('n');
+  expect(() => playMove(position, 'a8')).toThrow('a8 needs a promotion piece, e.g. a8=Q');
+});
+
+test('detects checkmate and stalemate', () => {
+  const mated = play(['f3', 'e5', 'g4', 'Qh4#']);
+  const stalemate = parseFEN('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1');
+
+  expect(gameStatus(mated)).toBe('checkmate');
+  expect(gameResult(mated)).toBe('0-1');
+  expect(() => playMove(mated, 'Kf2')).toThrow('The game is over (checkmate)');
+  expect(gameStatus(stalemate)).toBe('stalemate');
+  expect(gameResult(stalemate)).toBe('1/2-1/2');
+  expect(gameStatus(play(['e4', 'f5', 'Qh5+']))).toBe('check');
+});
+
+test('exports PGN with the seven tag roster', () => {
+  const pgn = toPGN(['f3', 'e5', 'g4', 'Qh4#'], { White: 'Alice', Result: '0-1' });
+
+  expect(pgn).toBe([
+    '[Event "?"]', '[Site "?"]', '[Date "????.??.??"]', '[Round "?"]', '[White "Alice"]', '[Black "?"]', '[Result "0-1"]',
+    '',
+    '1. f3 e5 2. g4 Qh4# 0-1',
+    ''
+  ].join('\n'));
+  expect(toPGN(Array(60).fill('Nf3')).split('\n').every((line) => line.length <= 79)).toBe(true);
+});
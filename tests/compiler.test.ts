@@ -202,4 +202,29 @@ Some content here.`;
     // Restore console.error
     console.error = originalConsoleError;
   }
-}); 
\ No newline at end of file
+}); 
+test("should compile component prop declarations from frontmatter", () => {
+  const hnmd = `---
+type: "element"
+kind: 1
+props:
+  compact:
+    type: boolean
+    default: false
+  limit: 5
+  label: string
+---
+
+[if props.compact]
+  {props.label}
+[/if]`;
+
+  const result = compileHypernoteToContent(hnmd);
+
+  expect(result.kind).toBe(1);
+  expect(result.props).toEqual({
+    compact: { type: "boolean", default: false },
+    limit: { type: "number", default: 5 },
+    label: { type: "string" }
+  });
+});
@@ -0,0 +1,97 @@
+import { test, expect } from 'bun:test';
+import { nip19 } from 'nostr-tools';
+import { parseEventAddress, parseTarget, watchTarget } from '../src/lib/componentResolver';
+
+const pubkey = 'a'.repeat(64);
+
+function createEvent(identifier: string, created_at: number, content: string) {
+  return {
+    id: `${identifier}-${created_at}`,
+    pubkey,
+    kind: 30023,
+    created_at,
+    content,
+    tags: [['d', identifier]],
+    sig: ''
+  };
+}
+
+// In-memory client - serves stored events and lets tests push live ones
+function createClient(events: any[]) {
+  const listeners: Array<(event: any) => void> = [];
+  return {
+    client: {
+      fetchEvents: async (filters: any[]) => events.filter(e =>
+        filters[0].kinds.includes(e.kind) && filters[0]['#d'].includes(e.tags[0][1])
+      ),
+      subscribeLive: (_filters: any[], onEvent: (event: any) => void) => {
+        listeners.push(onEvent);
+        return () => listeners.splice(listeners.indexOf(onEvent), 1);
+      }
+    } as any,
+    publish: (event: any) => listeners.forEach(listener => listener(event)),
+    listenerCount: () => listeners.length
+  };
+}
+
+test('parseEventAddress accepts naddr and a-tag coordinates', () => {
+  const naddr = nip19.naddrEncode({ kind: 30023, pubkey, identifier: 'my-article' });
+
+  expect(parseEventAddress(naddr)).toEqual({ kind: 30023, pubkey, identifier: 'my-article' });
+  expect(parseEventAddress(`30078:${pubkey}:app:counter`)).toEqual({ kind: 30078, pubkey, identifier: 'app:counter' });
+  expect(parseEventAddress('$note.id')).toBeNull();
+  expect(parseEventAddress(`30023:not-a-pubkey:x`)).toBeNull();
+});
+
+test('parseTarget resolves an naddr to the latest version of the event', async () => {
+  const { client } = createClient([
+    createEvent('latest-test', 100, 'first draft'),
+    createEvent('latest-test', 200, 'final'),
+    createEvent('other', 300, 'unrelated')
+  ]);
+  const naddr = nip19.naddrEncode({ kind: 30023, pubkey, identifier: 'latest-test' });
+
+  const target = await parseTarget(naddr, 30023, client);
+
+  expect(target).toEqual({
+    id: 'latest-test-200',
+    pubkey,
+    kind: 30023,
+    identifier: 'latest-test',
+    content: 'final',
+    created_at: 200,
+    tags: [['d', 'latest-test']],
+    raw: naddr
+  });
+});
+
+test('parseTarget rejects an address of a different kind', async () => {
+  const { client } = createClient([]);
+
+  const target = await parseTarget(`30078:${pubkey}:state`, 30023, client);
+
+  expect(target).toEqual({ raw: `30078:${pubkey}:state` });
+});
+
+test('watchTarget reports only newer versions and cleans up', () => {
+  const { client, publish, listenerCount } = createClient([]);
+  const updates: any[] = [];
+
+  const cleanup = watchTarget(`30023:${pubkey}:watched`, 30023, client, target => updates.push(target));
+  publish(createEvent('watched', 200, 'v2'));
+  publish(createEvent('watched', 100, 'v1'));
+  publish(createEvent('watched', 300, 'v3'));
+
+  expect(updates.map(u => u.content)).toEqual(['v2', 'v3']);
+  expect(listenerCount()).toBe(1);
+  cleanup();
+  expect(listenerCount()).toBe(0);
+});
+
+test('watchTarget does nothing for kinds that cannot be replaced', () => {
+  const { client, listenerCount } = createClient([]);
+
+  watchTarget('nevent1abc', 1, client, () => {});
+
+  expect(listenerCount()).toBe(0);
+});
@@ -0,0 +1,146 @@
+import { test, expect } from 'bun:test';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { HypernoteExecutor } from '../src/lib/HypernoteExecutor';
+import { RelayActionExecutor } from '../src/lib/adapters';
+import { awaitToolResponse, type ActionState } from '../src/lib/contextvm';
+import { LocalKeySigner } from '../src/lib/signers/local';
+import { approveAll } from '../src/lib/signing-review';
+import { memoryRelay } from './relay-stand-in';
+
+type Relay = ReturnType<typeof memoryRelay>;
+
+// Stands in for an MCP server behind a ContextVM transport - answers tools/call with the tool's text output
+function startToolServer(relay: Relay, tools: Record<string, (args: any) => object | Promise<object>>, key = generateSecretKey()) {
+  const pubkey = getPublicKey(key);
+  const reply = (request: any, message: object) => relay.publishEvent(finalizeEvent({
+    kind: 25910,
+    content: JSON.stringify({ jsonrpc: '2.0', ...message }),
+    tags: [['e', request.id], ['p', request.pubkey]],
+    created_at: Math.floor(Date.now() / 1000)
+  }, key));
+
+  relay.subscribeLive([{ kinds: [25910], '#p': [pubkey] }], async (request) => {
+    const { id, method, params } = JSON.parse(request.content);
+    const tool = method === 'tools/call' ? tools[params.name] : undefined;
+    if (!tool) {
+      return reply(request, { id, error: { code: -32601, message: `Unknown tool ${params?.name}` } });
+    }
+    reply(request, { id, result: { content: [{ type: 'text', text: JSON.stringify(await tool(params.arguments)) }] } });
+  });
+  return { pubkey, reply };
+}
+
+function chessExecutor(relay: Relay, server: string, tool = 'make_move') {
+  const compiled = compileHypernoteToContent(`---
+"@make_move":
+  kind: 25910
+  json:
+    jsonrpc: "2.0"
+    id: "{time.now}"
+    method: "tools/call"
+    params:
+      name: "${tool}"
+      arguments:
+        move: "{form.move}"
+  tags:
+    - ["p", "${server}"]
+---
+[form @make_move]
+  [input name="move"]
+  [button]Move[/button]
+[/form]`);
+  const executor = new HypernoteExecutor(
+    compiled,
+    { user: { pubkey: null }, queryResults: new Map(), actionResults: new Map() },
+    relay as any,
+    { clear: () => {} } as any,
+    LocalKeySigner.generate(),
+    approveAll
+  );
+  const states: ActionState[] = [];
+  executor.onUpdate = (data) => { if (data.actionStates) states.push(data.actionStates['@make_move']); };
+  return { executor, states };
+}
+
+const settled = (states: ActionState[]) => new Promise<ActionState>((resolve) => {
+  const check = () => states.at(-1) && !states.at(-1)!.pending ? resolve(states.at(-1)!) : setTimeout(check, 1);
+  check();
+});
+
+test('an action is pending until the tool response arrives, then exposes its result', async () => {
+  const relay = memoryRelay();
+  const server = startToolServer(relay, { make_move: ({ move }) => ({ success: true, lastMove: move, fen: 'fen-after-e4' }) });
+  const { executor, states } = chessExecutor(relay, server.pubkey);
+
+  const eventId = await executor.executeAction('make_move', { move: 'e4' });
+  const state = await settled(states);
+
+  expect(states[0]).toEqual({ id: eventId!, pending: true });
+  expect(state).toEqual({ id: eventId!, pending: false, result: { success: true, lastMove: 'e4', fen: 'fen-after-e4' } });
+  expect(executor.getActionStates()['@make_move']).toEqual(state);
+  // The response subscription is closed once answered
+  expect(relay.subscriptionCount).toBe(1);
+});
+
+test('tool failures and JSON-RPC errors become @action.error', async () => {
+  const relay = memoryRelay();
+  const server = startToolServer(relay, { make_move: () => ({ success: false, error: 'Invalid move' }) });
+
+  const refused = chessExecutor(relay, server.pubkey);
+  await refused.executor.executeAction('make_move', { move: 'e5' });
+  const unknown = chessExecutor(relay, server.pubkey, 'resign');
+  await unknown.executor.executeAction('make_move', {});
+
+  expect(await settled(refused.states)).toMatchObject({ pending: false, error: 'Invalid move', result: { success: false } });
+  expect(await settled(unknown.states)).toMatchObject({ pending: false, error: 'Unknown tool resign' });
+});
+
+test('responses from other keys or for other requests are ignored until the timeout', async () => {
+  const relay = memoryRelay();
+  const server = startToolServer(relay, {});
+  const impostor = startToolServer(relay, {});
+  const client = LocalKeySigner.generate();
+  const request = await client.signEvent({
+    kind: 25910,
+    content: JSON.stringify({ jsonrpc: '2.0', id: '1', method: 'tools/call', params: { name: 'silent' } }),
+    tags: [['p', server.pubkey]]
+  });
+  const other = { ...request, id: 'f'.repeat(64) };
+
+  const response = awaitToolResponse(relay, request, 50)!;
+  await impostor.reply(request, { id: '1', result: { content: [{ type: 'text', text: 'forged' }] } });
+  await server.reply(other, { id: '1', result: { content: [{ type: 'text', text: 'not yours' }] } });
+
+  expect(await response).toEqual({ id: request.id, pending: false, error: 'No response from the server within 0.05s' });
+  expect(awaitToolResponse(relay, { ...request, kind: 1 })).toBeNull();
+});
+
+test('RelayActionExecutor reports action state through onActionState', async () => {
+  const relay = memoryRelay();
+  const server = startToolServer(relay, { make_move: ({ move }) => ({ success: true, lastMove: move }) });
+  const hypernote = compileHypernoteToContent(`---
+"@make_move":
+  kind: 25910
+  json:
+    jsonrpc: "2.0"
+    id: "1"
+    method: "tools/call"
+    params:
+      name: "make_move"
+      arguments:
+        move: "{form.move}"
+  tags:
+    - ["p", "${server.pubkey}"]
+---
+# Chess`);
+  const states: ActionState[] = [];
+
+  const eventId = await new RelayActionExecutor(relay, LocalKeySigner.generate(), null, approveAll).execute(
+    'make_move', { move: 'Nf3' }, hypernote as any,
+    { queryResults: {}, extractedVariables: {}, userPubkey: null, onActionState: (state) => states.push(state) }
+  );
+
+  expect(await settled(states)).toEqual({ id: eventId as string, pending: false, result: { success: true, lastMove: 'Nf3' } });
+  expect(states[0].pending).toBe(true);
+});
@@ -0,0 +1,95 @@
+import { test, expect } from 'bun:test';
+import { nip19 } from 'nostr-tools';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { decompileHypernote } from '../src/lib/decompiler';
+import { compileCompactPipe, decompileCompactPipe } from '../src/lib/pipe-compiler';
+import { loadExample, AVAILABLE_EXAMPLES } from './example-loader';
+
+test('every example JSON decompiles to HNMD that compiles back to the same JSON', () => {
+  for (const exampleName of AVAILABLE_EXAMPLES) {
+    const { expectedJson } = loadExample(exampleName);
+
+    const source = decompileHypernote(expectedJson);
+
+    expect(compileHypernoteToContent(source)).toEqual(expectedJson);
+  }
+});
+
+test('styles decompile to Tailwind classes', () => {
+  const { expectedJson } = loadExample('div-container');
+
+  const source = decompileHypernote(expectedJson);
+
+  expect(source).toContain('style: p-4 bg-gray-100');
+  expect(source).toContain('[div class="bg-white p-6 rounded-lg border"]');
+  expect(source).toContain('[button class="px-4 py-2 bg-blue-500 text-white rounded mt-2"]Submit[/button]');
+});
+
+test('pipes decompile to the compact YAML syntax', () => {
+  const { expectedJson } = loadExample('profile');
+
+  const source = decompileHypernote(expectedJson);
+
+  expect(source).toContain([
+    '  pipe:',
+    '    - first',
+    '    - get: content',
+    '    - json',
+    '    - defaults:'
+  ].join('\n'));
+});
+
+test('decompileCompactPipe reverses compileCompactPipe', () => {
+  const compact = [
+    'first',
+    { get: 'content' },
+    { save: 'value' },
+    { sort: { by: 'created_at', order: 'desc' } },
+    { filterTag: 'p' },
+    { map: [{ get: 'pubkey' }] },
+    { construct: { fields: { name: [{ get: 'name' }] } } },
+    { where: '$item.kind == 1' }
+  ];
+
+  expect(decompileCompactPipe(compileCompactPipe(compact))).toEqual(compact);
+});
+
+test('decompileCompactPipe keeps operations without a compact form', () => {
+  const pipe = [{ op: 'limit', count: 5, extra: true }, { op: 'custom', value: 1, other: 2 }];
+
+  expect(decompileCompactPipe(pipe)).toEqual(pipe);
+});
+
+test('control flow, components and slots round-trip', () => {
+  const pubkey = 'd'.repeat(64);
+  const naddr = nip19.naddrEncode({ kind: 32616, pubkey, identifier: 'card' });
+  const hnmd = `---
+"#card": ${naddr}
+"$posts":
+  kinds: [1]
+  limit: 5
+---
+[each $posts as $post, $i key="$post.id"]
+  [if $i == 0]
+    ## First: {$post.content}
+  [elif $post.content]
+    *{$post.content}* and \`code\`
+  [else]
+    Empty post
+  [/if]
+[empty]
+  No posts yet
+[/each]
+
+[#card $note.pubkey compact="true" limit=5 author=$note.pubkey]
+  Written by **{$note.pubkey}**
+  [slot name="footer"]
+[/#card]`;
+  const compiled = compileHypernoteToContent(hnmd);
+
+  const source = decompileHypernote(compiled);
+
+  expect(compileHypernoteToContent(source)).toEqual(compiled);
+  expect(source).toContain(`'#card': ${naddr}`);
+  expect(source).toContain('[#card $note.pubkey compact="true" limit="5" author=$note.pubkey]');
+});
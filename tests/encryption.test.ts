@@ -0,0 +1,126 @@
+import { test, expect } from 'bun:test';
+import { nip19 } from 'nostr-tools';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { HypernoteExecutor } from '../src/lib/HypernoteExecutor';
+import { SimpleQueryExecutor } from '../src/lib/simple-query-executor';
+import { EncryptionError } from '../src/lib/core/encryption';
+import { buildUnsignedEvent, EventTemplateError } from '../src/lib/core/events';
+import { applyPipes, usesDecrypt } from '../src/lib/pipes';
+import { LocalKeySigner } from '../src/lib/signers/local';
+import type { SigningRequest } from '../src/lib/signing-review';
+
+const alice = LocalKeySigner.generate();
+const bob = LocalKeySigner.generate();
+const carol = LocalKeySigner.generate();
+
+function messageExecutor(frontmatter: string, target: any, published: any[], requests: SigningRequest[] = []) {
+  const compiled = compileHypernoteToContent(`---
+${frontmatter}
+---
+[form @send]
+  [input name="message"]
+  [button]Send[/button]
+[/form]`);
+  const client = {
+    getConnectedRelays: () => ['wss://relay.example'],
+    planPublishRelays: async () => ['wss://relay.example'],
+    publishEvent: async (event: any) => { published.push(event); }
+  };
+  return new HypernoteExecutor(
+    compiled,
+    { user: { pubkey: null }, target, queryResults: new Map(), actionResults: new Map() },
+    client as any,
+    { clear: () => {} } as any,
+    alice,
+    (request) => { requests.push(request); return true; }
+  );
+}
+
+async function message(from: LocalKeySigner, to: LocalKeySigner, content: string, id: string) {
+  const event = await from.signEvent({
+    kind: 14,
+    content: await from.nip44Encrypt(await to.getPublicKey(), content),
+    tags: [['p', await to.getPublicKey()]]
+  });
+  return { ...event, id };
+}
+
+test('encrypt: reviews the plaintext, then publishes content only the recipient can read', async () => {
+  const bobPubkey = await bob.getPublicKey();
+  const published: any[] = [];
+  const requests: SigningRequest[] = [];
+  const executor = messageExecutor(`"@send":
+  kind: 14
+  content: "{form.message}"
+  tags: [["p", "{target.pubkey}"]]
+  encrypt:
+    to: "{target.pubkey}"`, { pubkey: bobPubkey }, published, requests);
+
+  await executor.executeAction('send', { message: 'meet at noon' });
+
+  expect(requests[0].event.content).toBe('meet at noon');
+  expect(requests[0].encryptedTo).toBe(bobPubkey);
+  expect(published).toHaveLength(1);
+  expect(published[0].content).not.toContain('meet at noon');
+  expect(await bob.nip44Decrypt(await alice.getPublicKey(), published[0].content)).toBe('meet at noon');
+  expect(await carol.nip44Decrypt(await alice.getPublicKey(), published[0].content).catch(() => 'unreadable')).toBe('unreadable');
+});
+
+test('encrypt: accepts an npub and refuses unresolved recipients before review', async () => {
+  const bobPubkey = await bob.getPublicKey();
+  const published: any[] = [];
+  const requests: SigningRequest[] = [];
+  const template = (to: string) => `"@send":
+  kind: 14
+  content: hi
+  encrypt:
+    to: "${to}"`;
+
+  await messageExecutor(template(nip19.npubEncode(bobPubkey)), {}, published).executeAction('send', {});
+  const error = await messageExecutor(template('{target.pubkey}'), {}, published, requests).executeAction('send', {}).catch(e => e);
+
+  expect(await bob.nip44Decrypt(await alice.getPublicKey(), published[0].content)).toBe('hi');
+  expect(error).toBeInstanceOf(EncryptionError);
+  expect(error.message).toBe('@send: encrypt.to must be a hex pubkey or npub, got "{target.pubkey}"');
+  expect(requests).toHaveLength(0);
+  expect(published).toHaveLength(1);
+});
+
+test('encrypt: cannot be combined with tag edits', async () => {
+  const bobPubkey = await bob.getPublicKey();
+  const build = () => buildUnsignedEvent('@send', {
+    kind: 3,
+    add_tag: ['p', bobPubkey],
+    encrypt: { to: bobPubkey }
+  }, undefined, { latest: null });
+
+  expect(build).toThrow(new EventTemplateError("@send: encrypt can't be combined with add_tag or remove_tag", '@send'));
+});
+
+test('decrypt pipe keeps the messages the user can read, sent or received', async () => {
+  const events = [
+    await message(bob, alice, 'hi alice', 'received'),
+    await message(alice, bob, 'hi bob', 'sent'),
+    await message(bob, carol, 'hi carol', 'not-for-alice'),
+    { ...(await bob.signEvent({ kind: 14, content: 'plain text' })), id: 'plaintext' }
+  ];
+  const queries = {
+    $messages: { kinds: [14], pipe: [{ op: 'decrypt' }, { op: 'map', pipe: [{ op: 'get', field: 'content' }] }] }
+  };
+
+  const asAlice = await new SimpleQueryExecutor(queries, {}, async () => events, alice).executeAll();
+  const loggedOut = await new SimpleQueryExecutor(queries, {}, async () => events).executeAll();
+
+  expect(asAlice.results.get('$messages')).toEqual(['hi alice', 'hi bob']);
+  expect(loggedOut.results.get('$messages')).toEqual([]);
+});
+
+test('decrypt on a single event and nested pipes', () => {
+  const event = { id: 'x', content: 'ciphertext' };
+  const decrypted = new Map([['x', 'plaintext']]);
+
+  expect(applyPipes(event, [{ op: 'decrypt' }], { decrypted })).toEqual({ id: 'x', content: 'plaintext' });
+  expect(applyPipes(event, [{ op: 'decrypt' }])).toBeNull();
+  expect(usesDecrypt([{ op: 'construct', fields: { text: [{ op: 'decrypt' }] } }])).toBe(true);
+  expect(usesDecrypt([{ op: 'first' }, { op: 'map', pipe: [{ op: 'get', field: 'content' }] }])).toBe(false);
+});
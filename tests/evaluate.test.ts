@@ -0,0 +1,162 @@
+import { test, expect } from 'bun:test';
+import { renderToStaticMarkup } from 'react-dom/server';
+import React from 'react';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { evaluateHypernote } from '../src/lib/render/evaluate';
+import { renderToHtml } from '../src/lib/render/html';
+import { toReactElement } from '../src/lib/render/react';
+import { loadExample } from './example-loader';
+
+test('div-container example evaluates to a stable HTML snapshot', () => {
+  const { markdown } = loadExample('div-container');
+  const hypernote = compileHypernoteToContent(markdown);
+
+  const html = renderToHtml(evaluateHypernote(hypernote, { formData: { message: 'Nice' } }));
+
+  expect(html).toMatchSnapshot();
+});
+
+test('profile example resolves query data without fetching', () => {
+  const { markdown } = loadExample('profile');
+  const hypernote = compileHypernoteToContent(markdown);
+
+  const tree = evaluateHypernote(hypernote, {
+    queryResults: { $profile: { name: 'Alice', picture: 'https://example.com/a.png', nip05: 'alice@example.com' } }
+  });
+  const html = renderToHtml(tree);
+
+  expect(html).toContain('<img src="https://example.com/a.png" alt="Alice"');
+  expect(html).toContain('<strong>Alice</strong>');
+  expect(html).toContain('alice@example.com');
+});
+
+test('loops, branches and empty blocks resolve into plain elements', () => {
+  const hypernote = compileHypernoteToContent(`---
+"$posts":
+  kinds: [1]
+  limit: 2
+---
+[each $posts as $post, $i key="$post.id"]
+  {$i}: {$post.content}
+[empty]
+  Nothing yet
+[/each]
+
+[if $posts.length > 1]
+  Many
+[elif $posts.length == 1]
+  One
+[else]
+  None
+[/if]`);
+
+  const full = evaluateHypernote(hypernote, {
+    queryResults: { $posts: [{ id: 'a', content: 'hello' }, { id: 'b', content: '<b>bold</b>' }] }
+  });
+  const loop = full.children[0] as any;
+  expect(loop.children.map((row: any) => row.key)).toEqual(['a', 'b']);
+  expect(renderToHtml(full)).toContain('1: &lt;b&gt;bold&lt;/b&gt;');
+  expect(renderToHtml(full)).toContain('Many');
+
+  const empty = renderToHtml(evaluateHypernote(hypernote, { queryResults: { $posts: [] } }));
+  expect(empty).toContain('Nothing yet');
+  expect(empty).toContain('None');
+  expect(empty).not.toContain('Many');
+});
+
+test('components render placeholders unless the caller resolves them', () => {
+  const card = compileHypernoteToContent(`---
+kind: 0
+props:
+  title: "Untitled"
+---
+[div]
+  ## {props.title} by {target.pubkey}
+  [slot]
+[/div]`);
+  const page = compileHypernoteToContent(`---
+"#card": naddr1placeholder
+---
+[#card $note.pubkey title="Hello"]
+  Written by {$note.pubkey}
+[/#card]`);
+  const queryResults = { $note: { pubkey: 'abc' } };
+
+  expect(renderToHtml(evaluateHypernote(page, { queryResults })))
+    .toContain('<div data-component="card"></div>');
+
+  const html = renderToHtml(evaluateHypernote(page, {
+    queryResults,
+    resolveComponent: (alias, argument) => alias === 'card'
+      ? { hypernote: card, target: { pubkey: argument } }
+      : undefined
+  }));
+  expect(html).toContain('<h2>Hello by abc</h2>');
+  expect(html).toContain('Written by abc');
+});
+
+test('React adapter produces the same markup as the HTML adapter', () => {
+  const { markdown } = loadExample('div-container');
+  const tree = evaluateHypernote(compileHypernoteToContent(markdown));
+
+  const reactHtml = renderToStaticMarkup(toReactElement(tree) as any).replace(/\/>/g, '>');
+
+  expect(reactHtml).toBe(renderToHtml(tree).replace(/ data-event="[^"]*"/g, ''));
+});
+
+test('React adapter wires form submission to the handler', () => {
+  const hypernote = compileHypernoteToContent(`---
+"@post":
+  kind: 1
+  content: "{form.message}"
+---
+[form @post]
+  [button]Post[/button]
+[/form]`);
+  const submitted: string[] = [];
+
+  const form = (toReactElement(evaluateHypernote(hypernote), { onFormSubmit: (name) => submitted.push(name) }) as any)
+    .props.children;
+  form.props.onSubmit({ preventDefault: () => {} });
+
+  expect(submitted).toEqual(['@post']);
+});
+
+test('React adapter hands tool and component mount points to renderMount', () => {
+  const hypernote = compileHypernoteToContent(`---
+"#card": naddr1placeholder
+---
+[#card $note.pubkey]
+
+[tool server="npub1server" name="make_move"]`);
+  const mounts: any[] = [];
+
+  const html = renderToStaticMarkup(toReactElement(evaluateHypernote(hypernote, { queryResults: { $note: { pubkey: 'abc' } } }), {
+    renderMount: (node) => {
+      mounts.push(node.mount);
+      return React.createElement('section', { key: mounts.length });
+    }
+  }) as any);
+
+  expect(mounts.map((mount) => [mount.kind, mount.argument ?? mount.tool])).toEqual([['component', 'abc'], ['tool', 'make_move']]);
+  expect(html).toBe('<div class="hypernote-content"><section></section><section></section></div>');
+});
+
+test('unresolved variables are reported with the source location of their element', () => {
+  const hypernote = compileHypernoteToContent(`# Title
+
+Hello {$profile.name}`, { sourceMap: true });
+  const warnings: string[] = [];
+  const original = console.warn;
+  console.warn = (message: string) => { warnings.push(message); };
+
+  try {
+    expect(renderToHtml(evaluateHypernote(hypernote))).toContain('<p>Hello </p>');
+    // Loading queries aren't reported
+    evaluateHypernote(compileHypernoteToContent('Bye {$feed.length}', { sourceMap: true }), { loadingQueries: new Set(['$feed']) });
+  } finally {
+    console.warn = original;
+  }
+
+  expect(warnings).toEqual(['[render] Unresolved $profile in "{$profile.name}" at line 3, column 1 - rendered blank']);
+});
@@ -0,0 +1,241 @@
+import { test, expect } from 'bun:test';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { buildUnsignedEvent, fetchLatestVersion, EventTemplateError, VersionConflictError } from '../src/lib/core/events';
+import { HypernoteExecutor } from '../src/lib/HypernoteExecutor';
+import { approveAll } from '../src/lib/signing-review';
+import { SNSTRClient } from '../src/lib/snstr/client';
+import type { Signer } from '../src/lib/signers/signer';
+import { startRelay } from './relay-stand-in';
+
+const now = 1_700_000_000_000;
+
+function stubSigner(signEvent: (event: any) => Promise<any>): Signer {
+  return { type: 'local', getPublicKey: async () => 'a'.repeat(64), signEvent };
+}
+
+test('d adds the d tag, replacing one written in tags', () => {
+  const event = buildUnsignedEvent('@save', {
+    kind: 30078,
+    d: 'counter',
+    json: { count: 1 },
+    tags: [['d', 'stale'], ['t', 'app']]
+  }, undefined, { now });
+
+  expect(event).toEqual({
+    kind: 30078,
+    content: '{"count":1}',
+    tags: [['d', 'counter'], ['t', 'app']],
+    created_at: 1_700_000_000
+  });
+});
+
+test('expiration adds a NIP-40 tag and created_at overrides the publish time', () => {
+  const event = buildUnsignedEvent('@status', {
+    kind: 1,
+    content: 'brb',
+    created_at: '1700000100',
+    expiration: `${now / 1000 + 3600.5}`
+  }, undefined, { now });
+
+  expect(event.created_at).toBe(1_700_000_100);
+  expect(event.tags).toEqual([['expiration', '1700003600']]);
+});
+
+test('rejects templates that cannot produce a valid event', () => {
+  const loc = { line: 3, column: 1, end: { line: 5, column: 10 } };
+  const build = (template: Record<string, any>) => () => buildUnsignedEvent('@save', template, loc, { now });
+
+  expect(build({ kind: 30078, content: '' })).toThrow(
+    new EventTemplateError('@save at line 3, column 1: kind 30078 is addressable and needs a d tag - add d: to the event template', '@save')
+  );
+  expect(build({ kind: 30078, tags: [['d', 'ok']] })).not.toThrow();
+  expect(build({ kind: 1, expiration: `${now}` })).toThrow('expiration 1700000000000 looks like milliseconds - use seconds');
+  expect(build({ kind: 1, expiration: 1_600_000_000 })).toThrow('expiration 1600000000 is not after created_at 1700000000');
+  expect(build({ kind: 1, created_at: '{$missing}' })).toThrow('created_at must be a unix timestamp in seconds, got "{$missing}"');
+});
+
+test('the executor refuses an addressable event without a d tag before signing', async () => {
+  const compiled = compileHypernoteToContent(`---
+"@bump":
+  kind: 30078
+  json:
+    count: 1
+---
+[form @bump]
+  [button]+1[/button]
+[/form]`, { sourceMap: true });
+  let signed = 0;
+  let published = 0;
+  const executor = new HypernoteExecutor(
+    compiled,
+    { user: { pubkey: null }, queryResults: new Map(), actionResults: new Map() },
+    { publishEvent: async () => { published++; } } as any,
+    { clear: () => {} } as any,
+    stubSigner(async (event) => { signed++; return { ...event, id: 'x', pubkey: '', sig: '' }; }),
+    approveAll
+  );
+
+  const error = await executor.executeAction('bump', {}).catch(e => e);
+
+  expect(error).toBeInstanceOf(EventTemplateError);
+  expect(error.message).toStartWith('@bump at line 2, column 1: kind 30078 is addressable');
+  expect(signed).toBe(0);
+  expect(published).toBe(0);
+});
+
+test('a missing event template is reported where the action was used', async () => {
+  const compiled = compileHypernoteToContent(`---
+"$posts":
+  kinds: [1]
+  triggers: "@missing"
+---
+# Posts`, { sourceMap: true });
+  const executor = new HypernoteExecutor(
+    compiled,
+    { user: { pubkey: null }, queryResults: new Map(), actionResults: new Map() },
+    {} as any,
+    { clear: () => {} } as any,
+    undefined,
+    approveAll
+  );
+  const errors: string[] = [];
+  const original = console.error;
+  console.error = (message: string) => { errors.push(message); };
+
+  try {
+    expect(await executor.executeAction('missing', {}, compiled.queries?.$posts.loc)).toBeNull();
+  } finally {
+    console.error = original;
+  }
+
+  expect(errors).toEqual(['Action @missing at line 2, column 1 not found in']);
+});
+
+const alice = 'a'.repeat(64);
+const bob = 'b'.repeat(64);
+const carol = 'c'.repeat(64);
+
+function contactList(id: string, created_at: number, pubkeys: string[]) {
+  return {
+    id, created_at, kind: 3, pubkey: alice, sig: '',
+    content: '{"wss://relay.example":{"read":true,"write":true}}',
+    tags: pubkeys.map((pk) => ['p', pk, 'wss://relay.example'])
+  };
+}
+
+function followExecutor(versions: any[][], signed: any[], published: any[]) {
+  const compiled = compileHypernoteToContent(`---
+"@follow":
+  kind: 3
+  add_tag: ["p", "{target.pubkey}"]
+---
+[form @follow]
+  [button]Follow[/button]
+[/form]`);
+  const filters: any[] = [];
+  const client = {
+    fetchEventsWithEose: async (f: any[]) => {
+      filters.push(...f);
+      const events = versions.shift();
+      // undefined stands for no relay answering
+      return { events: events || [], eose: events ? ['wss://relay.example/'] : [] };
+    },
+    planPublishRelays: async () => ['wss://relay.example/'],
+    publishEvent: async (event: any) => { published.push(event); }
+  };
+  const executor = new HypernoteExecutor(
+    compiled,
+    { user: { pubkey: alice }, target: { pubkey: carol }, queryResults: new Map(), actionResults: new Map() },
+    client as any,
+    { clear: () => {} } as any,
+    stubSigner(async (event) => { signed.push(event); return { ...event, id: 'new', pubkey: alice, sig: '' }; }),
+    approveAll
+  );
+  return { executor, filters };
+}
+
+test('add_tag republishes the latest contact list with the other tags and content kept', async () => {
+  const latest = contactList('v2', Math.floor(Date.now() / 1000) + 3600, [alice, bob]);
+  const signed: any[] = [];
+  const published: any[] = [];
+  const { executor, filters } = followExecutor([[contactList('v1', 1, [bob]), latest], [latest]], signed, published);
+
+  const eventId = await executor.executeAction('follow', {});
+
+  expect(eventId).toBe('new');
+  expect(filters[0]).toEqual({ kinds: [3], authors: [alice], limit: 1 });
+  expect(signed[0].content).toBe(latest.content);
+  expect(signed[0].tags).toEqual([...latest.tags, ['p', carol]]);
+  // Sorts after the version it replaces even if the local clock is behind
+  expect(signed[0].created_at).toBe(latest.created_at + 1);
+  expect(published).toHaveLength(1);
+});
+
+test('refuses to publish over a version that arrived while signing', async () => {
+  const latest = contactList('v1', 100, [bob]);
+  const signed: any[] = [];
+  const published: any[] = [];
+  const { executor } = followExecutor([[latest], [contactList('v2', 200, [bob, alice])]], signed, published);
+
+  const error = await executor.executeAction('follow', {}).catch(e => e);
+
+  expect(error).toBeInstanceOf(VersionConflictError);
+  expect(error.latest.id).toBe('v2');
+  expect(signed).toHaveLength(1);
+  expect(published).toHaveLength(0);
+});
+
+test('remove_tag drops every matching tag and add_tag skips tags already present', () => {
+  const latest = contactList('v1', 100, [bob, carol]) as any;
+
+  const unfollowed = buildUnsignedEvent('@unfollow', { kind: 3, remove_tag: ['p', bob] }, undefined, { now, latest });
+  const refollowed = buildUnsignedEvent('@follow', { kind: 3, add_tag: ['p', carol] }, undefined, { now, latest });
+  const bookmarked = buildUnsignedEvent('@bookmark', {
+    kind: 30003, d: 'reading', add_tag: ['e', 'f'.repeat(64)], tags: [['title', 'Reading']]
+  }, undefined, { now, latest: null });
+
+  expect(unfollowed.tags).toEqual([['p', carol, 'wss://relay.example']]);
+  expect(refollowed.tags).toEqual(latest.tags);
+  expect(bookmarked.tags).toEqual([['d', 'reading'], ['title', 'Reading'], ['e', 'f'.repeat(64)]]);
+  expect(() => buildUnsignedEvent('@follow', { kind: 1, add_tag: ['p', bob] }, undefined, { latest: null }))
+    .toThrow('add_tag and remove_tag need a replaceable kind');
+  expect(() => buildUnsignedEvent('@follow', { kind: 3, add_tag: ['p', '{target.pubkey}'] }, undefined, { latest: null }))
+    .toThrow('add_tag has unresolved values');
+});
+
+test('addressable lists are fetched by their d tag', async () => {
+  const filters: any[] = [];
+  const source = { fetchEventsWithEose: async (f: any[]) => { filters.push(...f); return { events: [], eose: ['wss://relay.example/'] }; } };
+
+  expect(await fetchLatestVersion(source, '@bookmark', { kind: 30003, d: 'reading' }, alice)).toBeNull();
+  expect(filters).toEqual([{ kinds: [30003], authors: [alice], limit: 1, '#d': ['reading'] }]);
+  await expect(fetchLatestVersion(source, '@bookmark', { kind: 3 }, null)).rejects.toThrow('editing tags needs a logged in user');
+});
+
+test('refuses to start a fresh list when no relay answered', async () => {
+  const signed: any[] = [];
+  const published: any[] = [];
+  const { executor } = followExecutor([], signed, published);
+
+  const error = await executor.executeAction('follow', {}).catch(e => e);
+
+  expect(error).toBeInstanceOf(EventTemplateError);
+  expect(error.message).toContain('no relay answered for your latest kind 3 event');
+  expect(signed).toHaveLength(0);
+  expect(published).toHaveLength(0);
+});
+
+test('the client only counts relays that sent EOSE as answering', async () => {
+  const relay = startRelay();
+  const client = new SNSTRClient([relay.url], () => {}, { outbox: false });
+
+  try {
+    await client.connect();
+    const result = await client.fetchEventsWithEose([{ kinds: [3], authors: [alice], relays: ['ws://localhost:1'] }], 2000);
+
+    expect(result).toEqual({ events: [], eose: [relay.url] });
+  } finally {
+    client.disconnect();
+    relay.stop();
+  }
+});
@@ -0,0 +1,115 @@
+import { test, expect } from 'bun:test';
+import { parseExpression, evaluate, interpolate, ExpressionError, PARSE_CACHE_SIZE } from '../src/lib/expression';
+import { tokenize, TokenizerError } from '../src/lib/tokenizer';
+
+const data: Record<string, any> = {
+  $posts: [{ id: 'a', content: 'first' }, { id: 'b', content: 'second' }],
+  $count: 3,
+  $name: 'alice',
+  $empty: [],
+  user: { pubkey: 'abc123' }
+};
+
+const resolve = (root: string) => data[root];
+
+test('Comparison and logical operators evaluate correctly', () => {
+  expect(evaluate('$count > 2', resolve)).toBe(true);
+  expect(evaluate('$count >= 4', resolve)).toBe(false);
+  expect(evaluate('$count != 3', resolve)).toBe(false);
+  expect(evaluate('$name == "alice"', resolve)).toBe(true);
+  expect(evaluate('$count > 2 && $name == "bob"', resolve)).toBe(false);
+  expect(evaluate('$count > 2 || $name == "bob"', resolve)).toBe(true);
+  expect(evaluate('!($count < 2)', resolve)).toBe(true);
+  expect(evaluate('($count + 1) * 2', resolve)).toBe(8);
+});
+
+test('Property access supports .length and array indexing', () => {
+  expect(evaluate('$posts.length', resolve)).toBe(2);
+  expect(evaluate('$posts.length > 0', resolve)).toBe(true);
+  expect(evaluate('$empty.length == 0', resolve)).toBe(true);
+  expect(evaluate('$posts.1.content', resolve)).toBe('second');
+  expect(evaluate('$posts.0.id.length', resolve)).toBe(1);
+  expect(evaluate('$tags.0.1', () => [['d', 'slug']])).toBe('slug');
+  expect(evaluate('$name.length', resolve)).toBe(5);
+  expect(evaluate('user.pubkey', resolve)).toBe('abc123');
+});
+
+test('Fallback with or skips missing values', () => {
+  expect(evaluate('$missing or "default"', resolve)).toBe('default');
+  expect(evaluate('$count or 0', resolve)).toBe(3);
+});
+
+test('Expressions cannot reach outside their data', () => {
+  expect(evaluate('$posts.constructor', resolve)).toBeUndefined();
+  expect(evaluate('$name.__proto__', resolve)).toBeUndefined();
+  expect(() => parseExpression('$posts.map(x)')).toThrow(ExpressionError);
+  expect(() => parseExpression('globalThis["eval"]')).toThrow(ExpressionError);
+});
+
+test('Parse errors report the offending offset', () => {
+  const cases = [
+    { source: '$count >', offset: 8, code: 'UNEXPECTED_END' },
+    { source: '$count = 3', offset: 7, code: 'UNEXPECTED_CHARACTER' },
+    { source: '($count > 1', offset: 0, code: 'UNCLOSED_PAREN' },
+    { source: '$name == "bob', offset: 9, code: 'UNCLOSED_STRING' }
+  ];
+
+  for (const { source, offset, code } of cases) {
+    try {
+      parseExpression(source);
+      throw new Error(`Expected "${source}" to fail`);
+    } catch (e) {
+      expect(e).toBeInstanceOf(ExpressionError);
+      expect((e as ExpressionError).offset).toBe(offset);
+      expect((e as ExpressionError).code).toBe(code);
+    }
+  }
+});
+
+test('The parse cache evicts the least recently used expression', () => {
+  const hot = parseExpression('$count > 1');
+  const cold = parseExpression('$count > 2');
+
+  for (let i = 0; i < PARSE_CACHE_SIZE; i++) {
+    parseExpression(`$count == ${i}`);
+    // Reusing an expression keeps it cached
+    expect(parseExpression('$count > 1')).toBe(hot);
+  }
+
+  expect(parseExpression('$count > 2')).not.toBe(cold);
+  expect(parseExpression('$count > 2')).toEqual(cold);
+});
+
+test('Interpolation resolves expressions inside braces', () => {
+  expect(interpolate('Hello {$name}, you have {$posts.length} posts', resolve))
+    .toBe('Hello alice, you have 2 posts');
+  expect(interpolate('{$missing or "nobody"}', resolve)).toBe('nobody');
+  expect(interpolate('{$missing}', resolve)).toBe('');
+});
+
+test('Invalid [if] conditions report the column of the error', () => {
+  try {
+    tokenize('# Title\n[if $posts.length >]\nShown\n[/if]', true);
+    throw new Error('Expected tokenize to fail');
+  } catch (e) {
+    expect(e).toBeInstanceOf(TokenizerError);
+    const error = e as TokenizerError;
+    expect(error.code).toBe('INVALID_EXPRESSION');
+    expect(error.line).toBe(2);
+    // The condition starts at column 5 and ends after 15 characters
+    expect(error.column).toBe(20);
+  }
+});
+
+test('Valid [if] expressions tokenize in strict mode', () => {
+  const validCases = [
+    '[if $posts.length > 0 && user.pubkey]\nShown\n[/if]',
+    '[if !$loading]\nShown\n[/if]',
+    '[if ($count >= 1) || $name == "alice"]\nShown\n[/if]',
+    'Count: {$posts.length + 1}'
+  ];
+
+  for (const content of validCases) {
+    expect(() => tokenize(content, true)).not.toThrow();
+  }
+});
@@ -0,0 +1,73 @@
+import { test, expect } from 'bun:test';
+import { nip19 } from 'nostr-tools';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { decompileHypernote } from '../src/lib/decompiler';
+import { evaluateHypernote } from '../src/lib/render/evaluate';
+import { targetFormResponse, getTargetedArgument } from '../src/lib/core/forms';
+
+const eventId = 'e'.repeat(64);
+
+// The "Form Response Targeting" example from the README
+const hnmd = `---
+"#note_viewer": naddr1viewer
+"@post_note":
+  kind: 1
+  content: "{form.message}"
+---
+
+# Post a note, targeting the viewer below
+[form @post_note target="#note-display"]
+  [textarea name="message" placeholder="New post..."]
+  [button]Post[/button]
+[/form]
+
+# This specific instance will be updated
+[#note_viewer "" {#note-display}]`;
+
+test('forms compile a target and component instances an elementId', () => {
+  const compiled: any = compileHypernoteToContent(hnmd);
+  const form = compiled.elements.find((el: any) => el.type === 'form');
+  const viewer = compiled.elements.find((el: any) => el.type === 'component');
+
+  expect(form.event).toBe('@post_note');
+  expect(form.target).toBe('note-display');
+  expect(form.attributes).toBeUndefined();
+  expect(viewer).toEqual({ type: 'component', alias: 'note_viewer', argument: '', elementId: 'note-display' });
+});
+
+test('a form response replaces the targeted component argument with the new nevent', () => {
+  const targetArguments = targetFormResponse({}, '#note-display', eventId);
+  const nevent = nip19.neventEncode({ id: eventId });
+
+  expect(targetArguments).toEqual({ 'note-display': nevent });
+  expect(targetFormResponse(targetArguments, undefined, eventId)).toBe(targetArguments);
+  expect(getTargetedArgument({ elementId: 'note-display', argument: '' }, targetArguments)).toBe(nevent);
+  expect(getTargetedArgument({ elementId: 'other', argument: 'npub1x' }, targetArguments)).toBe('npub1x');
+});
+
+test('only the targeted component instance renders with the response', () => {
+  const compiled = compileHypernoteToContent(`${hnmd}
+
+[#note_viewer "" {#untouched}]`);
+  const nevent = nip19.neventEncode({ id: eventId });
+  const seen: string[] = [];
+
+  evaluateHypernote(compiled, {
+    targetArguments: targetFormResponse({}, '#note-display', eventId),
+    resolveComponent: (alias, argument) => {
+      seen.push(argument);
+      return undefined;
+    }
+  });
+
+  expect(seen).toEqual([nevent, '']);
+});
+
+test('form targets and component ids survive decompiling', () => {
+  const compiled = compileHypernoteToContent(hnmd);
+  const source = decompileHypernote(compiled);
+
+  expect(source).toContain('[form @post_note target="#note-display"]');
+  expect(source).toContain('[#note_viewer "" {#note-display}]');
+  expect(compileHypernoteToContent(source)).toEqual(compiled);
+});
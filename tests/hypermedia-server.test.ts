@@ -0,0 +1,207 @@
+import { test, expect } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { HypermediaServer, RateLimitedPublisher, PublishError, type SessionLimitOptions } from '../src/lib/hypermedia-server';
+import { LocalKeySigner } from '../src/lib/signers/local';
+import { toolFields } from '../src/lib/core/tools';
+import { memoryRelay } from './relay-stand-in';
+
+// Instant sleeps on a fake clock
+function fakeClock() {
+  const clock = { time: 0, slept: [] as number[] };
+  return {
+    clock,
+    now: () => clock.time,
+    sleep: async (ms: number) => { clock.slept.push(ms); clock.time += ms; }
+  };
+}
+
+async function startCounter(relay = memoryRelay(), sessions = false, sessionLimits?: SessionLimitOptions) {
+  const signer = LocalKeySigner.generate();
+  const { clock, ...timing } = fakeClock();
+  const server = new HypermediaServer<number>({
+    name: 'counter',
+    signer,
+    relay,
+    state: 0,
+    stateId: 'counter-value',
+    serializeState: String,
+    ui: { id: 'counter-ui', render: (count) => `## Count: ${count}` },
+    sessions,
+    sessionLimits,
+    rateLimit: timing
+  });
+  server.registerTool('add', { inputSchema: { amount: z.number() } }, ({ amount }, { state, setState }) => {
+    if (amount === 0) throw new Error('Adding zero changes nothing');
+    setState(state + amount);
+    return { count: state + amount };
+  });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.start(serverTransport);
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return { server, client, relay, clock, pubkey: await signer.getPublicKey() };
+}
+
+test('publisher spaces events and backs off when rate limited', async () => {
+  const relay = memoryRelay({ rateLimitFirst: 2 });
+  const { clock, ...timing } = fakeClock();
+  const publisher = new RateLimitedPublisher(relay, { ...timing, minInterval: 500, initialDelay: 1000 });
+  const signer = LocalKeySigner.generate();
+
+  await Promise.all([
+    publisher.publish(await signer.signEvent({ kind: 1, content: 'first' })),
+    publisher.publish(await signer.signEvent({ kind: 1, content: 'second' }))
+  ]);
+
+  expect(relay.attempts).toBe(4);
+  // Two backoffs for the first event, then the gap before the second
+  expect(clock.slept).toEqual([1000, 2000, 500]);
+});
+
+test('publisher gives up on refusals and persistent rate limits', async () => {
+  const signer = LocalKeySigner.generate();
+  const event = await signer.signEvent({ kind: 1, content: 'nope' });
+  const refused = memoryRelay({ refuse: 'blocked: not on the allow list' });
+  const limited = memoryRelay({ rateLimitFirst: 10 });
+
+  const refusal = await new RateLimitedPublisher(refused, fakeClock()).publish(event).catch(e => e);
+  const limit = await new RateLimitedPublisher(limited, { ...fakeClock(), maxRetries: 3 }).publish(event).catch(e => e);
+
+  expect(refusal).toBeInstanceOf(PublishError);
+  expect(refusal.message).toBe('Publishing kind 1 failed after 1 attempt(s): blocked: not on the allow list');
+  expect(limit.attempts).toBe(3);
+  expect(limited.attempts).toBe(3);
+});
+
+test('starting publishes the initial state and its compiled UI', async () => {
+  const { server, client, relay, pubkey } = await startCounter();
+
+  const state = relay.latest({ kinds: [30078], authors: [pubkey], '#d': ['counter-value'] });
+  const ui = relay.latest({ kinds: [32616], authors: [pubkey], '#d': ['counter-ui'] });
+  const resource = await client.readResource({ uri: `nostr:${server.addresses().state}` });
+
+  expect(state.content).toBe('0');
+  expect(JSON.parse(ui.content)).toMatchObject({ type: 'element', elements: [{ type: 'h2', content: ['Count: 0'] }] });
+  expect(JSON.parse(ui.content).elements[0].loc).toBeUndefined();
+  expect(ui.tags).toContainEqual(['hypernote', '1.1.0']);
+  expect(resource.contents[0]).toMatchObject({ text: '0' });
+});
+
+test('tool calls update the state and republish it', async () => {
+  const { server, client, relay, pubkey } = await startCounter();
+
+  const result: any = await client.callTool({ name: 'add', arguments: { amount: 5 } });
+  const failed: any = await client.callTool({ name: 'add', arguments: { amount: 0 } });
+
+  expect(JSON.parse(result.content[0].text)).toEqual({ count: 5 });
+  expect(server.getState()).toBe(5);
+  expect(relay.latest({ kinds: [30078], authors: [pubkey] }).content).toBe('5');
+  expect(JSON.parse(relay.latest({ kinds: [32616], authors: [pubkey] }).content).elements[0].content).toEqual(['Count: 5']);
+  expect(failed.isError).toBe(true);
+  expect(failed.content[0].text).toContain('Adding zero changes nothing');
+});
+
+test('the listed input schema matches what tool forms render', async () => {
+  const { client } = await startCounter();
+
+  const { tools } = await client.listTools();
+
+  expect(toolFields(tools[0] as any)).toEqual([{ name: 'amount', label: 'amount', type: 'number', required: true }]);
+});
+
+// ContextVM transports pass the signer of the request in _meta
+function callAs(client: Client, pubkey: string, name: string, args: Record<string, unknown>) {
+  return client.callTool({ name, arguments: args, _meta: { clientPubkey: pubkey } }) as Promise<any>;
+}
+
+const alice = 'a'.repeat(64);
+const bob = 'b'.repeat(64);
+
+test('sessions keep a state per client and p-tag their players', async () => {
+  const { server, client, relay, pubkey } = await startCounter(memoryRelay(), true);
+
+  await callAs(client, alice, 'add', { amount: 2 });
+  await callAs(client, bob, 'add', { amount: 7 });
+
+  expect(server.getState(alice)).toBe(2);
+  expect(server.getState(bob)).toBe(7);
+  expect(relay.latest({ kinds: [30078], authors: [pubkey], '#p': [alice] }).content).toBe('2');
+  expect(relay.latest({ kinds: [30078], authors: [pubkey], '#p': [bob] }).tags[0]).toEqual(['d', `counter-value:${bob}`]);
+  expect(JSON.parse(relay.latest({ kinds: [32616], authors: [pubkey], '#p': [bob] }).content).elements[0].content).toEqual(['Count: 7']);
+  // Nothing is published until a session is used
+  expect(relay.latest({ kinds: [30078], authors: [pubkey], '#d': ['counter-value'] })).toBeUndefined();
+});
+
+test('joined clients share a session', async () => {
+  const { server, client, relay, pubkey } = await startCounter(memoryRelay(), true);
+
+  const joined = await callAs(client, alice, 'join_session', { session: 'friday' });
+  await callAs(client, bob, 'join_session', { session: 'friday' });
+  await callAs(client, alice, 'add', { amount: 3 });
+  await callAs(client, bob, 'add', { amount: 1, session: 'other' });
+  const sessions = await callAs(client, bob, 'list_sessions', {});
+
+  expect(JSON.parse(joined.content[0].text)).toMatchObject({ session: 'friday', created: true, players: [alice] });
+  expect(server.getState('friday')).toBe(3);
+  expect(server.getState('other')).toBe(1);
+  expect(relay.latest({ kinds: [30078], authors: [pubkey], '#d': ['counter-value:friday'] }).tags).toEqual([
+    ['d', 'counter-value:friday'], ['p', alice], ['p', bob]
+  ]);
+  expect(JSON.parse(sessions.content[0].text).map((info: any) => info.session)).toEqual(['friday', 'other']);
+  expect(JSON.parse(sessions.content[0].text)[0].state).toBe(server.addresses('friday').state);
+});
+
+test('sessions need a session id or the client pubkey', async () => {
+  const { client } = await startCounter(memoryRelay(), true);
+
+  const anonymous = await client.callTool({ name: 'add', arguments: { amount: 1 } }) as any;
+  const invalid = await callAs(client, alice, 'add', { amount: 1, session: 'no spaces please' });
+
+  expect(anonymous.isError).toBe(true);
+  expect(anonymous.content[0].text).toContain('No session');
+  expect(invalid.content[0].text).toContain('Invalid session "no spaces please"');
+});
+
+test('a session named after a pubkey is only open to that client', async () => {
+  const { server, client } = await startCounter(memoryRelay(), true);
+
+  await callAs(client, alice, 'add', { amount: 2 });
+  const intruder = await callAs(client, bob, 'add', { amount: 5, session: alice });
+  const joining = await callAs(client, bob, 'join_session', { session: alice });
+  const squatter = await callAs(client, bob, 'add', { amount: 1, session: 'c'.repeat(64) });
+  await callAs(client, alice, 'add', { amount: 1, session: alice });
+
+  expect(intruder.isError).toBe(true);
+  expect(intruder.content[0].text).toContain(`Session ${alice} belongs to another client`);
+  expect(joining.isError).toBe(true);
+  expect(squatter.isError).toBe(true);
+  expect(server.getState(alice)).toBe(3);
+  expect(server.getState('c'.repeat(64))).toBeUndefined();
+  expect(server.listSessions().map((info) => info.players)).toEqual([[alice]]);
+});
+
+test('idle sessions expire and the least recently used is dropped at the cap', async () => {
+  const clock = { time: 0 };
+  const { server, client } = await startCounter(memoryRelay(), true, { maxSessions: 2, idleTimeout: 1000, now: () => clock.time });
+
+  await callAs(client, alice, 'join_session', { session: 'friday' });
+  clock.time = 100;
+  await callAs(client, bob, 'add', { amount: 1, session: 'saturday' });
+  clock.time = 200;
+  await callAs(client, alice, 'add', { amount: 2 });
+  clock.time = 300;
+  await callAs(client, bob, 'add', { amount: 4, session: 'sunday' });
+
+  expect(server.listSessions().map((info) => info.session)).toEqual(['friday', 'sunday']);
+  expect(server.getState('friday')).toBe(2);
+
+  clock.time = 1250;
+  expect(server.listSessions().map((info) => info.session)).toEqual(['sunday']);
+  // Dropped sessions start over, and clients that joined one are back on their own
+  await callAs(client, alice, 'add', { amount: 1 });
+  expect(server.getState(alice)).toBe(1);
+  expect(server.getState('friday')).toBeUndefined();
+});
@@ -0,0 +1,138 @@
+import { test, expect } from 'bun:test';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { lintHypernote } from '../src/lib/linter';
+import { safeCompileHypernote } from '../src/lib/safe-compiler';
+import { loadExample, AVAILABLE_EXAMPLES } from './example-loader';
+
+function lint(hnmd: string) {
+  return lintHypernote(compileHypernoteToContent(hnmd, { sourceMap: true }));
+}
+
+test('examples lint clean', () => {
+  for (const exampleName of AVAILABLE_EXAMPLES) {
+    const { expectedJson } = loadExample(exampleName);
+
+    expect(lintHypernote(expectedJson)).toEqual([]);
+  }
+});
+
+test('reports forms, loops and components referencing undeclared names', () => {
+  const diagnostics = lint(`---
+"$posts":
+  kinds: [1]
+---
+[each $post as $p]
+  {$p.content}
+[/each]
+
+[form @missing]
+  [button]Go[/button]
+[/form]
+
+[#card $posts.0.pubkey]`);
+
+  expect(diagnostics).toEqual([
+    {
+      severity: 'error',
+      code: 'unknown-query',
+      message: 'Loop source $post is not a declared query',
+      loc: { line: 5, column: 1, end: { line: 7, column: 8 } }
+    },
+    {
+      severity: 'error',
+      code: 'unknown-event',
+      message: 'Form publishes @missing, which is not a declared event',
+      loc: { line: 9, column: 1, end: { line: 11, column: 8 } }
+    },
+    {
+      severity: 'error',
+      code: 'unknown-component',
+      message: 'Component #card is not imported',
+      loc: { line: 13, column: 1, end: { line: 13, column: 24 } }
+    }
+  ]);
+});
+
+test('reports triggers naming undeclared events and queries', () => {
+  const diagnostics = lint(`---
+"$count":
+  kinds: [30078]
+  triggers: "@nonexistent"
+
+"@increment":
+  kind: 1
+  triggers: "$nonexistent"
+---
+{$count}`);
+
+  expect(diagnostics.map(d => [d.code, d.message, d.loc?.line])).toEqual([
+    ['unknown-trigger', 'Query $count triggers @nonexistent, which is not a declared event', 2],
+    ['unknown-trigger', 'Event @increment triggers $nonexistent, which is not a declared query', 6]
+  ]);
+});
+
+test('warns about unused queries and undeclared variables', () => {
+  const diagnostics = lint(`---
+"$profile":
+  kinds: [0]
+
+"$unused":
+  kinds: [1]
+---
+# {$profile.name}
+
+Hello {$profle.name}`);
+
+  expect(diagnostics.map(d => [d.severity, d.code, d.message, d.loc?.line])).toEqual([
+    ['warning', 'undeclared-variable', '$profle is not a declared query, saved value or loop variable', 10],
+    ['warning', 'unused-query', 'Query $unused is never used', 5]
+  ]);
+});
+
+test('loop variables, saved values and query references are in scope', () => {
+  const diagnostics = lint(`---
+"$follows":
+  kinds: [3]
+  pipe:
+    - first
+    - save: contact_list
+
+"$feed":
+  kinds: [1]
+  authors: $follows
+
+"$counter":
+  kinds: [30078]
+  triggers: "@bump"
+
+"@bump":
+  kind: 1
+  content: "{$contact_list}"
+---
+[each $feed as $note, $i]
+  [if $i == 0 && $loop.first]
+    **{$note.content}** by {$contact_list}
+  [/if]
+  [each $note.tags as $tag]
+    {$tag}
+  [/each]
+[/each]`);
+
+  expect(diagnostics).toEqual([]);
+});
+
+test('safeCompileHypernote returns lint diagnostics', () => {
+  const result = safeCompileHypernote(`[form @nowhere]
+  [button]Send[/button]
+[/form]`, false);
+
+  expect(result.success).toBe(true);
+  expect(result.diagnostics).toEqual([
+    {
+      severity: 'error',
+      code: 'unknown-event',
+      message: 'Form publishes @nowhere, which is not a declared event',
+      loc: { line: 1, column: 1, end: { line: 3, column: 8 } }
+    }
+  ]);
+});
@@ -0,0 +1,240 @@
+import { test, expect } from 'bun:test';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { SNSTRClient } from '../src/lib/snstr/client';
+import { parseRelayList, planOutbox, planPublish, type RelayList } from '../src/lib/snstr/outbox';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { HypernoteExecutor } from '../src/lib/HypernoteExecutor';
+import { LocalKeySigner } from '../src/lib/signers/local';
+import type { SigningRequest } from '../src/lib/signing-review';
+import { startRelay } from './relay-stand-in';
+
+function user() {
+  const key = generateSecretKey();
+  return {
+    pubkey: getPublicKey(key),
+    sign: (kind: number, content = '', tags: string[][] = [], created_at = Math.floor(Date.now() / 1000)) =>
+      finalizeEvent({ kind, content, tags, created_at }, key) as any
+  };
+}
+
+const pk = (letter: string) => letter.repeat(64);
+const lists = (entries: Record<string, RelayList | null>) => new Map(Object.entries(entries));
+
+test('relay lists split read and write markers', () => {
+  const list = parseRelayList(user().sign(10002, '', [
+    ['r', 'wss://Both.example'],
+    ['r', 'wss://write.example/', 'write'],
+    ['r', 'wss://read.example', 'read'],
+    ['r', 'https://not-a-relay.example'],
+    ['p', 'wss://ignored.example']
+  ]));
+
+  expect(list).toEqual({
+    read: ['wss://both.example/', 'wss://read.example/'],
+    write: ['wss://both.example/', 'wss://write.example/']
+  });
+});
+
+test('author filters go to the fewest write relays covering everyone', () => {
+  const plan = planOutbox(
+    [{ kinds: [1], authors: [pk('a'), pk('b'), pk('c')], limit: 10 }, { kinds: [1], '#t': ['nostr'] }],
+    lists({
+      [pk('a')]: { read: [], write: ['wss://shared/', 'wss://a-only/'] },
+      [pk('b')]: { read: [], write: ['wss://shared/', 'wss://default/'] },
+      [pk('c')]: null
+    }),
+    ['wss://default/'],
+    { relaysPerAuthor: 2 }
+  );
+
+  expect(Object.fromEntries(plan)).toEqual({
+    'wss://shared/': [{ kinds: [1], authors: [pk('a'), pk('b')], limit: 10 }],
+    'wss://a-only/': [{ kinds: [1], authors: [pk('a')], limit: 10 }],
+    'wss://default/': [{ kinds: [1], authors: [pk('b'), pk('c')], limit: 10 }, { kinds: [1], '#t': ['nostr'] }]
+  });
+});
+
+test('the fan-out cap sends uncovered authors to the default relays', () => {
+  const relayLists = lists({
+    [pk('a')]: { read: [], write: ['wss://one/'] },
+    [pk('b')]: { read: [], write: ['wss://two/'] },
+    [pk('c')]: { read: [], write: ['wss://two/'] }
+  });
+
+  const plan = planOutbox([{ authors: [pk('a'), pk('b'), pk('c')] }], relayLists, ['wss://default/'], { maxRelays: 1 });
+  // Tool responses are ephemeral - they never reach write relays
+  const ephemeral = planOutbox([{ kinds: [25910], authors: [pk('a')] }], relayLists, ['wss://default/']);
+
+  expect([...plan.keys()]).toEqual(['wss://default/', 'wss://two/']);
+  expect(plan.get('wss://default/')).toEqual([{ authors: [pk('a')] }]);
+  expect([...ephemeral.keys()]).toEqual(['wss://default/']);
+});
+
+test('publishes reach the write relays of the author and the read relays of tagged users', () => {
+  const author = user();
+  const relayLists = lists({
+    [author.pubkey]: { read: ['wss://mine-read/'], write: ['wss://mine/'] },
+    [pk('b')]: { read: ['wss://inbox-b/'], write: ['wss://outbox-b/'] },
+    [pk('c')]: { read: ['wss://inbox-c/'], write: [] }
+  });
+  const reply = author.sign(1, 'hi', [['p', pk('b')], ['p', pk('c')]]);
+  const contacts = author.sign(3, '', [['p', pk('b')], ['p', pk('c')]]);
+
+  expect(planPublish(reply, relayLists, ['wss://default/'])).toEqual(['wss://default/', 'wss://mine/', 'wss://inbox-b/', 'wss://inbox-c/']);
+  expect(planPublish(reply, relayLists, ['wss://default/'], { maxRelays: 2 })).toEqual(['wss://default/', 'wss://mine/', 'wss://inbox-b/']);
+  expect(planPublish(contacts, relayLists, ['wss://default/'])).toEqual(['wss://default/', 'wss://mine/']);
+});
+
+test('the client queries authors on their own relays and merges the results', async () => {
+  const alice = user();
+  const bob = user();
+  const carol = user();
+  const aliceRelay = startRelay([alice.sign(1, 'from alice')]);
+  const bobRelay = startRelay([bob.sign(1, 'from bob')]);
+  const main = startRelay([
+    alice.sign(10002, '', [['r', aliceRelay.url]]),
+    bob.sign(10002, '', [['r', bobRelay.url, 'write']]),
+    carol.sign(1, 'from carol')
+  ]);
+  const client = new SNSTRClient([main.url], () => {});
+
+  try {
+    await client.connect();
+    const events = await client.fetchEvents([{ kinds: [1], authors: [alice.pubkey, bob.pubkey, carol.pubkey] }], 2000);
+    // Relay lists are cached - the second query only goes to the write relays
+    const again = await client.fetchEvents([{ kinds: [1], authors: [alice.pubkey] }], 2000);
+
+    expect(events.map((event) => event.content).sort()).toEqual(['from alice', 'from bob', 'from carol']);
+    expect(again.map((event) => event.content)).toEqual(['from alice']);
+    expect(aliceRelay.requests()).toEqual([{ kinds: [1], authors: [alice.pubkey] }, { kinds: [1], authors: [alice.pubkey] }]);
+    expect(main.requests().filter((filter) => filter.kinds[0] === 10002)).toHaveLength(1);
+    expect(client.getConnectedRelays()).toEqual([main.url]);
+    expect(client.getRelayStatuses().map((status) => status.url).sort()).toEqual([aliceRelay.url, bobRelay.url, main.url].sort());
+  } finally {
+    client.disconnect();
+    [aliceRelay, bobRelay, main].forEach((relay) => relay.stop());
+  }
+});
+
+test('extra connections are capped by closing the least recently used idle relays', async () => {
+  const authors = [user(), user(), user(), user()];
+  const writeRelays = authors.map((author) => startRelay([author.sign(1, 'post')]));
+  const main = startRelay(authors.map((author, i) => author.sign(10002, '', [['r', writeRelays[i].url, 'write']])));
+  const client = new SNSTRClient([main.url], () => {}, { maxExtraConnections: 2 });
+  const extraRelays = () => client.getRelayStatuses().map((status) => status.url).filter((url) => url !== main.url);
+
+  try {
+    await client.connect();
+    const events = await client.fetchEvents([{ kinds: [1], authors: authors.map((author) => author.pubkey) }], 2000);
+
+    expect(events).toHaveLength(4);
+    expect(extraRelays()).toHaveLength(2);
+
+    // A closed relay opens again when a request needs it, pushing out the least recently used one
+    const again = await client.fetchEvents([{ kinds: [1], authors: [authors[0].pubkey] }], 2000);
+    expect(again).toHaveLength(1);
+    expect(extraRelays()).toHaveLength(2);
+    expect(extraRelays()).toContain(writeRelays[0].url);
+  } finally {
+    client.disconnect();
+    [main, ...writeRelays].forEach((relay) => relay.stop());
+  }
+});
+
+test('live subscriptions follow authors to their write relays', async () => {
+  const alice = user();
+  const aliceRelay = startRelay();
+  const main = startRelay([alice.sign(10002, '', [['r', aliceRelay.url]])]);
+  const client = new SNSTRClient([main.url], () => {});
+
+  try {
+    await client.connect();
+    const received: string[] = [];
+    await new Promise<void>((resolve) => {
+      const close = client.subscribeLive([{ kinds: [1], authors: [alice.pubkey] }], (event) => {
+        received.push(event.content);
+        close();
+        resolve();
+      }, () => aliceRelay.add(alice.sign(1, 'live from alice')));
+    });
+
+    expect(received).toEqual(['live from alice']);
+  } finally {
+    client.disconnect();
+    [aliceRelay, main].forEach((relay) => relay.stop());
+  }
+});
+
+test('the client publishes to the outbox and tagged inboxes, skipping dead relays', async () => {
+  const alice = user();
+  const bob = user();
+  const aliceOutbox = startRelay();
+  const bobInbox = startRelay();
+  const main = startRelay([
+    alice.sign(10002, '', [['r', aliceOutbox.url, 'write'], ['r', 'ws://localhost:1/', 'write']]),
+    bob.sign(10002, '', [['r', bobInbox.url, 'read']])
+  ]);
+  const client = new SNSTRClient([main.url], () => {});
+
+  try {
+    await client.connect();
+    const reply = alice.sign(1, 'hi bob', [['p', bob.pubkey]]);
+    const result = await client.publishEvent(reply);
+    // Publishing doesn't wait for OK - let the relays receive it
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(result.successCount).toBe(3);
+    expect(result.results).toContainEqual({ relay: 'ws://localhost:1/', success: false, error: 'Connection failed' });
+    for (const relay of [main, aliceOutbox, bobInbox]) {
+      expect(relay.stored.map((event) => event.id)).toContain(reply.id);
+    }
+  } finally {
+    client.disconnect();
+    [aliceOutbox, bobInbox, main].forEach((relay) => relay.stop());
+  }
+});
+
+test('signing reviews list the outbox relays the action is published to', async () => {
+  const signer = LocalKeySigner.generate();
+  const bob = user();
+  const outbox = startRelay();
+  const bobInbox = startRelay();
+  const main = startRelay([
+    await signer.signEvent({ kind: 10002, content: '', tags: [['r', outbox.url, 'write']] }) as any,
+    bob.sign(10002, '', [['r', bobInbox.url, 'read']])
+  ]);
+  const client = new SNSTRClient([main.url], () => {});
+  const requests: SigningRequest[] = [];
+  const executor = new HypernoteExecutor(
+    compileHypernoteToContent(`---
+"@reply":
+  kind: 1
+  content: "hi"
+  tags: [["p", "${bob.pubkey}"]]
+---
+[form @reply]
+  [button]Reply[/button]
+[/form]`),
+    { user: { pubkey: await signer.getPublicKey() }, queryResults: new Map(), actionResults: new Map() },
+    client,
+    { clear: () => {} } as any,
+    signer,
+    (request) => { requests.push(request); return true; }
+  );
+
+  try {
+    await client.connect();
+    const id = await executor.executeAction('@reply', {});
+    // Publishing doesn't wait for OK - let the relays receive it
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(requests[0].relays).toEqual([main.url, outbox.url, bobInbox.url]);
+    for (const relay of [main, outbox, bobInbox]) {
+      expect(relay.stored.map((event) => event.id)).toContain(id);
+    }
+  } finally {
+    executor.cleanup();
+    client.disconnect();
+    [outbox, bobInbox, main].forEach((relay) => relay.stop());
+  }
+});
@@ -0,0 +1,118 @@
+import { test, expect } from 'bun:test';
+import { nip19 } from 'nostr-tools';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { decompileHypernote } from '../src/lib/decompiler';
+import { HypernoteExecutor } from '../src/lib/HypernoteExecutor';
+import { parseEventAddress } from '../src/lib/componentResolver';
+import { SNSTRClient } from '../src/lib/snstr/client';
+import { LocalKeySigner } from '../src/lib/signers/local';
+import { approveAll } from '../src/lib/signing-review';
+import { startRelay } from './relay-stand-in';
+
+const key = generateSecretKey();
+const pubkey = getPublicKey(key);
+const sign = (kind: number, content: string, tags: string[][] = []) =>
+  finalizeEvent({ kind, content, tags, created_at: Math.floor(Date.now() / 1000) }, key) as any;
+
+test('naddr relay hints are kept in component queries and decompile back into the naddr', () => {
+  const naddr = nip19.naddrEncode({ kind: 32616, pubkey, identifier: 'card', relays: ['wss://niche.example'] });
+  const plain = nip19.naddrEncode({ kind: 32616, pubkey, identifier: 'card' });
+
+  const compiled = compileHypernoteToContent(`---\n"#card": "${naddr}"\n"#plain": "${plain}"\n---\n[#card]`);
+
+  expect(compiled.queries!['#card']).toEqual({
+    kinds: [32616], authors: [pubkey], '#d': ['card'], limit: 1, relays: ['wss://niche.example'], pipe: [{ op: 'first' }]
+  });
+  expect(compiled.queries!['#plain'].relays).toBeUndefined();
+  expect(decompileHypernote(compiled)).toContain(`'#card': ${naddr}`);
+  expect(parseEventAddress(naddr)).toEqual({ kind: 32616, pubkey, identifier: 'card', relays: ['wss://niche.example'] });
+});
+
+test('queries and event templates take a relays list', () => {
+  const compiled = compileHypernoteToContent(`---
+"$notes":
+  kinds: [1]
+  relays: ["wss://niche.example"]
+"@post":
+  kind: 1
+  content: "{form.message}"
+  relays: ["wss://niche.example"]
+---
+# Notes`);
+
+  expect(compiled.queries!['$notes'].relays).toEqual(['wss://niche.example']);
+  expect(compiled.events!['@post'].relays).toEqual(['wss://niche.example']);
+});
+
+test('hinted relays are connected on demand and queried alongside the defaults', async () => {
+  const niche = startRelay([sign(1, 'only on the niche relay')]);
+  const main = startRelay([sign(1, 'on the main relay')]);
+  const client = new SNSTRClient([main.url], () => {});
+
+  try {
+    await client.connect();
+    const events = await client.fetchEvents([{ kinds: [1], relays: [niche.url, 'not a relay'] }], 2000);
+
+    expect(events.map((event) => event.content).sort()).toEqual(['on the main relay', 'only on the niche relay']);
+    // The hint is for the client - relays only see the filter
+    expect(niche.requests()).toEqual([{ kinds: [1] }]);
+    expect(main.requests()).toEqual([{ kinds: [1] }]);
+  } finally {
+    client.disconnect();
+    [niche, main].forEach((relay) => relay.stop());
+  }
+});
+
+test('hinted relays work while the default relays are down', async () => {
+  const niche = startRelay([sign(1, 'still here')]);
+  const client = new SNSTRClient(['ws://localhost:1'], () => {});
+
+  try {
+    await client.connect();
+    const events = await client.fetchEvents([{ kinds: [1], relays: [niche.url] }], 2000);
+
+    expect(events.map((event) => event.content)).toEqual(['still here']);
+    await expect(client.fetchEvents([{ kinds: [1] }])).rejects.toThrow('No relays connected');
+  } finally {
+    client.disconnect();
+    niche.stop();
+  }
+});
+
+test('actions publish to their template relays too', async () => {
+  const niche = startRelay();
+  const main = startRelay();
+  const client = new SNSTRClient([main.url], () => {}, { outbox: false });
+  const compiled = compileHypernoteToContent(`---
+"@post":
+  kind: 1
+  content: "{form.message}"
+  relays: ["${niche.url}"]
+---
+[form @post]
+  [input name="message"]
+[/form]`);
+  const executor = new HypernoteExecutor(
+    compiled,
+    { user: { pubkey: null }, queryResults: new Map(), actionResults: new Map() },
+    client,
+    { clear: () => {} } as any,
+    LocalKeySigner.generate(),
+    approveAll
+  );
+
+  try {
+    await client.connect();
+    const id = await executor.executeAction('@post', { message: 'hello niche' });
+    // Publishing doesn't wait for OK - let the relays receive it
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(niche.stored.map((event) => event.id)).toEqual([id]);
+    expect(main.stored.map((event) => event.id)).toEqual([id]);
+  } finally {
+    executor.cleanup();
+    client.disconnect();
+    [niche, main].forEach((relay) => relay.stop());
+  }
+});
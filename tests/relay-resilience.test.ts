@@ -0,0 +1,121 @@
+import { test, expect } from 'bun:test';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools/pure';
+import { SNSTRClient, reconnectDelay, type RelayStatus } from '../src/lib/snstr/client';
+import { startRelay } from './relay-stand-in';
+
+const key = generateSecretKey();
+const sign = (content: string) =>
+  finalizeEvent({ kind: 1, content, tags: [], created_at: Math.floor(Date.now() / 1000) }, key) as any;
+
+// Fast retries so tests don't wait on the real backoff
+const reconnect = { initialDelay: 20, maxDelay: 40 };
+
+async function waitFor(condition: () => boolean, timeout = 3000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const statusOf = (client: SNSTRClient, url: string) => client.getRelayStatuses().find((status) => status.url === url);
+
+test('reconnect delays back off exponentially with jitter', () => {
+  expect(reconnectDelay(0, {}, () => 0)).toBe(500);
+  expect(reconnectDelay(0, {}, () => 1)).toBe(1000);
+  expect(reconnectDelay(3, {}, () => 1)).toBe(8000);
+  expect(reconnectDelay(10, {}, () => 0)).toBe(15000);
+  expect(reconnectDelay(10, { initialDelay: 100, maxDelay: 2000 }, () => 1)).toBe(2000);
+});
+
+test('live subscriptions are restored after the relay restarts and catch up on the gap', async () => {
+  const relay = startRelay([sign('before')]);
+  const client = new SNSTRClient([relay.url], () => {}, { reconnect });
+  const received: string[] = [];
+  let eoseCount = 0;
+
+  try {
+    await client.connect();
+    const close = client.subscribeLive([{ kinds: [1] }], (event) => received.push(event.content), () => eoseCount++);
+    await waitFor(() => eoseCount === 1);
+
+    relay.stop();
+    await waitFor(() => statusOf(client, relay.url)?.state !== 'connected');
+    relay.add(sign('while down'));
+    relay.restart();
+
+    await waitFor(() => received.includes('while down'));
+    relay.add(sign('after'));
+    await waitFor(() => received.includes('after'));
+    close();
+
+    expect(received).toEqual(['before', 'while down', 'after']);
+    // Callers heard about stored events once - the restore asked only for what happened since the drop
+    expect(eoseCount).toBe(1);
+    const [first, restored] = relay.requests();
+    expect(first).toEqual({ kinds: [1] });
+    expect(restored.since).toBeGreaterThan(Math.floor(Date.now() / 1000) - 120);
+    expect(statusOf(client, relay.url)).toMatchObject({ state: 'connected', reconnectAttempts: 0, subscriptions: 0 });
+  } finally {
+    client.disconnect();
+    relay.stop();
+  }
+});
+
+test('relays with subscriptions keep reconnecting while idle relays give up', async () => {
+  const idle = startRelay();
+  const busy = startRelay();
+  const idleClient = new SNSTRClient([idle.url], () => {}, { reconnect: { ...reconnect, maxAttempts: 2 } });
+  const busyClient = new SNSTRClient([busy.url], () => {}, { reconnect: { ...reconnect, maxAttempts: 2 } });
+
+  try {
+    await Promise.all([idleClient.connect(), busyClient.connect()]);
+    const close = busyClient.subscribeLive([{ kinds: [1] }], () => {});
+    await waitFor(() => busy.requests().length === 1);
+
+    idle.stop();
+    busy.stop();
+    await waitFor(() => (statusOf(busyClient, busy.url)?.reconnectAttempts ?? 0) > 4);
+
+    expect(statusOf(idleClient, idle.url)).toMatchObject({ state: 'disconnected', reconnectAttempts: 2 });
+    expect(statusOf(idleClient, idle.url)?.nextReconnectAt).toBeUndefined();
+
+    busy.restart();
+    await waitFor(() => busy.requests().length === 2);
+    expect(statusOf(busyClient, busy.url)).toMatchObject({ state: 'connected', reconnectAttempts: 0, subscriptions: 1 });
+    close();
+  } finally {
+    idleClient.disconnect();
+    busyClient.disconnect();
+    [idle, busy].forEach((relay) => relay.stop());
+  }
+});
+
+test('CLOSED and NOTICE messages show up in the relay statuses', async () => {
+  const relay = startRelay();
+  const client = new SNSTRClient([relay.url], () => {}, { reconnect });
+  const updates: RelayStatus[][] = [];
+  const stop = client.onRelayStatus((statuses) => updates.push(statuses));
+
+  try {
+    await client.connect();
+    client.subscribeLive([{ kinds: [1] }], () => {});
+    await waitFor(() => relay.requests().length === 1);
+
+    relay.closeSubscriptions('auth-required: sign in first');
+    relay.notice('slow down');
+    await waitFor(() => statusOf(client, relay.url)?.lastNotice === 'slow down');
+
+    expect(statusOf(client, relay.url)).toMatchObject({
+      state: 'connected',
+      subscriptions: 0,
+      lastError: 'Subscription closed: auth-required: sign in first'
+    });
+    expect(updates.at(-1)).toEqual(client.getRelayStatuses());
+    expect(updates.map((statuses) => statuses[0]?.state)).toContain('connecting');
+  } finally {
+    stop();
+    client.disconnect();
+    relay.stop();
+  }
+});
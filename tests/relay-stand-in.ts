@@ -0,0 +1,142 @@
+// Test relays - a minimal NIP-01 relay on a local port (stores events, answers REQs with EOSE and streams
+// live matches) and an in-memory one for code that takes a relay-like object instead of relay URLs
+import { matchFilter } from 'nostr-tools';
+import type { ServerWebSocket } from 'bun';
+import type { NostrEvent } from '../src/lib/snstr/nip07';
+
+type Socket = ServerWebSocket<{ subscriptions: Map<string, any[]> }>;
+
+export function startRelay(events: NostrEvent[] = []) {
+  const stored = [...events];
+  const received: any[][] = [];
+  const sockets = new Set<Socket>();
+
+  const serve = (port: number) => Bun.serve({
+    port,
+    fetch(request, server) {
+      return server.upgrade(request, { data: { subscriptions: new Map() } }) ? undefined : new Response('relay', { status: 426 });
+    },
+    websocket: {
+      open(ws: Socket) {
+        sockets.add(ws);
+      },
+      close(ws: Socket) {
+        sockets.delete(ws);
+      },
+      message(ws: Socket, data) {
+        const message = JSON.parse(String(data));
+        received.push(message);
+        const [type, ...rest] = message;
+
+        if (type === 'REQ') {
+          const [subId, ...filters] = rest;
+          ws.data.subscriptions.set(subId, filters);
+          const matches = stored
+            .filter((event) => filters.some((filter: any) => matchFilter(filter, event)))
+            .sort((a, b) => b.created_at - a.created_at);
+          for (const event of matches) ws.send(JSON.stringify(['EVENT', subId, event]));
+          ws.send(JSON.stringify(['EOSE', subId]));
+        } else if (type === 'CLOSE') {
+          ws.data.subscriptions.delete(rest[0]);
+        } else if (type === 'EVENT') {
+          relay.add(rest[0]);
+          ws.send(JSON.stringify(['OK', rest[0].id, true, '']));
+        }
+      }
+    }
+  });
+  let server = serve(0);
+  const port = server.port;
+  const broadcast = (message: any[]) => sockets.forEach((ws) => ws.send(JSON.stringify(message)));
+
+  const relay = {
+    url: `ws://localhost:${port}/`,
+    stored,
+    received,
+    // Store an event and deliver it to live subscriptions
+    add(event: NostrEvent) {
+      stored.push(event);
+      for (const ws of sockets) {
+        ws.data.subscriptions.forEach((filters, subId) => {
+          if (filters.some((filter: any) => matchFilter(filter, event))) ws.send(JSON.stringify(['EVENT', subId, event]));
+        });
+      }
+    },
+    // Filters this relay was asked for
+    requests() {
+      return received.filter(([type]) => type === 'REQ').flatMap(([, , ...filters]) => filters);
+    },
+    notice(message: string) {
+      broadcast(['NOTICE', message]);
+    },
+    // End every live subscription with CLOSED
+    closeSubscriptions(reason: string) {
+      for (const ws of sockets) {
+        ws.data.subscriptions.forEach((_, subId) => ws.send(JSON.stringify(['CLOSED', subId, reason])));
+        ws.data.subscriptions.clear();
+      }
+    },
+    // Open client connections
+    connections() {
+      return sockets.size;
+    },
+    // Drops every connection - events added while stopped are kept for restart()
+    stop() {
+      server.stop(true);
+      sockets.clear();
+    },
+    // Serve again on the same port
+    restart() {
+      server = serve(port);
+    }
+  };
+  return relay;
+}
+
+/**
+ * Delivers every published event to matching subscriptions, without a socket
+ * Has the SNSTRClient methods transports use (subscribeLive, publishEvent) and the EventRelay publish
+ * rateLimitFirst rejects the first publishes like a busy relay, refuse rejects every publish with that message
+ */
+export function memoryRelay(options: { rateLimitFirst?: number; refuse?: string } = {}) {
+  const subscriptions = new Set<{ filters: any[]; onEvent: (event: any) => void }>();
+  const published: any[] = [];
+  let rateLimited = options.rateLimitFirst ?? 0;
+
+  const relay = {
+    published,
+    attempts: 0,
+    subscribeLive(filters: any[], onEvent: (event: any) => void) {
+      const subscription = { filters, onEvent };
+      subscriptions.add(subscription);
+      return () => { subscriptions.delete(subscription); };
+    },
+    async publishEvent(event: any) {
+      relay.attempts++;
+      if (rateLimited > 0) {
+        rateLimited--;
+        throw new Error('rate-limited: slow down there chief');
+      }
+      if (options.refuse) throw new Error(options.refuse);
+      published.push(event);
+      for (const { filters, onEvent } of [...subscriptions]) {
+        if (filters.some((filter) => matchFilter(filter, event))) {
+          queueMicrotask(() => onEvent(event));
+        }
+      }
+    },
+    publish(event: any) {
+      return relay.publishEvent(event);
+    },
+    // The newest published event matching a filter - newer versions of addressable events come last
+    latest(filter: any) {
+      return published.filter((event) => matchFilter(filter, event)).at(-1);
+    },
+    getConnectedRelays: () => ['wss://relay.example'],
+    planPublishRelays: async (_event: any, relays: string[] = []) => ['wss://relay.example', ...relays],
+    get subscriptionCount() {
+      return subscriptions.size;
+    }
+  };
+  return relay;
+}
@@ -0,0 +1,145 @@
+import { test, expect } from 'bun:test';
+import { resolveComponentProps } from '../src/lib/renderHelpers';
+import { evaluateHypernote, type ResolvedElement } from '../src/lib/render/evaluate';
+import { renderToHtml } from '../src/lib/render/html';
+
+function createContext(queryResults: Record<string, any>) {
+  return {
+    queryResults,
+    extractedVariables: {},
+    formData: {},
+    events: {},
+    userPubkey: null,
+    loopVariables: {},
+    depth: 0,
+    onFormSubmit: () => {},
+    onInputChange: () => {}
+  };
+}
+
+// Evaluate a single element the way the renderer does, without the root container
+function renderOne(element: any, options: Parameters<typeof evaluateHypernote>[1] = {}): ResolvedElement {
+  return evaluateHypernote({ elements: [element] } as any, options).children[0] as ResolvedElement;
+}
+
+test('loops expose the index variable and $loop flags', () => {
+  const loop = {
+    type: 'loop',
+    source: '$posts',
+    variable: '$post',
+    index: '$i',
+    elements: [{ type: 'p', content: ['{$i}:{$post.content}:{$loop.first}:{$loop.last}:{$loop.length}'] }]
+  };
+  const html = renderToHtml(renderOne(loop, { queryResults: { $posts: [{ id: 'a', content: 'one' }, { id: 'b', content: 'two' }] } }));
+
+  expect(html).toContain('<p>0:one:true:false:2</p>');
+  expect(html).toContain('<p>1:two:false:true:2</p>');
+});
+
+test('loops render the [empty] block when the source has no items', () => {
+  const loop = {
+    type: 'loop',
+    source: '$posts',
+    variable: '$post',
+    elements: [{ type: 'p', content: ['{$post.content}'] }],
+    empty: [{ type: 'p', content: ['No posts yet'] }]
+  };
+
+  const html = renderToHtml(renderOne(loop, { queryResults: { $posts: [] } }));
+
+  expect(html).toBe('<div><p>No posts yet</p></div>');
+});
+
+test('loops key rows by the key expression so prepended items keep their identity', () => {
+  const loop = {
+    type: 'loop',
+    source: '$posts',
+    variable: '$post',
+    key: '$post.tags.0.1',
+    elements: [{ type: 'p', content: ['{$post.content}'] }]
+  };
+  const posts = [
+    { id: 'b', content: 'new', tags: [['d', 'second']] },
+    { id: 'a', content: 'old', tags: [['d', 'first']] }
+  ];
+
+  const rows = renderOne(loop, { queryResults: { $posts: posts } }).children as ResolvedElement[];
+
+  expect(rows.map(row => row.key)).toEqual(['second', 'first']);
+});
+
+test('loops fall back to event ids for keys', () => {
+  const loop = {
+    type: 'loop',
+    source: '$posts',
+    variable: '$post',
+    elements: [{ type: 'p', content: ['{$post.content}'] }]
+  };
+  const posts = [{ id: 'b', content: 'new' }, { id: 'a', content: 'old' }];
+
+  const rows = renderOne(loop, { queryResults: { $posts: posts } }).children as ResolvedElement[];
+
+  expect(rows.map(row => row.key)).toEqual(['b', 'a']);
+});
+
+test('resolveComponentProps resolves, coerces and defaults props', () => {
+  const ctx = createContext({ $note: { id: 'abc', pubkey: 'def', tags: [['t', 'nostr']] } });
+  const declarations = {
+    compact: { type: 'boolean', default: false },
+    limit: { type: 'number', default: 10 },
+    title: { type: 'string', default: 'Untitled' },
+    tags: { type: 'json' }
+  };
+
+  const props = resolveComponentProps(
+    { compact: 'true', limit: '5', author: '{$note.pubkey}', tags: '{$note.tags}', greeting: 'Hi {$note.pubkey}' },
+    declarations,
+    ctx
+  );
+
+  expect(props).toEqual({
+    compact: true,
+    limit: 5,
+    title: 'Untitled',
+    author: 'def',
+    tags: [['t', 'nostr']],
+    greeting: 'Hi def'
+  });
+});
+
+test('resolveComponentProps falls back to defaults for values that do not coerce', () => {
+  const props = resolveComponentProps({ limit: 'many' }, { limit: { type: 'number', default: 10 } }, createContext({}));
+
+  expect(props.limit).toBe(10);
+});
+
+test('slots render caller children in the caller scope', () => {
+  const component = {
+    type: 'component',
+    alias: 'card',
+    argument: '',
+    elements: [
+      { type: 'p', content: ['{$note.content}'] },
+      { type: 'p', content: ['footer: {$note.content}'], attributes: { slot: 'footer' } }
+    ]
+  };
+  const card = {
+    type: 'element',
+    elements: [{ type: 'div', elements: [{ type: 'slot' }] }, { type: 'div', elements: [{ type: 'slot', attributes: { name: 'footer' } }] }]
+  };
+
+  const html = renderToHtml(renderOne(component, {
+    queryResults: { $note: { content: 'from caller' } },
+    resolveComponent: () => ({ hypernote: card as any, queryResults: { $note: { content: 'from component' } } })
+  }));
+
+  expect(html).toBe('<div data-component="card"><div><p>from caller</p></div><div><p>footer: from caller</p></div></div>');
+});
+
+test('slots render nothing when the component was used without children', () => {
+  const html = renderToHtml(renderOne({ type: 'component', alias: 'card', argument: '' }, {
+    resolveComponent: () => ({ hypernote: { type: 'element', elements: [{ type: 'slot' }] } as any })
+  }));
+
+  expect(html).toBe('<div data-component="card"></div>');
+});
@@ -364,4 +364,17 @@ test("should reject unsupported HTML element types with helpful error message",
   
   // Test the direct validation method also throws
   expect(() => validateHypernote(unsupportedElementExample)).toThrow();
-});
\ No newline at end of file
+});
+
+test("should reject prop names that aren't identifiers", () => {
+  const declaring = (props: Record<string, any>) => safeValidateHypernote({ version: "1.1.0", type: "element", props, elements: [] });
+  const passing = (props: Record<string, string>) => safeValidateHypernote({
+    version: "1.1.0",
+    elements: [{ type: "component", alias: "card", argument: "", props }]
+  });
+
+  expect(declaring({ my_prop: { type: "string" } }).success).toBe(true);
+  expect(declaring({ "my-prop": { type: "string" } }).success).toBe(false);
+  expect(passing({ my_prop: "x" }).success).toBe(true);
+  expect(passing({ "my-prop": "x" }).success).toBe(false);
+});
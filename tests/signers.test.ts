@@ -0,0 +1,171 @@
+import { test, expect } from 'bun:test';
+import { nip19, nip44 } from 'nostr-tools';
+import { finalizeEvent, generateSecretKey, getPublicKey, verifyEvent } from 'nostr-tools/pure';
+import { LocalKeySigner } from '../src/lib/signers/local';
+import { Nip46Signer, Nip46Error, NIP46_KIND, parseBunkerUri, createNostrConnectUri, type Nip46Transport } from '../src/lib/signers/nip46';
+import { bytesToHex } from '../src/lib/signers/signer';
+import { memoryRelay, startRelay } from './relay-stand-in';
+
+const relay = 'wss://bunker.example';
+
+// A remote signer holding userKey - answers connect, get_public_key and sign_event
+function startBunker(transport: Nip46Transport, userKey: Uint8Array, secret: string, options: { refuseSigning?: boolean; forgeSignature?: boolean } = {}) {
+  const bunkerKey = generateSecretKey();
+  const bunkerPubkey = getPublicKey(bunkerKey);
+
+  const respond = (clientPubkey: string, response: object) => {
+    const key = nip44.getConversationKey(bunkerKey, clientPubkey);
+    transport.publishEvent(finalizeEvent({
+      kind: NIP46_KIND,
+      content: nip44.encrypt(JSON.stringify(response), key),
+      tags: [['p', clientPubkey]],
+      created_at: Math.floor(Date.now() / 1000)
+    }, bunkerKey));
+  };
+
+  transport.subscribeLive([{ kinds: [NIP46_KIND], '#p': [bunkerPubkey] }], (event) => {
+    const key = nip44.getConversationKey(bunkerKey, event.pubkey);
+    const { id, method, params } = JSON.parse(nip44.decrypt(event.content, key));
+    switch (method) {
+      case 'connect':
+        return respond(event.pubkey, params[1] === secret ? { id, result: 'ack' } : { id, result: '', error: 'invalid secret' });
+      case 'get_public_key':
+        return respond(event.pubkey, { id, result: getPublicKey(userKey) });
+      case 'sign_event': {
+        if (options.refuseSigning) return respond(event.pubkey, { id, result: '', error: 'user declined' });
+        const signed = finalizeEvent(JSON.parse(params[0]), userKey);
+        // A forged answer keeps the user's pubkey but changes what was signed
+        if (options.forgeSignature) signed.content = 'tampered';
+        return respond(event.pubkey, { id, result: JSON.stringify(signed) });
+      }
+    }
+  });
+
+  return { bunkerPubkey, bunkerKey, respond, uri: `bunker://${bunkerPubkey}?relay=${encodeURIComponent(relay)}&secret=${secret}` };
+}
+
+test('local signer accepts nsec and hex keys and signs verifiable events', async () => {
+  const key = generateSecretKey();
+  const fromNsec = new LocalKeySigner(nip19.nsecEncode(key));
+  const fromHex = new LocalKeySigner(bytesToHex(key));
+
+  const event = await fromNsec.signEvent({ kind: 1, content: 'hello', created_at: 1700000000 });
+
+  expect(await fromHex.getPublicKey()).toBe(getPublicKey(key));
+  expect(fromHex.nsec).toBe(nip19.nsecEncode(key));
+  expect(verifyEvent(event as any)).toBe(true);
+  expect(event).toMatchObject({ kind: 1, content: 'hello', tags: [], created_at: 1700000000, pubkey: getPublicKey(key) });
+  expect(() => new LocalKeySigner('npub1nope')).toThrow('Expected an nsec or a 64-character hex secret key');
+});
+
+test('bunker URIs parse into the remote signer pubkey, relays and secret', () => {
+  const pubkey = 'b'.repeat(64);
+
+  expect(parseBunkerUri(`bunker://${pubkey}?relay=wss%3A%2F%2Fone&relay=wss://two&secret=s3`)).toEqual({
+    remotePubkey: pubkey,
+    relays: ['wss://one', 'wss://two'],
+    secret: 's3'
+  });
+  expect(() => parseBunkerUri(`bunker://${pubkey}`)).toThrow('Bunker URI has no relay');
+  expect(() => parseBunkerUri('nostrconnect://abc?relay=wss://one')).toThrow('Expected bunker://');
+});
+
+test('NIP-46 signer connects with a bunker URI and signs as the user', async () => {
+  const transport = memoryRelay();
+  const userKey = generateSecretKey();
+  const bunker = startBunker(transport, userKey, 'let-me-in');
+
+  const signer = await Nip46Signer.connect(bunker.uri, { transport, timeout: 1000 });
+  const event = await signer.signEvent({ kind: 1, content: 'signed remotely' });
+
+  expect(await signer.getPublicKey()).toBe(getPublicKey(userKey));
+  expect(verifyEvent(event as any)).toBe(true);
+  expect(event.pubkey).toBe(getPublicKey(userKey));
+  expect(event.content).toBe('signed remotely');
+  // Requests are encrypted - the relay never sees them in the clear
+  expect(transport.published.every((e) => !e.content.includes('signed remotely'))).toBe(true);
+  // The stored reconnect URI drops the one-time secret
+  expect(signer.bunkerUri).toBe(`bunker://${bunker.bunkerPubkey}?relay=${encodeURIComponent(relay)}`);
+  signer.close();
+});
+
+test('NIP-46 errors and refusals reject the request', async () => {
+  const transport = memoryRelay();
+  const bunker = startBunker(transport, generateSecretKey(), 'right', { refuseSigning: true });
+
+  const badSecret = await Nip46Signer.connect(bunker.uri.replace('secret=right', 'secret=wrong'), { transport, timeout: 1000 }).catch(e => e);
+  const signer = await Nip46Signer.connect(bunker.uri, { transport, timeout: 1000 });
+  const refused = await signer.signEvent({ kind: 1, content: 'no' }).catch(e => e);
+
+  expect(badSecret).toBeInstanceOf(Nip46Error);
+  expect(badSecret.message).toBe('Remote signer refused connect: invalid secret');
+  // Refusals are told apart from silence, which may pass on a retry
+  expect(badSecret.refused).toBe(true);
+  expect(refused.message).toBe('Remote signer refused sign_event: user declined');
+  signer.close();
+});
+
+test('NIP-46 signer rejects events whose signature does not verify', async () => {
+  const transport = memoryRelay();
+  const bunker = startBunker(transport, generateSecretKey(), 'right', { forgeSignature: true });
+
+  const signer = await Nip46Signer.connect(bunker.uri, { transport, timeout: 1000 });
+  const forged = await signer.signEvent({ kind: 1, content: 'original' }).catch(e => e);
+
+  expect(forged).toBeInstanceOf(Nip46Error);
+  expect(forged.message).toBe('Remote signer returned an invalid signature');
+  signer.close();
+});
+
+test('NIP-46 requests that fail to publish leave nothing pending', async () => {
+  const transport = memoryRelay();
+  const bunker = startBunker(transport, generateSecretKey(), 'right');
+  const signer = await Nip46Signer.connect(bunker.uri, { transport, timeout: 1000 });
+
+  transport.publishEvent = async () => {
+    throw new Error('No relays connected');
+  };
+  const failed = await signer.signEvent({ kind: 1, content: 'offline' }).catch(e => e);
+
+  expect(failed.message).toBe('No relays connected');
+  expect((signer as any).pending.size).toBe(0);
+  // Closing has nothing left to reject
+  signer.close();
+  await new Promise(resolve => setTimeout(resolve, 10));
+});
+
+test('NIP-46 signer waits for a remote signer to answer a nostrconnect URI', async () => {
+  const transport = memoryRelay();
+  const userKey = generateSecretKey();
+  const bunker = startBunker(transport, userKey, 'unused');
+  const clientSecretKey = generateSecretKey();
+  const uri = createNostrConnectUri({ clientSecretKey, relays: [relay], secret: 'pairing', name: 'Hypernote' });
+
+  const connecting = Nip46Signer.waitForConnection(uri, clientSecretKey, { transport, timeout: 1000 });
+  // Later, the user pastes the URI into their signer app, which answers with the secret
+  await new Promise(resolve => setTimeout(resolve, 10));
+  bunker.respond(getPublicKey(clientSecretKey), { id: 'x', result: 'pairing' });
+  const signer = await connecting;
+
+  expect(uri).toStartWith(`nostrconnect://${getPublicKey(clientSecretKey)}?relay=`);
+  expect(signer.remotePubkey).toBe(bunker.bunkerPubkey);
+  expect(await signer.getPublicKey()).toBe(getPublicKey(userKey));
+  signer.close();
+});
+
+test('NIP-46 signer closes the relays it opened when no remote signer connects', async () => {
+  const stand = startRelay();
+  const clientSecretKey = generateSecretKey();
+  const uri = createNostrConnectUri({ clientSecretKey, relays: [stand.url], secret: 'pairing', name: 'Hypernote' });
+
+  try {
+    const error = await Nip46Signer.waitForConnection(uri, clientSecretKey, { timeout: 50 }).catch(e => e);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(error).toBeInstanceOf(Nip46Error);
+    expect(error.refused).toBe(false);
+    expect(stand.connections()).toBe(0);
+  } finally {
+    stand.stop();
+  }
+});
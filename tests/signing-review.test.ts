@@ -0,0 +1,116 @@
+import { test, expect } from 'bun:test';
+import { nip19 } from 'nostr-tools';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { HypernoteExecutor } from '../src/lib/HypernoteExecutor';
+import { RelayActionExecutor } from '../src/lib/adapters';
+import {
+  createSigningRequest,
+  describeTag,
+  describeKind,
+  approveKinds,
+  SigningRejectedError,
+  type SigningRequest
+} from '../src/lib/signing-review';
+import type { Signer } from '../src/lib/signers/signer';
+
+const alice = 'a'.repeat(64);
+const relays = ['wss://relay.one', 'wss://relay.two'];
+
+function stubSigner(signEvent: (event: any) => Promise<any>): Signer {
+  return { type: 'local', getPublicKey: async () => 'a'.repeat(64), signEvent };
+}
+
+const hypernote = compileHypernoteToContent(`---
+"@save":
+  kind: 30078
+  d: "prefs"
+  json:
+    theme: "{form.theme}"
+  tags:
+    - ["p", "${alice}"]
+---
+[form @save]
+  [input name="theme"]
+  [button]Save[/button]
+[/form]`);
+
+function stubClient(published: any[]) {
+  return {
+    getConnectedRelays: () => relays,
+    planPublishRelays: async () => relays,
+    publishEvent: async (event: any) => { published.push(event); }
+  };
+}
+
+test('signing requests decode json content and explain known tags', () => {
+  const nevent = nip19.neventEncode({ id: 'f'.repeat(64) });
+  const request = createSigningRequest('@save', {
+    kind: 30078,
+    content: '{"theme":"dark"}',
+    tags: [['d', 'prefs'], ['e', 'f'.repeat(64), '', 'reply'], ['expiration', '1700000000'], ['x', '1', '2']],
+    created_at: 1
+  }, relays, { json: { theme: '{form.theme}' } });
+
+  expect(request.json).toEqual({ theme: 'dark' });
+  expect(request.relays).toEqual(relays);
+  expect(request.tags.map((t) => t.description)).toEqual([
+    'Identifier "prefs" - replaces your previous event with this identifier',
+    `References event ${nevent.slice(0, 14)}…${nevent.slice(-4)} as reply`,
+    'Expires at 2023-11-14 22:13 UTC',
+    'x: 1, 2'
+  ]);
+  expect(describeTag(['p', alice])).toStartWith(`Mentions or follows ${nip19.npubEncode(alice).slice(0, 12)}`);
+  expect(describeKind(3)).toBe('Contact list (kind 3)');
+  expect(describeKind(4242)).toBe('Kind 4242');
+});
+
+test('the executor shows the exact event to the policy and signs only after approval', async () => {
+  const requests: SigningRequest[] = [];
+  const signed: any[] = [];
+  const published: any[] = [];
+  const executor = new HypernoteExecutor(
+    hypernote,
+    { user: { pubkey: alice }, queryResults: new Map(), actionResults: new Map() },
+    stubClient(published) as any,
+    { clear: () => {} } as any,
+    stubSigner(async (event) => { signed.push(event); return { ...event, id: 'signed', pubkey: alice, sig: '' }; }),
+    async (request) => { requests.push(request); return true; }
+  );
+
+  expect(await executor.executeAction('save', { theme: 'dark' })).toBe('signed');
+
+  expect(requests).toHaveLength(1);
+  expect(requests[0].action).toBe('@save');
+  expect(requests[0].event).toEqual(signed[0]);
+  expect(requests[0].json).toEqual({ theme: 'dark' });
+  expect(requests[0].relays).toEqual(relays);
+  expect(published).toHaveLength(1);
+});
+
+test('rejected requests are never signed', async () => {
+  const signed: any[] = [];
+  const published: any[] = [];
+  const signer = stubSigner(async (event) => { signed.push(event); return { ...event, id: 'signed' }; });
+
+  const executor = new HypernoteExecutor(
+    hypernote,
+    { user: { pubkey: alice }, queryResults: new Map(), actionResults: new Map() },
+    stubClient(published) as any,
+    { clear: () => {} } as any,
+    signer,
+    approveKinds([1, 7])
+  );
+  const error = await executor.executeAction('save', { theme: 'dark' }).catch(e => e);
+
+  // The app's executor reports the rejection instead of throwing
+  const actionExecutor = new RelayActionExecutor(stubClient(published), signer, alice, () => false);
+  const eventId = await actionExecutor.execute('save', { theme: 'dark' }, hypernote, {
+    queryResults: {}, extractedVariables: {}, userPubkey: alice
+  });
+
+  expect(error).toBeInstanceOf(SigningRejectedError);
+  expect(error.message).toBe('Signing @save (kind 30078) was rejected');
+  expect(eventId).toBeUndefined();
+  expect(signed).toHaveLength(0);
+  expect(published).toHaveLength(0);
+});
@@ -0,0 +1,119 @@
+import { test, expect } from 'bun:test';
+import { SimpleQueryExecutor, QueryCycleError, buildQueryLevels } from '../src/lib/simple-query-executor';
+
+const alice = 'a'.repeat(64);
+const bob = 'b'.repeat(64);
+
+test('orders queries into dependency levels, keeping declaration order within a level', () => {
+  const levels = buildQueryLevels({
+    $feed: { kinds: [1], authors: '$follows' },
+    $profile: { kinds: [0], authors: [alice] },
+    $follows: { kinds: [3], authors: [alice] },
+    '#card': { kinds: [32616], limit: 1 },
+    $replies: { kinds: [1], '#e': ['$feed'], authors: ['$follows', '#card'] }
+  });
+
+  expect(levels).toEqual([
+    ['$profile', '$follows', '#card'],
+    ['$feed'],
+    ['$replies']
+  ]);
+});
+
+test('reports reference cycles before fetching anything', async () => {
+  let fetches = 0;
+  const executor = new SimpleQueryExecutor(
+    {
+      $ok: { kinds: [0] },
+      $a: { kinds: [1], authors: ['$b'] },
+      $b: { kinds: [1], authors: ['$c'] },
+      $c: { kinds: [1], '#e': ['$a'] }
+    },
+    {},
+    async () => { fetches++; return []; }
+  );
+
+  const error = await executor.executeAll().catch(e => e);
+
+  expect(error).toBeInstanceOf(QueryCycleError);
+  expect(error.cycle).toEqual(['$a', '$b', '$c', '$a']);
+  expect(error.message).toBe('Query reference cycle: $a -> $b -> $c -> $a');
+  expect(fetches).toBe(0);
+});
+
+test('concurrent executions of the same query are not mistaken for a cycle', async () => {
+  const queries = {
+    $follows: { kinds: [3], authors: [alice] },
+    $feed: { kinds: [1], authors: ['$follows'] },
+    $loop: { kinds: [1], authors: ['$loop'] }
+  };
+  const executor = new SimpleQueryExecutor(queries, {}, async () => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return [];
+  });
+
+  const results = await Promise.all([
+    executor.executeQuery('$follows', queries.$follows),
+    executor.executeQuery('$feed', queries.$feed),
+    executor.executeQuery('$feed', queries.$feed)
+  ]);
+  const error = await executor.executeQuery('$loop', queries.$loop).catch(e => e);
+
+  expect(results).toEqual([[], [], []]);
+  expect(error).toBeInstanceOf(QueryCycleError);
+  expect(error.cycle).toEqual(['$loop', '$loop']);
+});
+
+test('runs independent queries concurrently', async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const executor = new SimpleQueryExecutor(
+    {
+      $one: { kinds: [1] },
+      $two: { kinds: [2] },
+      $three: { kinds: [3] }
+    },
+    {},
+    async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return [];
+    }
+  );
+
+  await executor.executeAll();
+
+  expect(maxInFlight).toBe(3);
+});
+
+test('dependent queries see their dependencies and results stay in declaration order', async () => {
+  const events: Record<number, any[]> = {
+    3: [{ id: 'c1', kind: 3, pubkey: alice, created_at: 1, content: '', tags: [['p', bob]], sig: '' }],
+    1: [{ id: 'n1', kind: 1, pubkey: bob, created_at: 2, content: 'hi', tags: [], sig: '' }],
+    0: [{ id: 'p1', kind: 0, pubkey: alice, created_at: 3, content: '{}', tags: [], sig: '' }]
+  };
+  const fetched: any[] = [];
+  const executor = new SimpleQueryExecutor(
+    {
+      $feed: { kinds: [1], authors: '$follows' },
+      $follows: { kinds: [3], authors: [alice], pipe: [{ op: 'first' }, { op: 'get', field: 'tags' }, { op: 'pluckIndex', index: 1 }] },
+      $profile: { kinds: [0], authors: [alice] }
+    },
+    {},
+    async (filter) => {
+      fetched.push(filter);
+      // The query declared last answers first
+      await new Promise(resolve => setTimeout(resolve, filter.kinds[0] === 0 ? 0 : 10));
+      return events[filter.kinds[0]];
+    }
+  );
+
+  const { results, resolvedFilters } = await executor.executeAll();
+
+  expect(fetched.find(f => f.kinds[0] === 1).authors).toEqual([bob]);
+  expect([...results.keys()]).toEqual(['$feed', '$follows', '$profile']);
+  expect([...resolvedFilters.keys()]).toEqual(['$feed', '$follows', '$profile']);
+  expect(results.get('$feed')[0].content).toBe('hi');
+});
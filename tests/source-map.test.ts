@@ -0,0 +1,114 @@
+import { test, expect } from 'bun:test';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { stripSourceLocations, describeLocation, locateFrontmatterKeys } from '../src/lib/source-map';
+import { SimpleQueryExecutor } from '../src/lib/simple-query-executor';
+import { loadExample, AVAILABLE_EXAMPLES } from './example-loader';
+
+const hnmd = `---
+"$notes":
+  kinds: [1]
+  limit: 5
+
+"@post":
+  kind: 1
+  content: "{form.message}"
+---
+
+# Notes
+
+Hello **there**
+second line
+
+[each $notes as $note]
+  [if $note.content]
+    ## {$note.content}
+  [/if]
+[/each]
+
+[form @post]
+  [input name="message"]
+  [button]Post[/button]
+[/form]`;
+
+test('elements carry their HNMD source span, counting frontmatter lines', () => {
+  const compiled: any = compileHypernoteToContent(hnmd, { sourceMap: true });
+  const [heading, paragraph, loop, form] = compiled.elements;
+
+  expect(heading.loc).toEqual({ line: 11, column: 1, end: { line: 11, column: 8 } });
+  expect(paragraph.loc).toEqual({ line: 13, column: 1, end: { line: 14, column: 12 } });
+  expect(loop.loc).toEqual({ line: 16, column: 1, end: { line: 20, column: 8 } });
+  expect(loop.elements[0].loc.line).toBe(17);
+  expect(loop.elements[0].elements[0].loc).toEqual({ line: 18, column: 5, end: { line: 18, column: 23 } });
+  expect(form.loc).toEqual({ line: 22, column: 1, end: { line: 25, column: 8 } });
+  expect(form.elements[0].loc).toEqual({ line: 23, column: 3, end: { line: 23, column: 25 } });
+  expect(form.elements[1].loc.line).toBe(24);
+});
+
+test('queries and events carry the span of their frontmatter key', () => {
+  const compiled: any = compileHypernoteToContent(hnmd, { sourceMap: true });
+
+  expect(compiled.queries.$notes.loc).toEqual({ line: 2, column: 1, end: { line: 4, column: 11 } });
+  expect(compiled.events['@post'].loc).toEqual({ line: 6, column: 1, end: { line: 8, column: 28 } });
+});
+
+test('source maps are opt-in and stripping them restores the published JSON', () => {
+  for (const exampleName of AVAILABLE_EXAMPLES) {
+    const { markdown, expectedJson } = loadExample(exampleName);
+
+    const mapped = compileHypernoteToContent(markdown, { sourceMap: true });
+
+    expect(compileHypernoteToContent(markdown)).toEqual(expectedJson);
+    expect(JSON.stringify(stripSourceLocations(mapped))).not.toContain('"loc"');
+    expect(stripSourceLocations(mapped)).toEqual(expectedJson);
+  }
+});
+
+test('stripping keeps loc fields that belong to event content', () => {
+  const compiled = compileHypernoteToContent(`---
+"@save":
+  kind: 30078
+  json:
+    loc: "kitchen"
+---
+# Save`, { sourceMap: true });
+
+  expect(stripSourceLocations(compiled).events!['@save']).toEqual({ kind: 30078, json: { loc: 'kitchen' } });
+});
+
+test('locateFrontmatterKeys handles quoted keys and ignores comments and blank lines', () => {
+  const locations = locateFrontmatterKeys([
+    'title: Hello',
+    "'$a':",
+    '  kinds: [1]',
+    '',
+    '# a comment',
+    '"#card": naddr1xyz'
+  ].join('\n'), 2);
+
+  expect(locations.title).toEqual({ line: 2, column: 1, end: { line: 2, column: 13 } });
+  expect(locations.$a).toEqual({ line: 3, column: 1, end: { line: 4, column: 13 } });
+  expect(locations['#card'].line).toBe(7);
+});
+
+test('pipe failures name the query and its source line', async () => {
+  const compiled: any = compileHypernoteToContent(`---
+title: Broken
+
+"$count":
+  kinds: [1]
+  pipe:
+    - op: replace
+      from: "("
+      to: ""
+---
+{$count}`, { sourceMap: true });
+  const executor = new SimpleQueryExecutor(compiled.queries, {}, async (filter) => {
+    expect(filter.loc).toBeUndefined();
+    return [];
+  });
+
+  const error = await executor.executeAll().catch(e => e);
+
+  expect(describeLocation(compiled.queries.$count.loc)).toBe(' at line 4, column 1');
+  expect(error.message).toStartWith('Pipe failed for $count at line 4, column 1');
+});
@@ -0,0 +1,139 @@
+import { test, expect } from 'bun:test';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { nip19 } from 'nostr-tools';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { prerenderHypernote, renderHypernotePage, SSRError, SSR_PAYLOAD_ID, type EventSource } from '../src/lib/ssr';
+import { RenderHypernoteContent } from '../src/renderer';
+
+const pubkey = 'b'.repeat(64);
+
+const shell = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <title>Hypernote Elements</title>
+    <script type="module" src="./frontend.js"></script>
+  </head>
+  <body>
+    <div id="root"></div>
+  </body>
+</html>`;
+
+// In-memory relay stand-in - matches the filter fields the SSR path uses
+function createSource(events: any[]): EventSource {
+  return {
+    fetchEvents: async (filters) => {
+      const [filter] = filters;
+      return events.filter(e =>
+        (!filter.ids || filter.ids.includes(e.id)) &&
+        (!filter.kinds || filter.kinds.includes(e.kind)) &&
+        (!filter.authors || filter.authors.includes(e.pubkey)) &&
+        (!filter['#d'] || e.tags.some((t: string[]) => t[0] === 'd' && filter['#d']!.includes(t[1])))
+      ).slice(0, filter.limit);
+    }
+  };
+}
+
+function publishHypernote(identifier: string, created_at: number, hnmd: string) {
+  return {
+    id: `${identifier}-${created_at}`,
+    pubkey,
+    kind: 32616,
+    created_at,
+    content: JSON.stringify(compileHypernoteToContent(hnmd)),
+    tags: [['d', identifier]],
+    sig: ''
+  };
+}
+
+const page = `---
+type: "hypernote"
+title: "Notes <by> Bob"
+description: "Latest notes"
+
+"$notes":
+  kinds: [1]
+  authors: ["${pubkey}"]
+  limit: 5
+---
+# Recent notes
+
+Costs $& nothing
+
+[each $notes as $note]
+  {$note.content}
+[/each]`;
+
+test('prerenders the latest version of an naddr with its query results', async () => {
+  const source = createSource([
+    publishHypernote('notes', 100, '# Old draft'),
+    publishHypernote('notes', 200, page),
+    { id: 'n1', pubkey, kind: 1, created_at: 150, content: 'hello from the relay', tags: [], sig: '' }
+  ]);
+  const naddr = nip19.naddrEncode({ kind: 32616, pubkey, identifier: 'notes' });
+
+  const result = await prerenderHypernote(naddr, source);
+
+  expect(result.hypernote.title).toBe('Notes <by> Bob');
+  expect(result.html).toContain('<h1>Recent notes</h1>');
+  expect(result.html).toContain('hello from the relay');
+  expect(result.payload.identifier).toBe(naddr);
+  expect(result.payload.event.created_at).toBe(200);
+});
+
+test('renders OpenGraph tags and markup into the shell', async () => {
+  const source = createSource([publishHypernote('notes', 200, page)]);
+  const naddr = nip19.naddrEncode({ kind: 32616, pubkey, identifier: 'notes' });
+
+  const html = renderHypernotePage(shell, await prerenderHypernote(naddr, source), `https://example.com/hn/${naddr}`);
+
+  expect(html).toContain('<title>Notes &lt;by&gt; Bob</title>');
+  expect(html).toContain('<meta property="og:title" content="Notes &lt;by&gt; Bob" />');
+  expect(html).toContain('<meta property="og:description" content="Latest notes" />');
+  expect(html).toContain(`<meta property="og:url" content="https://example.com/hn/${naddr}" />`);
+  expect(html).toContain('<div id="root"><div class="hypernote-content">');
+  expect(html).not.toContain('Hypernote Elements');
+  expect(html).toContain('Costs $&amp; nothing');
+
+  // The client hydrates from the embedded payload instead of refetching
+  const embedded = html.match(new RegExp(`<script type="application/json" id="${SSR_PAYLOAD_ID}">(.*?)</script>`));
+  expect(embedded).not.toBeNull();
+  const payload = JSON.parse(embedded?.[1] ?? 'null');
+  expect(payload.event.created_at).toBe(200);
+  expect(payload.queryResults.$notes).toHaveLength(0);
+});
+
+test('the client\'s first render from the payload matches the server markup', async () => {
+  const source = createSource([
+    publishHypernote('notes', 200, page),
+    { id: 'n1', pubkey, kind: 1, created_at: 150, content: 'hello <from> the relay', tags: [], sig: '' }
+  ]);
+  const naddr = nip19.naddrEncode({ kind: 32616, pubkey, identifier: 'notes' });
+  const result = await prerenderHypernote(naddr, source);
+
+  const payload = JSON.parse(JSON.stringify(result.payload));
+  const client = renderToString(createElement(RenderHypernoteContent, { content: result.hypernote, initialData: payload }));
+
+  expect(client).toBe(result.html);
+});
+
+test('resolves nevent identifiers', async () => {
+  const event = { ...publishHypernote('single', 100, '# Single event'), id: 'c'.repeat(64) };
+  const nevent = nip19.neventEncode({ id: event.id });
+
+  const result = await prerenderHypernote(nevent, createSource([event]));
+
+  expect(result.html).toContain('<h1>Single event</h1>');
+});
+
+test('reports missing events and bad identifiers with HTTP statuses', async () => {
+  const naddr = nip19.naddrEncode({ kind: 32616, pubkey, identifier: 'missing' });
+
+  const missing = await prerenderHypernote(naddr, createSource([])).catch(e => e);
+  const invalid = await prerenderHypernote('not-an-naddr', createSource([])).catch(e => e);
+
+  expect(missing).toBeInstanceOf(SSRError);
+  expect(missing.status).toBe(404);
+  expect(invalid).toBeInstanceOf(SSRError);
+  expect(invalid.status).toBe(400);
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { parseTailwindClasses } from "../src/lib/tailwind-parser";
+import { parseTailwindClasses, styleToTailwindClasses } from "../src/lib/tailwind-parser";
 import { compileHypernoteToContent } from "../src/lib/compiler";
 import fs from "fs";
 import path from "path";
@@ -114,6 +114,23 @@ describe("Tailwind Parser", () => {
     const result = parseTailwindClasses("");
     expect(result).toBeNull();
   });
+
+  test("converts styles back to classes that parse to the same styles", () => {
+    const classes = "flex flex-col items-center justify-between gap-4 px-4 py-2 mt-2 w-full max-w-none text-lg font-bold text-gray-700 bg-blue-500 border-2 border-red-500 rounded-lg opacity-50 z-10 relative";
+    const style = parseTailwindClasses(classes)!;
+
+    const result = styleToTailwindClasses(style);
+
+    expect(result.unsupported).toEqual({});
+    expect(parseTailwindClasses(result.classes)).toEqual(style);
+  });
+
+  test("reports styles with no matching class", () => {
+    const result = styleToTailwindClasses({ padding: "1rem", color: "rebeccapurple", width: "13px" });
+
+    expect(result.classes).toBe("p-4");
+    expect(result.unsupported).toEqual({ color: "rebeccapurple", width: "13px" });
+  });
 });
 
 describe("Example Style Validation", () => {
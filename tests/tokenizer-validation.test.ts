@@ -318,4 +318,50 @@ test('Complex valid document should tokenize successfully', () => {
 [/if]`;
 
   expect(() => tokenize(content, true)).not.toThrow();
-});
\ No newline at end of file
+});
+test('Misplaced [else] and [elif] should throw error', () => {
+  const invalidCases = [
+    { content: '[else]\nNo if\n', code: 'ORPHAN_BRANCH' },
+    { content: '[if $a]\n[div]\n[else]\n[/div]\n[/if]', code: 'ORPHAN_BRANCH' },
+    { content: '[if $a]\nA\n[else]\nB\n[elif $b]\nC\n[/if]', code: 'BRANCH_AFTER_FINAL' },
+    { content: '[if $a]\nA\n[else]\nB\n[else]\nC\n[/if]', code: 'BRANCH_AFTER_FINAL' },
+    { content: '[if $a]\nA\n[else $b]\nB\n[/if]', code: 'INVALID_ELSE' },
+    { content: '[if $a]\nA\n[elif]\nB\n[/if]', code: 'EMPTY_CONDITION' },
+    { content: '[if $a]\nA\n[elif $b >]\nB\n[/if]', code: 'INVALID_EXPRESSION' }
+  ];
+
+  for (const { content, code } of invalidCases) {
+    expect(() => tokenize(content, true)).toThrow(TokenizerError);
+    try {
+      tokenize(content, true);
+    } catch (e) {
+      expect((e as TokenizerError).code).toBe(code);
+    }
+  }
+});
+
+test('Invalid loop index, key and [empty] placement should throw error', () => {
+  const invalidCases = [
+    { content: '[each $posts as $post, $1]\n[/each]', code: 'INVALID_LOOP_INDEX' },
+    { content: '[each $posts as $post, $post]\n[/each]', code: 'INVALID_LOOP_INDEX' },
+    { content: '[each $posts as $post key="$post.id >"]\n[/each]', code: 'INVALID_EXPRESSION' },
+    { content: '[if $a]\n[empty]\n[/if]', code: 'ORPHAN_BRANCH' },
+    { content: '[each $posts as $post]\n[empty]\nA\n[empty]\nB\n[/each]', code: 'BRANCH_AFTER_FINAL' },
+    { content: '[each $posts as $post]\n[empty $x]\n[/each]', code: 'INVALID_EMPTY' }
+  ];
+
+  for (const { content, code } of invalidCases) {
+    expect(() => tokenize(content, true)).toThrow(TokenizerError);
+    try {
+      tokenize(content, true);
+    } catch (e) {
+      expect((e as TokenizerError).code).toBe(code);
+    }
+  }
+});
+
+test('Mismatched component block closing tags should throw error', () => {
+  expect(() => tokenize('[#card $note.id]\n[div]\nText\n[/#card]\n[/div]', true))
+    .toThrow('Mismatched closing tag [/#card] - expected [/div]');
+  expect(() => tokenize('[#card $note.id]\nChildren\n[/#card]', true)).not.toThrow();
+});
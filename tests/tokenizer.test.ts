@@ -187,4 +187,144 @@ test("should correctly tokenize json element with dot notation", () => {
   expect(elements[0].type).toBe("json");
   expect(elements[0].attributes).toBeDefined();
   expect(elements[0].attributes.variable).toBe("$note.content");
-}); 
\ No newline at end of file
+}); 
+test("should parse [elif] and [else] branches of an if block", () => {
+  const testContent = '[if $loading]\nLoading...\n[elif $posts.length == 0]\nNo posts yet\n[else]\n[each $posts as $post]\n{$post.content}\n[/each]\n[/if]';
+  const tokens = tokenize(testContent, true);
+  
+  expect(tokens.find(t => t.type === TokenType.ELIF)?.attributes?.condition).toBe("$posts.length == 0");
+  expect(tokens.some(t => t.type === TokenType.ELSE)).toBe(true);
+  
+  const elements = parseTokens(tokens);
+  expect(elements.length).toBe(1);
+  expect(elements[0].type).toBe("if");
+  expect(elements[0].condition).toBe("$loading");
+  expect(elements[0].elements[0].content).toEqual(["Loading...", " "]);
+  expect(elements[0].branches).toEqual([
+    { condition: "$posts.length == 0", elements: [{ type: "p", content: ["No posts yet", " "] }] }
+  ]);
+  expect(elements[0].else[0].type).toBe("loop");
+});
+
+test("should keep nested [else] with its own if block", () => {
+  const testContent = '[if $a]\n[if $b]\nBoth\n[else]\nOnly a\n[/if]\n[else]\nNeither\n[/if]';
+  const elements = parseTokens(tokenize(testContent, true));
+  
+  expect(elements[0].else[0].content).toEqual(["Neither", " "]);
+  expect(elements[0].elements[0].type).toBe("if");
+  expect(elements[0].elements[0].else[0].content).toEqual(["Only a", " "]);
+});
+
+test("should omit branches and else for a plain if block", () => {
+  const elements = parseTokens(tokenize('[if $a]\nShown\n[/if]'));
+  
+  expect(elements[0].branches).toBeUndefined();
+  expect(elements[0].else).toBeUndefined();
+});
+
+test("should parse each loop with index variable, key and empty block", () => {
+  const testContent = '[each $posts as $post, $i key="$post.id"]\n{$i}: {$post.content}\n[empty]\nNo posts yet\n[/each]';
+  const tokens = tokenize(testContent, true);
+  
+  const eachToken = tokens.find(t => t.type === TokenType.EACH_START);
+  expect(eachToken?.attributes).toEqual({ source: "$posts", variable: "$post", index: "$i", key: "$post.id" });
+  
+  const elements = parseTokens(tokens);
+  expect(elements[0].type).toBe("loop");
+  expect(elements[0].source).toBe("$posts");
+  expect(elements[0].variable).toBe("$post");
+  expect(elements[0].index).toBe("$i");
+  expect(elements[0].key).toBe("$post.id");
+  expect(elements[0].elements[0].type).toBe("p");
+  expect(elements[0].empty).toEqual([{ type: "p", content: ["No posts yet", " "] }]);
+});
+
+test("should keep plain each loops unchanged", () => {
+  const elements = parseTokens(tokenize('[each $posts as $post]\n{$post.content}\n[/each]', true));
+  
+  expect(elements[0].variable).toBe("$post");
+  expect(elements[0].index).toBeUndefined();
+  expect(elements[0].key).toBeUndefined();
+  expect(elements[0].empty).toBeUndefined();
+});
+
+test("should parse named component props", () => {
+  const testContent = '[#card $note.id compact="true" limit=5 author=$note.pubkey]';
+  const elements = parseTokens(tokenize(testContent, true));
+  
+  expect(elements[0]).toEqual({
+    type: "component",
+    alias: "card",
+    argument: "$note.id",
+    props: { compact: "true", limit: "5", author: "{$note.pubkey}" }
+  });
+});
+
+test("should parse component props without an argument", () => {
+  const elements = parseTokens(tokenize('[#banner title="Hello {user.pubkey}"]', true));
+  
+  expect(elements[0].argument).toBe("");
+  expect(elements[0].props).toEqual({ title: "Hello {user.pubkey}" });
+});
+
+test("should reject prop names that can't be read as props.name", () => {
+  expect(() => tokenize('[#card $note.id my-prop="x"]', true)).toThrow('Invalid prop name "my-prop"');
+  expect(tokenize('[#card $note.id my_prop="x"]', true)[0].props).toEqual({ my_prop: "x" });
+});
+
+test("should parse component blocks with children", () => {
+  const testContent = '[#card $note.id compact="true"]\n## {$note.pubkey}\n[div slot="footer"]\nPosted {$note.created_at}\n[/div]\n[/#card]\n[#card $other.id]';
+  const tokens = tokenize(testContent, true);
+  
+  expect(tokens[0].type).toBe(TokenType.COMPONENT_START);
+  expect(tokens.some(t => t.type === TokenType.COMPONENT_END && t.value === "card")).toBe(true);
+  
+  const elements = parseTokens(tokens);
+  expect(elements.length).toBe(2);
+  expect(elements[0].type).toBe("component");
+  expect(elements[0].alias).toBe("card");
+  expect(elements[0].argument).toBe("$note.id");
+  expect(elements[0].props).toEqual({ compact: "true" });
+  expect(elements[0].elements[0]).toEqual({ type: "h2", content: ["{$note.pubkey}"] });
+  expect(elements[0].elements[1].type).toBe("div");
+  expect(elements[0].elements[1].attributes).toEqual({ slot: "footer" });
+  expect(elements[0].elements[1].elements[0].content).toEqual(["Posted ", "{$note.created_at}", " "]);
+});
+
+test("should keep a component leaf a leaf when a block of the same alias follows", () => {
+  const elements = parseTokens(tokenize('[#card $a.id]\n[#card $b.id]\nchild\n[/#card]', true));
+
+  expect(elements.length).toBe(2);
+  expect(elements[0].argument).toBe("$a.id");
+  expect(elements[0].elements).toBeUndefined();
+  expect(elements[1].argument).toBe("$b.id");
+  expect(elements[1].elements[0].content).toEqual(["child", " "]);
+});
+
+test("should pair nested component blocks of the same alias", () => {
+  const elements = parseTokens(tokenize('[#card $a.id]\n[#card $b.id]\ninner\n[/#card]\n[/#card]', true));
+
+  expect(elements.length).toBe(1);
+  expect(elements[0].argument).toBe("$a.id");
+  expect(elements[0].elements[0].argument).toBe("$b.id");
+});
+
+test("should close a component leaf with its container and pair blocks without strict mode", () => {
+  const strict = parseTokens(tokenize('[div]\n[#card $a.id]\n[/div]\n[#card $b.id]\nchild\n[/#card]', true));
+  const loose = parseTokens(tokenize('[#card $a.id]\n[#card $b.id]\ninner\n[/#card]\n[/#card]', false));
+
+  expect(strict[0].elements[0].argument).toBe("$a.id");
+  expect(strict[0].elements[0].elements).toBeUndefined();
+  expect(strict[1].elements[0].content).toEqual(["child", " "]);
+  expect(loose.length).toBe(1);
+  expect(loose[0].elements[0].argument).toBe("$b.id");
+});
+
+test("should parse slot placeholders in component definitions", () => {
+  const elements = parseTokens(tokenize('[div]\n[slot]\n[slot name="footer"]\n[/div]', true));
+  
+  expect(elements[0].elements).toEqual([
+    { type: "slot", content: [] },
+    { type: "slot", content: [], attributes: { name: "footer" } }
+  ]);
+});
@@ -0,0 +1,158 @@
+import { test, expect } from 'bun:test';
+import { nip19 } from 'nostr-tools';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { compileHypernoteToContent } from '../src/lib/compiler';
+import { decompileHypernote } from '../src/lib/decompiler';
+import { RelayActionExecutor } from '../src/lib/adapters';
+import { createToolCall, listTools, parseServerPubkey, ContextVMError, type ActionState } from '../src/lib/contextvm';
+import { toolFields, parseToolArguments, type ToolDescription } from '../src/lib/core/tools';
+import { LocalKeySigner } from '../src/lib/signers/local';
+import { approveAll } from '../src/lib/signing-review';
+import { memoryRelay } from './relay-stand-in';
+
+const makeMove: ToolDescription = {
+  name: 'make_move',
+  title: 'Make a move',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      move: { type: 'string', title: 'Move', description: 'SAN, e.g. e4' },
+      promotion: { enum: ['q', 'r', 'b', 'n'] },
+      think_ms: { type: ['integer', 'null'], default: 500 },
+      resign: { type: 'boolean' },
+      options: { type: 'object' }
+    },
+    required: ['move']
+  }
+};
+
+type Relay = ReturnType<typeof memoryRelay>;
+
+// Stands in for a ContextVM server - lists tools one per page and echoes tools/call arguments
+function startToolServer(relay: Relay, tools: ToolDescription[], key = generateSecretKey()) {
+  const pubkey = getPublicKey(key);
+  const reply = (request: any, message: object) => relay.publishEvent(finalizeEvent({
+    kind: 25910,
+    content: JSON.stringify({ jsonrpc: '2.0', ...message }),
+    tags: [['e', request.id], ['p', request.pubkey]],
+    created_at: Math.floor(Date.now() / 1000)
+  }, key));
+
+  relay.subscribeLive([{ kinds: [25910], '#p': [pubkey] }], (request) => {
+    const { id, method, params } = JSON.parse(request.content);
+    if (method === 'tools/list') {
+      const page = Number(params?.cursor || 0);
+      const nextCursor = page + 1 < tools.length ? String(page + 1) : undefined;
+      return reply(request, { id, result: { tools: tools.slice(page, page + 1), nextCursor } });
+    }
+    reply(request, { id, result: { content: [{ type: 'text', text: JSON.stringify({ received: params.arguments }) }] } });
+  });
+  return { pubkey, npub: nip19.npubEncode(pubkey) };
+}
+
+test('tool fields follow the inputSchema properties', () => {
+  const fields = toolFields(makeMove);
+
+  expect(fields.map((field) => [field.name, field.type, field.required])).toEqual([
+    ['move', 'string', true],
+    ['promotion', 'enum', false],
+    ['think_ms', 'integer', false],
+    ['resign', 'boolean', false],
+    ['options', 'json', false]
+  ]);
+  expect(fields[0]).toMatchObject({ label: 'Move', description: 'SAN, e.g. e4' });
+  expect(fields[1].options).toEqual(['q', 'r', 'b', 'n']);
+  expect(fields[2].default).toBe('500');
+});
+
+test('tool arguments are typed and validated', () => {
+  const fields = toolFields(makeMove);
+
+  expect(parseToolArguments(fields, { move: 'e4', think_ms: '250', resign: 'false', options: '{"ponder":true}' })).toEqual({
+    args: { move: 'e4', think_ms: 250, resign: false, options: { ponder: true } },
+    errors: {}
+  });
+  expect(parseToolArguments(fields, { promotion: 'k', think_ms: '2.5', options: '{' }).errors).toEqual({
+    move: 'Required',
+    promotion: 'Must be one of q, r, b, n',
+    think_ms: 'Must be a whole number',
+    options: 'Must be valid JSON'
+  });
+});
+
+test('[tool] compiles and decompiles', () => {
+  const source = '[tool server="npub1server" name="make_move" class="mt-2"]';
+  const compiled = compileHypernoteToContent(source);
+
+  expect(compiled.elements[0]).toMatchObject({ type: 'tool', server: 'npub1server', tool: 'make_move', style: { marginTop: '0.5rem' } });
+  expect(decompileHypernote(compiled).trim()).toBe(source);
+  expect(() => compileHypernoteToContent('[tool name="make_move"]')).toThrow('[tool] needs server="npub..." and name="tool_name"');
+});
+
+test('tools/list follows pagination and reports servers that never answer', async () => {
+  const relay = memoryRelay();
+  const server = startToolServer(relay, [makeMove, { name: 'new_game' }]);
+
+  const tools = await listTools(relay, parseServerPubkey(server.npub)!, { timeout: 1000 });
+  const silent = await listTools(relay, getPublicKey(generateSecretKey()), { timeout: 20 }).catch(e => e);
+
+  expect(tools.map((tool) => tool.name)).toEqual(['make_move', 'new_game']);
+  expect(silent).toBeInstanceOf(ContextVMError);
+  expect(silent.message).toBe('tools/list failed: No response from the server within 0.02s');
+});
+
+test('tool requests stop listening when they cannot be published', async () => {
+  const relay = memoryRelay({ refuse: 'blocked: no thanks' });
+
+  const error = await listTools(relay, getPublicKey(generateSecretKey()), { timeout: 1000 }).catch(e => e);
+  const executor = new RelayActionExecutor(relay, LocalKeySigner.generate(), null, approveAll, 1000);
+  const eventId = await executor.execute('@tool:make_move', {}, {
+    version: '1.1.0',
+    component_kind: null,
+    elements: [],
+    events: { '@tool:make_move': createToolCall(getPublicKey(generateSecretKey()), 'make_move', { move: 'e4' }) }
+  } as any, { queryResults: {}, extractedVariables: {}, userPubkey: null, literal: true });
+
+  expect(error.message).toContain('blocked: no thanks');
+  expect(eventId).toBeUndefined();
+  expect(relay.subscriptionCount).toBe(0);
+});
+
+test('a generated tools/call is published like a declared event and tracks the response', async () => {
+  const relay = memoryRelay();
+  const server = startToolServer(relay, [makeMove]);
+  const states: ActionState[] = [];
+  const executor = new RelayActionExecutor(relay, LocalKeySigner.generate(), null, approveAll, 1000);
+  const { args } = parseToolArguments(toolFields(makeMove), { move: 'e4' });
+
+  await executor.execute('@tool:make_move', {}, {
+    version: '1.1.0',
+    component_kind: null,
+    elements: [],
+    events: { '@tool:make_move': createToolCall(server.pubkey, 'make_move', args) }
+  } as any, { queryResults: {}, extractedVariables: {}, userPubkey: null, onActionState: (state) => states.push(state) });
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  const request = relay.published[0];
+  expect(request.tags).toEqual([['p', server.pubkey]]);
+  expect(JSON.parse(request.content)).toMatchObject({ jsonrpc: '2.0', method: 'tools/call', params: { name: 'make_move', arguments: { move: 'e4' } } });
+  expect(states).toEqual([
+    { id: request.id, pending: true },
+    { id: request.id, pending: false, result: { received: { move: 'e4' } } }
+  ]);
+});
+
+test('tool arguments with braces are sent as typed, not evaluated', async () => {
+  const relay = memoryRelay();
+  const executor = new RelayActionExecutor(relay, LocalKeySigner.generate(), null, approveAll, 20);
+  const args = { move: 'literal {user.pubkey} and {1 + 1}' };
+
+  await executor.execute('@tool:make_move', {}, {
+    version: '1.1.0',
+    component_kind: null,
+    elements: [],
+    events: { '@tool:make_move': createToolCall(getPublicKey(generateSecretKey()), 'make_move', args) }
+  } as any, { queryResults: {}, extractedVariables: {}, userPubkey: 'abc', literal: true });
+
+  expect(JSON.parse(relay.published[0].content).params.arguments).toEqual(args);
+});